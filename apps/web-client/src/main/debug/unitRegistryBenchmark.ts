@@ -0,0 +1,123 @@
+/**
+ * UnitRegistry benchmark - Times indexed unit queries on a large, seeded army
+ *
+ * Fills a fresh UnitRegistry (never the live game's) with units spread over a
+ * map, then times each hot query many times and reports the average and worst
+ * call. For comparison it also times the full scan the indexes replaced.
+ * Pure TypeScript: runs in the browser (debug key) or in Node.
+ *
+ * Usage example:
+ * ```typescript
+ * const results = runUnitRegistryBenchmark(); // 50k units
+ * console.table(results);
+ * ```
+ */
+
+import { SeededRandom } from '../logic/SeededRandom';
+import { UnitRegistry, UnitState } from '../logic/UnitRegistry';
+import type { GridPosition, Unit } from '../logic/UnitRegistry';
+
+/**
+ * Benchmark parameters
+ */
+export interface UnitRegistryBenchmarkOptions {
+    /** Units to create (default: 50,000) */
+    unitCount?: number;
+
+    /** Map width and height in tiles (default: 512) */
+    mapSize?: number;
+
+    /** Number of owners the units are spread over (default: 8) */
+    ownerCount?: number;
+
+    /** Units selected before timing selection queries (default: 8) */
+    selectedCount?: number;
+
+    /** Calls per query (default: 1,000) */
+    iterations?: number;
+
+    /** Seed for unit placement and query positions (default: 1) */
+    seed?: number | string;
+}
+
+/**
+ * Timing of one query
+ */
+export interface BenchmarkResult {
+    query: string;
+    iterations: number;
+
+    /** Average time per call in milliseconds */
+    avgMs: number;
+
+    /** Slowest call in milliseconds */
+    maxMs: number;
+}
+
+/**
+ * Time a query over a list of inputs (after an untimed warm-up so JIT compilation is not measured)
+ */
+function time<T>(query: string, inputs: T[], run: (input: T) => unknown): BenchmarkResult {
+    inputs.slice(0, 10).forEach(run);
+
+    let total = 0;
+    let max = 0;
+    for (const input of inputs) {
+        const start = performance.now();
+        run(input);
+        const elapsed = performance.now() - start;
+        total += elapsed;
+        max = Math.max(max, elapsed);
+    }
+    return { query, iterations: inputs.length, avgMs: total / inputs.length, maxMs: max };
+}
+
+/**
+ * Run the benchmark
+ * @param options - Benchmark parameters
+ * @returns One timing row per query
+ */
+export function runUnitRegistryBenchmark(options: UnitRegistryBenchmarkOptions = {}): BenchmarkResult[] {
+    const unitCount = options.unitCount ?? 50_000;
+    const mapSize = options.mapSize ?? 512;
+    const ownerCount = options.ownerCount ?? 8;
+    const selectedCount = options.selectedCount ?? 8;
+    const iterations = options.iterations ?? 1_000;
+    const rng = new SeededRandom(options.seed ?? 1);
+    const randomTile = (): GridPosition => ({ x: rng.nextInt(0, mapSize - 1), y: rng.nextInt(0, mapSize - 1) });
+
+    const registry = new UnitRegistry();
+    const unitTypes = registry.getCatalog().getAll();
+    for (let i = 0; i < unitCount; i++) {
+        registry.addUnit({
+            unitType: unitTypes[i % unitTypes.length].id,
+            ownerId: 1 + (i % ownerCount),
+            gridPos: randomTile(),
+        });
+    }
+    for (let id = 1; id <= selectedCount; id++) {
+        registry.setUnitState(id, UnitState.SELECTED, true);
+    }
+
+    // Inputs are generated up front so only the queries are timed
+    const tiles = Array.from({ length: iterations }, randomTile);
+    const owners = Array.from({ length: iterations }, (_, i) => 1 + (i % ownerCount));
+    const moves = Array.from({ length: iterations }, () => ({ id: rng.nextInt(1, unitCount), pos: randomTile() }));
+    const allUnits: Unit[] = registry.getAllUnits();
+
+    return [
+        time('getUnitsAt', tiles, pos => registry.getUnitsAt(pos)),
+        time('getStackAt', tiles, pos => registry.getStackAt(pos, 1)),
+        time('getUnitsByOwner', owners, owner => registry.getUnitsByOwner(owner)),
+        time('getSelectedUnits', owners, () => registry.getSelectedUnits()),
+        time('moveUnit', moves, ({ id, pos }) => registry.moveUnit(id, pos)),
+        time('setUnitState (select/deselect)', moves, ({ id }) => {
+            registry.setUnitState(id, UnitState.SELECTED, true);
+            registry.setUnitState(id, UnitState.SELECTED, false);
+        }),
+        // The full scan getUnitsAt used before the spatial hash, for comparison
+        time('full scan (old getUnitsAt)', tiles.slice(0, 100), pos =>
+            allUnits.filter(unit => unit.gridPos.x === pos.x && unit.gridPos.y === pos.y)
+        ),
+    ];
+}
@@ -0,0 +1,342 @@
+import { SAB_OFFSETS } from '../shared/constants';
+import { BrushShape, MAX_BRUSH_SIZE } from '../shared/editorBrush';
+import { BuildingType, TerrainType } from './logic/WorldContainer';
+import { DEFAULT_CITY_WIDTH } from './logic/CityRegistry';
+import { EditRejectReason, MapEditor, MAX_EDITOR_BUILDING_LEVEL } from './logic/MapEditor';
+import type { EditResult } from './logic/MapEditor';
+import type { Scenario, ScenarioData } from './logic/Scenario';
+import type { TurnManager } from './logic/TurnManager';
+import type { UnitRegistry } from './logic/UnitRegistry';
+
+/**
+ * Map editor tools (what a click on the map does)
+ */
+enum EditorTool {
+    PAINT = 'paint',
+    FLOOD_FILL = 'flood_fill',
+    RECT_FILL = 'rect_fill',
+    BUILDING = 'building',
+    CITY = 'city',
+    UNIT = 'unit',
+    ERASE_BUILDINGS = 'erase_buildings',
+    ERASE_UNITS = 'erase_units',
+}
+
+/**
+ * Tool names shown in the panel
+ */
+const TOOL_LABELS: Record<EditorTool, string> = {
+    [EditorTool.PAINT]: 'Paint terrain',
+    [EditorTool.FLOOD_FILL]: 'Flood fill',
+    [EditorTool.RECT_FILL]: 'Rectangle fill',
+    [EditorTool.BUILDING]: 'Place building',
+    [EditorTool.CITY]: 'Place city',
+    [EditorTool.UNIT]: 'Place unit',
+    [EditorTool.ERASE_BUILDINGS]: 'Erase buildings',
+    [EditorTool.ERASE_UNITS]: 'Erase units',
+};
+
+/**
+ * Tools that paint with the brush while the mouse button is held (one undo step per drag)
+ */
+const STROKE_TOOLS: readonly EditorTool[] = [EditorTool.PAINT, EditorTool.ERASE_BUILDINGS, EditorTool.ERASE_UNITS];
+
+/**
+ * Setup the map editor
+ * The "Map editor" button (or 'E') opens the editor panel: pick a tool, terrain, building,
+ * owner and unit type, and the brush size and shape ('[' and ']' change the size).
+ * While the editor is open, left clicks on the map edit instead of selecting units; the
+ * worker's EditorOverlayLayer shows the tiles under the brush (read from the SAB like the
+ * hovered tile). Edits go through the command history (Ctrl+Z undoes a whole drag) and
+ * reach the worker as incremental map updates. Export downloads the map as a scenario
+ * file; Import loads one with the same map size and players.
+ */
+export function setupMapEditor(
+    sab: SharedArrayBuffer,
+    editor: MapEditor,
+    scenario: Scenario,
+    turns: TurnManager,
+    unitRegistry: UnitRegistry
+): void {
+    const view = new Float32Array(sab);
+    const uiRoot = document.getElementById('ui-root');
+    if (!uiRoot) return;
+
+    let open = false;
+
+    // Panel in the top-left corner; presses on it never reach the map handlers on window
+    // (releases still do, so a drag that ends over the panel finishes normally)
+    const root = document.createElement('div');
+    root.style.cssText = 'pointer-events: auto; margin: 8px; padding: 6px; font: 12px sans-serif; color: #eee; ' +
+        'background: rgba(20, 20, 20, 0.85); border-radius: 4px; display: flex; flex-direction: column; gap: 4px; width: 180px;';
+    for (const type of ['mousedown', 'click', 'wheel'] as const) {
+        root.addEventListener(type, e => e.stopPropagation());
+    }
+    // Typing a city name must not trigger the game's key bindings
+    root.addEventListener('keydown', (e) => {
+        if (e.target instanceof HTMLInputElement) e.stopPropagation();
+    });
+    uiRoot.appendChild(root);
+
+    const toggleButton = document.createElement('button');
+    toggleButton.textContent = 'Map editor';
+    root.appendChild(toggleButton);
+
+    const panel = document.createElement('div');
+    panel.style.cssText = 'display: none; flex-direction: column; gap: 4px;';
+    root.appendChild(panel);
+
+    // Labelled <select> with [value, text] options
+    const addSelect = (label: string, options: [string, string][]): HTMLSelectElement => {
+        const select = document.createElement('select');
+        for (const [value, text] of options) {
+            select.add(new Option(text, value));
+        }
+        addRow(label, select);
+        return select;
+    };
+
+    const addRow = (label: string, control: HTMLElement) => {
+        const row = document.createElement('label');
+        row.style.cssText = 'display: flex; justify-content: space-between; gap: 6px;';
+        row.append(label, control);
+        panel.appendChild(row);
+    };
+
+    const enumOptions = (values: Record<string, string | number>, exclude: string[] = []): [string, string][] =>
+        Object.keys(values)
+            .filter(key => Number.isNaN(Number(key)) && !exclude.includes(key))
+            .map(key => [String(values[key]), key]);
+
+    const toolSelect = addSelect('Tool', Object.values(EditorTool).map(tool => [tool, TOOL_LABELS[tool]]));
+    const terrainSelect = addSelect('Terrain', enumOptions(TerrainType));
+    const buildingSelect = addSelect('Building', enumOptions(BuildingType, ['NONE', 'CITY']));
+
+    const levelInput = document.createElement('input');
+    levelInput.type = 'number';
+    levelInput.min = '1';
+    levelInput.max = String(MAX_EDITOR_BUILDING_LEVEL);
+    levelInput.value = '1';
+    levelInput.style.width = '48px';
+    addRow('Level', levelInput);
+
+    const ownerSelect = addSelect('Owner', [
+        ['0', 'Neutral'],
+        ...turns.getPlayers().map((player): [string, string] => [String(player.id), player.name]),
+    ]);
+    ownerSelect.value = String(turns.getPlayers()[0].id);
+
+    const unitSelect = addSelect('Unit', unitRegistry.getCatalog().getAll()
+        .filter(type => !type.hero)
+        .map((type): [string, string] => [String(type.id), type.name]));
+
+    const cityNameInput = document.createElement('input');
+    cityNameInput.value = 'New city';
+    cityNameInput.style.width = '90px';
+    addRow('City name', cityNameInput);
+
+    const sizeInput = document.createElement('input');
+    sizeInput.type = 'range';
+    sizeInput.min = '1';
+    sizeInput.max = String(MAX_BRUSH_SIZE);
+    sizeInput.value = String(editor.getBrush().size);
+    addRow('Brush size', sizeInput);
+
+    const shapeSelect = addSelect('Brush shape', enumOptions(BrushShape));
+
+    const exportButton = document.createElement('button');
+    exportButton.textContent = 'Export scenario';
+    const importButton = document.createElement('button');
+    importButton.textContent = 'Import scenario';
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    fileInput.style.display = 'none';
+    panel.append(exportButton, importButton, fileInput);
+
+    const getTool = () => toolSelect.value as EditorTool;
+    const getOwnerId = () => Number(ownerSelect.value);
+
+    // Brush written to the SAB for the overlay: only the stroke tools paint with the brush;
+    // the city tool shows the city's footprint, the other tools a single tile
+    const updateOverlay = () => {
+        const brush = editor.setBrush({ size: Number(sizeInput.value), shape: Number(shapeSelect.value) as BrushShape });
+        const tool = getTool();
+        const size = STROKE_TOOLS.includes(tool) ? brush.size : tool === EditorTool.CITY ? DEFAULT_CITY_WIDTH : 1;
+
+        view[SAB_OFFSETS.EDITOR_ACTIVE] = open ? 1.0 : 0.0;
+        view[SAB_OFFSETS.EDITOR_BRUSH_SIZE] = size;
+        view[SAB_OFFSETS.EDITOR_BRUSH_SHAPE] = STROKE_TOOLS.includes(tool) ? brush.shape : BrushShape.SQUARE;
+    };
+    for (const control of [toolSelect, sizeInput, shapeSelect]) {
+        control.addEventListener('input', updateOverlay);
+    }
+
+    const setOpen = (value: boolean) => {
+        open = value;
+        panel.style.display = open ? 'flex' : 'none';
+        toggleButton.textContent = open ? 'Close map editor' : 'Map editor';
+        if (open) unitRegistry.clearSelection(); // Clicks edit the map now
+        updateOverlay();
+        console.log(`Victoriae [Editor]: Map editor ${open ? 'opened' : 'closed'}`);
+    };
+    toggleButton.addEventListener('click', () => setOpen(!open));
+    updateOverlay();
+
+    window.addEventListener('keydown', (e) => {
+        if (e.ctrlKey || e.metaKey) return;
+
+        if (e.code === 'KeyE') {
+            e.preventDefault();
+            setOpen(!open);
+        } else if (open && (e.code === 'BracketLeft' || e.code === 'BracketRight')) {
+            e.preventDefault();
+            sizeInput.value = String(Number(sizeInput.value) + (e.code === 'BracketRight' ? 1 : -1));
+            updateOverlay();
+        }
+    });
+
+    const getHoveredTile = () => {
+        const x = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_X]);
+        const y = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_Y]);
+        return x < 0 || y < 0 ? null : { x, y };
+    };
+
+    const logResult = (result: EditResult) => {
+        if (result.success) {
+            console.log(`Victoriae [Editor]: ${result.label}`, { changed: result.changed });
+        } else if (result.reason !== EditRejectReason.NO_CHANGE) {
+            console.log('Victoriae [Editor]: Edit rejected', { reason: result.reason, message: result.message });
+        }
+    };
+
+    // Apply the current tool at a tile (stroke tools are called again for every tile the mouse enters)
+    const applyTool = (tile: { x: number; y: number }): EditResult => {
+        const ownerId = getOwnerId();
+        switch (getTool()) {
+            case EditorTool.PAINT:
+                return editor.paintTerrain(tile, Number(terrainSelect.value));
+            case EditorTool.FLOOD_FILL:
+                return editor.fillTerrain(tile, Number(terrainSelect.value));
+            case EditorTool.BUILDING:
+                return editor.placeBuilding(tile, Number(buildingSelect.value), Number(levelInput.value), ownerId);
+            case EditorTool.CITY:
+                return editor.placeCity(tile, cityNameInput.value || 'New city', ownerId);
+            case EditorTool.UNIT:
+                return editor.placeUnit(tile, Number(unitSelect.value), ownerId);
+            case EditorTool.ERASE_BUILDINGS:
+                return editor.removeBuildings(tile);
+            case EditorTool.ERASE_UNITS:
+            default:
+                return editor.removeUnits(tile);
+        }
+    };
+
+    // Left button held on the map: strokes follow the hovered tile every frame until release
+    let held = false; // Set and cleared synchronously, so a release during the delay below is seen
+    let pressed = false;
+    let rectStart: { x: number; y: number } | null = null;
+    let lastTile = '';
+
+    const followStroke = () => {
+        if (!pressed) return;
+
+        const tile = getHoveredTile();
+        if (tile && `${tile.x},${tile.y}` !== lastTile) {
+            lastTile = `${tile.x},${tile.y}`;
+            const result = applyTool(tile);
+            if (!result.success) logResult(result);
+        }
+        requestAnimationFrame(followStroke);
+    };
+
+    window.addEventListener('mousedown', (e) => {
+        if (!open || e.button !== 0 || view[SAB_OFFSETS.CAPTURED_LAYER_ID] >= 0) return;
+        held = true;
+
+        // Small delay so the worker has calculated the hovered tile (as for unit selection)
+        setTimeout(() => {
+            const tile = getHoveredTile();
+            if (!tile) return;
+
+            const tool = getTool();
+            if (!held) {
+                // Released before the delay ran out: a click edits the tile once
+                logResult(tool === EditorTool.RECT_FILL
+                    ? editor.fillRect(tile, tile, Number(terrainSelect.value))
+                    : applyTool(tile));
+            } else if (tool === EditorTool.RECT_FILL) {
+                rectStart = tile;
+                view[SAB_OFFSETS.EDITOR_RECT_START_X] = tile.x;
+                view[SAB_OFFSETS.EDITOR_RECT_START_Y] = tile.y;
+                view[SAB_OFFSETS.EDITOR_RECT_ACTIVE] = 1.0;
+            } else if (STROKE_TOOLS.includes(tool)) {
+                pressed = true;
+                lastTile = '';
+                editor.beginStroke();
+                followStroke();
+            } else {
+                logResult(applyTool(tile));
+            }
+        }, 10);
+    });
+
+    window.addEventListener('mouseup', (e) => {
+        if (e.button !== 0) return;
+        held = false;
+
+        if (pressed) {
+            pressed = false;
+            const edits = editor.endStroke();
+            if (edits > 0) console.log('Victoriae [Editor]: Stroke finished', { edits });
+        }
+
+        if (rectStart) {
+            const start = rectStart;
+            rectStart = null;
+            view[SAB_OFFSETS.EDITOR_RECT_ACTIVE] = 0.0;
+
+            const end = getHoveredTile();
+            if (end) logResult(editor.fillRect(start, end, Number(terrainSelect.value)));
+        }
+    });
+
+    exportButton.addEventListener('click', () => {
+        const data = editor.exportScenario(scenario.getData());
+        const file = new Blob([JSON.stringify(data, null, 4)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(file);
+        link.download = `${data.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+
+        console.log('Victoriae [Editor]: Scenario exported', {
+            file: link.download,
+            cities: data.cities?.length ?? 0,
+            units: data.units?.length ?? 0
+        });
+    });
+
+    importButton.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = ''; // Picking the same file again still fires 'change'
+        if (!file) return;
+
+        let data: ScenarioData;
+        try {
+            data = JSON.parse(await file.text());
+        } catch (error) {
+            console.error('Victoriae [Editor]: Scenario file is not valid JSON', { file: file.name, error });
+            return;
+        }
+
+        unitRegistry.clearSelection();
+        const result = editor.importScenario(data);
+        if (!result.success) {
+            console.error(`Victoriae [Editor]: Scenario not imported (${result.reason}):\n${result.message}`);
+            return;
+        }
+        console.log('Victoriae [Editor]: Scenario imported', { file: file.name, cities: result.cities, units: result.units });
+    });
+}
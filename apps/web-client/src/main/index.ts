@@ -1,8 +1,63 @@
 import { SAB_SIZE, SAB_OFFSETS } from '../shared/constants';
 import RenderWorker from '../worker/render.worker?worker';
 import { setupInput } from './input';
+import { setupMapEditor } from './editor';
+import { UnitRegistry, MAX_STACK_SIZE } from './logic/UnitRegistry';
+import { Pathfinder } from './logic/Pathfinder';
+import { MovementController } from './logic/MovementController';
+import { TurnManager, TurnPhase } from './logic/TurnManager';
+import { SelectionController } from './logic/SelectionController';
+import { CommandHistory } from './logic/CommandHistory';
+import { AddUnitCommand } from './logic/GameCommands';
+import { GameController } from './logic/GameController';
+import type { CityCapture } from './logic/GameController';
+import { AIPlayer } from './logic/AIPlayer';
+import { SimpleAIStrategy } from './logic/SimpleAIStrategy';
+import { HeadlessGame } from './logic/HeadlessGame';
+import { VictoryConditionType, VictorySystem } from './logic/VictorySystem';
+import type { VictoryRules } from './logic/VictorySystem';
+import { VisibilitySystem } from './logic/VisibilitySystem';
+import { DiplomacySystem, DiplomaticState } from './logic/DiplomacySystem';
+import { GameStateCoordinator } from './logic/GameStateCoordinator';
+import { CityRegistry } from './logic/CityRegistry';
+import { Economy } from './logic/Economy';
+import { ProductionSystem } from './logic/ProductionSystem';
+import { CombatResolver } from './logic/CombatResolver';
+import type { BattleResult } from './logic/CombatResolver';
+import { HeroSystem } from './logic/HeroSystem';
+import { MapEditor } from './logic/MapEditor';
+import { Scenario, createRandomScenario } from './logic/Scenario';
+import type { ScenarioData } from './logic/Scenario';
+import { runUnitRegistryBenchmark } from './debug/unitRegistryBenchmark';
 import { WorldContainer } from './logic/WorldContainer';
-import { UnitRegistry, UnitType, UnitState } from './logic/UnitRegistry';
+import { StateDeltaRecorder, applyGameState, createGameState } from './network/GameProtocol';
+import * as pb from '../shared/proto/game';
+
+// Map dimensions in tiles when no scenario is given (Warlords-style maps are wider than they are tall)
+const MAP_WIDTH = 96;
+const MAP_HEIGHT = 64;
+
+// Player controlled by this client (fog of war is rendered from their point of view);
+// in hot-seat games (?hotseat=<players>) the local player is whoever's turn it is
+const LOCAL_PLAYER_ID = 1;
+
+// Most human players a hot-seat game can seat
+const MAX_HOT_SEAT_PLAYERS = 8;
+
+// Most computer players a game can add (?ai=<players>)
+const MAX_AI_PLAYERS = 7;
+
+// Pause before a computer player gives its orders, so the previous turn's changes are rendered first
+const AI_TURN_DELAY_MS = 250;
+
+// Scenarios shipped with the client, loaded on demand (?scenario=<file name without .json>)
+const SCENARIO_FILES = import.meta.glob<ScenarioData>('./data/scenarios/*.json', { import: 'default' });
+
+// Names handed out to cities founded with the debug key
+const DEBUG_CITY_NAMES = ['Marthos', 'Shinbar', 'Kor', 'Eliath', 'Ilnyr', 'Troy', 'Dunethal', 'Balad'];
+
+// Names handed out to heroes created with the debug key
+const DEBUG_HERO_NAMES = ['Sirian', 'Lord Bane', 'Elrasa', 'Horst', 'Dwyn', 'Aldric'];
 
 function resizeCanvas(canvas: HTMLCanvasElement) {
     // Get device pixel ratio for crisp rendering on high-DPI displays
@@ -24,6 +79,29 @@ function resizeCanvas(canvas: HTMLCanvasElement) {
     return { width: canvas.width, height: canvas.height };
 }
 
+/**
+ * Convert screen coordinates (canvas pixels) to world coordinates
+ * Matches the WorldLayer shader's camera transformation.
+ */
+function screenToWorld(screenX: number, screenY: number, camX: number, camY: number, zoom: number, screenWidth: number, screenHeight: number): [number, number] {
+    // Convert screen pixel to NDC (-1 to 1)
+    const ndcRawX = (screenX / screenWidth) * 2.0 - 1.0;
+    const ndcRawY = (screenY / screenHeight) * 2.0 - 1.0;
+    // Flip Y axis
+    const ndcX = ndcRawX;
+    const ndcY = -ndcRawY;
+
+    // Calculate world position
+    const aspectRatio = screenWidth / screenHeight;
+    const worldSizeY = 2.0 / zoom;
+    const worldSizeX = worldSizeY * aspectRatio;
+
+    const worldX = ndcX * (worldSizeX * 0.5) + camX;
+    const worldY = ndcY * (worldSizeY * 0.5) + camY;
+
+    return [worldX, worldY];
+}
+
 async function init() {
     const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
     if (!canvas) return;
@@ -38,11 +116,21 @@ async function init() {
     const sab = new SharedArrayBuffer(SAB_SIZE);
     const sabView = new Float32Array(sab);
 
+    // 3. Load the scenario and create its WorldContainer
+    // Pass ?scenario=<name> (a file in data/scenarios) or ?scenario=<url>.json to play a scenario;
+    // without one the game starts on a seeded procedural map (?seed=<value> reproduces a map)
+    const urlParams = new URLSearchParams(window.location.search);
+    const scenario = await loadScenario(urlParams);
+    const worldContainer = scenario.createWorld();
+    console.log(`Victoriae [Main Thread]: WorldContainer created for scenario "${scenario.getName()}" (${worldContainer.getWidth()}x${worldContainer.getHeight()})`, {
+        seed: worldContainer.getGenerationOptions().seed
+    });
+
     // Initialize default values
-    // Center camera on the map (64x64 map, so center at 32, 32)
+    // Center camera on the map
     // Zoom level 1.0 shows about 2 world units, so zoom of 0.1 shows 20 units (good for overview)
-    sabView[SAB_OFFSETS.CAMERA_X] = 32.0; // Center of 64x64 map
-    sabView[SAB_OFFSETS.CAMERA_Y] = 32.0; // Center of 64x64 map
+    sabView[SAB_OFFSETS.CAMERA_X] = worldContainer.getWidth() * 0.5; // Center of map
+    sabView[SAB_OFFSETS.CAMERA_Y] = worldContainer.getHeight() * 0.5; // Center of map
     sabView[SAB_OFFSETS.CAMERA_ZOOM] = 0.1; // Zoom out to see more of the map
     sabView[SAB_OFFSETS.MOUSE_WORLD_X] = 0.0;
     sabView[SAB_OFFSETS.MOUSE_WORLD_Y] = 0.0;
@@ -52,6 +140,11 @@ async function init() {
     sabView[SAB_OFFSETS.CAPTURED_LAYER_ID] = -1.0; // -1 means no layer has captured input
     sabView[SAB_OFFSETS.HOVERED_TILE_X] = -1.0; // -1 means no tile hovered
     sabView[SAB_OFFSETS.HOVERED_TILE_Y] = -1.0; // -1 means no tile hovered
+    sabView[SAB_OFFSETS.MAP_WIDTH] = worldContainer.getWidth();
+    sabView[SAB_OFFSETS.MAP_HEIGHT] = worldContainer.getHeight();
+    sabView[SAB_OFFSETS.SELECTION_BOX_ACTIVE] = 0.0; // No selection box until the player drags
+    sabView[SAB_OFFSETS.EDITOR_ACTIVE] = 0.0; // Map editor closed until opened from the UI
+    sabView[SAB_OFFSETS.EDITOR_RECT_ACTIVE] = 0.0;
 
     console.log('Victoriae [Main Thread]: SharedArrayBuffer created', {
         size: SAB_SIZE,
@@ -59,16 +152,132 @@ async function init() {
         canvasSize: `${width}x${height}`
     });
 
-    // 3. Create WorldContainer with random map data
-    const worldContainer = new WorldContainer(64);
-    console.log('Victoriae [Main Thread]: WorldContainer created with random 64x64 map');
-
     // 3.5. Create UnitRegistry for managing units
     const unitRegistry = new UnitRegistry();
     console.log('Victoriae [Main Thread]: UnitRegistry created');
 
+    // 3.55. Create TurnManager with the scenario's players (hot-seat if several humans share this machine;
+    // computer players play their own turns)
+    const turns = new TurnManager(scenario.getPlayers(), { hotSeat: scenario.isHotSeat() });
+    const localPlayerId = turns.getPlayers().find(player => player.kind === 'human')?.id ?? turns.getPlayers()[0].id;
+
+    // 3.56. Create DiplomacySystem (everyone starts at war; peace stops attacks, allies share tiles and vision)
+    const diplomacy = new DiplomacySystem({ turns, units: unitRegistry });
+
+    // 3.6. Create Pathfinder over the world (default terrain movement costs) and movement rules
+    // (only the active player's units accept orders; allied units do not block each other)
+    const pathfinder = new Pathfinder(worldContainer);
+    const movementController = new MovementController(unitRegistry, pathfinder, turns, diplomacy);
+
+    // 3.61. Create SelectionController (box selection, control groups, formation moves)
+    const selection = new SelectionController(unitRegistry, movementController);
+
+    // 3.62. Create CommandHistory (undo/redo of moves and edits, Ctrl+Z / Ctrl+Y)
+    const history = new CommandHistory();
+
+    // 3.65. Create CityRegistry (cities claim tiles in the WorldContainer)
+    const cityRegistry = new CityRegistry(worldContainer);
+
+    // 3.66. Create Economy (building/city income, unit upkeep, treasuries)
+    const economy = new Economy(worldContainer, unitRegistry, cityRegistry, scenario.getEconomyRules());
+
+    // 3.67. Create ProductionSystem (city unit queues, paid from the treasury, advanced at turn end)
+    const production = new ProductionSystem(worldContainer, unitRegistry, cityRegistry, economy, scenario.getProductionRules());
+
+    // 3.7. Create fog of war, rendered for the local player (pass ?fog=off to reveal the whole map)
+    const visibility = new VisibilitySystem(worldContainer);
+    visibility.setAllianceSource((a, b) => diplomacy.isAllied(a, b));
+    visibility.setPlayers(turns.getPlayers().map(player => player.id));
+    if (urlParams.get('fog') !== 'off') {
+        visibility.setViewer(localPlayerId);
+    }
+
+    // 3.71. Create HeroSystem (experience from combat and exploration, level-ups, items)
+    const heroes = new HeroSystem(unitRegistry, { visibility, rules: scenario.getHeroRules() });
+
+    // 3.715. Place the scenario's cities and starting units, and set treasuries and diplomacy
+    scenario.populate({ units: unitRegistry, cities: cityRegistry, economy, heroes, diplomacy });
+    console.log('Victoriae [Scenario]: Starting position placed', {
+        cities: cityRegistry.getCityCount(),
+        units: unitRegistry.getUnitCount(),
+        players: turns.getPlayers().map(player => `${player.name} (${scenario.getFaction(player.id)?.name ?? 'no faction'})`)
+    });
+
+    // 3.72. Create CombatResolver (battle seeds derive from the map seed, so ?seed= replays battles too)
+    const combat = new CombatResolver(unitRegistry, worldContainer, {
+        seed: `${worldContainer.getGenerationOptions().seed}:combat`,
+        cities: cityRegistry,
+        heroes,
+        rules: scenario.getCombatRules(),
+    });
+
+    // 3.725. Create VictorySystem (checked at every turn end with the scenario's conditions; pass
+    // ?turnlimit=<turns> to also end the game on score after that many turns)
+    const turnLimit = Math.floor(Number(urlParams.get('turnlimit') ?? 0)) || 0;
+    const scenarioVictory = scenario.getVictoryRules();
+    const victoryRules: VictoryRules = {
+        ...scenarioVictory,
+        conditions: turnLimit > 0
+            ? [...scenarioVictory.conditions, { type: VictoryConditionType.TURN_LIMIT, turns: turnLimit }]
+            : scenarioVictory.conditions,
+    };
+    const victory = new VictorySystem(unitRegistry, cityRegistry, worldContainer, turns, { rules: victoryRules, economy });
+    victory.setAllianceSource((a, b) => diplomacy.isAllied(a, b));
+
+    // 3.73. Create GameController (the validated order path shared by mouse/keyboard input and computer players)
+    const orders = new GameController({
+        units: unitRegistry,
+        cities: cityRegistry,
+        movement: movementController,
+        combat,
+        production,
+        turns,
+        history,
+        victory,
+        diplomacy,
+        heroes,
+    });
+
+    // 3.74. Create the computer players (they only see what their units and cities see)
+    const computerPlayers = turns.getPlayers()
+        .filter(player => player.kind === 'ai')
+        .map(player => new AIPlayer(player.id, new SimpleAIStrategy(), {
+            world: worldContainer,
+            units: unitRegistry,
+            cities: cityRegistry,
+            economy,
+            production,
+            pathfinder,
+            movement: movementController,
+            combat,
+            turns,
+            visibility,
+            diplomacy,
+            orders,
+        }));
+
+    // 3.75. Create MapEditor (terrain brushes, fills, buildings, cities and units; edits are undoable)
+    const mapEditor = new MapEditor({
+        world: worldContainer,
+        units: unitRegistry,
+        cities: cityRegistry,
+        economy,
+        heroes,
+        diplomacy,
+        turns,
+        history,
+    });
+
     // 4. Spawn Worker
     const worker = new RenderWorker();
+    const coordinator = new GameStateCoordinator(worker, worldContainer, unitRegistry);
+
+    // Recompute vision right before each sync, so fog of war follows every unit and city change
+    // (the coordinator syncs automatically after UnitRegistry/WorldContainer changes, once per frame)
+    coordinator.onBeforeSync(() => {
+        visibility.update(unitRegistry, cityRegistry.getVisionSources());
+    });
+    diplomacy.on('stateChanged', () => coordinator.scheduleSync()); // Allies' shared vision changes too
 
     // 5. Send the canvas and memory bridge to the worker
     console.log('Victoriae [Main Thread]: Sending INIT message to worker', {
@@ -76,79 +285,73 @@ async function init() {
         sab: sab ? `SharedArrayBuffer (${SAB_SIZE} bytes)` : 'MISSING'
     });
 
-    worker.postMessage({
-        type: 'INIT',
-        canvas: offscreen,
-        sab: sab
-    }, [offscreen]); // Canvas is a transferable object
+    coordinator.getBridge().init(offscreen, sab); // Canvas is a transferable object
 
     // 6. Setup input system (must be after SAB is initialized)
     setupInput(sab);
     console.log('Victoriae [Main Thread]: Input system initialized');
 
+    // 6.4. Run the turn phases (upkeep at the start, production at the end, hot-seat handover)
+    setupTurnFlow(turns, unitRegistry, movementController, economy, production, history, visibility, orders, urlParams.get('fog') !== 'off');
+
+    // 6.45. Let the computer players take their turns
+    setupComputerPlayers(turns, computerPlayers, orders, victory);
+
+    // 6.46. Announce eliminations and the end of the game
+    setupVictoryLog(victory, turns);
+
     // 6.5. Setup debug input for unit creation (press 'U' to create unit at mouse position)
-    setupDebugInput(sab, unitRegistry, worker);
-    console.log('Victoriae [Main Thread]: Debug input initialized (press U to create unit at mouse)');
+    setupDebugInput(sab, unitRegistry, cityRegistry, history, turns);
+    console.log('Victoriae [Main Thread]: Debug input initialized (press U to create unit at mouse, C to found a city, N to end the turn)');
 
     // 6.6. Setup click handler for unit selection
-    setupUnitSelection(sab, unitRegistry, worker);
+    setupUnitSelection(sab, unitRegistry, cityRegistry, selection, orders, turns);
     console.log('Victoriae [Main Thread]: Unit selection system initialized');
 
+    // 6.7. Setup undo/redo keys
+    setupHistoryInput(history);
+
+    // 6.8. Setup hero debug keys (H: create hero, I: give item, L: level-up choice)
+    setupHeroInput(sab, unitRegistry, heroes, turns);
+
+    // 6.9. Setup production debug keys (P: order a unit in the hovered city, Shift+P: cancel)
+    setupProductionInput(sab, unitRegistry, cityRegistry, economy, production, orders, turns);
+
+    // 6.95. Setup diplomacy debug keys (D: offer peace, Shift+D: offer an alliance, Alt+D: declare war, Y/Shift+Y: answer)
+    setupDiplomacyInput(diplomacy, orders, turns);
+
+    // 6.97. Setup the map editor ("Map editor" button or E; clicks edit the map while it is open,
+    // Export/Import write and read scenario files)
+    setupMapEditor(sab, mapEditor, scenario, turns, unitRegistry);
+
+    // 6.98. Setup protocol debug keys (O: encode the game state and check the round-trip, Shift+O: the delta so far)
+    setupProtocolDebugInput(worldContainer, unitRegistry, turns, diplomacy);
+
     // 7. Send map data to worker after initialization
-    // The map data is generated in the WorldContainer constructor (random 64x64 grid)
+    // The map data comes from the scenario (seeded grid or tile blob)
     // We send it after a short delay to ensure the worker has processed the INIT message
     setTimeout(() => {
-        // Get render data from WorldContainer (Translation Layer)
-        const mapData = worldContainer.getRenderData();
-
-        console.log('Victoriae [Main Thread]: Preparing to send map data to worker', {
-            tileCount: mapData.length,
-            bufferSize: mapData.buffer.byteLength,
-            mapSize: worldContainer.getMapSize()
+        console.log('Victoriae [Main Thread]: Sending map data to worker', {
+            width: worldContainer.getWidth(),
+            height: worldContainer.getHeight()
         });
 
-        // Send with zero-copy transfer using transferable objects
-        // The .buffer property is the underlying ArrayBuffer that can be transferred
-        worker.postMessage({
-            type: 'UPDATE_MAP',
-            data: mapData
-        }, [mapData.buffer]); // Transfer ArrayBuffer for zero-copy
-
-        // IMPORTANT: After transfer, the mapData TypedArray is detached
-        // The main thread should treat this buffer as 'gone' and create a new one for future updates
-        console.log('Victoriae [Main Thread]: Map data transferred to worker (zero-copy, buffer is now detached)');
-        console.log('Victoriae [Main Thread]: For future updates, call worldContainer.getRenderData() to create a new buffer');
+        // Full map transfer (zero-copy); later syncs only send changed tiles
+        coordinator.syncMap();
 
-        // 8. Send initial unit data to worker (test unit)
-        // Add a test unit to demonstrate the system
+        // 8. Send unit type appearance (colors, sprites), then start the game
         setTimeout(() => {
-            // Add a test unit at tile (10, 10)
-            const unitId = unitRegistry.addUnit({
-                unitType: UnitType.WARRIOR,
-                gridPos: { x: 10, y: 10 },
-                hp: 100,
-                ownerId: 1
-            });
-            console.log('Victoriae [Main Thread]: Added test unit', { unitId, pos: { x: 10, y: 10 } });
+            coordinator.syncUnitTypes();
 
-            // Sync units to worker
-            const unitData = unitRegistry.syncUnits(); // Get Float32Array [x, y, typeId, state] per unit
-            const unitCount = unitRegistry.getUnitCount();
+            // Turn 1 begins (in hot-seat games once the first player takes the seat)
+            turns.start();
 
-            console.log('Victoriae [Main Thread]: Preparing to send unit data to worker', {
-                unitCount,
-                dataSize: unitData.length,
-                bufferSize: unitData.buffer.byteLength
-            });
-
-            // Send with zero-copy transfer using transferable objects
-            worker.postMessage({
-                type: 'UPDATE_UNITS',
-                unitData: unitData,
-                unitCount: unitCount
-            }, [unitData.buffer]); // Transfer ArrayBuffer for zero-copy
-
-            console.log('Victoriae [Main Thread]: Unit data transferred to worker (zero-copy, buffer is now detached)');
+            // The scenario's units were placed before the coordinator existed: send them
+            // and the area they reveal now; from then on every change is synced on the next frame
+            coordinator.flushSync();
+            coordinator.syncUnits();
+            coordinator.startAutoSync();
+            console.log('Victoriae [Main Thread]: Automatic worker sync started');
         }, 200); // Small delay after map data is sent
     }, 100); // Small delay to ensure worker has processed INIT message
 
@@ -176,11 +379,7 @@ async function init() {
             sabView[SAB_OFFSETS.SCREEN_HEIGHT] = newHeight;
 
             // Notify worker to resize the OffscreenCanvas
-            worker.postMessage({
-                type: 'RESIZE',
-                width: newWidth,
-                height: newHeight
-            });
+            coordinator.getBridge().resize(newWidth, newHeight);
         }, 100);
     });
 
@@ -188,37 +387,249 @@ async function init() {
     console.log(`Canvas resolution: ${width}x${height} (device pixel ratio: ${window.devicePixelRatio || 1})`);
 }
 
+/**
+ * Load the scenario selected with ?scenario=
+ * A plain name is looked up in data/scenarios; a value ending in .json is fetched.
+ * Without a scenario - or if it cannot be loaded - a random map is played instead.
+ * @param urlParams - Page URL parameters
+ * @returns Validated scenario
+ */
+async function loadScenario(urlParams: URLSearchParams): Promise<Scenario> {
+    const name = urlParams.get('scenario');
+    if (!name) return new Scenario(getRandomScenario(urlParams));
+
+    try {
+        let data: ScenarioData;
+        if (name.endsWith('.json')) {
+            const response = await fetch(name);
+            if (!response.ok) throw new Error(`${name}: HTTP ${response.status}`);
+            data = await response.json() as ScenarioData;
+        } else {
+            const load = SCENARIO_FILES[`./data/scenarios/${name}.json`];
+            if (!load) {
+                const available = Object.keys(SCENARIO_FILES).map(path => path.replace(/^.*\/|\.json$/g, ''));
+                throw new Error(`No scenario named "${name}" (available: ${available.join(', ') || 'none'})`);
+            }
+            data = await load();
+        }
+
+        const scenario = new Scenario(data);
+        console.log(`Victoriae [Scenario]: Loaded "${scenario.getName()}"`, scenario.getDescription());
+        return scenario;
+    } catch (error) {
+        console.error('Victoriae [Scenario]: Could not load the scenario, starting a random map instead', error);
+        return new Scenario(getRandomScenario(urlParams));
+    }
+}
+
+/**
+ * Describe the default game as a scenario: a seeded procedural map with one warrior per player
+ * Pass ?seed=<value> to reproduce a map, ?hotseat=2..8 for several human players on
+ * this machine and ?ai=1..7 for computer players, who take their turns after the humans.
+ * @param urlParams - Page URL parameters
+ * @returns Scenario data (always valid, see createRandomScenario)
+ */
+function getRandomScenario(urlParams: URLSearchParams): ScenarioData {
+    const hotSeatPlayers = Math.max(1, Math.min(MAX_HOT_SEAT_PLAYERS, Math.floor(Number(urlParams.get('hotseat') ?? 1)) || 1));
+    const aiPlayers = Math.max(0, Math.min(MAX_AI_PLAYERS, Math.floor(Number(urlParams.get('ai') ?? 0)) || 0));
+
+    return createRandomScenario({
+        width: MAP_WIDTH,
+        height: MAP_HEIGHT,
+        seed: urlParams.get('seed') ?? Math.floor(Math.random() * 0xFFFFFFFF),
+        players: Array.from({ length: hotSeatPlayers + aiPlayers }, (_, i) => ({
+            id: LOCAL_PLAYER_ID + i,
+            name: i < hotSeatPlayers ? `Player ${LOCAL_PLAYER_ID + i}` : `Computer ${LOCAL_PLAYER_ID + i}`,
+            kind: i < hotSeatPlayers ? 'human' : 'ai'
+        })),
+    });
+}
+
+/**
+ * Setup the turn flow
+ * Start of a player's turn: movement points are restored and income is collected.
+ * End of a turn: cities advance production, the undo history and the selection are cleared.
+ * Press 'N' to end the active player's turn. In hot-seat games the map is hidden
+ * between turns until the next player presses Enter, and fog of war is then
+ * rendered from their point of view. Computer players' turns keep the last
+ * human player's view.
+ */
+function setupTurnFlow(
+    turns: TurnManager,
+    unitRegistry: UnitRegistry,
+    movementController: MovementController,
+    economy: Economy,
+    production: ProductionSystem,
+    history: CommandHistory,
+    visibility: VisibilitySystem,
+    orders: GameController,
+    fogOfWar: boolean
+): void {
+    const playerName = (playerId: number) => turns.getPlayer(playerId)?.name ?? `Player ${playerId}`;
+
+    turns.on('phaseChanged', ({ turnNumber, playerId, phase }) => {
+        if (phase === TurnPhase.WAITING) {
+            // Player 0 has explored nothing, so the whole map is hidden during the handover
+            if (fogOfWar) visibility.setViewer(0);
+            console.log(`Victoriae [Turns]: Turn ${turnNumber} - pass the seat to ${playerName(playerId)} and press Enter`);
+        }
+
+        if (phase === TurnPhase.START) {
+            const restored = movementController.startTurn(playerId);
+            const report = economy.processTurn(playerId);
+            console.log('Victoriae [Turns]: Movement points restored', { playerId, units: restored });
+            console.log('Victoriae [Economy]: Income report', {
+                playerId,
+                income: report.income,
+                upkeep: report.upkeep,
+                net: report.net,
+                treasury: report.treasuryAfter,
+                shortfall: report.shortfall
+            });
+            console.table(report.items.map(({ source, label, amount }) => ({ source, label, amount })));
+        }
+
+        if (phase === TurnPhase.END) {
+            production.processTurn(playerId); // Cities work on their queues
+            history.clear(); // Moves from this turn cannot be taken back
+            unitRegistry.clearSelection();
+        }
+    });
+
+    turns.on('turnStarted', ({ turnNumber, playerId }) => {
+        if (turns.getPlayer(playerId)?.kind === 'ai') {
+            console.log(`Victoriae [Turns]: Turn ${turnNumber} - ${playerName(playerId)} is thinking...`);
+            return;
+        }
+        if (fogOfWar) visibility.setViewer(playerId);
+        console.log(`Victoriae [Turns]: Turn ${turnNumber} - ${playerName(playerId)}'s orders (press N to end the turn)`);
+    });
+
+    window.addEventListener('keydown', (e) => {
+        if (e.ctrlKey || e.metaKey) return;
+
+        if (e.key.toLowerCase() === 'n') {
+            e.preventDefault();
+            if (turns.getActivePlayer().kind !== 'human' || !orders.endTurn()) {
+                console.log('Victoriae [Turns]: Cannot end the turn now', { phase: turns.getPhase() });
+            }
+        }
+
+        if (e.key === 'Enter' && turns.getPhase() === TurnPhase.WAITING) {
+            e.preventDefault();
+            turns.beginTurn();
+        }
+    });
+}
+
+/**
+ * Setup the computer players
+ * When a computer player's turn starts it gives its orders (through the same
+ * GameController as mouse and keyboard input) after a short pause, then ends its turn.
+ */
+function setupComputerPlayers(turns: TurnManager, computerPlayers: AIPlayer[], orders: GameController, victory: VictorySystem): void {
+    turns.on('turnStarted', ({ playerId }) => {
+        const ai = computerPlayers.find(player => player.getPlayerId() === playerId);
+        if (!ai || victory.isGameOver()) return;
+
+        // Deferred, so the turn that just started is not played inside the previous player's endTurn()
+        setTimeout(() => {
+            const report = ai.playTurn();
+            if (!report) return;
+
+            console.log(`Victoriae [AI]: ${turns.getPlayer(playerId)?.name} (${ai.getStrategy().name}) finished its turn`, report);
+            orders.endTurn();
+        }, AI_TURN_DELAY_MS);
+    });
+}
+
+/**
+ * Setup the victory log
+ * Eliminated players and the end of the game (with every player's standing) are
+ * logged; once the game is over no more turns can be ended.
+ */
+function setupVictoryLog(victory: VictorySystem, turns: TurnManager): void {
+    const playerName = (playerId: number) => turns.getPlayer(playerId)?.name ?? `Player ${playerId}`;
+
+    victory.on('playerEliminated', ({ turnNumber, playerId }) => {
+        console.log(`Victoriae [Victory]: Turn ${turnNumber} - ${playerName(playerId)} has been eliminated`);
+    });
+    victory.on('objectivesChanged', ({ turnNumber, team }) => {
+        console.log(`Victoriae [Victory]: Turn ${turnNumber} - objectives ${team === null ? 'contested' : `held by ${playerName(team)}'s team`}`);
+    });
+    victory.on('gameOver', ({ turnNumber, condition, winners, standings }) => {
+        const outcome = winners.length === 0 ? 'a draw' : `won by ${winners.map(playerName).join(', ')}`;
+        console.log(`Victoriae [Victory]: Game over on turn ${turnNumber} (${condition}) - ${outcome}`);
+        console.table(standings);
+    });
+}
+
 /**
  * Setup debug input for unit creation
- * Press 'U' key to create a test unit at the mouse's world position
+ * Press 'U' key to create a test unit for the active player at the mouse's world position (Shift+U: enemy unit)
+ * Press 'C' key to found a city for the active player at the hovered tile
+ * Press 'B' key to benchmark UnitRegistry queries with 50k units (uses a separate registry)
+ * Press 'G' key to simulate a headless AI-vs-AI game (uses a separate world)
+ * Units created with 'U' can be removed again with Ctrl+Z; ending the turn clears the undo history
  */
 function setupDebugInput(
     sab: SharedArrayBuffer,
     unitRegistry: UnitRegistry,
-    worker: Worker
+    cityRegistry: CityRegistry,
+    history: CommandHistory,
+    turns: TurnManager
 ): void {
     const view = new Float32Array(sab);
-    const MAP_SIZE = 64;
-
-    // Helper function to convert screen coordinates to world coordinates
-    function screenToWorld(screenX: number, screenY: number, camX: number, camY: number, zoom: number, screenWidth: number, screenHeight: number): [number, number] {
-        // Convert screen pixel to NDC (-1 to 1)
-        const ndcRawX = (screenX / screenWidth) * 2.0 - 1.0;
-        const ndcRawY = (screenY / screenHeight) * 2.0 - 1.0;
-        // Flip Y axis
-        const ndcX = ndcRawX;
-        const ndcY = -ndcRawY;
-
-        // Calculate world position
-        const aspectRatio = screenWidth / screenHeight;
-        const worldSizeY = 2.0 / zoom;
-        const worldSizeX = worldSizeY * aspectRatio;
-
-        const worldX = ndcX * (worldSizeX * 0.5) + camX;
-        const worldY = ndcY * (worldSizeY * 0.5) + camY;
-
-        return [worldX, worldY];
-    }
+
+    // Listen for 'B' key press to benchmark unit queries
+    window.addEventListener('keydown', (e) => {
+        if (e.ctrlKey || e.metaKey) return;
+
+        if (e.key.toLowerCase() === 'b') {
+            e.preventDefault();
+            console.log('Victoriae [Debug]: Running UnitRegistry benchmark (50k units)...');
+            console.table(runUnitRegistryBenchmark());
+        }
+    });
+
+    // Listen for 'G' key press to simulate an AI-vs-AI game
+    window.addEventListener('keydown', (e) => {
+        if (e.code === 'KeyG' && !e.ctrlKey && !e.metaKey) {
+            e.preventDefault();
+            console.log('Victoriae [Debug]: Simulating a headless AI-vs-AI game (2 players, up to 100 turns)...');
+
+            const start = performance.now();
+            const summary = new HeadlessGame({ seed: Math.floor(Math.random() * 0xFFFFFFFF), players: 2 }).runTurns(100);
+            console.log('Victoriae [Debug]: Simulation finished', {
+                turns: summary.turnNumber,
+                playerTurns: summary.playerTurns,
+                condition: summary.result?.condition ?? 'none (turn cap reached)',
+                winners: summary.result?.winners ?? [],
+                ms: Math.round(performance.now() - start)
+            });
+            console.table(summary.players);
+        }
+    });
+
+    // Listen for 'C' key press to found a city at the hovered tile
+    window.addEventListener('keydown', (e) => {
+        if (e.key.toLowerCase() === 'c') {
+            e.preventDefault();
+
+            const tileX = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_X]);
+            const tileY = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_Y]);
+            if (tileX < 0 || tileY < 0) return;
+
+            const name = DEBUG_CITY_NAMES[cityRegistry.getCityCount() % DEBUG_CITY_NAMES.length];
+            const cityId = cityRegistry.addCity({ name, ownerId: turns.getActivePlayerId(), pos: { x: tileX, y: tileY } });
+            if (cityId === null) {
+                console.log('Victoriae [Debug]: Cannot found a city here', { x: tileX, y: tileY });
+                return;
+            }
+
+            console.log('Victoriae [Debug]: Founded city', { cityId, name, pos: { x: tileX, y: tileY } });
+        }
+    });
 
     // Listen for 'U' key press to create unit at mouse position
     window.addEventListener('keydown', (e) => {
@@ -253,42 +664,37 @@ function setupDebugInput(
             const tileY = Math.floor(worldY);
 
             // Clamp to map bounds
-            const clampedX = Math.max(0, Math.min(MAP_SIZE - 1, tileX));
-            const clampedY = Math.max(0, Math.min(MAP_SIZE - 1, tileY));
+            const mapWidth = view[SAB_OFFSETS.MAP_WIDTH];
+            const mapHeight = view[SAB_OFFSETS.MAP_HEIGHT];
+            const clampedX = Math.max(0, Math.min(mapWidth - 1, tileX));
+            const clampedY = Math.max(0, Math.min(mapHeight - 1, tileY));
+
+            // Shift+U creates an enemy unit to test combat
+            const ownerId = e.shiftKey ? getEnemyPlayerId(turns) : turns.getActivePlayerId();
+            if (unitRegistry.getStackAt({ x: clampedX, y: clampedY }, ownerId).length >= MAX_STACK_SIZE) {
+                console.log('Victoriae [Debug]: Stack is full', { x: clampedX, y: clampedY, max: MAX_STACK_SIZE });
+                return;
+            }
 
             // Create a test unit at this tile position
-            // Cycle through unit types for variety
-            const unitCount = unitRegistry.getUnitCount();
-            const unitType = (unitCount % 4) as UnitType; // Cycle through 4 unit types
+            // Cycle through the catalog's unit types for variety (heroes are created with 'H')
+            const unitTypes = unitRegistry.getCatalog().getAll().filter(type => !type.hero);
+            const unitType = unitTypes[unitRegistry.getUnitCount() % unitTypes.length].id;
 
-            const unitId = unitRegistry.addUnit({
+            const command = new AddUnitCommand(unitRegistry, {
                 unitType: unitType,
                 gridPos: { x: clampedX, y: clampedY },
-                hp: 100,
-                ownerId: 1
+                ownerId
             });
+            history.execute(command);
+            const unitId = command.getUnitId();
 
             console.log('Victoriae [Debug]: Created unit at mouse position', {
                 unitId,
                 tilePos: { x: clampedX, y: clampedY },
                 worldPos: { x: worldX, y: worldY },
                 mouseScreen: { x: mouseScreenX, y: mouseScreenY },
-                unitType: UnitType[unitType]
-            });
-
-            // Sync units to worker
-            const unitData = unitRegistry.syncUnits();
-            const newUnitCount = unitRegistry.getUnitCount();
-
-            // Send with zero-copy transfer
-            worker.postMessage({
-                type: 'UPDATE_UNITS',
-                unitData: unitData,
-                unitCount: newUnitCount
-            }, [unitData.buffer]);
-
-            console.log('Victoriae [Debug]: Unit data synced to worker', {
-                unitCount: newUnitCount
+                unitType: unitRegistry.getCatalog().getName(unitType)
             });
         }
     });
@@ -296,16 +702,53 @@ function setupDebugInput(
 
 /**
  * Setup unit selection system
- * Click on a tile to select units at that tile position
+ * Click on a tile to select the army stack at that tile position; click the
+ * selected stack's tile again to cycle through its units one by one (to split
+ * them off) and back to the whole stack. Drag a box to select the local
+ * player's units inside it; shift-click a stack (or shift-drag) to add it to or
+ * remove it from the selection. Ctrl+1..9 stores the selection as a control
+ * group and 1..9 selects the group again.
+ * Clicking another tile moves the selection there (merging with friendly units;
+ * a selection spanning several stacks spreads out in formation around the
+ * tile), and clicking an enemy-held tile with a single stack attacks it.
+ * Orders go through the GameController, the same path computer players use;
+ * only a local human player can select and order units, and only on their turn.
+ * Moves are recorded in the command history so they can be undone; battles
+ * and city captures cannot, so they clear it.
  */
 function setupUnitSelection(
     sab: SharedArrayBuffer,
     unitRegistry: UnitRegistry,
-    worker: Worker
+    cityRegistry: CityRegistry,
+    selection: SelectionController,
+    orders: GameController,
+    turns: TurnManager
 ): void {
     const view = new Float32Array(sab);
 
-    // Listen for mouse click events
+    // Mouse travel (canvas pixels) before a press turns into a selection box drag
+    const DRAG_THRESHOLD = 6;
+
+    // Mouse position of an event in canvas pixels and world units
+    const pointerPos = (e: MouseEvent) => {
+        const dpr = window.devicePixelRatio || 1;
+        const screenX = e.clientX * dpr;
+        const screenY = e.clientY * dpr;
+        const [worldX, worldY] = screenToWorld(
+            screenX,
+            screenY,
+            view[SAB_OFFSETS.CAMERA_X],
+            view[SAB_OFFSETS.CAMERA_Y],
+            view[SAB_OFFSETS.CAMERA_ZOOM],
+            view[SAB_OFFSETS.SCREEN_WIDTH],
+            view[SAB_OFFSETS.SCREEN_HEIGHT]
+        );
+        return { screenX, screenY, worldX, worldY };
+    };
+
+    // Left button press on the map; becomes a box drag once the mouse travels far enough
+    let press: { screenX: number; screenY: number; worldX: number; worldY: number; dragging: boolean } | null = null;
+
     window.addEventListener('mousedown', (e) => {
         // Only handle left mouse button clicks
         if (e.button !== 0) return;
@@ -317,6 +760,92 @@ function setupUnitSelection(
             return;
         }
 
+        // Clicks edit the map while the map editor is open
+        if (view[SAB_OFFSETS.EDITOR_ACTIVE] > 0) return;
+
+        press = { ...pointerPos(e), dragging: false };
+    });
+
+    window.addEventListener('mousemove', (e) => {
+        if (!press) return;
+
+        const pos = pointerPos(e);
+        if (!press.dragging) {
+            if (Math.hypot(pos.screenX - press.screenX, pos.screenY - press.screenY) < DRAG_THRESHOLD) return;
+
+            // Start drawing the selection box (the worker's SelectionBoxLayer reads it from the SAB)
+            press.dragging = true;
+            view[SAB_OFFSETS.SELECTION_BOX_START_X] = press.worldX;
+            view[SAB_OFFSETS.SELECTION_BOX_START_Y] = press.worldY;
+            view[SAB_OFFSETS.SELECTION_BOX_ACTIVE] = 1.0;
+        }
+
+        view[SAB_OFFSETS.SELECTION_BOX_END_X] = pos.worldX;
+        view[SAB_OFFSETS.SELECTION_BOX_END_Y] = pos.worldY;
+    });
+
+    window.addEventListener('mouseup', (e) => {
+        if (e.button !== 0 || !press) return;
+
+        const start = press;
+        press = null;
+        if (!start.dragging) {
+            handleClick(e.shiftKey);
+            return;
+        }
+
+        // Box selection: every tile the box touches, clamped to the map
+        view[SAB_OFFSETS.SELECTION_BOX_ACTIVE] = 0.0;
+        const end = pointerPos(e);
+        const clampX = (x: number) => Math.max(0, Math.min(view[SAB_OFFSETS.MAP_WIDTH] - 1, Math.floor(x)));
+        const clampY = (y: number) => Math.max(0, Math.min(view[SAB_OFFSETS.MAP_HEIGHT] - 1, Math.floor(y)));
+        const minX = clampX(Math.min(start.worldX, end.worldX));
+        const minY = clampY(Math.min(start.worldY, end.worldY));
+        const region = {
+            x: minX,
+            y: minY,
+            width: clampX(Math.max(start.worldX, end.worldX)) - minX + 1,
+            height: clampY(Math.max(start.worldY, end.worldY)) - minY + 1
+        };
+
+        const commander = getLocalCommander(turns);
+        if (commander === null) {
+            console.log('Victoriae [Selection]: Units can only be selected on your turn');
+            return;
+        }
+
+        const boxed = selection.selectInRegion(region, commander, e.shiftKey);
+        console.log('Victoriae [Selection]: Box selection', {
+            region,
+            unitIds: boxed,
+            additive: e.shiftKey,
+            selected: selection.getSelectedIds().length
+        });
+    });
+
+    // Ctrl+1..9 stores the selection as a control group, 1..9 selects the group
+    window.addEventListener('keydown', (e) => {
+        const match = /^Digit([1-9])$/.exec(e.code);
+        if (!match) return;
+        e.preventDefault();
+
+        const group = Number(match[1]);
+        if (e.ctrlKey || e.metaKey) {
+            const count = selection.assignGroup(group);
+            console.log('Victoriae [Selection]: Control group assigned', { group, units: count });
+            return;
+        }
+
+        const unitIds = selection.recallGroup(group);
+        if (unitIds.length === 0) {
+            console.log('Victoriae [Selection]: Control group is empty', { group });
+            return;
+        }
+        console.log('Victoriae [Selection]: Control group selected', { group, unitIds });
+    });
+
+    // Click (press and release without dragging) on a tile
+    const handleClick = (shiftKey: boolean) => {
         // Small delay to ensure worker has calculated hovered tile
         setTimeout(() => {
             // Read hovered tile coordinates from SAB (calculated by worker)
@@ -328,110 +857,494 @@ function setupUnitSelection(
                 return; // Invalid tile coordinates
             }
 
-            console.log('Victoriae [Selection]: Click detected at tile', { x: tileX, y: tileY });
+            console.log('Victoriae [Selection]: Click detected at tile', { x: tileX, y: tileY, shift: shiftKey });
+
+            // Only the local player whose turn it is selects and orders units
+            const commander = getLocalCommander(turns);
+            if (commander === null) {
+                console.log('Victoriae [Selection]: Units can only be selected and ordered on your turn');
+                return;
+            }
+
+            // Shift-click adds the active player's stack to the selection or removes it
+            if (shiftKey) {
+                const added = selection.toggleStackAt({ x: tileX, y: tileY }, commander);
+                console.log('Victoriae [Selection]: Selection toggled', {
+                    position: { x: tileX, y: tileY },
+                    added,
+                    selected: selection.getSelectedIds()
+                });
+                return;
+            }
 
             // Check if there are any selected units
-            const selectedUnits = unitRegistry.getSelectedUnits();
-
-            if (selectedUnits.length > 0) {
-                // Unit is selected - check if clicking on a different tile
-                const selectedUnit = selectedUnits[0];
-                const currentTile = selectedUnit.gridPos;
-
-                // Check if clicking on the same tile (just reselect)
-                if (currentTile.x === tileX && currentTile.y === tileY) {
-                    // Check if there's a unit at this tile to select
-                    const unitsAtTile = unitRegistry.getUnitsAt({ x: tileX, y: tileY });
-                    if (unitsAtTile.length > 0 && unitsAtTile[0].id !== selectedUnit.id) {
-                        // Different unit at same tile - select it instead
-                        unitRegistry.clearSelection();
-                        unitRegistry.setUnitState(unitsAtTile[0].id, UnitState.SELECTED, true);
-
-                        const unitData = unitRegistry.syncUnits();
-                        const unitCount = unitRegistry.getUnitCount();
-                        worker.postMessage({
-                            type: 'UPDATE_UNITS',
-                            unitData: unitData,
-                            unitCount: unitCount
-                        }, [unitData.buffer]);
+            const selectedIds = selection.getSelectedIds();
+
+            if (selectedIds.length > 0) {
+                const selectedUnits = selectedIds.map(id => unitRegistry.getUnit(id)!);
+                const singleStack = unitRegistry.isSameStack(selectedIds);
+                const unitOnTile = selectedUnits.find(unit => unit.gridPos.x === tileX && unit.gridPos.y === tileY);
+
+                // Clicking one stack of a multi-stack selection narrows the selection to that stack
+                if (unitOnTile && !singleStack) {
+                    const stackIds = unitRegistry.getStackOf(unitOnTile.id).map(unit => unit.id);
+                    selection.select(stackIds);
+                    console.log('Victoriae [Selection]: Selected stack from group', { unitIds: stackIds });
+                    return;
+                }
+
+                // Clicking the selection's own tile cycles: whole stack -> each unit -> whole stack
+                if (unitOnTile) {
+                    const stack = unitRegistry.getStackOf(selectedIds[0]);
+                    if (stack.length > 1) {
+                        const lastIndex = stack.findIndex(unit => unit.id === selectedIds[selectedIds.length - 1]);
+                        const next = selectedIds.length === stack.length
+                            ? [stack[0].id]
+                            : lastIndex + 1 < stack.length ? [stack[lastIndex + 1].id] : stack.map(unit => unit.id);
+                        selection.select(next);
+
+                        console.log('Victoriae [Selection]: Stack selection changed', {
+                            selected: next,
+                            stackSize: stack.length
+                        });
                     }
                     return; // Same tile, no movement needed
                 }
 
-                // Unit is selected and clicking on a different tile - move the unit
-                console.log('Victoriae [Movement]: Moving selected unit', {
-                    unitId: selectedUnit.id,
-                    from: { x: currentTile.x, y: currentTile.y },
-                    to: { x: tileX, y: tileY }
-                });
-
-                // Calculate simple direct path (for now, just move directly)
-                // TODO: Implement A* pathfinding later
                 const targetPos = { x: tileX, y: tileY };
 
-                // Move the unit
-                unitRegistry.moveUnit(selectedUnit.id, targetPos);
+                // A control group recalled in another player's turn may hold units this player cannot order
+                if (selectedUnits.some(unit => unit.ownerId !== commander)) {
+                    console.log('Victoriae [Movement]: Only your own units can be ordered', { unitIds: selectedIds, playerId: commander });
+                    return;
+                }
+
+                // Several stacks selected - spread them out in formation around the target
+                if (!singleStack) {
+                    moveInFormation(targetPos);
+                    return;
+                }
+
+                // One stack selected and clicking on a different tile - move it
+                const currentTile = selectedUnits[0].gridPos;
+
+                // Validate terrain, path, stack size and movement points (no teleporting);
+                // an enemy-held tile is attacked instead of stacked onto
+                const outcome = orders.moveOrAttack(selectedIds, targetPos);
+                if (outcome.type === 'rejected') {
+                    console.log('Victoriae [Movement]: Move rejected', {
+                        unitIds: selectedIds,
+                        from: { x: currentTile.x, y: currentTile.y },
+                        to: targetPos,
+                        reason: outcome.reason,
+                        message: outcome.message
+                    });
+                    return;
+                }
+                if (outcome.type === 'attacked') {
+                    logBattle(outcome.battle);
+                    if (outcome.capture) logCapture(outcome.capture, cityRegistry);
+                    return;
+                }
 
-                // Sync units to worker
-                const unitData = unitRegistry.syncUnits();
-                const unitCount = unitRegistry.getUnitCount();
+                const { result } = outcome;
 
-                worker.postMessage({
-                    type: 'UPDATE_UNITS',
-                    unitData: unitData,
-                    unitCount: unitCount
-                }, [unitData.buffer]);
+                console.log('Victoriae [Movement]: Moved selected units', {
+                    unitIds: selectedIds,
+                    from: { x: currentTile.x, y: currentTile.y },
+                    to: targetPos,
+                    steps: result.path.length,
+                    cost: result.cost,
+                    movementLeft: result.remaining,
+                    stackSize: unitRegistry.getStackAt(targetPos, selectedUnits[0].ownerId).length
+                });
 
-                console.log('Victoriae [Movement]: Unit moved and synced to worker');
+                // Walking into an undefended enemy city takes it
+                if (outcome.capture) logCapture(outcome.capture, cityRegistry);
                 return;
             }
 
-            // No unit selected - try to select a unit at this tile
-            const unitsAtTile = unitRegistry.getUnitsAt({ x: tileX, y: tileY });
+            // No unit selected - try to select the player's stack at this tile
+            const unitsAtTile = unitRegistry.getStackAt({ x: tileX, y: tileY }, commander);
 
             if (unitsAtTile.length > 0) {
-                // Select the first unit at this position
-                const selectedUnit = unitsAtTile[0];
-
-                // Clear previous selections
-                unitRegistry.clearSelection();
-
-                // Set this unit as selected
-                unitRegistry.setUnitState(selectedUnit.id, UnitState.SELECTED, true);
+                const stack = unitRegistry.getStackOf(unitsAtTile[0].id);
+                selection.select(stack.map(unit => unit.id));
 
-                console.log('Victoriae [Selection]: Selected unit', {
-                    unitId: selectedUnit.id,
-                    unitType: UnitType[selectedUnit.unitType],
+                console.log('Victoriae [Selection]: Selected stack', {
+                    unitIds: stack.map(unit => unit.id),
+                    unitTypes: stack.map(unit => unitRegistry.getCatalog().getName(unit.unitType)),
                     position: { x: tileX, y: tileY },
-                    hp: selectedUnit.hp
+                    movementPoints: unitRegistry.getStackMovementPoints(stack.map(unit => unit.id))
                 });
-
-                // Sync units to worker to update visual state
-                const unitData = unitRegistry.syncUnits();
-                const unitCount = unitRegistry.getUnitCount();
-
-                worker.postMessage({
-                    type: 'UPDATE_UNITS',
-                    unitData: unitData,
-                    unitCount: unitCount
-                }, [unitData.buffer]);
             } else {
-                console.log('Victoriae [Selection]: No units at tile', { x: tileX, y: tileY });
+                console.log('Victoriae [Selection]: None of your units at tile', { x: tileX, y: tileY });
                 // Clear selection if clicking on empty tile
                 unitRegistry.clearSelection();
+            }
+        }, 10); // Small delay to ensure worker has updated hovered tile
+    };
 
-                // Sync to clear visual selection
-                const unitData = unitRegistry.syncUnits();
-                const unitCount = unitRegistry.getUnitCount();
+    // Move every selected stack to its own formation slot around the target
+    const moveInFormation = (targetPos: { x: number; y: number }) => {
+        const moves = orders.moveSelection(selection, targetPos);
 
-                worker.postMessage({
-                    type: 'UPDATE_UNITS',
-                    unitData: unitData,
-                    unitCount: unitCount
-                }, [unitData.buffer]);
+        // Walking into an undefended enemy city takes it (and cannot be undone)
+        for (const move of moves) {
+            if (move.capture) logCapture(move.capture, cityRegistry);
+        }
+
+        console.log('Victoriae [Movement]: Group move', {
+            to: targetPos,
+            stacks: moves.length,
+            moved: moves.filter(move => move.result.success).length
+        });
+        console.table(moves.map(({ unitIds, target, result }) => ({
+            units: unitIds.join(', '),
+            target: `${target.x}, ${target.y}`,
+            result: result.success ? `moved (${result.remaining} MP left)` : result.reason
+        })));
+    };
+}
+
+/**
+ * Setup undo/redo keys
+ * Ctrl+Z undoes the last recorded move or edit; Ctrl+Y (or Ctrl+Shift+Z) redoes it.
+ * The commands change UnitRegistry/WorldContainer, so the worker resyncs on the next frame.
+ */
+function setupHistoryInput(history: CommandHistory): void {
+    window.addEventListener('keydown', (e) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+
+        const key = e.key.toLowerCase();
+        const isUndo = key === 'z' && !e.shiftKey;
+        const isRedo = key === 'y' || (key === 'z' && e.shiftKey);
+        if (!isUndo && !isRedo) return;
+        e.preventDefault();
+
+        const command = isUndo ? history.undo() : history.redo();
+        if (!command) {
+            console.log(`Victoriae [Main Thread]: Nothing to ${isUndo ? 'undo' : 'redo'}`);
+            return;
+        }
+
+        console.log(`Victoriae [Main Thread]: ${isUndo ? 'Undid' : 'Redid'} "${command.label}"`, {
+            undoable: history.getUndoCount(),
+            redoable: history.getRedoCount()
+        });
+    });
+}
+
+/**
+ * Setup protocol debug keys
+ * Press 'O' to encode the full GameState as a server would send it, decode it into a fresh
+ * WorldContainer, UnitRegistry and DiplomacySystem, and check that they encode to the same bytes.
+ * Press Shift+O to encode the StateDelta of everything that changed since the last Shift+O.
+ */
+function setupProtocolDebugInput(
+    world: WorldContainer,
+    unitRegistry: UnitRegistry,
+    turns: TurnManager,
+    diplomacy: DiplomacySystem
+): void {
+    const recorder = new StateDeltaRecorder(world, unitRegistry, turns, diplomacy);
+
+    window.addEventListener('keydown', (e) => {
+        if (e.code !== 'KeyO' || e.ctrlKey || e.metaKey) return;
+        e.preventDefault();
+
+        if (e.shiftKey) {
+            const delta = recorder.takeDelta();
+            const bytes = pb.encodeServerMessage({ payload: { case: 'delta', value: delta } });
+            console.log('Victoriae [Protocol]: State delta', {
+                bytes: bytes.length,
+                tiles: delta.tiles.length,
+                units: delta.units.length,
+                removedUnits: delta.removedUnitIds.length,
+                diplomacy: delta.diplomacy !== undefined
+            });
+            return;
+        }
+
+        const bytes = pb.encodeServerMessage({ payload: { case: 'state', value: createGameState(world, unitRegistry, turns, diplomacy) } });
+        let decoded: pb.ServerMessage;
+        try {
+            decoded = pb.decodeServerMessage(bytes);
+        } catch (error) {
+            console.error('Victoriae [Protocol]: Could not decode the game state', error);
+            return;
+        }
+        if (decoded.payload.case !== 'state') {
+            console.error('Victoriae [Protocol]: Decoded message is not a game state', { case: decoded.payload.case });
+            return;
+        }
+
+        const worldCopy = new WorldContainer(world.getWidth(), world.getHeight());
+        const unitsCopy = new UnitRegistry(unitRegistry.getCatalog());
+        const diplomacyCopy = new DiplomacySystem();
+        applyGameState(worldCopy, unitsCopy, diplomacyCopy, decoded.payload.value);
+        const copyBytes = pb.encodeServerMessage({
+            payload: { case: 'state', value: createGameState(worldCopy, unitsCopy, turns, diplomacyCopy) }
+        });
+
+        console.log('Victoriae [Protocol]: Game state', {
+            bytes: bytes.length,
+            tiles: world.getWidth() * world.getHeight(),
+            units: unitRegistry.getUnitCount(),
+            roundTrip: copyBytes.length === bytes.length && copyBytes.every((byte, i) => byte === bytes[i]) ? 'identical' : 'DIFFERS'
+        });
+    });
+}
+
+/**
+ * Setup production debug keys
+ * Press 'P' to order the next unit type (cycling through the catalog) in the active player's city under the mouse
+ * Press Shift+P to cancel that city's last order (refunded)
+ * Queue changes and finished units are logged as they happen; production advances when the turn ends ('N').
+ */
+function setupProductionInput(
+    sab: SharedArrayBuffer,
+    unitRegistry: UnitRegistry,
+    cityRegistry: CityRegistry,
+    economy: Economy,
+    production: ProductionSystem,
+    orders: GameController,
+    turns: TurnManager
+): void {
+    const view = new Float32Array(sab);
+    const catalog = unitRegistry.getCatalog();
+    const cityName = (cityId: number) => cityRegistry.getCity(cityId)?.name ?? `City ${cityId}`;
+
+    production.on('orderQueued', ({ cityId, order }) => {
+        console.log(`Victoriae [Production]: ${cityName(cityId)} queued ${catalog.getName(order.unitType)}`, {
+            cost: order.cost,
+            turns: order.turnsLeft,
+            queue: production.getQueue(cityId).map(o => catalog.getName(o.unitType))
+        });
+    });
+    production.on('orderCancelled', ({ cityId, order, refunded }) => {
+        console.log(`Victoriae [Production]: ${cityName(cityId)} cancelled ${catalog.getName(order.unitType)}`, { refunded });
+    });
+    production.on('orderProgressed', ({ cityId, order }) => {
+        console.log(`Victoriae [Production]: ${cityName(cityId)} is building ${catalog.getName(order.unitType)}`, { turnsLeft: order.turnsLeft });
+    });
+    production.on('unitCompleted', ({ cityId, unitType, unitId, pos }) => {
+        console.log(`Victoriae [Production]: ${cityName(cityId)} completed ${catalog.getName(unitType)}`, { unitId, pos });
+    });
+    production.on('productionBlocked', ({ cityId, unitType }) => {
+        console.log(`Victoriae [Production]: ${cityName(cityId)} has no room for its ${catalog.getName(unitType)}`);
+    });
+
+    window.addEventListener('keydown', (e) => {
+        if (e.code !== 'KeyP' || e.ctrlKey || e.metaKey) return;
+        e.preventDefault();
+
+        const tileX = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_X]);
+        const tileY = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_Y]);
+        const city = cityRegistry.getCityAt({ x: tileX, y: tileY });
+        if (!city || city.ownerId !== getLocalCommander(turns)) {
+            console.log('Victoriae [Production]: Hover over one of your cities during your turn to order units');
+            return;
+        }
+
+        if (e.shiftKey) {
+            if (!orders.cancelOrder(city.id)) {
+                console.log(`Victoriae [Production]: ${city.name} has nothing queued`);
             }
-        }, 10); // Small delay to ensure worker has updated hovered tile
+            return;
+        }
+
+        const buildable = catalog.getAll().filter(type => !type.hero);
+        const unitType = buildable[production.getQueue(city.id).length % buildable.length];
+        const result = orders.orderUnit(city.id, unitType.id);
+        if (!result.success) {
+            console.log(`Victoriae [Production]: Cannot queue ${unitType.name} in ${city.name}`, {
+                reason: result.reason,
+                cost: unitType.cost,
+                treasury: economy.getTreasury(city.ownerId)
+            });
+        }
+    });
+}
+
+/**
+ * Setup hero debug keys
+ * Press 'H' to create a hero for the active player at the hovered tile (Shift+H: enemy hero)
+ * Press 'I' to give each of the active player's selected heroes the next item from the hero rules
+ * Press 'L' to spend a selected hero's level-up on strength (Shift+L: movement, Alt+L: leadership)
+ * Experience and level-ups are logged as they happen.
+ */
+function setupHeroInput(sab: SharedArrayBuffer, unitRegistry: UnitRegistry, heroes: HeroSystem, turns: TurnManager): void {
+    const view = new Float32Array(sab);
+    const selectedHeroes = () => unitRegistry.getSelectedUnits().filter(unit => unit.hero && unit.ownerId === getLocalCommander(turns));
+
+    heroes.on('experienceGained', ({ unitId, amount, source }) => {
+        const hero = heroes.getHero(unitId)!;
+        console.log(`Victoriae [Heroes]: ${hero.name} gained ${amount} XP from ${source}`, {
+            experience: hero.experience,
+            nextLevel: heroes.getExperienceForLevel(hero.level + 1)
+        });
+    });
+    heroes.on('levelUp', ({ unitId, level }) => {
+        console.log(`Victoriae [Heroes]: ${heroes.getHero(unitId)!.name} reached level ${level} - press L (strength), Shift+L (movement) or Alt+L (leadership)`);
+    });
+
+    window.addEventListener('keydown', (e) => {
+        if (e.ctrlKey || e.metaKey) return;
+
+        if (e.code === 'KeyH') {
+            e.preventDefault();
+            const tileX = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_X]);
+            const tileY = Math.floor(view[SAB_OFFSETS.HOVERED_TILE_Y]);
+            if (tileX < 0 || tileY < 0) return;
+
+            const ownerId = e.shiftKey ? getEnemyPlayerId(turns) : turns.getActivePlayerId();
+            if (unitRegistry.getStackAt({ x: tileX, y: tileY }, ownerId).length >= MAX_STACK_SIZE) {
+                console.log('Victoriae [Debug]: Stack is full', { x: tileX, y: tileY, max: MAX_STACK_SIZE });
+                return;
+            }
+
+            const name = DEBUG_HERO_NAMES[heroes.getHeroes().length % DEBUG_HERO_NAMES.length];
+            const unitId = heroes.createHero({ name, ownerId, gridPos: { x: tileX, y: tileY } });
+            console.log('Victoriae [Heroes]: Hero created', { unitId, name, ownerId, pos: { x: tileX, y: tileY } });
+        }
+
+        if (e.code === 'KeyI') {
+            e.preventDefault();
+            const items = heroes.getRules().items;
+            for (const unit of selectedHeroes()) {
+                const item = items[unit.hero!.items.length % items.length];
+                if (heroes.giveItem(unit.id, item.key)) {
+                    console.log(`Victoriae [Heroes]: ${unit.hero!.name} picked up the ${item.name}`, item.bonuses);
+                } else {
+                    console.log(`Victoriae [Heroes]: ${unit.hero!.name} cannot carry more items`);
+                }
+            }
+        }
+
+        if (e.code === 'KeyL') {
+            e.preventDefault();
+            const stat = e.altKey ? 'leadership' : e.shiftKey ? 'movement' : 'strength';
+            for (const unit of selectedHeroes()) {
+                if (heroes.chooseStat(unit.id, stat)) {
+                    console.log(`Victoriae [Heroes]: ${unit.hero!.name} trained ${stat}`, {
+                        strength: unit.strength,
+                        movement: unit.maxMovementPoints,
+                        leadership: heroes.getLeadership(unit.id)
+                    });
+                } else {
+                    console.log(`Victoriae [Heroes]: ${unit.hero!.name} has no level-up to spend`);
+                }
+            }
+        }
+    });
+}
+
+/**
+ * Setup diplomacy debug keys
+ * Press 'D' to offer peace to the next player (Shift+D: an alliance, Alt+D: declare war on them)
+ * Press 'Y' to accept the oldest offer made to the active player (Shift+Y: reject it)
+ * State changes, offers and answers are logged as they happen.
+ */
+function setupDiplomacyInput(diplomacy: DiplomacySystem, orders: GameController, turns: TurnManager): void {
+    const playerName = (playerId: number) => turns.getPlayer(playerId)?.name ?? `Player ${playerId}`;
+
+    diplomacy.on('stateChanged', ({ playerA, playerB, previous, state }) => {
+        console.log(`Victoriae [Diplomacy]: ${playerName(playerA)} and ${playerName(playerB)}: ${previous} -> ${state}`);
+    });
+    diplomacy.on('proposalMade', ({ proposal }) => {
+        console.log(`Victoriae [Diplomacy]: ${playerName(proposal.from)} offers ${proposal.state} to ${playerName(proposal.to)} - Y accepts, Shift+Y rejects on their turn`);
+    });
+    diplomacy.on('proposalResolved', ({ proposal, accepted }) => {
+        console.log(`Victoriae [Diplomacy]: ${playerName(proposal.to)} ${accepted ? 'accepted' : 'rejected'} ${playerName(proposal.from)}'s offer of ${proposal.state}`);
+    });
+
+    window.addEventListener('keydown', (e) => {
+        if (e.ctrlKey || e.metaKey) return;
+        if (e.code !== 'KeyD' && e.code !== 'KeyY') return;
+        e.preventDefault();
+
+        const playerId = getLocalCommander(turns);
+        if (playerId === null) {
+            console.log('Victoriae [Diplomacy]: Treaties can only be offered and answered on your turn');
+            return;
+        }
+
+        if (e.code === 'KeyD') {
+            const otherId = getEnemyPlayerId(turns);
+            const result = e.altKey
+                ? orders.declare(playerId, otherId, DiplomaticState.WAR)
+                : orders.proposeTreaty(playerId, otherId, e.shiftKey ? DiplomaticState.ALLIANCE : DiplomaticState.PEACE);
+            if (!result.success) {
+                console.log('Victoriae [Diplomacy]: Refused', { reason: result.reason, playerId, otherId });
+            }
+        }
+
+        if (e.code === 'KeyY') {
+            const proposal = diplomacy.getProposals(playerId)[0];
+            if (!proposal) {
+                console.log(`Victoriae [Diplomacy]: No offers for ${playerName(playerId)}`);
+                return;
+            }
+
+            const result = orders.respondToTreaty(proposal.id, playerId, !e.shiftKey);
+            if (!result.success) {
+                console.log('Victoriae [Diplomacy]: Refused', { reason: result.reason, proposal });
+            }
+        }
+    });
+}
+
+/**
+ * Get the player mouse and keyboard orders are given for
+ * Only a human seat whose orders phase it is; while a computer player takes its turn
+ * (or a hot-seat player has not taken the seat yet) local input orders nobody.
+ * @returns Player ID, or null if no local player may give orders now
+ */
+function getLocalCommander(turns: TurnManager): number | null {
+    const player = turns.getActivePlayer();
+    return player.kind === 'human' && turns.canCommand(player.id) ? player.id : null;
+}
+
+/**
+ * Get the player debug keys create enemy units for
+ * @returns The next player in turn order, or player 2 in single-player games
+ */
+function getEnemyPlayerId(turns: TurnManager): number {
+    const players = turns.getPlayers();
+    if (players.length === 1) return players[0].id + 1;
+
+    const index = players.findIndex(player => player.id === turns.getActivePlayerId());
+    return players[(index + 1) % players.length].id;
+}
+
+/**
+ * Log the outcome of a battle
+ * @param battle - Battle result from the GameController
+ */
+function logBattle(battle: BattleResult): void {
+    console.log('Victoriae [Combat]: Battle resolved', {
+        seed: battle.seed,
+        winner: battle.winner,
+        rounds: battle.log.filter(entry => entry.type === 'round').length,
+        defenseBonus: battle.defenseBonus,
+        leadership: battle.leadership,
+        killed: battle.killed
+    });
+    console.table(battle.hpChanges);
+}
+
+/**
+ * Log a city changing hands
+ * @param capture - Capture reported by the GameController
+ * @param cityRegistry - City registry
+ */
+function logCapture(capture: CityCapture, cityRegistry: CityRegistry): void {
+    console.log('Victoriae [Combat]: City captured', {
+        city: cityRegistry.getCity(capture.cityId)?.name,
+        from: capture.previousOwnerId,
+        to: capture.newOwnerId
     });
 }
 
-init();
\ No newline at end of file
+init();
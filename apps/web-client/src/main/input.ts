@@ -10,9 +10,15 @@ export function setupInput(sab: SharedArrayBuffer) {
     const PAN_SPEED = 5.0; // Slower, more controlled panning
 
     // Zoom limits based on visible tiles
-    const MAP_SIZE = 64; // Match the map size from render worker
+    // The maximum visible area (minimum zoom out) is the map itself, read from the SAB
     const MIN_VISIBLE_TILES = 4; // Minimum tiles visible (maximum zoom in)
-    const MAX_VISIBLE_TILES = MAP_SIZE; // Maximum tiles visible (minimum zoom out - see entire map)
+
+    // Helper function to read the current map dimensions (written to the SAB by the main thread)
+    function getMapDimensions(): [number, number] {
+        const mapWidth = Math.max(1, view[SAB_OFFSETS.MAP_WIDTH]);
+        const mapHeight = Math.max(1, view[SAB_OFFSETS.MAP_HEIGHT]);
+        return [mapWidth, mapHeight];
+    }
 
     // Helper function to convert screen coordinates to world coordinates
     // Matches the shader's coordinate transformation exactly
@@ -36,7 +42,7 @@ export function setupInput(sab: SharedArrayBuffer) {
     }
 
     // Helper function to calculate zoom limits based on visible tiles
-    function calculateZoomLimits(screenWidth: number, screenHeight: number, mapSize: number, minTiles: number, maxTiles: number): [number, number] {
+    function calculateZoomLimits(screenWidth: number, screenHeight: number, mapWidth: number, mapHeight: number, minTiles: number): [number, number] {
         const aspectRatio = screenWidth / screenHeight;
 
         // Calculate zoom based on visible tiles
@@ -52,20 +58,18 @@ export function setupInput(sab: SharedArrayBuffer) {
         const maxZoomWorldSizeY = aspectRatio >= 1 ? minTiles : minTiles / aspectRatio;
         const maxZoom = 2.0 / maxZoomWorldSizeY;
 
-        // Minimum zoom (most zoomed out): show at most maxTiles
-        // We want worldSizeY <= maxTiles (so we see at most maxTiles vertically)
-        // Since worldSizeX = worldSizeY * aspectRatio, if aspectRatio > 1, we'll see more horizontally
-        // To ensure we see at most maxTiles in both directions, use maxTiles for the larger dimension
-        // If aspectRatio > 1 (wider), X is larger, so worldSizeX = maxTiles, meaning worldSizeY = maxTiles / aspectRatio
-        // If aspectRatio < 1 (taller), Y is larger, so worldSizeY = maxTiles
-        const minZoomWorldSizeY = aspectRatio >= 1 ? maxTiles / aspectRatio : maxTiles;
+        // Minimum zoom (most zoomed out): the viewport must still fit inside the map
+        // We want worldSizeY <= mapHeight and worldSizeX <= mapWidth
+        // Since worldSizeX = worldSizeY * aspectRatio, the second condition means worldSizeY <= mapWidth / aspectRatio
+        // The tighter of the two constraints wins, which also handles non-square maps
+        const minZoomWorldSizeY = Math.min(mapHeight, mapWidth / aspectRatio);
         const minZoom = 2.0 / minZoomWorldSizeY;
 
         return [minZoom, maxZoom];
     }
 
     // Helper function to clamp camera position to keep viewport within map bounds
-    function clampCameraToBounds(camX: number, camY: number, zoom: number, screenWidth: number, screenHeight: number, mapSize: number): [number, number] {
+    function clampCameraToBounds(camX: number, camY: number, zoom: number, screenWidth: number, screenHeight: number, mapWidth: number, mapHeight: number): [number, number] {
         // Calculate viewport size in world space
         const aspectRatio = screenWidth / screenHeight;
         const worldSizeY = 2.0 / zoom;
@@ -75,19 +79,19 @@ export function setupInput(sab: SharedArrayBuffer) {
         const halfWorldSizeX = worldSizeX * 0.5;
         const halfWorldSizeY = worldSizeY * 0.5;
 
-        // Clamp camera position so viewport stays within map bounds [0, mapSize]
+        // Clamp camera position so viewport stays within map bounds [0, mapWidth] x [0, mapHeight]
         // Left edge: camX - halfWorldSizeX >= 0  => camX >= halfWorldSizeX
-        // Right edge: camX + halfWorldSizeX <= mapSize => camX <= mapSize - halfWorldSizeX
+        // Right edge: camX + halfWorldSizeX <= mapWidth => camX <= mapWidth - halfWorldSizeX
         // Bottom edge: camY - halfWorldSizeY >= 0 => camY >= halfWorldSizeY
-        // Top edge: camY + halfWorldSizeY <= mapSize => camY <= mapSize - halfWorldSizeY
+        // Top edge: camY + halfWorldSizeY <= mapHeight => camY <= mapHeight - halfWorldSizeY
 
         // Handle case where viewport is larger than map (shouldn't happen with proper zoom limits, but safety check)
-        const clampedX = halfWorldSizeX >= mapSize
-            ? mapSize * 0.5 // Center if viewport is larger than map
-            : Math.max(halfWorldSizeX, Math.min(mapSize - halfWorldSizeX, camX));
-        const clampedY = halfWorldSizeY >= mapSize
-            ? mapSize * 0.5 // Center if viewport is larger than map
-            : Math.max(halfWorldSizeY, Math.min(mapSize - halfWorldSizeY, camY));
+        const clampedX = halfWorldSizeX * 2 >= mapWidth
+            ? mapWidth * 0.5 // Center if viewport is wider than map
+            : Math.max(halfWorldSizeX, Math.min(mapWidth - halfWorldSizeX, camX));
+        const clampedY = halfWorldSizeY * 2 >= mapHeight
+            ? mapHeight * 0.5 // Center if viewport is taller than map
+            : Math.max(halfWorldSizeY, Math.min(mapHeight - halfWorldSizeY, camY));
 
         return [clampedX, clampedY];
     }
@@ -136,7 +140,8 @@ export function setupInput(sab: SharedArrayBuffer) {
         );
 
         // Calculate zoom limits based on visible tiles
-        const [minZoom, maxZoom] = calculateZoomLimits(screenWidth, screenHeight, MAP_SIZE, MIN_VISIBLE_TILES, MAX_VISIBLE_TILES);
+        const [mapWidth, mapHeight] = getMapDimensions();
+        const [minZoom, maxZoom] = calculateZoomLimits(screenWidth, screenHeight, mapWidth, mapHeight, MIN_VISIBLE_TILES);
 
         // Calculate new zoom (clamped to limits)
         const zoomDelta = e.deltaY * -0.001;
@@ -160,7 +165,7 @@ export function setupInput(sab: SharedArrayBuffer) {
         let newCamY = worldY - ndcY * (newWorldSizeY * 0.5);
 
         // Clamp camera to map bounds after zoom
-        [newCamX, newCamY] = clampCameraToBounds(newCamX, newCamY, newZoom, screenWidth, screenHeight, MAP_SIZE);
+        [newCamX, newCamY] = clampCameraToBounds(newCamX, newCamY, newZoom, screenWidth, screenHeight, mapWidth, mapHeight);
 
         // Update SAB
         view[SAB_OFFSETS.CAMERA_X] = newCamX;
@@ -221,7 +226,8 @@ export function setupInput(sab: SharedArrayBuffer) {
             let newCamY = currentCamY + panDeltaY;
 
             // Clamp camera to map bounds
-            [newCamX, newCamY] = clampCameraToBounds(newCamX, newCamY, zoom, screenWidth, screenHeight, MAP_SIZE);
+            const [mapWidth, mapHeight] = getMapDimensions();
+            [newCamX, newCamY] = clampCameraToBounds(newCamX, newCamY, zoom, screenWidth, screenHeight, mapWidth, mapHeight);
 
             // Update SAB
             view[SAB_OFFSETS.CAMERA_X] = newCamX;
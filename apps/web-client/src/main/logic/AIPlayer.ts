@@ -0,0 +1,449 @@
+/**
+ * AIPlayer - Computer opponent that plays through the same order API as a human
+ *
+ * On its turn an AIPlayer hands its strategy two things:
+ *
+ *     AIGameView - read-only queries over the public game state (UnitRegistry,
+ *                  CityRegistry, WorldContainer, ...), filtered to what the
+ *                  player knows: enemies only on tiles it can see, cities only
+ *                  where it has explored; with diplomacy, only players it is at
+ *                  war with count as enemies
+ *     AIOrders   - moves, attacks and unit orders, carried out by the
+ *                  GameController with the same validation a click gets
+ *
+ * Strategies are pluggable (see AIStrategy and SimpleAIStrategy). Nothing here
+ * touches the DOM, so AI players run in the browser, in a worker or headless
+ * (see HeadlessGame for AI-vs-AI games).
+ *
+ * Usage example:
+ * ```typescript
+ * const ai = new AIPlayer(2, new SimpleAIStrategy(), { world, units, cities, economy, production, pathfinder, movement, combat, turns, visibility, diplomacy, orders });
+ * turns.on('turnStarted', ({ playerId }) => {
+ *     if (playerId === ai.getPlayerId()) {
+ *         console.log(ai.playTurn());
+ *         orders.endTurn();
+ *     }
+ * });
+ * ```
+ */
+
+import type { WorldContainer } from './WorldContainer';
+import { MAX_STACK_SIZE } from './UnitRegistry';
+import type { GridPosition, Unit, UnitRegistry, UnitStack } from './UnitRegistry';
+import type { UnitTypeDefinition, UnitTypeId } from './UnitCatalog';
+import type { City, CityRegistry } from './CityRegistry';
+import type { Economy } from './Economy';
+import type { ProductionOrder, ProductionSystem, EnqueueResult } from './ProductionSystem';
+import type { Pathfinder, ReachableTiles } from './Pathfinder';
+import type { MovementController } from './MovementController';
+import type { CombatResolver } from './CombatResolver';
+import type { TurnManager } from './TurnManager';
+import type { VisibilitySystem } from './VisibilitySystem';
+import type { DiplomacySystem, TreatyProposal } from './DiplomacySystem';
+import type { GameController, OrderOutcome } from './GameController';
+
+/**
+ * Orders an AI strategy can give (a subset of GameController; ending the turn is up to the driver)
+ */
+export interface AIOrders {
+    /** Move a stack (see GameController.move) */
+    move(unitIds: number[], target: GridPosition): OrderOutcome;
+
+    /** Attack an adjacent enemy-held tile (see GameController.attack) */
+    attack(unitIds: number[], target: GridPosition): OrderOutcome;
+
+    /** Order a unit in a city (see GameController.orderUnit) */
+    orderUnit(cityId: number, unitType: UnitTypeId): EnqueueResult;
+}
+
+/**
+ * A way of playing a turn
+ */
+export interface AIStrategy {
+    /** Name for logs and simulation reports */
+    readonly name: string;
+
+    /**
+     * Give this turn's orders
+     * @param view - What the player knows
+     * @param orders - Validated order API
+     */
+    playTurn(view: AIGameView, orders: AIOrders): void;
+
+    /**
+     * Decide on a treaty offered to the player (optional: without it offers stay unanswered)
+     * @param view - What the player knows
+     * @param proposal - The offer
+     * @returns true to accept, false to reject
+     */
+    answerProposal?(view: AIGameView, proposal: TreatyProposal): boolean;
+}
+
+/**
+ * Game systems an AI player reads from and orders through
+ */
+export interface AIPlayerDeps {
+    world: WorldContainer;
+    units: UnitRegistry;
+    cities: CityRegistry;
+    economy: Economy;
+    production: ProductionSystem;
+    pathfinder: Pathfinder;
+    movement: MovementController;
+    combat: CombatResolver;
+    turns: TurnManager;
+
+    /** Fog of war (default: none - the AI sees the whole map) */
+    visibility?: VisibilitySystem | null;
+
+    /** Diplomacy (default: none - every other owner is an enemy) */
+    diplomacy?: DiplomacySystem | null;
+
+    /** Order API shared with human players */
+    orders: GameController;
+}
+
+/**
+ * What an AI player did in one turn
+ */
+export interface AITurnReport {
+    playerId: number;
+    turnNumber: number;
+
+    /** Successful moves */
+    moves: number;
+
+    /** Battles fought */
+    attacks: number;
+
+    /** Battles won */
+    victories: number;
+
+    /** Cities taken */
+    captures: number;
+
+    /** Units ordered in cities */
+    unitsOrdered: number;
+
+    /** Orders the game refused (a strategy bug or a stale plan) */
+    rejected: number;
+}
+
+/**
+ * AIGameView - One player's read-only view of the game
+ */
+export class AIGameView {
+    readonly playerId: number;
+    private deps: AIPlayerDeps;
+
+    /**
+     * Create a new AIGameView
+     * @param playerId - Player the view belongs to
+     * @param deps - Game systems
+     */
+    constructor(playerId: number, deps: AIPlayerDeps) {
+        this.playerId = playerId;
+        this.deps = deps;
+    }
+
+    /**
+     * Get the current turn number
+     * @returns Turn number
+     */
+    getTurnNumber(): number {
+        return this.deps.turns.getTurnNumber();
+    }
+
+    /**
+     * Get the map size
+     * @returns Width and height in tiles
+     */
+    getMapSize(): { width: number; height: number } {
+        return { width: this.deps.world.getWidth(), height: this.deps.world.getHeight() };
+    }
+
+    /**
+     * Get the player's gold
+     * @returns Treasury
+     */
+    getTreasury(): number {
+        return this.deps.economy.getTreasury(this.playerId);
+    }
+
+    /**
+     * Get the player's stacks
+     * @returns Stacks ordered by their first unit's ID
+     */
+    getOwnStacks(): UnitStack[] {
+        return this.deps.units.getStacks(this.playerId).sort((a, b) => a.units[0].id - b.units[0].id);
+    }
+
+    /**
+     * Get the player's cities
+     * @returns Cities ordered by ID
+     */
+    getOwnCities(): City[] {
+        return this.deps.cities.getCitiesByOwner(this.playerId).sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Get the explored cities of players (and neutrals) the player is at war with
+     * @returns Cities ordered by ID
+     */
+    getKnownCities(): City[] {
+        return this.deps.cities.getAllCities()
+            .filter(city => this.isEnemy(city.ownerId) && this.isExplored(city.pos))
+            .sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Get the stacks of enemies the player can currently see
+     * @returns Stacks ordered by their first unit's ID
+     */
+    getVisibleEnemyStacks(): UnitStack[] {
+        return this.deps.units.getStacks()
+            .filter(stack => this.isEnemy(stack.ownerId) && this.isVisible(stack.pos))
+            .sort((a, b) => a.units[0].id - b.units[0].id);
+    }
+
+    /**
+     * Get the visible units on a tile that belong to enemies
+     * @param pos - Tile position
+     * @returns Enemy units (empty if the tile is not visible)
+     */
+    getVisibleEnemiesAt(pos: GridPosition): Unit[] {
+        if (!this.isVisible(pos)) return [];
+        return this.deps.units.getUnitsAt(pos).filter(unit => this.isEnemy(unit.ownerId));
+    }
+
+    /**
+     * Check if an owner is someone the player is at war with
+     * @param ownerId - Owner ID (0 = neutral)
+     * @returns true for enemies (every other owner without diplomacy)
+     */
+    isEnemy(ownerId: number): boolean {
+        if (ownerId === this.playerId) return false;
+        return this.deps.diplomacy?.isHostile(this.playerId, ownerId) ?? true;
+    }
+
+    /**
+     * Get the player's units on a tile
+     * @param pos - Tile position
+     * @returns Own units
+     */
+    getOwnUnitsAt(pos: GridPosition): Unit[] {
+        return this.deps.units.getStackAt(pos, this.playerId);
+    }
+
+    /**
+     * Get a city's production queue
+     * @param cityId - City ID
+     * @returns Orders (empty for other players' cities)
+     */
+    getQueue(cityId: number): ProductionOrder[] {
+        return this.deps.cities.getCity(cityId)?.ownerId === this.playerId ? this.deps.production.getQueue(cityId) : [];
+    }
+
+    /**
+     * Get the unit types cities can build
+     * @returns Catalog types (heroes excluded)
+     */
+    getBuildableTypes(): UnitTypeDefinition[] {
+        return this.deps.units.getCatalog().getAll().filter(type => !type.hero);
+    }
+
+    /**
+     * Get a city's footprint
+     * @param cityId - City ID
+     * @returns Footprint tiles
+     */
+    getFootprint(cityId: number): GridPosition[] {
+        return this.deps.cities.getFootprint(cityId);
+    }
+
+    /**
+     * Get the tiles one of the player's stacks can still reach this turn
+     * @param unitIds - Units of one own stack
+     * @returns Reachable tiles, or null for units that are not one own stack
+     */
+    getReachableTiles(unitIds: number[]): ReachableTiles | null {
+        if (this.deps.units.getUnit(unitIds[0])?.ownerId !== this.playerId) return null;
+        return this.deps.movement.getStackReachableTiles(unitIds);
+    }
+
+    /**
+     * Find a path for one of the player's stacks, however many turns it takes
+     * Tiles with visible units of non-allied players are avoided (except the destination).
+     * @param unitIds - Units of one own stack
+     * @param to - Destination tile
+     * @returns Tiles to step through (excluding the start), or null if there is no path
+     */
+    findPath(unitIds: number[], to: GridPosition): GridPosition[] | null {
+        const units = unitIds.map(id => this.deps.units.getUnit(id));
+        if (units.some(unit => unit?.ownerId !== this.playerId)) return null;
+
+        const result = this.deps.pathfinder.findPath(
+            units.map(unit => unit!.unitType),
+            units[0]!.gridPos,
+            to,
+            { isBlocked: (x, y) => (x !== to.x || y !== to.y) && this.isVisiblyBlocked({ x, y }) }
+        );
+        return result?.path ?? null;
+    }
+
+    /**
+     * Check if the player's stack could end its move on a tile without exceeding MAX_STACK_SIZE
+     * @param pos - Tile position
+     * @param unitCount - Units arriving
+     * @returns true if there is room
+     */
+    hasRoom(pos: GridPosition, unitCount: number): boolean {
+        return this.getOwnUnitsAt(pos).length + unitCount <= MAX_STACK_SIZE;
+    }
+
+    /**
+     * Estimate the fighting power of a group of units
+     * @param units - Units
+     * @param bonus - Strength bonus each unit receives (e.g. a tile's defense bonus)
+     * @returns Sum of strength scaled by remaining health
+     */
+    getPower(units: Unit[], bonus: number = 0): number {
+        return units.reduce((sum, unit) => sum + (unit.strength + bonus) * (unit.hp / unit.maxHp), 0);
+    }
+
+    /**
+     * Get the defense bonus of a tile (terrain + fortress + city)
+     * @param pos - Tile position
+     * @returns Bonus added to each defender's strength
+     */
+    getTileDefenseBonus(pos: GridPosition): number {
+        return this.deps.combat.getTileDefenseBonus(pos);
+    }
+
+    /**
+     * Count the tiles around a position the player has never seen
+     * @param pos - Center tile
+     * @param radius - Radius in tiles
+     * @returns Unexplored tiles (every tile counts without fog of war: 0)
+     */
+    countUnexplored(pos: GridPosition, radius: number): number {
+        return this.deps.visibility?.countUnexplored(this.playerId, pos, radius) ?? 0;
+    }
+
+    /**
+     * Check if the player currently sees a tile
+     * @param pos - Tile position
+     * @returns true if visible (always, without fog of war)
+     */
+    isVisible(pos: GridPosition): boolean {
+        return this.deps.visibility?.isVisible(this.playerId, pos.x, pos.y) ?? true;
+    }
+
+    /**
+     * Check if the player has ever seen a tile
+     * @param pos - Tile position
+     * @returns true if explored (always, without fog of war)
+     */
+    isExplored(pos: GridPosition): boolean {
+        return this.deps.visibility?.isExplored(this.playerId, pos.x, pos.y) ?? true;
+    }
+
+    /**
+     * Check if the player can see units on a tile that would block its stacks (anyone but its own and allies')
+     */
+    private isVisiblyBlocked(pos: GridPosition): boolean {
+        if (!this.isVisible(pos)) return false;
+        return this.deps.units.getUnitsAt(pos)
+            .some(unit => unit.ownerId !== this.playerId && !this.deps.diplomacy?.isAllied(this.playerId, unit.ownerId));
+    }
+}
+
+/**
+ * AIPlayer - Plays one player's turns with a strategy
+ */
+export class AIPlayer {
+    private playerId: number;
+    private strategy: AIStrategy;
+    private deps: AIPlayerDeps;
+    private view: AIGameView;
+
+    /**
+     * Create a new AIPlayer
+     * @param playerId - Player to play for
+     * @param strategy - How to play
+     * @param deps - Game systems
+     */
+    constructor(playerId: number, strategy: AIStrategy, deps: AIPlayerDeps) {
+        this.playerId = playerId;
+        this.strategy = strategy;
+        this.deps = deps;
+        this.view = new AIGameView(playerId, deps);
+    }
+
+    /**
+     * Get the player this AI plays for
+     * @returns Player ID
+     */
+    getPlayerId(): number {
+        return this.playerId;
+    }
+
+    /**
+     * Get the strategy
+     * @returns Strategy
+     */
+    getStrategy(): AIStrategy {
+        return this.strategy;
+    }
+
+    /**
+     * Give this turn's orders (the caller ends the turn afterwards)
+     * @returns What the AI did, or null if it is not this player's orders phase
+     */
+    playTurn(): AITurnReport | null {
+        const { turns, orders, visibility, units, cities } = this.deps;
+        if (!turns.canCommand(this.playerId)) return null;
+
+        // Start from what the player can see right now
+        visibility?.update(units, cities.getVisionSources());
+
+        const report: AITurnReport = {
+            playerId: this.playerId,
+            turnNumber: turns.getTurnNumber(),
+            moves: 0,
+            attacks: 0,
+            victories: 0,
+            captures: 0,
+            unitsOrdered: 0,
+            rejected: 0,
+        };
+        const record = (outcome: OrderOutcome): OrderOutcome => {
+            if (outcome.type === 'rejected') report.rejected++;
+            if (outcome.type === 'moved') report.moves++;
+            if (outcome.type === 'attacked') report.attacks++;
+            if (outcome.type === 'attacked' && outcome.battle.winner === 'attacker') report.victories++;
+            if (outcome.type !== 'rejected' && outcome.capture) report.captures++;
+            return outcome;
+        };
+
+        // Answer treaty offers before giving orders, so the orders see the new relations
+        if (this.deps.diplomacy && this.strategy.answerProposal) {
+            for (const proposal of this.deps.diplomacy.getProposals(this.playerId)) {
+                orders.respondToTreaty(proposal.id, this.playerId, this.strategy.answerProposal(this.view, proposal));
+            }
+        }
+
+        this.strategy.playTurn(this.view, {
+            move: (unitIds, target) => record(orders.move(unitIds, target)),
+            attack: (unitIds, target) => record(orders.attack(unitIds, target)),
+            orderUnit: (cityId, unitType) => {
+                const result = orders.orderUnit(cityId, unitType);
+                if (result.success) report.unitsOrdered++;
+                else report.rejected++;
+                return result;
+            },
+        });
+
+        return report;
+    }
+}
@@ -0,0 +1,298 @@
+/**
+ * CityRegistry - Cities as first-class game objects on top of WorldContainer
+ *
+ * A city has a name, an owner, a defense value, an income and a rectangular
+ * footprint (2x2 tiles by default, as in Warlords). The registry claims the
+ * footprint tiles in the WorldContainer (BuildingType.CITY + owner), so cities
+ * show up in the tile encoding and render distinctly, and keeps a tile -> city
+ * lookup for fast "city at tile" queries.
+ *
+ * Footprint tiles belong to the registry: change them through the registry
+ * (capture, remove) rather than with WorldContainer.setTile/placeBuilding.
+ *
+ * Usage example:
+ * ```typescript
+ * const cities = new CityRegistry(worldContainer);
+ * const id = cities.addCity({ name: 'Marthos', ownerId: 1, pos: { x: 20, y: 12 } });
+ * cities.getCityAt({ x: 21, y: 13 }); // Same city (2x2 footprint)
+ * cities.captureCity(id, 2); // Player 2 takes it
+ * cities.getCitiesByOwner(2); // [Marthos]
+ * ```
+ */
+
+import { BuildingType, TerrainType } from './WorldContainer';
+import type { WorldContainer } from './WorldContainer';
+import type { GridPosition, Unit, UnitRegistry } from './UnitRegistry';
+import type { VisionSource } from './VisibilitySystem';
+
+/**
+ * Default values for new cities
+ */
+export const DEFAULT_CITY_WIDTH = 2;
+export const DEFAULT_CITY_HEIGHT = 2;
+export const DEFAULT_CITY_DEFENSE = 2;
+export const DEFAULT_CITY_INCOME = 10;
+
+/**
+ * How far a city reveals the map around its footprint, in tiles
+ */
+export const CITY_SIGHT_RADIUS = 3;
+
+/**
+ * City object
+ */
+export interface City {
+    /** Unique city identifier */
+    id: number;
+
+    /** Display name */
+    name: string;
+
+    /** Owner ID (0 = neutral, 1+ = player ID) */
+    ownerId: number;
+
+    /** Top-left tile of the footprint */
+    pos: GridPosition;
+
+    /** Footprint width in tiles */
+    width: number;
+
+    /** Footprint height in tiles */
+    height: number;
+
+    /** Defense bonus for units garrisoned in the city */
+    defense: number;
+
+    /** Gold produced per turn */
+    income: number;
+
+    /** Additional gameplay metadata */
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Parameters for founding a city (everything except name, owner and position is optional)
+ */
+export type CityInit = Partial<City> & { name: string; pos: GridPosition };
+
+/**
+ * CityRegistry - Manages cities and their footprint tiles
+ */
+export class CityRegistry {
+    private world: WorldContainer;
+    private cities: Map<number, City>;
+    private tileToCity: Map<number, number>; // Tile index (y * width + x) -> city ID
+    private nextCityId: number;
+
+    /**
+     * Create a new CityRegistry
+     * @param world - WorldContainer the cities are placed in
+     */
+    constructor(world: WorldContainer) {
+        this.world = world;
+        this.cities = new Map();
+        this.tileToCity = new Map();
+        this.nextCityId = 1;
+    }
+
+    /**
+     * Check if a city footprint can be placed
+     * The footprint must lie within the map, avoid water and not overlap another city.
+     * @param pos - Top-left tile
+     * @param width - Footprint width (default: 2)
+     * @param height - Footprint height (default: 2)
+     * @returns true if a city can be founded there
+     */
+    canPlaceCity(pos: GridPosition, width: number = DEFAULT_CITY_WIDTH, height: number = DEFAULT_CITY_HEIGHT): boolean {
+        if (width < 1 || height < 1) return false;
+
+        for (let y = pos.y; y < pos.y + height; y++) {
+            for (let x = pos.x; x < pos.x + width; x++) {
+                const tile = this.world.getTile(x, y);
+                if (!tile || tile.terrain === TerrainType.WATER) return false;
+                if (this.tileToCity.has(this.toIndex(x, y))) return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Found a city and claim its footprint tiles
+     * @param city - City to add (id will be auto-assigned if not provided; later IDs follow a given one)
+     * @returns The city ID, or null if the footprint is invalid or the ID is taken
+     */
+    addCity(city: CityInit): number | null {
+        const width = city.width ?? DEFAULT_CITY_WIDTH;
+        const height = city.height ?? DEFAULT_CITY_HEIGHT;
+        if (city.id !== undefined && this.cities.has(city.id)) return null;
+        if (!this.canPlaceCity(city.pos, width, height)) return null;
+
+        const id = city.id ?? this.nextCityId++;
+        this.nextCityId = Math.max(this.nextCityId, id + 1);
+        const fullCity: City = {
+            id,
+            name: city.name,
+            ownerId: city.ownerId ?? 0,
+            pos: { ...city.pos },
+            width,
+            height,
+            defense: city.defense ?? DEFAULT_CITY_DEFENSE,
+            income: city.income ?? DEFAULT_CITY_INCOME,
+            metadata: city.metadata,
+        };
+
+        this.cities.set(id, fullCity);
+        for (const tile of this.getFootprint(id)) {
+            this.tileToCity.set(this.toIndex(tile.x, tile.y), id);
+            this.world.setTile(tile.x, tile.y, {
+                building: BuildingType.CITY,
+                buildingLevel: 1,
+                ownerId: fullCity.ownerId,
+            });
+        }
+
+        return id;
+    }
+
+    /**
+     * Remove a city (razed) and release its footprint tiles
+     * @param id - City ID
+     * @returns true if the city was removed, false if not found
+     */
+    removeCity(id: number): boolean {
+        if (!this.cities.has(id)) return false;
+
+        for (const tile of this.getFootprint(id)) {
+            this.tileToCity.delete(this.toIndex(tile.x, tile.y));
+            this.world.setTile(tile.x, tile.y, {
+                building: BuildingType.NONE,
+                buildingLevel: 0,
+                ownerId: 0,
+            });
+        }
+
+        this.cities.delete(id);
+        return true;
+    }
+
+    /**
+     * Change a city's owner (capture) and re-claim its footprint for the new owner
+     * @param id - City ID
+     * @param newOwnerId - New owner ID
+     * @returns Previous owner ID, or null if the city was not found
+     */
+    captureCity(id: number, newOwnerId: number): number | null {
+        const city = this.cities.get(id);
+        if (!city) return null;
+
+        const previousOwnerId = city.ownerId;
+        city.ownerId = newOwnerId;
+
+        for (const tile of this.getFootprint(id)) {
+            this.world.setTile(tile.x, tile.y, { ownerId: newOwnerId });
+        }
+
+        return previousOwnerId;
+    }
+
+    /**
+     * Get a city by ID
+     * @param id - City ID
+     * @returns City or undefined if not found
+     */
+    getCity(id: number): City | undefined {
+        return this.cities.get(id);
+    }
+
+    /**
+     * Get all cities
+     * @returns Array of all cities
+     */
+    getAllCities(): City[] {
+        return Array.from(this.cities.values());
+    }
+
+    /**
+     * Get the city covering a tile
+     * @param pos - Tile position
+     * @returns City or undefined if the tile is not part of a city
+     */
+    getCityAt(pos: GridPosition): City | undefined {
+        if (!this.world.getTile(pos.x, pos.y)) return undefined;
+        const id = this.tileToCity.get(this.toIndex(pos.x, pos.y));
+        return id === undefined ? undefined : this.cities.get(id);
+    }
+
+    /**
+     * Get cities owned by a specific player
+     * @param ownerId - Owner ID
+     * @returns Array of cities owned by that player
+     */
+    getCitiesByOwner(ownerId: number): City[] {
+        return this.getAllCities().filter(city => city.ownerId === ownerId);
+    }
+
+    /**
+     * Get the number of cities
+     * @returns Number of cities
+     */
+    getCityCount(): number {
+        return this.cities.size;
+    }
+
+    /**
+     * Get the tiles covered by a city
+     * @param id - City ID
+     * @returns Footprint tile positions (empty if not found)
+     */
+    getFootprint(id: number): GridPosition[] {
+        const city = this.cities.get(id);
+        if (!city) return [];
+
+        const tiles: GridPosition[] = [];
+        for (let y = city.pos.y; y < city.pos.y + city.height; y++) {
+            for (let x = city.pos.x; x < city.pos.x + city.width; x++) {
+                tiles.push({ x, y });
+            }
+        }
+        return tiles;
+    }
+
+    /**
+     * Get the units garrisoned in a city (the owner's units standing on its footprint)
+     * @param id - City ID
+     * @param units - Unit registry
+     * @returns Garrisoned units, tile by tile (empty if the city is not found)
+     */
+    getGarrison(id: number, units: UnitRegistry): Unit[] {
+        const city = this.cities.get(id);
+        if (!city) return [];
+
+        return this.getFootprint(id).flatMap(pos => units.getStackAt(pos, city.ownerId));
+    }
+
+    /**
+     * Get vision sources for all owned cities (for the VisibilitySystem)
+     * @returns One vision source per owned city, centered on its footprint
+     */
+    getVisionSources(): VisionSource[] {
+        return this.getAllCities()
+            .filter(city => city.ownerId > 0)
+            .map(city => ({
+                ownerId: city.ownerId,
+                pos: {
+                    x: city.pos.x + Math.floor(city.width / 2),
+                    y: city.pos.y + Math.floor(city.height / 2),
+                },
+                radius: CITY_SIGHT_RADIUS + Math.floor(Math.max(city.width, city.height) / 2),
+            }));
+    }
+
+    /**
+     * Convert tile coordinates to a tile index
+     */
+    private toIndex(x: number, y: number): number {
+        return y * this.world.getWidth() + x;
+    }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGame } from './HeadlessGame';
+
+/**
+ * A small game and one unit of each of its two players
+ */
+function setup() {
+    const game = new HeadlessGame({ width: 24, height: 16, seed: 5 });
+    return { game, attacker: game.units.getUnitsByOwner(1)[0], defender: game.units.getUnitsByOwner(2)[0] };
+}
+
+describe('CombatResolver', () => {
+    it('refuses battles with nobody on a side', () => {
+        const { game, attacker, defender } = setup();
+
+        expect(() => game.combat.simulate([attacker.id], [])).toThrow('A battle needs living units on both sides');
+        expect(() => game.combat.simulate([], [defender.id])).toThrow('A battle needs living units on both sides');
+        expect(() => game.combat.resolve([attacker.id], [9999])).toThrow('defenders [9999]');
+        expect(game.units.getUnit(attacker.id)).toEqual(attacker);
+    });
+
+    it('does not use up a battle seed on a refused battle', () => {
+        const first = setup();
+        const second = setup();
+        expect(() => second.game.combat.simulate([second.attacker.id], [])).toThrow();
+
+        expect(second.game.combat.simulate([second.attacker.id], [second.defender.id]))
+            .toEqual(first.game.combat.simulate([first.attacker.id], [first.defender.id]));
+    });
+});
@@ -0,0 +1,333 @@
+/**
+ * CombatResolver - Deterministic, seedable battle resolution
+ *
+ * Resolves a battle between an attacking group and a defending group, Warlords
+ * style: units fight one-on-one, weakest first, until one side is wiped out.
+ * Every round the attacker hits with probability
+ *
+ *     attackStrength / (attackStrength + defenseStrength)
+ *
+ * and the loser of the round takes damage. Defenders add terrain, fortress,
+ * city and fortification (DEFENDING state) bonuses to their strength. A hero
+ * adds its leadership to every unit of its side (see HeroSystem); surviving
+ * heroes earn experience for the enemies their side killed.
+ *
+ * All randomness comes from a SeededRandom. Each battle draws its own seed,
+ * which is stored in the result, so any battle can be replayed exactly by
+ * passing that seed back in. HP changes and deaths are applied through
+ * UnitRegistry.setUnitHp / removeUnit.
+ *
+ * Usage example:
+ * ```typescript
+ * const combat = new CombatResolver(unitRegistry, worldContainer, { seed: 42, cities: cityRegistry, heroes });
+ * const result = combat.resolve([attackerId], defenderIds);
+ * result.log.forEach(entry => console.log(entry));
+ * combat.simulate([attackerId], defenderIds, result.seed); // Same outcome, nothing applied
+ * ```
+ */
+
+import { SeededRandom } from './SeededRandom';
+import { BuildingType, TerrainType } from './WorldContainer';
+import type { WorldContainer } from './WorldContainer';
+import { UnitState } from './UnitRegistry';
+import type { GridPosition, Unit, UnitRegistry } from './UnitRegistry';
+import type { CityRegistry } from './CityRegistry';
+import type { HeroSystem } from './HeroSystem';
+
+/**
+ * Combat modifiers (serializable, e.g. loaded from JSON)
+ */
+export interface CombatRules {
+    /** Defense bonus by terrain of the defenders' tile */
+    terrainDefense: Record<TerrainType, number>;
+
+    /** Defense bonus per level of a FORTRESS on the defenders' tile */
+    fortressBonusPerLevel: number;
+
+    /** Defense bonus for units with the DEFENDING (fortified) state */
+    fortifiedBonus: number;
+
+    /** HP lost by the loser of a round */
+    damagePerHit: number;
+
+    /** Safety limit on rounds per battle (the battle is a draw if reached) */
+    maxRounds: number;
+}
+
+/**
+ * Default combat modifiers
+ */
+export const DEFAULT_COMBAT_RULES: CombatRules = {
+    terrainDefense: {
+        [TerrainType.GRASS]: 0,
+        [TerrainType.FOREST]: 1,
+        [TerrainType.WATER]: 0,
+        [TerrainType.MOUNTAIN]: 2,
+    },
+    fortressBonusPerLevel: 1,
+    fortifiedBonus: 1,
+    damagePerHit: 10,
+    maxRounds: 1000,
+};
+
+/**
+ * Battle log entries
+ */
+export type BattleLogEntry =
+    | {
+        type: 'round';
+        round: number;
+        attackerId: number;
+        defenderId: number;
+        /** Chance the attacker wins this round (0-1) */
+        hitChance: number;
+        /** Random roll (0-1); the attacker wins the round if roll < hitChance */
+        roll: number;
+        /** Unit that took damage this round */
+        damagedId: number;
+        damage: number;
+        attackerHp: number;
+        defenderHp: number;
+    }
+    | {
+        type: 'death';
+        round: number;
+        unitId: number;
+        side: 'attacker' | 'defender';
+    };
+
+/**
+ * HP change of one unit
+ */
+export interface HpChange {
+    unitId: number;
+    before: number;
+    after: number;
+}
+
+/**
+ * Outcome of a battle
+ */
+export interface BattleResult {
+    /** Seed the battle was resolved with (pass it back in to replay) */
+    seed: number;
+
+    /** Winning side ('draw' if maxRounds was reached) */
+    winner: 'attacker' | 'defender' | 'draw';
+
+    /** Round-by-round log */
+    log: BattleLogEntry[];
+
+    /** HP before/after for every unit that took part */
+    hpChanges: HpChange[];
+
+    /** Units that died */
+    killed: number[];
+
+    /** Defense bonus the defenders received (terrain + fortress + city) */
+    defenseBonus: number;
+
+    /** Hero leadership bonus each side received */
+    leadership: { attacker: number; defender: number };
+}
+
+/**
+ * Options for creating a CombatResolver
+ */
+export interface CombatResolverOptions {
+    /** Seed for the battle seed stream (default: random) */
+    seed?: number | string;
+
+    /** Cities, for city defense bonuses */
+    cities?: CityRegistry | null;
+
+    /** Combat modifiers (default: DEFAULT_COMBAT_RULES) */
+    rules?: CombatRules;
+
+    /** Heroes, for leadership bonuses and combat experience */
+    heroes?: HeroSystem | null;
+}
+
+/**
+ * Working copy of a unit during a battle
+ */
+interface Combatant {
+    unit: Unit;
+    hp: number;
+    strength: number;
+}
+
+/**
+ * CombatResolver - Resolves battles between unit groups
+ */
+export class CombatResolver {
+    private registry: UnitRegistry;
+    private world: WorldContainer;
+    private cities: CityRegistry | null;
+    private heroes: HeroSystem | null;
+    private rules: CombatRules;
+    private rng: SeededRandom;
+
+    /**
+     * Create a new CombatResolver
+     * @param registry - Unit registry (HP changes and removals are applied here)
+     * @param world - WorldContainer (terrain and fortress bonuses)
+     * @param options - Seed, cities, heroes and rules
+     */
+    constructor(registry: UnitRegistry, world: WorldContainer, options: CombatResolverOptions = {}) {
+        this.registry = registry;
+        this.world = world;
+        this.cities = options.cities ?? null;
+        this.heroes = options.heroes ?? null;
+        this.rules = options.rules ?? DEFAULT_COMBAT_RULES;
+        this.rng = new SeededRandom(options.seed ?? Math.floor(Math.random() * 0xFFFFFFFF));
+    }
+
+    /**
+     * Get the defense bonus of a tile (terrain + fortress + city)
+     * @param pos - Tile position
+     * @returns Defense bonus added to each defender's strength
+     */
+    getTileDefenseBonus(pos: GridPosition): number {
+        const tile = this.world.getTile(pos.x, pos.y);
+        if (!tile) return 0;
+
+        let bonus = this.rules.terrainDefense[tile.terrain] ?? 0;
+        if (tile.building === BuildingType.FORTRESS && tile.buildingLevel > 0) {
+            bonus += this.rules.fortressBonusPerLevel * tile.buildingLevel;
+        }
+        const city = this.cities?.getCityAt(pos);
+        if (city) {
+            bonus += city.defense;
+        }
+        return bonus;
+    }
+
+    /**
+     * Resolve a battle without changing any units
+     * @param attackerIds - Attacking unit IDs
+     * @param defenderIds - Defending unit IDs (their tile determines the defense bonus)
+     * @param seed - Battle seed (default: next seed from the resolver's stream)
+     * @returns Battle result
+     * @throws Error if either side has no living unit
+     */
+    simulate(attackerIds: number[], defenderIds: number[], seed?: number): BattleResult {
+        const leadership = {
+            attacker: this.heroes?.getStackLeadership(attackerIds) ?? 0,
+            defender: this.heroes?.getStackLeadership(defenderIds) ?? 0,
+        };
+        const attackers = this.toCombatants(attackerIds, 'attacker', leadership.attacker);
+        const defenderTile = this.registry.getUnit(defenderIds[0])?.gridPos;
+        const defenseBonus = defenderTile ? this.getTileDefenseBonus(defenderTile) : 0;
+        const defenders = this.toCombatants(defenderIds, 'defender', defenseBonus + leadership.defender);
+        if (attackers.length === 0 || defenders.length === 0) {
+            throw new Error(`A battle needs living units on both sides, got attackers [${attackerIds.join(', ')}] and defenders [${defenderIds.join(', ')}]`);
+        }
+
+        const battleSeed = seed ?? this.rng.nextUint32();
+        const rng = new SeededRandom(battleSeed);
+
+        const initialHp = new Map<number, number>();
+        [...attackers, ...defenders].forEach(c => initialHp.set(c.unit.id, c.hp));
+
+        const log: BattleLogEntry[] = [];
+        const killed: number[] = [];
+        let round = 0;
+        let a = 0;
+        let d = 0;
+
+        while (a < attackers.length && d < defenders.length && round < this.rules.maxRounds) {
+            round++;
+            const attacker = attackers[a];
+            const defender = defenders[d];
+
+            const hitChance = attacker.strength / (attacker.strength + defender.strength);
+            const roll = rng.next();
+            const loser = roll < hitChance ? defender : attacker;
+            loser.hp = Math.max(0, loser.hp - this.rules.damagePerHit);
+
+            log.push({
+                type: 'round',
+                round,
+                attackerId: attacker.unit.id,
+                defenderId: defender.unit.id,
+                hitChance,
+                roll,
+                damagedId: loser.unit.id,
+                damage: this.rules.damagePerHit,
+                attackerHp: attacker.hp,
+                defenderHp: defender.hp,
+            });
+
+            if (loser.hp === 0) {
+                const side = loser === attacker ? 'attacker' : 'defender';
+                log.push({ type: 'death', round, unitId: loser.unit.id, side });
+                killed.push(loser.unit.id);
+                if (side === 'attacker') a++;
+                else d++;
+            }
+        }
+
+        const winner = d >= defenders.length ? 'attacker' : a >= attackers.length ? 'defender' : 'draw';
+        const hpChanges = [...attackers, ...defenders].map(c => ({
+            unitId: c.unit.id,
+            before: initialHp.get(c.unit.id)!,
+            after: c.hp,
+        }));
+
+        return { seed: battleSeed, winner, log, hpChanges, killed, defenseBonus, leadership };
+    }
+
+    /**
+     * Resolve a battle and apply the result to the unit registry
+     * Surviving units get their new HP via setUnitHp; dead units are removed,
+     * and surviving heroes are awarded combat experience.
+     * @param attackerIds - Attacking unit IDs
+     * @param defenderIds - Defending unit IDs
+     * @param seed - Battle seed (default: next seed from the resolver's stream)
+     * @returns Battle result
+     * @throws Error if either side has no living unit
+     */
+    resolve(attackerIds: number[], defenderIds: number[], seed?: number): BattleResult {
+        const result = this.simulate(attackerIds, defenderIds, seed);
+
+        for (const change of result.hpChanges) {
+            if (change.after === 0) {
+                this.registry.removeUnit(change.unitId);
+            } else if (change.after !== change.before) {
+                this.registry.setUnitHp(change.unitId, change.after);
+            }
+        }
+        this.heroes?.awardCombatExperience(result, attackerIds, defenderIds);
+
+        return result;
+    }
+
+    /**
+     * Get the combat rules
+     * @returns Combat rules
+     */
+    getRules(): CombatRules {
+        return this.rules;
+    }
+
+    /**
+     * Build combatants, weakest first (ties broken by unit ID for determinism)
+     * Everyone adds the side's bonus (leadership, plus the tile bonus for
+     * defenders); defenders add the fortification bonus if DEFENDING.
+     */
+    private toCombatants(ids: number[], side: 'attacker' | 'defender', sideBonus: number): Combatant[] {
+        const combatants: Combatant[] = [];
+        for (const id of ids) {
+            const unit = this.registry.getUnit(id);
+            if (!unit || unit.hp <= 0) continue;
+
+            let strength = unit.strength + sideBonus;
+            if (side === 'defender' && unit.state & UnitState.DEFENDING) {
+                strength += this.rules.fortifiedBonus;
+            }
+            combatants.push({ unit, hp: unit.hp, strength: Math.max(1, strength) });
+        }
+        return combatants.sort((x, y) => (x.strength - y.strength) || (x.unit.id - y.unit.id));
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * CommandHistory - Bounded undo/redo stacks of GameCommands
+ *
+ * Player actions and map edits that should be undoable are executed through
+ * the history instead of calling UnitRegistry/WorldContainer directly. Only
+ * commands that changed something are recorded; executing a new command drops
+ * the redo stack, and the oldest entries fall off once the limit is reached.
+ * Actions that must not be taken back (battles, ending the turn) call clear().
+ *
+ * The history does not talk to the worker; callers resync after execute(),
+ * undo() and redo() like after any other change.
+ *
+ * Usage example:
+ * ```typescript
+ * const history = new CommandHistory(); // Keeps the last 100 commands
+ * history.execute(new MoveStackCommand(movement, units, [1, 2], { x: 12, y: 8 }));
+ * const undone = history.undo(); // Units back where they were, movement points refunded
+ * history.redo();
+ * ```
+ */
+
+import type { GameCommand } from './GameCommands';
+
+/**
+ * Default number of commands kept for undo
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * CommandHistory - Undo/redo for GameCommands
+ */
+export class CommandHistory {
+    private undoStack: GameCommand[] = [];
+    private redoStack: GameCommand[] = [];
+    private limit: number;
+
+    /**
+     * Create a new CommandHistory
+     * @param limit - Maximum number of commands kept for undo (default: 100)
+     */
+    constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new Error(`History limit must be a positive integer, got ${limit}`);
+        }
+        this.limit = limit;
+    }
+
+    /**
+     * Apply a command and record it for undo
+     * @param command - Command to run
+     * @returns true if the command changed the state (and was recorded)
+     */
+    execute(command: GameCommand): boolean {
+        if (!command.apply()) return false;
+
+        this.record(command);
+        return true;
+    }
+
+    /**
+     * Record a command whose change has already been made
+     * Used for edits applied piece by piece as they happen (e.g. a brush stroke
+     * following the mouse) that should still be undone in one step.
+     * @param command - Applied command
+     */
+    record(command: GameCommand): void {
+        this.undoStack.push(command);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    /**
+     * Revert the most recent command
+     * @returns The reverted command, or null if there is nothing to undo
+     */
+    undo(): GameCommand | null {
+        const command = this.undoStack.pop();
+        if (!command) return null;
+
+        command.revert();
+        this.redoStack.push(command);
+        return command;
+    }
+
+    /**
+     * Re-apply the most recently undone command
+     * If it no longer applies, the redo stack is dropped.
+     * @returns The re-applied command, or null if there is nothing to redo
+     */
+    redo(): GameCommand | null {
+        const command = this.redoStack.pop();
+        if (!command) return null;
+
+        if (!command.apply()) {
+            this.redoStack = [];
+            return null;
+        }
+        this.undoStack.push(command);
+        return command;
+    }
+
+    /**
+     * Check if there is a command to undo
+     * @returns true if undo() would revert something
+     */
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /**
+     * Check if there is a command to redo
+     * @returns true if redo() would re-apply something
+     */
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Get the number of commands that can be undone
+     * @returns Undo stack size
+     */
+    getUndoCount(): number {
+        return this.undoStack.length;
+    }
+
+    /**
+     * Get the number of commands that can be redone
+     * @returns Redo stack size
+     */
+    getRedoCount(): number {
+        return this.redoStack.length;
+    }
+
+    /**
+     * Forget all recorded commands (e.g. after a battle or at the end of a turn)
+     */
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -0,0 +1,485 @@
+/**
+ * DiplomacySystem - War, peace and alliances between players
+ *
+ * Every pair of players has a diplomatic state. Players start at war (the way
+ * every other owner was treated before diplomacy existed), and neutral units
+ * and cities (owner 0) are always hostile.
+ *
+ *     WAR      - units may attack each other and take each other's cities
+ *     PEACE    - no attacks, no captures, and neither may enter the other's tiles
+ *     ALLIANCE - as peace, but allies may share tiles, share fog of war and win together
+ *
+ * Moving to a friendlier state takes a proposal that the other player accepts;
+ * moving to a less friendly one (breaking an alliance, declaring war) is a
+ * unilateral declaration. Every proposal, answer and declaration is recorded in
+ * the treaty history. An alliance cannot be broken while the allies' units share
+ * a tile: they would stand together as enemies, unable to fight or pass each other.
+ *
+ * MovementController, GameController, VisibilitySystem, VictorySystem and the AI
+ * ask isHostile() / isAllied(); serialize() / load() convert the whole state to
+ * and from a versioned JSON format for saves and network sync.
+ *
+ * Usage example:
+ * ```typescript
+ * const diplomacy = new DiplomacySystem({ turns, units });
+ * const proposal = diplomacy.propose(1, 2, DiplomaticState.PEACE);
+ * if (proposal.success) diplomacy.respond(proposal.proposal.id, 2, true); // Player 2 accepts
+ * diplomacy.isHostile(1, 2); // false
+ * diplomacy.declare(2, 1, DiplomaticState.WAR); // No acceptance needed
+ * ```
+ */
+
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+import type { TurnManager } from './TurnManager';
+import type { UnitRegistry } from './UnitRegistry';
+
+/**
+ * Relationship between two players, from most to least hostile
+ */
+export enum DiplomaticState {
+    WAR = 'WAR',
+    PEACE = 'PEACE',
+    ALLIANCE = 'ALLIANCE',
+}
+
+/**
+ * States in order of friendliness
+ */
+const FRIENDLINESS: Record<DiplomaticState, number> = {
+    [DiplomaticState.WAR]: 0,
+    [DiplomaticState.PEACE]: 1,
+    [DiplomaticState.ALLIANCE]: 2,
+};
+
+/**
+ * Tells whether two players are allies (e.g. DiplomacySystem.isAllied), for
+ * systems that only need that one question answered
+ */
+export type AllianceSource = (playerA: number, playerB: number) => boolean;
+
+/**
+ * Version of the diplomacy save format
+ */
+export const DIPLOMACY_SAVE_VERSION = 1;
+
+/**
+ * An offer to move a relationship to a friendlier state
+ */
+export interface TreatyProposal {
+    id: number;
+    from: number;
+    to: number;
+    state: DiplomaticState;
+
+    /** Turn the offer was made on */
+    turnNumber: number;
+}
+
+/**
+ * One entry of the treaty history
+ */
+export interface TreatyRecord {
+    /** proposed / accepted / rejected refer to a proposal; declared is unilateral */
+    kind: 'proposed' | 'accepted' | 'rejected' | 'declared';
+    turnNumber: number;
+
+    /** Player who acted */
+    playerId: number;
+
+    /** The other player */
+    otherId: number;
+
+    /** State proposed, agreed on or declared */
+    state: DiplomaticState;
+}
+
+/**
+ * Why a proposal or declaration was refused
+ */
+export enum DiplomacyRejectReason {
+    SAME_PLAYER = 'SAME_PLAYER',
+    NEUTRAL_PLAYER = 'NEUTRAL_PLAYER',
+    NOT_FRIENDLIER = 'NOT_FRIENDLIER', // Proposals must improve the relationship
+    NOT_LESS_FRIENDLY = 'NOT_LESS_FRIENDLY', // Declarations must worsen it
+    UNKNOWN_PROPOSAL = 'UNKNOWN_PROPOSAL',
+    NOT_ADDRESSEE = 'NOT_ADDRESSEE',
+    NOT_YOUR_TURN = 'NOT_YOUR_TURN', // Refused by GameController outside the player's orders phase
+    SHARED_TILES = 'SHARED_TILES', // The allies' units still share a tile
+}
+
+/**
+ * Outcome of a proposal
+ */
+export type ProposalResult =
+    | { success: true; proposal: TreatyProposal }
+    | { success: false; reason: DiplomacyRejectReason };
+
+/**
+ * Outcome of a declaration or an answer to a proposal
+ */
+export type DiplomacyResult =
+    | { success: true; state: DiplomaticState }
+    | { success: false; reason: DiplomacyRejectReason };
+
+/**
+ * Saved diplomacy (plain JSON)
+ */
+export interface DiplomacySaveData {
+    version: number;
+
+    /** Pairs not at war (playerA < playerB) */
+    relations: { playerA: number; playerB: number; state: DiplomaticState }[];
+
+    /** Open proposals */
+    proposals: TreatyProposal[];
+
+    /** Treaty history, oldest first */
+    history: TreatyRecord[];
+
+    /** ID the next proposal gets */
+    nextProposalId: number;
+}
+
+/**
+ * Events emitted by DiplomacySystem (event name -> payload)
+ */
+export interface DiplomacyEvents {
+    /** Two players' relationship changed */
+    stateChanged: { playerA: number; playerB: number; previous: DiplomaticState; state: DiplomaticState };
+
+    /** A player made an offer */
+    proposalMade: { proposal: TreatyProposal };
+
+    /** An offer was accepted or rejected (or dropped because war was declared) */
+    proposalResolved: { proposal: TreatyProposal; accepted: boolean };
+}
+
+/**
+ * Options for creating a DiplomacySystem
+ */
+export interface DiplomacySystemOptions {
+    /** Turn manager, to stamp history entries with the turn number (default: none - turn 0) */
+    turns?: TurnManager | null;
+
+    /** Units, to refuse breaking an alliance while allies share a tile (default: none - not checked) */
+    units?: UnitRegistry | null;
+}
+
+/**
+ * DiplomacySystem - Diplomatic matrix, proposals and treaty history
+ */
+export class DiplomacySystem {
+    private turns: TurnManager | null;
+    private units: UnitRegistry | null;
+    private relations: Map<string, DiplomaticState> = new Map(); // "a:b" (a < b) -> state; missing = WAR
+    private proposals: Map<number, TreatyProposal> = new Map();
+    private history: TreatyRecord[] = [];
+    private nextProposalId: number = 1;
+    private events: EventEmitter<DiplomacyEvents> = new EventEmitter();
+
+    /**
+     * Create a new DiplomacySystem (everyone at war)
+     * @param options - Turn manager and units
+     */
+    constructor(options: DiplomacySystemOptions = {}) {
+        this.turns = options.turns ?? null;
+        this.units = options.units ?? null;
+    }
+
+    /**
+     * Subscribe to diplomacy events
+     * @param type - Event name
+     * @param listener - Called with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof DiplomacyEvents>(type: K, listener: EventListener<DiplomacyEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from diplomacy events
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof DiplomacyEvents>(type: K, listener: EventListener<DiplomacyEvents[K]>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Get the relationship between two owners
+     * @param playerA - Owner ID
+     * @param playerB - Owner ID
+     * @returns State (ALLIANCE for an owner with itself, WAR whenever a neutral owner is involved)
+     */
+    getState(playerA: number, playerB: number): DiplomaticState {
+        if (playerA === playerB) return DiplomaticState.ALLIANCE;
+        if (playerA <= 0 || playerB <= 0) return DiplomaticState.WAR;
+        return this.relations.get(this.pairKey(playerA, playerB)) ?? DiplomaticState.WAR;
+    }
+
+    /**
+     * Check if two different owners may fight
+     * @returns true if they are at war
+     */
+    isHostile(playerA: number, playerB: number): boolean {
+        return playerA !== playerB && this.getState(playerA, playerB) === DiplomaticState.WAR;
+    }
+
+    /**
+     * Check if two owners are allies (an owner counts as its own ally)
+     * @returns true if allied
+     */
+    isAllied(playerA: number, playerB: number): boolean {
+        return this.getState(playerA, playerB) === DiplomaticState.ALLIANCE;
+    }
+
+    /**
+     * Offer another player a friendlier relationship (replaces an earlier offer between the two)
+     * @param from - Proposing player
+     * @param to - Player who must accept
+     * @param state - Proposed state (friendlier than the current one)
+     * @returns The open proposal, or why it was refused
+     */
+    propose(from: number, to: number, state: DiplomaticState): ProposalResult {
+        const invalid = this.checkPair(from, to);
+        if (invalid) return { success: false, reason: invalid };
+        if (FRIENDLINESS[state] <= FRIENDLINESS[this.getState(from, to)]) {
+            return { success: false, reason: DiplomacyRejectReason.NOT_FRIENDLIER };
+        }
+
+        this.dropProposals(from, to);
+        const proposal: TreatyProposal = { id: this.nextProposalId++, from, to, state, turnNumber: this.getTurnNumber() };
+        this.proposals.set(proposal.id, proposal);
+        this.record('proposed', from, to, state);
+        this.events.emit('proposalMade', { proposal: { ...proposal } });
+        return { success: true, proposal: { ...proposal } };
+    }
+
+    /**
+     * Accept or reject a proposal
+     * @param proposalId - Proposal ID
+     * @param playerId - Answering player (must be the addressee)
+     * @param accept - true to accept
+     * @returns The resulting state, or why the answer was refused
+     */
+    respond(proposalId: number, playerId: number, accept: boolean): DiplomacyResult {
+        const proposal = this.proposals.get(proposalId);
+        if (!proposal) return { success: false, reason: DiplomacyRejectReason.UNKNOWN_PROPOSAL };
+        if (proposal.to !== playerId) return { success: false, reason: DiplomacyRejectReason.NOT_ADDRESSEE };
+
+        this.proposals.delete(proposalId);
+        this.record(accept ? 'accepted' : 'rejected', playerId, proposal.from, proposal.state);
+        this.events.emit('proposalResolved', { proposal: { ...proposal }, accepted: accept });
+        if (accept) this.setState(proposal.from, proposal.to, proposal.state);
+
+        return { success: true, state: this.getState(proposal.from, proposal.to) };
+    }
+
+    /**
+     * Worsen a relationship without asking (break an alliance, declare war)
+     * Open proposals between the two players are dropped. Allies must first move
+     * apart: an alliance is not broken while their units share a tile.
+     * @param from - Declaring player
+     * @param to - Other player
+     * @param state - New state (less friendly than the current one)
+     * @returns The new state, or why the declaration was refused
+     */
+    declare(from: number, to: number, state: DiplomaticState): DiplomacyResult {
+        const invalid = this.checkPair(from, to);
+        if (invalid) return { success: false, reason: invalid };
+        if (FRIENDLINESS[state] >= FRIENDLINESS[this.getState(from, to)]) {
+            return { success: false, reason: DiplomacyRejectReason.NOT_LESS_FRIENDLY };
+        }
+        if (this.getState(from, to) === DiplomaticState.ALLIANCE && this.sharesTile(from, to)) {
+            return { success: false, reason: DiplomacyRejectReason.SHARED_TILES };
+        }
+
+        this.dropProposals(from, to);
+        this.record('declared', from, to, state);
+        this.setState(from, to, state);
+        return { success: true, state };
+    }
+
+    /**
+     * Get open proposals
+     * @param playerId - Only proposals addressed to this player (default: all)
+     * @returns Copies, oldest first
+     */
+    getProposals(playerId?: number): TreatyProposal[] {
+        return [...this.proposals.values()]
+            .filter(proposal => playerId === undefined || proposal.to === playerId)
+            .map(proposal => ({ ...proposal }));
+    }
+
+    /**
+     * Get the treaty history
+     * @param playerId - Only entries involving this player (default: all)
+     * @returns Copies, oldest first
+     */
+    getHistory(playerId?: number): TreatyRecord[] {
+        return this.history
+            .filter(entry => playerId === undefined || entry.playerId === playerId || entry.otherId === playerId)
+            .map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Save the diplomatic state
+     * @returns Save data (plain JSON)
+     */
+    serialize(): DiplomacySaveData {
+        return {
+            version: DIPLOMACY_SAVE_VERSION,
+            relations: [...this.relations.entries()].map(([key, state]) => {
+                const [playerA, playerB] = key.split(':').map(Number);
+                return { playerA, playerB, state };
+            }),
+            proposals: this.getProposals(),
+            history: this.getHistory(),
+            nextProposalId: this.nextProposalId,
+        };
+    }
+
+    /**
+     * Replace the diplomatic state with saved data (no events are emitted)
+     * @param data - Save data from serialize()
+     * @throws Error listing every problem if the data is invalid
+     */
+    load(data: DiplomacySaveData): void {
+        const errors = this.validate(data);
+        if (errors.length > 0) {
+            throw new Error(`Invalid diplomacy save data:\n${errors.join('\n')}`);
+        }
+
+        this.relations = new Map();
+        for (const { playerA, playerB, state } of data.relations) {
+            if (state !== DiplomaticState.WAR) this.relations.set(this.pairKey(playerA, playerB), state);
+        }
+        this.proposals = new Map(data.proposals.map(proposal => [proposal.id, { ...proposal }]));
+        this.history = data.history.map(entry => ({ ...entry }));
+        this.nextProposalId = data.nextProposalId;
+    }
+
+    /**
+     * Check diplomacy save data for problems
+     * @param data - Save data to check
+     * @returns Human-readable problems (empty if the data can be loaded)
+     */
+    validate(data: DiplomacySaveData): string[] {
+        const errors: string[] = [];
+        if (data?.version !== DIPLOMACY_SAVE_VERSION) {
+            errors.push(`Unsupported version ${data?.version} (expected ${DIPLOMACY_SAVE_VERSION})`);
+        }
+
+        const isPlayer = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+        const isState = (value: unknown): boolean => Object.values(DiplomaticState).includes(value as DiplomaticState);
+
+        if (!Array.isArray(data?.relations)) {
+            errors.push('relations must be an array');
+        } else {
+            data.relations.forEach((relation, i) => {
+                if (!isPlayer(relation.playerA) || !isPlayer(relation.playerB) || relation.playerA === relation.playerB) {
+                    errors.push(`relations[${i}]: needs two different player IDs`);
+                }
+                if (!isState(relation.state)) errors.push(`relations[${i}]: unknown state "${relation.state}"`);
+            });
+        }
+
+        if (!Array.isArray(data?.proposals)) {
+            errors.push('proposals must be an array');
+        } else {
+            data.proposals.forEach((proposal, i) => {
+                if (!Number.isInteger(proposal.id) || proposal.id < 1 || proposal.id >= data.nextProposalId) {
+                    errors.push(`proposals[${i}]: id must be between 1 and nextProposalId - 1`);
+                }
+                if (!isPlayer(proposal.from) || !isPlayer(proposal.to) || proposal.from === proposal.to) {
+                    errors.push(`proposals[${i}]: needs two different player IDs`);
+                }
+                if (!isState(proposal.state)) errors.push(`proposals[${i}]: unknown state "${proposal.state}"`);
+            });
+        }
+
+        if (!Array.isArray(data?.history)) {
+            errors.push('history must be an array');
+        } else {
+            data.history.forEach((entry, i) => {
+                if (!['proposed', 'accepted', 'rejected', 'declared'].includes(entry.kind)) {
+                    errors.push(`history[${i}]: unknown kind "${entry.kind}"`);
+                }
+                if (!isState(entry.state)) errors.push(`history[${i}]: unknown state "${entry.state}"`);
+            });
+        }
+
+        if (!Number.isInteger(data?.nextProposalId) || data.nextProposalId < 1) {
+            errors.push('nextProposalId must be a positive integer');
+        }
+
+        return errors;
+    }
+
+    /**
+     * Check if two players' units stand on a common tile
+     */
+    private sharesTile(playerA: number, playerB: number): boolean {
+        const units = this.units;
+        if (!units) return false;
+        return units.getUnitsByOwner(playerA)
+            .some(unit => units.getUnitsAt(unit.gridPos).some(other => other.ownerId === playerB));
+    }
+
+    /**
+     * Check that two owners can have a relationship
+     * @returns Why not, or null
+     */
+    private checkPair(playerA: number, playerB: number): DiplomacyRejectReason | null {
+        if (playerA === playerB) return DiplomacyRejectReason.SAME_PLAYER;
+        if (playerA <= 0 || playerB <= 0) return DiplomacyRejectReason.NEUTRAL_PLAYER;
+        return null;
+    }
+
+    /**
+     * Change a relationship and announce it
+     */
+    private setState(playerA: number, playerB: number, state: DiplomaticState): void {
+        const previous = this.getState(playerA, playerB);
+        if (previous === state) return;
+
+        if (state === DiplomaticState.WAR) this.relations.delete(this.pairKey(playerA, playerB));
+        else this.relations.set(this.pairKey(playerA, playerB), state);
+        this.events.emit('stateChanged', { playerA, playerB, previous, state });
+    }
+
+    /**
+     * Drop open proposals between two players
+     */
+    private dropProposals(playerA: number, playerB: number): void {
+        for (const proposal of [...this.proposals.values()]) {
+            const between = (proposal.from === playerA && proposal.to === playerB) || (proposal.from === playerB && proposal.to === playerA);
+            if (!between) continue;
+
+            this.proposals.delete(proposal.id);
+            this.events.emit('proposalResolved', { proposal: { ...proposal }, accepted: false });
+        }
+    }
+
+    /**
+     * Append to the treaty history
+     */
+    private record(kind: TreatyRecord['kind'], playerId: number, otherId: number, state: DiplomaticState): void {
+        this.history.push({ kind, turnNumber: this.getTurnNumber(), playerId, otherId, state });
+    }
+
+    /**
+     * Get the current turn number (0 without a TurnManager)
+     */
+    private getTurnNumber(): number {
+        return this.turns?.getTurnNumber() ?? 0;
+    }
+
+    /**
+     * Key of an unordered player pair
+     */
+    private pairKey(playerA: number, playerB: number): string {
+        return playerA < playerB ? `${playerA}:${playerB}` : `${playerB}:${playerA}`;
+    }
+}
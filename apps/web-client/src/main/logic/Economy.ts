@@ -0,0 +1,285 @@
+/**
+ * Economy - Per-turn gold income, unit upkeep and treasuries
+ *
+ * Each turn a player earns gold from the FARM and MINE buildings they own
+ * (scaled by building level) and from their cities, and pays upkeep for their
+ * units. The net amount goes into the player's treasury, and an itemized report
+ * lists every source so the UI can explain where the gold came from.
+ *
+ * Rates are plain data (JSON-friendly) so they can be tuned per scenario.
+ *
+ * Usage example:
+ * ```typescript
+ * const economy = new Economy(worldContainer, unitRegistry, cityRegistry);
+ * const report = economy.processTurn(1); // Start of player 1's turn
+ * console.log(report.net, report.treasuryAfter, report.items);
+ * if (economy.spend(1, 40)) { ... } // Pay for something
+ * ```
+ */
+
+import { BuildingType } from './WorldContainer';
+import type { WorldContainer } from './WorldContainer';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import type { UnitTypeId } from './UnitCatalog';
+import type { CityRegistry } from './CityRegistry';
+
+/**
+ * Economy rates (serializable, e.g. loaded from JSON)
+ */
+export interface EconomyRules {
+    /** Gold per turn per building level, by building type (missing = produces nothing) */
+    buildingIncome: Partial<Record<BuildingType, number>>;
+
+    /** Gold per turn each unit costs, by unit type ID (missing = the unit catalog's upkeep) */
+    unitUpkeep: Partial<Record<UnitTypeId, number>>;
+
+    /** Treasury a player starts with */
+    startingGold: number;
+}
+
+/**
+ * Default economy rates (no upkeep overrides: units cost what the registry's catalog says)
+ */
+export const DEFAULT_ECONOMY_RULES: EconomyRules = {
+    buildingIncome: {
+        [BuildingType.FARM]: 2,
+        [BuildingType.MINE]: 3,
+    },
+    unitUpkeep: {},
+    startingGold: 100,
+};
+
+/**
+ * Kind of income report line
+ */
+export type IncomeSource = 'building' | 'city' | 'upkeep';
+
+/**
+ * One line of an income report (upkeep lines have negative amounts)
+ */
+export interface IncomeItem {
+    source: IncomeSource;
+
+    /** Human-readable description, e.g. "Farm (level 2) at 10,12" */
+    label: string;
+
+    /** Gold gained (positive) or paid (negative) */
+    amount: number;
+
+    /** Tile of the building, if any */
+    pos?: GridPosition;
+
+    /** City ID, for city income */
+    cityId?: number;
+
+    /** Unit ID, for upkeep */
+    unitId?: number;
+}
+
+/**
+ * Itemized income for one player and turn
+ */
+export interface IncomeReport {
+    ownerId: number;
+
+    /** Every income and upkeep line */
+    items: IncomeItem[];
+
+    /** Total gold earned (buildings and cities) */
+    income: number;
+
+    /** Total gold owed for units (positive number) */
+    upkeep: number;
+
+    /** income - upkeep */
+    net: number;
+
+    /** Treasury before the turn was processed */
+    treasuryBefore: number;
+
+    /** Treasury after the turn was processed (never negative) */
+    treasuryAfter: number;
+
+    /** Upkeep that could not be paid because the treasury ran dry */
+    shortfall: number;
+}
+
+/**
+ * Turn an enum key like "FARM" into a label like "Farm"
+ */
+function displayName(enumKey: string): string {
+    return enumKey.charAt(0) + enumKey.slice(1).toLowerCase();
+}
+
+/**
+ * Economy - Computes income and manages treasuries per owner
+ */
+export class Economy {
+    private world: WorldContainer;
+    private units: UnitRegistry;
+    private cities: CityRegistry | null;
+    private rules: EconomyRules;
+    private treasuries: Map<number, number>;
+    private lastReports: Map<number, IncomeReport>;
+
+    /**
+     * Create a new Economy
+     * @param world - WorldContainer (buildings)
+     * @param units - UnitRegistry (upkeep)
+     * @param cities - CityRegistry (city income), optional
+     * @param rules - Economy rates (default: DEFAULT_ECONOMY_RULES)
+     */
+    constructor(
+        world: WorldContainer,
+        units: UnitRegistry,
+        cities: CityRegistry | null = null,
+        rules: EconomyRules = DEFAULT_ECONOMY_RULES
+    ) {
+        this.world = world;
+        this.units = units;
+        this.cities = cities;
+        this.rules = rules;
+        this.treasuries = new Map();
+        this.lastReports = new Map();
+    }
+
+    /**
+     * Get a player's treasury
+     * @param ownerId - Owner ID
+     * @returns Gold in the treasury (startingGold if the player has not been seen yet)
+     */
+    getTreasury(ownerId: number): number {
+        return this.treasuries.get(ownerId) ?? this.rules.startingGold;
+    }
+
+    /**
+     * Set a player's treasury (e.g. when loading a scenario)
+     * @param ownerId - Owner ID
+     * @param gold - New amount (clamped to 0)
+     */
+    setTreasury(ownerId: number, gold: number): void {
+        this.treasuries.set(ownerId, Math.max(0, gold));
+    }
+
+    /**
+     * Add gold to a player's treasury
+     * @param ownerId - Owner ID
+     * @param amount - Gold to add
+     */
+    deposit(ownerId: number, amount: number): void {
+        this.setTreasury(ownerId, this.getTreasury(ownerId) + amount);
+    }
+
+    /**
+     * Pay gold from a player's treasury
+     * @param ownerId - Owner ID
+     * @param amount - Gold to pay
+     * @returns true if paid, false if the treasury does not hold enough (nothing is deducted)
+     */
+    spend(ownerId: number, amount: number): boolean {
+        const treasury = this.getTreasury(ownerId);
+        if (amount > treasury) return false;
+
+        this.setTreasury(ownerId, treasury - amount);
+        return true;
+    }
+
+    /**
+     * Compute a player's income for a turn without touching the treasury
+     * @param ownerId - Owner ID
+     * @returns Itemized report (treasuryAfter shows what processTurn would leave)
+     */
+    calculateIncome(ownerId: number): IncomeReport {
+        const items: IncomeItem[] = [];
+
+        // Buildings on owned tiles (city tiles are counted once, per city, below)
+        for (let y = 0; y < this.world.getHeight(); y++) {
+            for (let x = 0; x < this.world.getWidth(); x++) {
+                const tile = this.world.getTile(x, y)!;
+                if (tile.ownerId !== ownerId || tile.buildingLevel <= 0) continue;
+
+                const perLevel = this.rules.buildingIncome[tile.building];
+                if (!perLevel) continue;
+
+                items.push({
+                    source: 'building',
+                    label: `${displayName(BuildingType[tile.building])} (level ${tile.buildingLevel}) at ${x},${y}`,
+                    amount: perLevel * tile.buildingLevel,
+                    pos: { x, y },
+                });
+            }
+        }
+
+        // Cities
+        if (this.cities) {
+            for (const city of this.cities.getCitiesByOwner(ownerId)) {
+                if (city.income === 0) continue;
+                items.push({ source: 'city', label: city.name, amount: city.income, cityId: city.id });
+            }
+        }
+
+        // Unit upkeep (rule overrides first, then the catalog the units were created from)
+        const catalog = this.units.getCatalog();
+        for (const unit of this.units.getUnitsByOwner(ownerId)) {
+            const upkeep = this.rules.unitUpkeep[unit.unitType] ?? catalog.get(unit.unitType)?.upkeep;
+            if (!upkeep) continue;
+            items.push({
+                source: 'upkeep',
+                label: `${catalog.getName(unit.unitType)} #${unit.id}`,
+                amount: -upkeep,
+                unitId: unit.id,
+            });
+        }
+
+        let income = 0;
+        let upkeep = 0;
+        for (const item of items) {
+            if (item.amount >= 0) income += item.amount;
+            else upkeep -= item.amount;
+        }
+
+        const net = income - upkeep;
+        const treasuryBefore = this.getTreasury(ownerId);
+        const unclamped = treasuryBefore + net;
+
+        return {
+            ownerId,
+            items,
+            income,
+            upkeep,
+            net,
+            treasuryBefore,
+            treasuryAfter: Math.max(0, unclamped),
+            shortfall: Math.max(0, -unclamped),
+        };
+    }
+
+    /**
+     * Apply a player's income and upkeep for a turn (call at the start of their turn)
+     * @param ownerId - Owner ID
+     * @returns Itemized report of the processed turn
+     */
+    processTurn(ownerId: number): IncomeReport {
+        const report = this.calculateIncome(ownerId);
+        this.setTreasury(ownerId, report.treasuryAfter);
+        this.lastReports.set(ownerId, report);
+        return report;
+    }
+
+    /**
+     * Get the report of the last processed turn for a player
+     * @param ownerId - Owner ID
+     * @returns Last report, or undefined if no turn has been processed
+     */
+    getLastReport(ownerId: number): IncomeReport | undefined {
+        return this.lastReports.get(ownerId);
+    }
+
+    /**
+     * Get the economy rates
+     * @returns Economy rules
+     */
+    getRules(): EconomyRules {
+        return this.rules;
+    }
+}
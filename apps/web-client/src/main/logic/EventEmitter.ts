@@ -0,0 +1,82 @@
+/**
+ * EventEmitter - Minimal typed publish/subscribe
+ *
+ * Event names and payloads come from an event map type, so listeners get the
+ * right payload type and misspelled event names fail to compile. Listeners run
+ * synchronously in subscription order; a listener that throws does not stop
+ * the others (the error is logged).
+ *
+ * Usage example:
+ * ```typescript
+ * interface DoorEvents { opened: { by: number }; closed: Record<string, never> }
+ * const events = new EventEmitter<DoorEvents>();
+ * const unsubscribe = events.on('opened', e => console.log(e.by));
+ * events.emit('opened', { by: 1 });
+ * unsubscribe();
+ * ```
+ */
+
+/**
+ * Callback for one event type
+ */
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * EventEmitter - Typed event subscriptions
+ */
+export class EventEmitter<Events extends object> {
+    private listeners: Map<keyof Events, Set<EventListener<never>>> = new Map();
+
+    /**
+     * Subscribe to an event
+     * @param type - Event name
+     * @param listener - Called with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+        let listeners = this.listeners.get(type);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(type, listeners);
+        }
+        listeners.add(listener);
+        return () => this.off(type, listener);
+    }
+
+    /**
+     * Unsubscribe from an event
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    /**
+     * Notify every listener of an event
+     * @param type - Event name
+     * @param event - Event payload
+     */
+    emit<K extends keyof Events>(type: K, event: Events[K]): void {
+        const listeners = this.listeners.get(type) as Set<EventListener<Events[K]>> | undefined;
+        if (!listeners || listeners.size === 0) return;
+
+        // Copy so listeners can unsubscribe while being notified
+        for (const listener of Array.from(listeners)) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`Victoriae [Main Thread]: Listener for "${String(type)}" failed`, error);
+            }
+        }
+    }
+
+    /**
+     * Check if an event has subscribers
+     * @param type - Event name
+     * @returns true if at least one listener is subscribed
+     */
+    hasListeners<K extends keyof Events>(type: K): boolean {
+        return (this.listeners.get(type)?.size ?? 0) > 0;
+    }
+}
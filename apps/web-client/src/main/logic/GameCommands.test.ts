@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { CityRegistry } from './CityRegistry';
+import { CommandHistory } from './CommandHistory';
+import { FoundCityCommand, PlaceBuildingCommand } from './GameCommands';
+import { BuildingType, TerrainType, WorldContainer } from './WorldContainer';
+
+/**
+ * An all-grass world with a city registry and an undo history
+ */
+function setup() {
+    const world = new WorldContainer(8, 8, { seed: 1 });
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            world.setTile(x, y, { terrain: TerrainType.GRASS, building: BuildingType.NONE, buildingLevel: 0, ownerId: 0 });
+        }
+    }
+    return { world, cities: new CityRegistry(world), history: new CommandHistory() };
+}
+
+describe('PlaceBuildingCommand', () => {
+    it('puts back the building that was there before', () => {
+        const { world, cities, history } = setup();
+        world.placeBuilding(1, 1, BuildingType.FARM, 2, 1);
+
+        expect(history.execute(new PlaceBuildingCommand(world, cities, 1, 1, BuildingType.MINE, 1, 2))).toBe(true);
+        history.undo();
+
+        expect(world.getTile(1, 1)).toMatchObject({ building: BuildingType.FARM, buildingLevel: 2, ownerId: 1 });
+    });
+
+    it('leaves city tiles to the city registry', () => {
+        const { world, cities, history } = setup();
+        const cityId = cities.addCity({ name: 'Marthos', ownerId: 1, pos: { x: 2, y: 2 } })!;
+
+        expect(history.execute(new PlaceBuildingCommand(world, cities, 3, 3, BuildingType.FARM))).toBe(false);
+        expect(history.execute(new PlaceBuildingCommand(world, cities, 0, 0, BuildingType.CITY))).toBe(false);
+        expect(world.getTile(3, 3)).toMatchObject({ building: BuildingType.CITY, ownerId: 1 });
+        expect(world.getTile(0, 0)?.building).toBe(BuildingType.NONE);
+        expect(cities.getCity(cityId)).toBeDefined();
+    });
+
+    it('does not undo a building over a city founded on the tile since', () => {
+        const { world, cities } = setup();
+        const place = new PlaceBuildingCommand(world, cities, 5, 5, BuildingType.FARM, 1, 1);
+        expect(place.apply()).toBe(true);
+
+        const found = new FoundCityCommand(cities, { name: 'Ilnyr', ownerId: 2, pos: { x: 4, y: 4 } });
+        expect(found.apply()).toBe(true);
+        place.revert();
+        expect(world.getTile(5, 5)).toMatchObject({ building: BuildingType.CITY, ownerId: 2 });
+
+        found.revert();
+        expect(world.getTile(5, 5)?.building).toBe(BuildingType.NONE);
+        expect(cities.getCityCount()).toBe(0);
+    });
+});
@@ -0,0 +1,497 @@
+/**
+ * GameCommands - Undoable player actions and map edits
+ *
+ * Each command wraps one mutation of the UnitRegistry or WorldContainer and
+ * records what it needs to put things back: apply() performs the change (and
+ * reports whether it happened), revert() restores the state from before apply().
+ * Commands are run through a CommandHistory, which keeps the undo/redo stacks.
+ *
+ * Unit commands restore whole unit snapshots (position, movement points, HP,
+ * state, hero experience), so undoing a move also gives back the movement
+ * points it cost and the exploration experience a hero gained on the way.
+ * Move commands work that experience out on their first apply (the fog of war
+ * has been updated for the move by the time of a redo) and award the same
+ * amount on every apply after it.
+ *
+ * Usage example:
+ * ```typescript
+ * const move = new MoveStackCommand(movementController, unitRegistry, [1, 2], { x: 12, y: 8 }, heroSystem);
+ * if (!history.execute(move)) console.log(move.getResult());
+ * history.execute(new SetTerrainCommand(world, 4, 4, TerrainType.FOREST));
+ * history.undo(); // Back to the old terrain
+ *
+ * // Several edits undone in one step (e.g. a brush stroke)
+ * history.execute(new BatchCommand('Paint forest', tiles.map(({ x, y }) => new SetTerrainCommand(world, x, y, TerrainType.FOREST))));
+ * ```
+ */
+
+import type { MovementController, MoveResult } from './MovementController';
+import type { SelectionController, FormationMove } from './SelectionController';
+import type { GridPosition, Unit, UnitRegistry } from './UnitRegistry';
+import type { UnitTypeId } from './UnitCatalog';
+import { BuildingType } from './WorldContainer';
+import type { TerrainType, TileMetadata, WorldContainer } from './WorldContainer';
+import type { City, CityInit, CityRegistry } from './CityRegistry';
+import type { HeroSystem } from './HeroSystem';
+
+/**
+ * A reversible change to the game state
+ */
+export interface GameCommand {
+    /** Short description for logs and UI, e.g. "Move 2 units to (12, 8)" */
+    readonly label: string;
+
+    /**
+     * Perform the change
+     * @returns true if the state changed (only then is the command recorded)
+     */
+    apply(): boolean;
+
+    /**
+     * Undo the change made by the last apply()
+     */
+    revert(): void;
+}
+
+/**
+ * Copy of a unit that can be put back with UnitRegistry.addUnit
+ */
+function snapshotUnit(unit: Unit): Unit {
+    return { ...unit, gridPos: { ...unit.gridPos }, hero: unit.hero && structuredClone(unit.hero) };
+}
+
+/**
+ * Put unit snapshots back into the registry (same IDs, replacing the current units)
+ */
+function restoreUnits(registry: UnitRegistry, snapshots: Unit[]): void {
+    snapshots.forEach(snapshot => registry.addUnit(snapshotUnit(snapshot)));
+}
+
+/**
+ * Give heroes the exploration experience a move earned them
+ */
+function awardExploration(heroes: HeroSystem | null, experience: Map<number, number>): void {
+    experience.forEach((amount, unitId) => heroes?.addExperience(unitId, amount, 'exploration'));
+}
+
+/**
+ * Move a unit or army stack through MovementController (validated like any other move)
+ */
+export class MoveStackCommand implements GameCommand {
+    readonly label: string;
+    private movement: MovementController;
+    private registry: UnitRegistry;
+    private unitIds: number[];
+    private target: GridPosition;
+    private heroes: HeroSystem | null;
+    private before: Unit[] = [];
+    private result: MoveResult | null = null;
+    private exploration: Map<number, number> | null = null;
+
+    /**
+     * Create a new MoveStackCommand
+     * @param movement - Movement controller that validates and performs the move
+     * @param registry - Unit registry the units live in
+     * @param unitIds - Units to move (one stack)
+     * @param target - Destination tile
+     * @param heroes - Hero system, for exploration experience (default: none)
+     */
+    constructor(
+        movement: MovementController,
+        registry: UnitRegistry,
+        unitIds: number[],
+        target: GridPosition,
+        heroes: HeroSystem | null = null
+    ) {
+        this.movement = movement;
+        this.registry = registry;
+        this.unitIds = [...unitIds];
+        this.target = { ...target };
+        this.heroes = heroes;
+        this.label = `Move ${unitIds.length} unit${unitIds.length === 1 ? '' : 's'} to (${target.x}, ${target.y})`;
+    }
+
+    apply(): boolean {
+        this.before = this.unitIds
+            .map(id => this.registry.getUnit(id))
+            .filter((unit): unit is Unit => unit !== undefined)
+            .map(snapshotUnit);
+        this.result = this.movement.moveStack(this.unitIds, this.target);
+        if (!this.result.success) return false;
+
+        this.exploration ??= this.heroes?.getExplorationExperience(this.unitIds, this.result.path) ?? new Map();
+        awardExploration(this.heroes, this.exploration);
+        return true;
+    }
+
+    revert(): void {
+        restoreUnits(this.registry, this.before);
+    }
+
+    /**
+     * Get the outcome of the last apply()
+     * @returns Move result, or null if the command has not been applied
+     */
+    getResult(): MoveResult | null {
+        return this.result;
+    }
+}
+
+/**
+ * Move every selected stack in formation (see SelectionController.moveSelection)
+ */
+export class FormationMoveCommand implements GameCommand {
+    readonly label: string;
+    private selection: SelectionController;
+    private registry: UnitRegistry;
+    private unitIds: number[];
+    private target: GridPosition;
+    private heroes: HeroSystem | null;
+    private before: Unit[] = [];
+    private moves: FormationMove[] = [];
+    private exploration: Map<number, number> | null = null;
+
+    /**
+     * Create a new FormationMoveCommand
+     * @param selection - Selection controller holding the units to move (the current selection is moved)
+     * @param registry - Unit registry the units live in
+     * @param target - Center of the formation
+     * @param heroes - Hero system, for exploration experience (default: none)
+     */
+    constructor(selection: SelectionController, registry: UnitRegistry, target: GridPosition, heroes: HeroSystem | null = null) {
+        this.selection = selection;
+        this.registry = registry;
+        this.unitIds = selection.getSelectedIds();
+        this.target = { ...target };
+        this.heroes = heroes;
+        this.label = `Move group to (${target.x}, ${target.y})`;
+    }
+
+    apply(): boolean {
+        // Redo may run after the player selected something else
+        this.selection.select(this.unitIds);
+        this.before = this.registry.getSelectedUnits().map(snapshotUnit);
+        this.moves = this.selection.moveSelection(this.target);
+        if (!this.moves.some(move => move.result.success)) return false;
+
+        this.exploration ??= new Map(this.moves.flatMap(move => move.result.success && this.heroes
+            ? [...this.heroes.getExplorationExperience(move.unitIds, move.result.path)]
+            : []));
+        awardExploration(this.heroes, this.exploration);
+        return true;
+    }
+
+    revert(): void {
+        restoreUnits(this.registry, this.before);
+    }
+
+    /**
+     * Get the per-stack outcome of the last apply()
+     * @returns One entry per selected stack
+     */
+    getMoves(): FormationMove[] {
+        return this.moves;
+    }
+}
+
+/**
+ * Add a unit (redo re-creates it with the same ID)
+ */
+export class AddUnitCommand implements GameCommand {
+    readonly label: string;
+    private registry: UnitRegistry;
+    private unit: Partial<Unit> & { gridPos: GridPosition; unitType: UnitTypeId };
+    private unitId: number | null = null;
+
+    /**
+     * Create a new AddUnitCommand
+     * @param registry - Unit registry to add the unit to
+     * @param unit - Unit to add (as for UnitRegistry.addUnit)
+     */
+    constructor(registry: UnitRegistry, unit: Partial<Unit> & { gridPos: GridPosition; unitType: UnitTypeId }) {
+        this.registry = registry;
+        this.unit = { ...unit, gridPos: { ...unit.gridPos } };
+        this.label = `Add ${registry.getCatalog().getName(unit.unitType)} at (${unit.gridPos.x}, ${unit.gridPos.y})`;
+    }
+
+    apply(): boolean {
+        this.unitId = this.registry.addUnit({ ...this.unit, id: this.unitId ?? this.unit.id });
+        return true;
+    }
+
+    revert(): void {
+        if (this.unitId !== null) {
+            this.registry.removeUnit(this.unitId);
+        }
+    }
+
+    /**
+     * Get the ID of the added unit
+     * @returns Unit ID, or null if the command has not been applied
+     */
+    getUnitId(): number | null {
+        return this.unitId;
+    }
+}
+
+/**
+ * Remove a unit (undo restores it with its ID and stats)
+ */
+export class RemoveUnitCommand implements GameCommand {
+    readonly label: string;
+    private registry: UnitRegistry;
+    private unitId: number;
+    private before: Unit | null = null;
+
+    /**
+     * Create a new RemoveUnitCommand
+     * @param registry - Unit registry to remove the unit from
+     * @param unitId - Unit to remove
+     */
+    constructor(registry: UnitRegistry, unitId: number) {
+        this.registry = registry;
+        this.unitId = unitId;
+        this.label = `Remove unit ${unitId}`;
+    }
+
+    apply(): boolean {
+        const unit = this.registry.getUnit(this.unitId);
+        if (!unit) return false;
+
+        this.before = snapshotUnit(unit);
+        return this.registry.removeUnit(this.unitId);
+    }
+
+    revert(): void {
+        if (this.before) {
+            restoreUnits(this.registry, [this.before]);
+        }
+    }
+}
+
+/**
+ * Change the terrain of a tile
+ */
+export class SetTerrainCommand implements GameCommand {
+    readonly label: string;
+    private world: WorldContainer;
+    private x: number;
+    private y: number;
+    private terrain: TerrainType;
+    private before: TileMetadata | null = null;
+
+    /**
+     * Create a new SetTerrainCommand
+     * @param world - World to edit
+     * @param x - Tile X coordinate
+     * @param y - Tile Y coordinate
+     * @param terrain - New terrain type
+     */
+    constructor(world: WorldContainer, x: number, y: number, terrain: TerrainType) {
+        this.world = world;
+        this.x = x;
+        this.y = y;
+        this.terrain = terrain;
+        this.label = `Set terrain at (${x}, ${y})`;
+    }
+
+    apply(): boolean {
+        const tile = this.world.getTile(this.x, this.y);
+        if (!tile || tile.terrain === this.terrain) return false;
+
+        this.before = { ...tile };
+        return this.world.setTile(this.x, this.y, { terrain: this.terrain });
+    }
+
+    revert(): void {
+        if (this.before) {
+            this.world.setTile(this.x, this.y, this.before);
+        }
+    }
+}
+
+/**
+ * Place (or replace) a building on a tile
+ * City footprint tiles belong to the CityRegistry: the command leaves them
+ * alone (see FoundCityCommand and RemoveCityCommand for cities).
+ */
+export class PlaceBuildingCommand implements GameCommand {
+    readonly label: string;
+    private world: WorldContainer;
+    private cities: CityRegistry;
+    private x: number;
+    private y: number;
+    private building: BuildingType;
+    private level: number;
+    private ownerId: number;
+    private before: TileMetadata | null = null;
+
+    /**
+     * Create a new PlaceBuildingCommand
+     * @param world - World to edit
+     * @param cities - City registry that owns the city tiles
+     * @param x - Tile X coordinate
+     * @param y - Tile Y coordinate
+     * @param building - Building type (BuildingType.NONE removes the building; not BuildingType.CITY)
+     * @param level - Building level (default: 1)
+     * @param ownerId - Owner ID (default: 0 = neutral)
+     */
+    constructor(world: WorldContainer, cities: CityRegistry, x: number, y: number, building: BuildingType, level: number = 1, ownerId: number = 0) {
+        this.world = world;
+        this.cities = cities;
+        this.x = x;
+        this.y = y;
+        this.building = building;
+        this.level = level;
+        this.ownerId = ownerId;
+        this.label = `Place building at (${x}, ${y})`;
+    }
+
+    apply(): boolean {
+        const tile = this.world.getTile(this.x, this.y);
+        if (!tile || this.building === BuildingType.CITY || this.isCityTile()) return false;
+
+        this.before = { ...tile };
+        return this.world.placeBuilding(this.x, this.y, this.building, this.level, this.ownerId);
+    }
+
+    revert(): void {
+        // A city founded on the tile since then keeps it
+        if (this.before && !this.isCityTile()) {
+            this.world.placeBuilding(this.x, this.y, this.before.building, this.before.buildingLevel, this.before.ownerId);
+        }
+    }
+
+    /**
+     * Check if the tile lies in a city's footprint
+     */
+    private isCityTile(): boolean {
+        return this.cities.getCityAt({ x: this.x, y: this.y }) !== undefined;
+    }
+}
+
+/**
+ * Found a city (redo re-founds it with the same ID)
+ */
+export class FoundCityCommand implements GameCommand {
+    readonly label: string;
+    private cities: CityRegistry;
+    private city: CityInit;
+    private cityId: number | null = null;
+
+    /**
+     * Create a new FoundCityCommand
+     * @param cities - City registry to add the city to
+     * @param city - City to found (as for CityRegistry.addCity)
+     */
+    constructor(cities: CityRegistry, city: CityInit) {
+        this.cities = cities;
+        this.city = { ...city, pos: { ...city.pos } };
+        this.label = `Found ${city.name} at (${city.pos.x}, ${city.pos.y})`;
+    }
+
+    apply(): boolean {
+        this.cityId = this.cities.addCity({ ...this.city, id: this.cityId ?? this.city.id });
+        return this.cityId !== null;
+    }
+
+    revert(): void {
+        if (this.cityId !== null) {
+            this.cities.removeCity(this.cityId);
+        }
+    }
+
+    /**
+     * Get the ID of the founded city
+     * @returns City ID, or null if the command has not been applied (or the footprint was invalid)
+     */
+    getCityId(): number | null {
+        return this.cityId;
+    }
+}
+
+/**
+ * Remove a city (undo re-founds it with its ID, owner and stats)
+ */
+export class RemoveCityCommand implements GameCommand {
+    readonly label: string;
+    private cities: CityRegistry;
+    private cityId: number;
+    private before: City | null = null;
+
+    /**
+     * Create a new RemoveCityCommand
+     * @param cities - City registry to remove the city from
+     * @param cityId - City to remove
+     */
+    constructor(cities: CityRegistry, cityId: number) {
+        this.cities = cities;
+        this.cityId = cityId;
+        this.label = `Remove city ${cityId}`;
+    }
+
+    apply(): boolean {
+        const city = this.cities.getCity(this.cityId);
+        if (!city) return false;
+
+        this.before = structuredClone(city);
+        return this.cities.removeCity(this.cityId);
+    }
+
+    revert(): void {
+        if (this.before) {
+            this.cities.addCity(structuredClone(this.before));
+        }
+    }
+}
+
+/**
+ * Several commands recorded as one undo step (e.g. a brush stroke or a fill)
+ * Only the commands that changed something are reverted, in reverse order.
+ */
+export class BatchCommand implements GameCommand {
+    readonly label: string;
+    private commands: GameCommand[];
+    private applied: GameCommand[] = [];
+
+    /**
+     * Create a new BatchCommand
+     * @param label - Description of the whole batch
+     * @param commands - Commands to run, in order
+     */
+    constructor(label: string, commands: GameCommand[]) {
+        this.label = label;
+        this.commands = [...commands];
+    }
+
+    /**
+     * Wrap commands that have already been applied (for CommandHistory.record)
+     * @param label - Description of the whole batch
+     * @param commands - Applied commands, in the order they were applied
+     * @returns Batch that reverts them in reverse order
+     */
+    static ofApplied(label: string, commands: GameCommand[]): BatchCommand {
+        const batch = new BatchCommand(label, commands);
+        batch.applied = [...commands];
+        return batch;
+    }
+
+    apply(): boolean {
+        this.applied = this.commands.filter(command => command.apply());
+        return this.applied.length > 0;
+    }
+
+    revert(): void {
+        for (let i = this.applied.length - 1; i >= 0; i--) {
+            this.applied[i].revert();
+        }
+    }
+
+    /**
+     * Get the number of commands that changed something in the last apply()
+     * @returns Applied command count
+     */
+    getAppliedCount(): number {
+        return this.applied.length;
+    }
+}
@@ -0,0 +1,375 @@
+/**
+ * GameController - The validated order API shared by human input and AI players
+ *
+ * Every order a player can give goes through here: moving stacks, attacking,
+ * ordering units in cities, diplomacy and ending the turn. The controller checks that it
+ * is the ordering player's turn, runs the order through the same rules
+ * (MovementController, CombatResolver, ProductionSystem) for everyone, and
+ * applies the consequences - walking into an enemy city with no garrison left
+ * on any of its tiles captures it, winning a battle moves the survivors onto the tile.
+ * With a DiplomacySystem, only players at war can attack each other or take
+ * each other's cities. With a VictorySystem, no stack moves or attacks once
+ * the game is over.
+ *
+ * Moves are recorded in the CommandHistory (if one is given) so a human can take
+ * them back; battles and captures are final and clear it.
+ *
+ * Usage example:
+ * ```typescript
+ * const orders = new GameController({ units, cities, movement, combat, production, turns, history });
+ * const outcome = orders.moveOrAttack([id1, id2], { x: 12, y: 8 }); // What a click on a tile does
+ * if (outcome.type === 'rejected') console.log(outcome.reason, outcome.message);
+ * orders.orderUnit(cityId, UnitType.ARCHER);
+ * orders.endTurn();
+ * ```
+ */
+
+import { MoveRejectReason } from './MovementController';
+import type { MovementController, MoveResult } from './MovementController';
+import type { CombatResolver, BattleResult } from './CombatResolver';
+import type { CityRegistry } from './CityRegistry';
+import { ProductionRejectReason } from './ProductionSystem';
+import type { EnqueueResult, ProductionSystem } from './ProductionSystem';
+import type { TurnManager } from './TurnManager';
+import type { VictorySystem } from './VictorySystem';
+import type { HeroSystem } from './HeroSystem';
+import { DiplomacyRejectReason } from './DiplomacySystem';
+import type { DiplomacyResult, DiplomacySystem, DiplomaticState, ProposalResult } from './DiplomacySystem';
+import type { CommandHistory } from './CommandHistory';
+import { FormationMoveCommand, MoveStackCommand } from './GameCommands';
+import type { SelectionController, FormationMove } from './SelectionController';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import type { UnitTypeId } from './UnitCatalog';
+
+/**
+ * Why an attack was refused
+ */
+export enum AttackRejectReason {
+    UNIT_NOT_FOUND = 'UNIT_NOT_FOUND',
+    NOT_A_STACK = 'NOT_A_STACK',
+    NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+    NOT_ADJACENT = 'NOT_ADJACENT',
+    NO_MOVEMENT = 'NO_MOVEMENT',
+    NO_ENEMY = 'NO_ENEMY',
+    NOT_AT_WAR = 'NOT_AT_WAR',
+}
+
+/**
+ * Why a move or attack was refused before its own rules were checked
+ */
+export enum OrderRejectReason {
+    GAME_OVER = 'GAME_OVER',
+}
+
+/**
+ * A city that changed hands because of an order
+ */
+export interface CityCapture {
+    cityId: number;
+    previousOwnerId: number;
+    newOwnerId: number;
+}
+
+/**
+ * Outcome of a move or attack order
+ */
+export type OrderOutcome =
+    | {
+        type: 'moved';
+        result: MoveResult & { success: true };
+        /** City taken by walking in, if any */
+        capture: CityCapture | null;
+    }
+    | {
+        type: 'attacked';
+        battle: BattleResult;
+        /** City taken by the victorious survivors, if any */
+        capture: CityCapture | null;
+    }
+    | {
+        type: 'rejected';
+        reason: MoveRejectReason | AttackRejectReason | OrderRejectReason;
+        message: string;
+    };
+
+/** What every move or attack order gets once the game is over */
+const GAME_OVER_OUTCOME: OrderOutcome = { type: 'rejected', reason: OrderRejectReason.GAME_OVER, message: 'The game is over' };
+
+/**
+ * Game systems the controller gives orders to
+ */
+export interface GameControllerDeps {
+    units: UnitRegistry;
+    cities: CityRegistry;
+    movement: MovementController;
+    combat: CombatResolver;
+    production: ProductionSystem;
+    turns: TurnManager;
+
+    /** Undo history for moves (default: none) */
+    history?: CommandHistory | null;
+
+    /** Victory conditions; no turn ends once the game is over (default: none) */
+    victory?: VictorySystem | null;
+
+    /** Diplomacy; without it every other owner is an enemy (default: none) */
+    diplomacy?: DiplomacySystem | null;
+
+    /** Heroes, for the exploration experience of moves (default: none) */
+    heroes?: HeroSystem | null;
+}
+
+/**
+ * GameController - Validates and carries out player orders
+ */
+export class GameController {
+    private units: UnitRegistry;
+    private cities: CityRegistry;
+    private movement: MovementController;
+    private combat: CombatResolver;
+    private production: ProductionSystem;
+    private turns: TurnManager;
+    private history: CommandHistory | null;
+    private victory: VictorySystem | null;
+    private diplomacy: DiplomacySystem | null;
+    private heroes: HeroSystem | null;
+
+    /**
+     * Create a new GameController
+     * @param deps - Game systems
+     */
+    constructor(deps: GameControllerDeps) {
+        this.units = deps.units;
+        this.cities = deps.cities;
+        this.movement = deps.movement;
+        this.combat = deps.combat;
+        this.production = deps.production;
+        this.turns = deps.turns;
+        this.history = deps.history ?? null;
+        this.victory = deps.victory ?? null;
+        this.diplomacy = deps.diplomacy ?? null;
+        this.heroes = deps.heroes ?? null;
+    }
+
+    /**
+     * Move a stack to a tile, or attack the tile if enemies hold it
+     * @param unitIds - Units of one stack
+     * @param target - Destination tile
+     * @returns What happened
+     */
+    moveOrAttack(unitIds: number[], target: GridPosition): OrderOutcome {
+        const outcome = this.move(unitIds, target);
+        if (outcome.type === 'rejected' && outcome.reason === MoveRejectReason.ENEMY_OCCUPIED) {
+            return this.attack(unitIds, target);
+        }
+        return outcome;
+    }
+
+    /**
+     * Move a stack to a tile (entering an undefended enemy city captures it)
+     * @param unitIds - Units of one stack
+     * @param target - Destination tile
+     * @returns Move outcome ('rejected' if the move breaks a rule; nothing changes then)
+     */
+    move(unitIds: number[], target: GridPosition): OrderOutcome {
+        if (this.victory?.isGameOver()) return GAME_OVER_OUTCOME;
+
+        const command = new MoveStackCommand(this.movement, this.units, unitIds, target, this.heroes);
+        if (this.history) this.history.execute(command);
+        else command.apply();
+
+        const result = command.getResult()!;
+        if (!result.success) {
+            return { type: 'rejected', reason: result.reason, message: result.message };
+        }
+
+        const capture = this.captureCityAt(target, this.units.getUnit(unitIds[0])!.ownerId);
+        return { type: 'moved', result, capture };
+    }
+
+    /**
+     * Move every selected stack in formation around a tile (see SelectionController.moveSelection)
+     * @param selection - Selection holding the stacks
+     * @param target - Center of the formation
+     * @returns One entry per selected stack, with the city it captured (if any); none once the game is over
+     */
+    moveSelection(selection: SelectionController, target: GridPosition): (FormationMove & { capture: CityCapture | null })[] {
+        if (this.victory?.isGameOver()) return [];
+
+        const command = new FormationMoveCommand(selection, this.units, target, this.heroes);
+        if (this.history) this.history.execute(command);
+        else command.apply();
+
+        return command.getMoves().map(move => ({
+            ...move,
+            capture: move.result.success ? this.captureCityAt(move.target, this.units.getUnit(move.unitIds[0])!.ownerId) : null,
+        }));
+    }
+
+    /**
+     * Attack an enemy-held tile with a stack
+     * The attackers must stand next to the tile, have movement left and be at war
+     * with everyone on it. Every unit on the tile defends (allies fight together).
+     * Attacking ends the attackers' movement; if they win, the survivors move onto
+     * the tile and capture any city there.
+     * @param unitIds - Attacking units (one stack)
+     * @param target - Enemy-held tile
+     * @returns Battle outcome, or why the attack was refused
+     */
+    attack(unitIds: number[], target: GridPosition): OrderOutcome {
+        if (this.victory?.isGameOver()) return GAME_OVER_OUTCOME;
+
+        const attacker = this.units.getUnit(unitIds[0]);
+        if (!attacker || unitIds.some(id => !this.units.hasUnit(id))) {
+            return { type: 'rejected', reason: AttackRejectReason.UNIT_NOT_FOUND, message: 'Attacking units do not exist' };
+        }
+        if (!this.units.isSameStack(unitIds)) {
+            return { type: 'rejected', reason: AttackRejectReason.NOT_A_STACK, message: 'Attackers must share a tile and an owner' };
+        }
+        if (!this.turns.canCommand(attacker.ownerId)) {
+            return { type: 'rejected', reason: AttackRejectReason.NOT_YOUR_TURN, message: `It is not player ${attacker.ownerId}'s turn` };
+        }
+
+        const distance = Math.max(Math.abs(attacker.gridPos.x - target.x), Math.abs(attacker.gridPos.y - target.y));
+        if (distance !== 1) {
+            return { type: 'rejected', reason: AttackRejectReason.NOT_ADJACENT, message: 'Attackers must stand next to the tile' };
+        }
+        if (this.units.getStackMovementPoints(unitIds) <= 0) {
+            return { type: 'rejected', reason: AttackRejectReason.NO_MOVEMENT, message: 'Attackers have no movement left' };
+        }
+
+        const defenders = this.units.getUnitsAt(target).filter(unit => unit.ownerId !== attacker.ownerId);
+        if (defenders.length === 0) {
+            return { type: 'rejected', reason: AttackRejectReason.NO_ENEMY, message: 'No enemy units on the tile' };
+        }
+        if (defenders.some(unit => !this.isHostile(attacker.ownerId, unit.ownerId))) {
+            return { type: 'rejected', reason: AttackRejectReason.NOT_AT_WAR, message: 'Units on the tile belong to a player you are not at war with' };
+        }
+
+        const defenderIds = defenders.map(unit => unit.id);
+        const battle = this.combat.resolve(unitIds, defenderIds);
+        this.history?.clear(); // Battles are final
+
+        const survivors = unitIds.filter(id => this.units.hasUnit(id));
+        let capture: CityCapture | null = null;
+        if (battle.winner === 'attacker' && new MoveStackCommand(this.movement, this.units, survivors, target, this.heroes).apply()) {
+            capture = this.captureCityAt(target, attacker.ownerId);
+        }
+
+        // Attacking ends the attackers' movement for this turn
+        for (const id of survivors) {
+            this.units.spendMovementPoints(id, this.units.getUnit(id)!.movementPoints);
+        }
+
+        return { type: 'attacked', battle, capture };
+    }
+
+    /**
+     * Order a unit in a city (paid from the city owner's treasury)
+     * @param cityId - City ID
+     * @param unitType - Unit type to produce
+     * @returns The queued order, or why it was refused
+     */
+    orderUnit(cityId: number, unitType: UnitTypeId): EnqueueResult {
+        const city = this.cities.getCity(cityId);
+        if (!city) return { success: false, reason: ProductionRejectReason.UNKNOWN_CITY };
+        if (!this.turns.canCommand(city.ownerId)) return { success: false, reason: ProductionRejectReason.NOT_YOUR_TURN };
+
+        return this.production.enqueue(cityId, unitType);
+    }
+
+    /**
+     * Cancel a city's last order (refunded)
+     * @param cityId - City ID
+     * @returns true if an order was cancelled
+     */
+    cancelOrder(cityId: number): boolean {
+        const city = this.cities.getCity(cityId);
+        if (!city || !this.turns.canCommand(city.ownerId)) return false;
+
+        return this.production.cancel(cityId) !== null;
+    }
+
+    /**
+     * Offer another player peace or an alliance (see DiplomacySystem.propose)
+     * @param from - Proposing player (must be the active player)
+     * @param to - Player who must accept
+     * @param state - Proposed state
+     * @returns The open proposal, or why it was refused
+     * @throws Error if the controller has no DiplomacySystem
+     */
+    proposeTreaty(from: number, to: number, state: DiplomaticState): ProposalResult {
+        if (!this.turns.canCommand(from)) return { success: false, reason: DiplomacyRejectReason.NOT_YOUR_TURN };
+        return this.requireDiplomacy().propose(from, to, state);
+    }
+
+    /**
+     * Accept or reject a proposal (see DiplomacySystem.respond)
+     * @param proposalId - Proposal ID
+     * @param playerId - Answering player (must be the active player and the addressee)
+     * @param accept - true to accept
+     * @returns The resulting state, or why the answer was refused
+     * @throws Error if the controller has no DiplomacySystem
+     */
+    respondToTreaty(proposalId: number, playerId: number, accept: boolean): DiplomacyResult {
+        if (!this.turns.canCommand(playerId)) return { success: false, reason: DiplomacyRejectReason.NOT_YOUR_TURN };
+        return this.requireDiplomacy().respond(proposalId, playerId, accept);
+    }
+
+    /**
+     * Break an alliance or declare war (see DiplomacySystem.declare)
+     * @param from - Declaring player (must be the active player)
+     * @param to - Other player
+     * @param state - New, less friendly state
+     * @returns The new state, or why the declaration was refused
+     * @throws Error if the controller has no DiplomacySystem
+     */
+    declare(from: number, to: number, state: DiplomaticState): DiplomacyResult {
+        if (!this.turns.canCommand(from)) return { success: false, reason: DiplomacyRejectReason.NOT_YOUR_TURN };
+        return this.requireDiplomacy().declare(from, to, state);
+    }
+
+    /**
+     * End the active player's turn
+     * @returns true if the turn ended (false outside the orders phase or after the game is over)
+     */
+    endTurn(): boolean {
+        if (this.victory?.isGameOver()) return false;
+        return this.turns.endTurn();
+    }
+
+    /**
+     * Capture the city at a tile if it belongs to an enemy and nobody else stands in it
+     * @returns The capture, or null if there is no undefended enemy city there
+     */
+    private captureCityAt(pos: GridPosition, ownerId: number): CityCapture | null {
+        const city = this.cities.getCityAt(pos);
+        if (!city || !this.isHostile(ownerId, city.ownerId)) return null;
+
+        // Held on another footprint tile (by the owner or their allies)
+        const defended = this.cities.getFootprint(city.id)
+            .some(tile => this.units.getUnitsAt(tile).some(unit => unit.ownerId !== ownerId));
+        if (defended) return null;
+
+        const previousOwnerId = this.cities.captureCity(city.id, ownerId)!;
+        this.history?.clear(); // Captures are final
+        return { cityId: city.id, previousOwnerId, newOwnerId: ownerId };
+    }
+
+    /**
+     * Get the DiplomacySystem for diplomatic orders
+     */
+    private requireDiplomacy(): DiplomacySystem {
+        if (!this.diplomacy) {
+            throw new Error('Diplomatic orders need a GameController created with a DiplomacySystem');
+        }
+        return this.diplomacy;
+    }
+
+    /**
+     * Check if two owners are at war (any two different owners without diplomacy)
+     */
+    private isHostile(playerA: number, playerB: number): boolean {
+        return this.diplomacy ? this.diplomacy.isHostile(playerA, playerB) : playerA !== playerB;
+    }
+}
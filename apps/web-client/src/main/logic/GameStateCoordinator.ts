@@ -4,12 +4,25 @@
  * This class integrates WorldContainer, UnitRegistry, and WorkerBridge to ensure
  * that any game logic change triggers a coordinated update to the worker.
  * 
+ * It subscribes to the change events of both containers; once auto sync is
+ * started, any number of changes within a frame are coalesced into a single
+ * sync on the next animation frame (changed tiles and, if any unit changed,
+ * the unit buffer). Gameplay code only mutates the containers and never talks
+ * to the worker. Derived state that feeds the render data (e.g. fog of war)
+ * can hook in with onBeforeSync so it is recomputed once per sync.
+ * 
  * Usage example:
  * ```typescript
  * const coordinator = new GameStateCoordinator(worker, worldContainer, unitRegistry);
- * coordinator.syncAll(); // Sync both map and units
- * coordinator.syncMap(); // Sync only map
+ * coordinator.onBeforeSync(() => visibility.update(unitRegistry)); // Recompute fog before each sync
+ * coordinator.syncAll(); // Initial full sync of map and units
+ * coordinator.startAutoSync(); // From now on, container events schedule syncs
+ * unitRegistry.moveUnit(1, { x: 5, y: 5 }); // Synced on the next frame
+ * 
+ * coordinator.syncMap(); // Sync only map (full transfer)
+ * coordinator.syncMapChanges(); // Sync only the tiles that changed
  * coordinator.syncUnits(); // Sync only units
+ * coordinator.syncUnitTypes(); // Sync unit type colors/sprites (once, and when the catalog changes)
  * ```
  */
 
@@ -17,6 +30,11 @@ import { WorkerBridge } from '../network/WorkerBridge';
 import type { WorldContainer } from './WorldContainer';
 import type { UnitRegistry } from './UnitRegistry';
 
+/**
+ * Above this many dirty regions, a single full-map transfer is cheaper than many small messages
+ */
+const MAX_REGIONS_PER_SYNC = 64;
+
 /**
  * GameStateCoordinator - Coordinates game state synchronization
  */
@@ -24,8 +42,12 @@ export class GameStateCoordinator {
     private bridge: WorkerBridge;
     private world: WorldContainer;
     private units: UnitRegistry;
-    private syncPending: boolean = false;
+    private unitsPending: boolean = false;
+    private mapPending: boolean = false;
+    private autoSync: boolean = false;
+    private syncing: boolean = false;
     private syncScheduled: number | null = null;
+    private beforeSyncListeners: Set<() => void> = new Set();
 
     /**
      * Create a new GameStateCoordinator
@@ -37,6 +59,49 @@ export class GameStateCoordinator {
         this.bridge = new WorkerBridge(worker);
         this.world = world;
         this.units = units;
+
+        const onUnitsChanged = () => this.requestSync(true, false);
+        const onMapChanged = () => this.requestSync(false, true);
+        for (const type of ['unitAdded', 'unitRemoved', 'unitMoved', 'unitChanged', 'selectionChanged'] as const) {
+            this.units.on(type, onUnitsChanged);
+        }
+        for (const type of ['tileChanged', 'mapChanged', 'tilesDirty'] as const) {
+            this.world.on(type, onMapChanged);
+        }
+    }
+
+    /**
+     * Start syncing automatically on container changes
+     * Call once the worker has the initial map. Changes made before are synced
+     * on the next frame.
+     */
+    startAutoSync(): void {
+        this.autoSync = true;
+        if (this.unitsPending || this.mapPending) {
+            this.scheduleSync();
+        }
+    }
+
+    /**
+     * Stop syncing automatically (changes are still recorded and synced after startAutoSync)
+     */
+    stopAutoSync(): void {
+        this.autoSync = false;
+        if (this.syncScheduled !== null) {
+            cancelAnimationFrame(this.syncScheduled);
+            this.syncScheduled = null;
+        }
+    }
+
+    /**
+     * Run a callback right before every coalesced sync (e.g. to recompute fog of war)
+     * Changes the callback makes are part of the same sync.
+     * @param listener - Callback
+     * @returns Function that removes the callback
+     */
+    onBeforeSync(listener: () => void): () => void {
+        this.beforeSyncListeners.add(listener);
+        return () => this.beforeSyncListeners.delete(listener);
     }
 
     /**
@@ -45,60 +110,127 @@ export class GameStateCoordinator {
      */
     syncMap(): void {
         const renderBuffer = this.world.getRenderBuffer();
-        const mapSize = this.world.getMapSize();
         
         // Use zero-copy transfer
-        this.bridge.updateMap(renderBuffer, mapSize);
+        this.bridge.updateMap(renderBuffer, this.world.getWidth(), this.world.getHeight());
+
+        // Everything has been sent, so no incremental changes are pending
+        this.world.clearDirty();
     }
 
     /**
-     * Sync units to the worker (zero-copy transfer)
-     * @param onlyDirty - If true, only sync dirty units; if false, sync all units
+     * Sync only the tiles that changed since the last sync
+     * Sends one UPDATE_MAP_REGION per dirty rectangle, falling back to a full
+     * transfer when the whole map changed or the changes are too fragmented.
      */
-    syncUnits(onlyDirty: boolean = false): void {
-        const unitData = this.units.syncToWorker(onlyDirty);
+    syncMapChanges(): void {
+        if (!this.world.hasDirtyTiles()) return;
+
+        if (this.world.isFullSyncPending()) {
+            this.syncMap();
+            return;
+        }
+
+        const regions = this.world.getDirtyRegions();
+        if (regions.length > MAX_REGIONS_PER_SYNC) {
+            this.syncMap();
+            return;
+        }
+
+        for (const region of regions) {
+            this.bridge.updateMapRegion(region, this.world.getRegionRenderData(region));
+        }
+
+        this.world.clearDirty();
+    }
+
+    /**
+     * Sync all units to the worker (zero-copy transfer)
+     * The worker replaces its whole unit buffer, so every unit is always sent
+     * in the [x, y, typeId, state] GPU format (see UnitRegistry.syncUnits).
+     */
+    syncUnits(): void {
+        const unitData = this.units.syncUnits();
         const unitCount = this.units.getUnitCount();
         
         // Use zero-copy transfer
         this.bridge.updateUnits(unitData, unitCount);
         
-        // Clear dirty flags after successful sync
-        if (onlyDirty) {
-            this.units.clearDirty();
-        }
+        // Everything has been sent
+        this.units.clearDirty();
+        this.unitsPending = false;
+    }
+
+    /**
+     * Sync the unit catalog's per-type appearance to the worker (zero-copy transfer)
+     * Call once at startup and whenever the unit catalog changes.
+     */
+    syncUnitTypes(): void {
+        this.bridge.updateUnitTypes(this.units.getCatalog().getAppearanceData());
     }
 
     /**
      * Sync both map and units to the worker
-     * @param onlyDirtyUnits - If true, only sync dirty units; if false, sync all units
      */
-    syncAll(onlyDirtyUnits: boolean = false): void {
+    syncAll(): void {
         this.syncMap();
-        this.syncUnits(onlyDirtyUnits);
+        this.syncUnits();
     }
 
     /**
-     * Schedule a sync for the next frame (debounced)
-     * This is useful when multiple changes happen in quick succession.
+     * Sync map changes and units to the worker
      */
-    scheduleSync(onlyDirtyUnits: boolean = false): void {
-        this.syncPending = true;
-        
-        // Cancel any existing scheduled sync
-        if (this.syncScheduled !== null) {
-            cancelAnimationFrame(this.syncScheduled);
-        }
-        
-        // Schedule sync for next frame
+    syncChanges(): void {
+        this.syncMapChanges();
+        this.syncUnits();
+    }
+
+    /**
+     * Schedule a sync for the next frame
+     * Calls before the frame are coalesced into one sync.
+     */
+    scheduleSync(): void {
+        if (this.syncScheduled !== null) return;
+
         this.syncScheduled = requestAnimationFrame(() => {
-            if (this.syncPending) {
-                this.syncAll(onlyDirtyUnits);
-                this.syncPending = false;
-            }
             this.syncScheduled = null;
+            this.flushSync();
         });
     }
 
+    /**
+     * Sync pending changes now instead of waiting for the next frame
+     * Runs the onBeforeSync callbacks, then sends changed tiles and, if any
+     * unit changed, the unit buffer.
+     */
+    flushSync(): void {
+        this.syncing = true;
+        try {
+            this.beforeSyncListeners.forEach(listener => listener());
+            this.syncMapChanges();
+            if (this.unitsPending) {
+                this.syncUnits();
+            }
+        } finally {
+            this.mapPending = false;
+            this.syncing = false;
+        }
+    }
+
+    /**
+     * Record a container change and schedule a sync if auto sync is on
+     * Changes made by onBeforeSync callbacks during a sync are already included.
+     */
+    private requestSync(units: boolean, map: boolean): void {
+        if (this.syncing && !units) return;
+
+        this.unitsPending ||= units;
+        this.mapPending ||= map;
+        if (this.autoSync && !this.syncing) {
+            this.scheduleSync();
+        }
+    }
+
     /**
      * Get the WorkerBridge instance
      * @returns The WorkerBridge instance
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGame } from './HeadlessGame';
+import type { HeadlessGameOptions } from './HeadlessGame';
+
+const OPTIONS: HeadlessGameOptions = { width: 32, height: 24, players: 3, seed: 'headless-test' };
+const TURNS = 30;
+
+/**
+ * Everything a finished game ended with, in plain data
+ */
+function endState(game: HeadlessGame) {
+    return {
+        turnNumber: game.turns.getTurnNumber(),
+        units: game.units.getAllUnits()
+            .map(unit => ({ id: unit.id, type: unit.unitType, ownerId: unit.ownerId, pos: unit.gridPos, hp: unit.hp }))
+            .sort((a, b) => a.id - b.id),
+        cities: game.cities.getAllCities().map(city => ({ id: city.id, ownerId: city.ownerId })).sort((a, b) => a.id - b.id),
+        diplomacy: game.diplomacy.serialize(),
+    };
+}
+
+describe('HeadlessGame', () => {
+    it('plays AI turns without any order being refused', () => {
+        const summary = new HeadlessGame(OPTIONS).runTurns(TURNS);
+
+        expect(summary.playerTurns).toBeGreaterThan(0);
+        expect(summary.reports.reduce((sum, report) => sum + report.rejected, 0)).toBe(0);
+        expect(summary.reports.reduce((sum, report) => sum + report.moves, 0)).toBeGreaterThan(0);
+    });
+
+    it('ends in the same standing as when it was recorded', () => {
+        // Changes to the AI or the rules change this; update it when they are meant to
+        const summary = new HeadlessGame(OPTIONS).runTurns(TURNS);
+
+        expect(summary.turnNumber).toBe(TURNS + 1);
+        expect(summary.playerTurns).toBe(TURNS * 3);
+        expect(summary.result).toBeNull();
+        expect(summary.players).toEqual([
+            { playerId: 1, strategy: 'simple', cities: 3, units: 16, treasury: 28 },
+            { playerId: 2, strategy: 'simple', cities: 2, units: 7, treasury: 16 },
+            { playerId: 3, strategy: 'simple', cities: 2, units: 8, treasury: 15 },
+        ]);
+    });
+
+    it('plays the same game for the same seed', () => {
+        const first = new HeadlessGame(OPTIONS);
+        const second = new HeadlessGame(OPTIONS);
+        const firstSummary = first.runTurns(TURNS);
+        const secondSummary = second.runTurns(TURNS);
+
+        expect(secondSummary).toEqual(firstSummary);
+        expect(endState(second)).toEqual(endState(first));
+    });
+});
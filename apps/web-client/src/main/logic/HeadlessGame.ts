@@ -0,0 +1,316 @@
+/**
+ * HeadlessGame - A complete game without a renderer, for AI-vs-AI simulation
+ *
+ * Builds the same systems the browser client wires up in index.ts (world, units,
+ * cities, economy, production, combat, movement, turns, fog of war, diplomacy
+ * and the GameController order API) and the same turn flow: movement points and income
+ * at the start of a player's turn, production at the end. Every player gets a
+ * capital city with a few warriors; neutral cities are scattered over the map.
+ * All players are AI players, so runTurns() can play a whole game in a loop.
+ *
+ * Everything is seeded: the same options always produce the same game.
+ * Pure TypeScript: runs in the browser (debug key), in a worker or in Node.
+ *
+ * Usage example:
+ * ```typescript
+ * const game = new HeadlessGame({ seed: 42, players: 2 });
+ * const summary = game.runTurns(50);
+ * console.table(summary.players);
+ * ```
+ */
+
+import { SeededRandom } from './SeededRandom';
+import { TerrainType, WorldContainer } from './WorldContainer';
+import { UnitRegistry, UnitType } from './UnitRegistry';
+import type { GridPosition } from './UnitRegistry';
+import { CityRegistry, DEFAULT_CITY_HEIGHT, DEFAULT_CITY_WIDTH } from './CityRegistry';
+import { Economy } from './Economy';
+import { ProductionSystem } from './ProductionSystem';
+import { Pathfinder } from './Pathfinder';
+import { MovementController } from './MovementController';
+import { TurnManager, TurnPhase } from './TurnManager';
+import { VisibilitySystem } from './VisibilitySystem';
+import { HeroSystem } from './HeroSystem';
+import { CombatResolver } from './CombatResolver';
+import { GameController } from './GameController';
+import { AIPlayer } from './AIPlayer';
+import type { AIStrategy, AITurnReport } from './AIPlayer';
+import { SimpleAIStrategy } from './SimpleAIStrategy';
+import { VictorySystem } from './VictorySystem';
+import { DiplomacySystem } from './DiplomacySystem';
+import type { VictoryEvents, VictoryRules } from './VictorySystem';
+
+/**
+ * Options for a headless game
+ */
+export interface HeadlessGameOptions {
+    /** Seed for the map, city placement and battles (default: 1) */
+    seed?: number | string;
+
+    /** Map width in tiles (default: 48) */
+    width?: number;
+
+    /** Map height in tiles (default: 32) */
+    height?: number;
+
+    /** Number of AI players, with IDs 1..players (default: 2) */
+    players?: number;
+
+    /** Strategy per player (default: a SimpleAIStrategy for everyone) */
+    createStrategy?: (playerId: number) => AIStrategy;
+
+    /** Warriors each player starts with in their capital (default: 2) */
+    startingUnits?: number;
+
+    /** Neutral cities to place (default: 4) */
+    neutralCities?: number;
+
+    /** Play with fog of war (default: true) */
+    fogOfWar?: boolean;
+
+    /** How the game can be won (default: DEFAULT_VICTORY_RULES) */
+    victory?: VictoryRules;
+}
+
+/**
+ * Standing of one player
+ */
+export interface PlayerSummary {
+    playerId: number;
+    strategy: string;
+    cities: number;
+    units: number;
+    treasury: number;
+}
+
+/**
+ * Result of running a headless game
+ */
+export interface HeadlessGameSummary {
+    /** Turn the simulation stopped on */
+    turnNumber: number;
+
+    /** Player turns played */
+    playerTurns: number;
+
+    /** Standing of every player */
+    players: PlayerSummary[];
+
+    /** One report per player turn, in order */
+    reports: AITurnReport[];
+
+    /** How the game ended, or null if it was still going at maxTurns */
+    result: VictoryEvents['gameOver'] | null;
+}
+
+/**
+ * HeadlessGame - Runs AI players against each other
+ */
+export class HeadlessGame {
+    readonly world: WorldContainer;
+    readonly units: UnitRegistry;
+    readonly cities: CityRegistry;
+    readonly economy: Economy;
+    readonly production: ProductionSystem;
+    readonly pathfinder: Pathfinder;
+    readonly movement: MovementController;
+    readonly turns: TurnManager;
+    readonly visibility: VisibilitySystem | null;
+    readonly heroes: HeroSystem;
+    readonly combat: CombatResolver;
+    readonly victory: VictorySystem;
+    readonly diplomacy: DiplomacySystem;
+    readonly orders: GameController;
+    private players: Map<number, AIPlayer>;
+    private rng: SeededRandom;
+
+    /**
+     * Create a new HeadlessGame (map generated, cities and starting units placed, turn 1 not started)
+     * @param options - Map size, players, seed
+     * @throws Error if the map has no room for every player's capital
+     */
+    constructor(options: HeadlessGameOptions = {}) {
+        const seed = options.seed ?? 1;
+        const playerCount = options.players ?? 2;
+        const createStrategy = options.createStrategy ?? (() => new SimpleAIStrategy());
+        this.rng = new SeededRandom(`${seed}:placement`);
+
+        this.world = new WorldContainer(options.width ?? 48, options.height ?? 32, { seed });
+        this.units = new UnitRegistry();
+        this.cities = new CityRegistry(this.world);
+        this.economy = new Economy(this.world, this.units, this.cities);
+        this.production = new ProductionSystem(this.world, this.units, this.cities, this.economy);
+        this.turns = new TurnManager(Array.from({ length: playerCount }, (_, i) => ({
+            id: i + 1,
+            name: `AI ${i + 1}`,
+            kind: 'ai' as const,
+        })));
+        this.diplomacy = new DiplomacySystem({ turns: this.turns, units: this.units });
+        this.pathfinder = new Pathfinder(this.world);
+        this.movement = new MovementController(this.units, this.pathfinder, this.turns, this.diplomacy);
+        this.visibility = options.fogOfWar === false ? null : new VisibilitySystem(this.world);
+        this.visibility?.setAllianceSource((a, b) => this.diplomacy.isAllied(a, b));
+        this.visibility?.setPlayers(this.turns.getPlayers().map(player => player.id));
+        this.heroes = new HeroSystem(this.units, { visibility: this.visibility });
+        this.combat = new CombatResolver(this.units, this.world, { seed: `${seed}:combat`, cities: this.cities, heroes: this.heroes });
+        this.victory = new VictorySystem(this.units, this.cities, this.world, this.turns, {
+            rules: options.victory,
+            economy: this.economy,
+        });
+        this.victory.setAllianceSource((a, b) => this.diplomacy.isAllied(a, b));
+        this.orders = new GameController({
+            units: this.units,
+            cities: this.cities,
+            movement: this.movement,
+            combat: this.combat,
+            production: this.production,
+            turns: this.turns,
+            victory: this.victory,
+            diplomacy: this.diplomacy,
+            heroes: this.heroes,
+        });
+
+        this.placeCities(playerCount, options.startingUnits ?? 2, options.neutralCities ?? 4);
+
+        this.players = new Map();
+        for (const { id } of this.turns.getPlayers()) {
+            this.players.set(id, new AIPlayer(id, createStrategy(id), {
+                world: this.world,
+                units: this.units,
+                cities: this.cities,
+                economy: this.economy,
+                production: this.production,
+                pathfinder: this.pathfinder,
+                movement: this.movement,
+                combat: this.combat,
+                turns: this.turns,
+                visibility: this.visibility,
+                diplomacy: this.diplomacy,
+                orders: this.orders,
+            }));
+        }
+
+        // Shared vision follows alliances as soon as they change
+        this.diplomacy.on('stateChanged', () => this.visibility?.update(this.units, this.cities.getVisionSources()));
+
+        // Same turn flow as the browser client
+        this.turns.on('phaseChanged', ({ playerId, phase }) => {
+            if (phase === TurnPhase.START) {
+                this.movement.startTurn(playerId);
+                this.economy.processTurn(playerId);
+            }
+            if (phase === TurnPhase.END) {
+                this.production.processTurn(playerId);
+            }
+        });
+    }
+
+    /**
+     * Get the AI playing a player's turns
+     * @param playerId - Player ID
+     * @returns AI player, or undefined if there is no such player
+     */
+    getAIPlayer(playerId: number): AIPlayer | undefined {
+        return this.players.get(playerId);
+    }
+
+    /**
+     * Play until the game is won or a turn number is reached
+     * @param maxTurns - Last turn to play
+     * @returns Standing of every player and what each AI did
+     */
+    runTurns(maxTurns: number): HeadlessGameSummary {
+        if (this.turns.getTurnNumber() === 0) this.turns.start();
+
+        const reports: AITurnReport[] = [];
+        while (this.turns.getTurnNumber() <= maxTurns && !this.victory.isGameOver()) {
+            const report = this.players.get(this.turns.getActivePlayerId())!.playTurn();
+            if (report) reports.push(report);
+            this.orders.endTurn();
+        }
+
+        return {
+            turnNumber: this.turns.getTurnNumber(),
+            playerTurns: reports.length,
+            players: this.getStandings(),
+            reports,
+            result: this.victory.getResult(),
+        };
+    }
+
+    /**
+     * Get the standing of every player
+     * @returns One row per player
+     */
+    getStandings(): PlayerSummary[] {
+        return this.turns.getPlayers().map(({ id }) => ({
+            playerId: id,
+            strategy: this.players.get(id)!.getStrategy().name,
+            cities: this.cities.getCitiesByOwner(id).length,
+            units: this.units.getUnitsByOwner(id).length,
+            treasury: this.economy.getTreasury(id),
+        }));
+    }
+
+    /**
+     * Place a capital with starting units for every player, then the neutral cities
+     */
+    private placeCities(playerCount: number, startingUnits: number, neutralCities: number): void {
+        const width = this.world.getWidth();
+        const height = this.world.getHeight();
+
+        // Capitals start spread around an ellipse, then take the nearest grassland
+        for (let playerId = 1; playerId <= playerCount; playerId++) {
+            const angle = (2 * Math.PI * (playerId - 1)) / playerCount;
+            const preferred = {
+                x: Math.round(width / 2 + Math.cos(angle) * width * 0.35),
+                y: Math.round(height / 2 + Math.sin(angle) * height * 0.35),
+            };
+            const pos = this.findCitySite(preferred);
+            if (!pos) {
+                throw new Error(`No room for player ${playerId}'s capital on a ${width}x${height} map`);
+            }
+
+            const cityId = this.cities.addCity({ name: `Capital ${playerId}`, ownerId: playerId, pos })!;
+            const footprint = this.cities.getFootprint(cityId);
+            for (let i = 0; i < startingUnits; i++) {
+                this.units.addUnit({ unitType: UnitType.WARRIOR, ownerId: playerId, gridPos: footprint[i % footprint.length] });
+            }
+        }
+
+        for (let i = 0; i < neutralCities; i++) {
+            const pos = this.findCitySite({ x: this.rng.nextInt(0, width - 1), y: this.rng.nextInt(0, height - 1) });
+            if (pos) this.cities.addCity({ name: `Town ${i + 1}`, ownerId: 0, pos });
+        }
+    }
+
+    /**
+     * Find the nearest spot to a tile where a city fits on grassland (so every unit type can stand in it)
+     */
+    private findCitySite(preferred: GridPosition): GridPosition | null {
+        const maxRing = Math.max(this.world.getWidth(), this.world.getHeight());
+        for (let ring = 0; ring <= maxRing; ring++) {
+            for (let y = preferred.y - ring; y <= preferred.y + ring; y++) {
+                for (let x = preferred.x - ring; x <= preferred.x + ring; x++) {
+                    if (Math.max(Math.abs(x - preferred.x), Math.abs(y - preferred.y)) !== ring) continue;
+                    if (this.isCitySite({ x, y })) return { x, y };
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check if a city footprint at a tile would be all grassland and free
+     */
+    private isCitySite(pos: GridPosition): boolean {
+        if (!this.cities.canPlaceCity(pos)) return false;
+
+        for (let y = pos.y; y < pos.y + DEFAULT_CITY_HEIGHT; y++) {
+            for (let x = pos.x; x < pos.x + DEFAULT_CITY_WIDTH; x++) {
+                if (this.world.getTile(x, y)!.terrain !== TerrainType.GRASS) return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,552 @@
+/**
+ * HeroSystem - Hero experience, levels, items and leadership
+ *
+ * Heroes are ordinary units (of a catalog type marked "hero") that carry a
+ * HeroState in Unit.hero. They gain experience from the enemies their side
+ * kills in battles they survive and from exploring (each tile a hero's move
+ * reveals to its owner for the first time, anywhere along the path). The move
+ * commands work exploration experience out once and award it on every apply, so
+ * undo and redo give it back and take it again. Every level gained gives one stat
+ * choice: strength, movement or leadership. Items in the inventory add to the
+ * same stats.
+ *
+ * A hero's strength and maximum movement points are written back to its unit
+ * (base catalog stats + trained stats + items), so combat and movement need no
+ * hero-specific code for them. Leadership is the exception: CombatResolver asks
+ * for the best leadership in a stack and adds it to every unit of that stack.
+ *
+ * Hero state lives on the units, so unit snapshots (undo) and anything that
+ * copies units carry it along; serialize() / load() convert all heroes to and
+ * from a versioned JSON save format.
+ *
+ * Usage example:
+ * ```typescript
+ * const heroes = new HeroSystem(unitRegistry, { visibility }); // Exploration XP needs the fog of war
+ * const heroId = heroes.createHero({ name: 'Sirian', ownerId: 1, gridPos: { x: 10, y: 10 } });
+ * heroes.on('levelUp', ({ unitId, level }) => console.log(unitId, 'reached level', level));
+ * heroes.giveItem(heroId, 'boots_of_speed'); // +2 movement
+ * heroes.chooseStat(heroId, 'leadership'); // Spend a level-up
+ * const save = heroes.serialize(); // Plain JSON
+ * ```
+ */
+
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+import type { BattleResult } from './CombatResolver';
+import type { GridPosition, Unit, UnitRegistry } from './UnitRegistry';
+import type { UnitTypeId } from './UnitCatalog';
+import type { VisibilitySystem } from './VisibilitySystem';
+
+/**
+ * Stat a level-up can raise (and items can boost)
+ */
+export type HeroStat = 'strength' | 'movement' | 'leadership';
+
+/**
+ * All hero stats, in display order
+ */
+export const HERO_STATS: readonly HeroStat[] = ['strength', 'movement', 'leadership'];
+
+/**
+ * An item a hero can carry
+ */
+export interface HeroItem {
+    /** Stable identifier, e.g. "boots_of_speed" */
+    key: string;
+
+    /** Display name */
+    name: string;
+
+    /** Stat bonuses while carried */
+    bonuses: Partial<Record<HeroStat, number>>;
+}
+
+/**
+ * Hero progression rules (serializable, e.g. loaded from JSON)
+ */
+export interface HeroRules {
+    /** Experience needed for level 2; each level needs this much more than the one before */
+    experiencePerLevel: number;
+
+    /** Highest level a hero can reach */
+    maxLevel: number;
+
+    /** Experience per enemy unit killed by the hero's side in a battle the hero survives */
+    experiencePerKill: number;
+
+    /** Experience per tile a hero reveals to its owner for the first time */
+    experiencePerTileExplored: number;
+
+    /** Leadership of a hero without trained leadership or items */
+    baseLeadership: number;
+
+    /** How much one level-up choice raises each stat */
+    statIncrease: Record<HeroStat, number>;
+
+    /** Items a hero can carry at once */
+    inventorySize: number;
+
+    /** Items that exist in the game */
+    items: HeroItem[];
+}
+
+/**
+ * Default hero rules
+ */
+export const DEFAULT_HERO_RULES: HeroRules = {
+    experiencePerLevel: 100,
+    maxLevel: 10,
+    experiencePerKill: 25,
+    experiencePerTileExplored: 1,
+    baseLeadership: 1,
+    statIncrease: { strength: 1, movement: 1, leadership: 1 },
+    inventorySize: 4,
+    items: [
+        { key: 'sword_of_might', name: 'Sword of Might', bonuses: { strength: 2 } },
+        { key: 'boots_of_speed', name: 'Boots of Speed', bonuses: { movement: 2 } },
+        { key: 'banner_of_valor', name: 'Banner of Valor', bonuses: { leadership: 2 } },
+        { key: 'crown_of_command', name: 'Crown of Command', bonuses: { strength: 1, leadership: 1 } },
+        { key: 'winged_helm', name: 'Winged Helm', bonuses: { strength: 1, movement: 1 } },
+    ],
+};
+
+/**
+ * Progression of one hero (stored in Unit.hero)
+ */
+export interface HeroState {
+    /** Hero's name */
+    name: string;
+
+    /** Current level (starts at 1) */
+    level: number;
+
+    /** Total experience earned */
+    experience: number;
+
+    /** Levels gained whose stat choice has not been made yet */
+    unspentLevelUps: number;
+
+    /** Stat increases chosen at level-ups */
+    trained: Record<HeroStat, number>;
+
+    /** Keys of the carried items */
+    items: string[];
+}
+
+/**
+ * Hero save format version this code reads and writes
+ */
+export const HERO_SAVE_VERSION = 1;
+
+/**
+ * Saved heroes (see HeroSystem.serialize)
+ */
+export interface HeroSaveData {
+    /** Format version */
+    version: number;
+
+    /** Hero state per unit */
+    heroes: Array<{ unitId: number } & HeroState>;
+}
+
+/**
+ * Events emitted by HeroSystem (event name -> payload)
+ */
+export interface HeroSystemEvents {
+    /** A hero earned experience */
+    experienceGained: { unitId: number; amount: number; source: 'combat' | 'exploration' };
+
+    /** A hero reached a new level (and has a stat choice to make) */
+    levelUp: { unitId: number; level: number };
+}
+
+/**
+ * Options for creating a HeroSystem
+ */
+export interface HeroSystemOptions {
+    /** Progression rules (default: DEFAULT_HERO_RULES) */
+    rules?: HeroRules;
+
+    /** Fog of war, for exploration experience (without it heroes only learn from combat) */
+    visibility?: VisibilitySystem | null;
+}
+
+/**
+ * HeroSystem - Hero progression on top of UnitRegistry
+ */
+export class HeroSystem {
+    private registry: UnitRegistry;
+    private rules: HeroRules;
+    private visibility: VisibilitySystem | null;
+    private items: Map<string, HeroItem>;
+    private events: EventEmitter<HeroSystemEvents> = new EventEmitter();
+
+    /**
+     * Create a new HeroSystem
+     * @param registry - Unit registry the heroes live in
+     * @param options - Rules and fog of war
+     */
+    constructor(registry: UnitRegistry, options: HeroSystemOptions = {}) {
+        this.registry = registry;
+        this.rules = options.rules ?? DEFAULT_HERO_RULES;
+        this.visibility = options.visibility ?? null;
+        this.items = new Map(this.rules.items.map(item => [item.key, item]));
+    }
+
+    /**
+     * Subscribe to hero events
+     * @param type - Event name
+     * @param listener - Called with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof HeroSystemEvents>(type: K, listener: EventListener<HeroSystemEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from hero events
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof HeroSystemEvents>(type: K, listener: EventListener<HeroSystemEvents[K]>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Get the hero rules
+     * @returns Hero rules
+     */
+    getRules(): HeroRules {
+        return this.rules;
+    }
+
+    /**
+     * Get an item definition
+     * @param key - Item key
+     * @returns Item or undefined if the rules define no such item
+     */
+    getItem(key: string): HeroItem | undefined {
+        return this.items.get(key);
+    }
+
+    /**
+     * Create a level 1 hero
+     * @param hero - Name, owner, position and (optionally) the hero unit type
+     * @returns The hero's unit ID
+     * @throws Error if the unit type is not a hero type, or the catalog has no hero type
+     */
+    createHero(hero: { name: string; ownerId: number; gridPos: GridPosition; unitType?: UnitTypeId }): number {
+        const catalog = this.registry.getCatalog();
+        const unitType = hero.unitType ?? catalog.getAll().find(type => type.hero)?.id;
+        if (unitType === undefined || !catalog.isHero(unitType)) {
+            throw new Error(`Unit type ${unitType ?? '(none)'} is not a hero type`);
+        }
+
+        return this.registry.addUnit({
+            unitType,
+            ownerId: hero.ownerId,
+            gridPos: hero.gridPos,
+            hero: {
+                name: hero.name,
+                level: 1,
+                experience: 0,
+                unspentLevelUps: 0,
+                trained: { strength: 0, movement: 0, leadership: 0 },
+                items: [],
+            },
+        });
+    }
+
+    /**
+     * Check if a unit is a hero
+     * @param unitId - Unit ID
+     * @returns true if the unit exists and has hero state
+     */
+    isHero(unitId: number): boolean {
+        return this.registry.getUnit(unitId)?.hero !== undefined;
+    }
+
+    /**
+     * Get a hero's state
+     * @param unitId - Unit ID
+     * @returns Hero state (read-only; change it through HeroSystem), or undefined if the unit is not a hero
+     */
+    getHero(unitId: number): Readonly<HeroState> | undefined {
+        return this.registry.getUnit(unitId)?.hero;
+    }
+
+    /**
+     * Get all hero units
+     * @param ownerId - Only heroes of this player (default: all players)
+     * @returns Hero units ordered by ID
+     */
+    getHeroes(ownerId?: number): Unit[] {
+        const units = ownerId === undefined ? this.registry.getAllUnits() : this.registry.getUnitsByOwner(ownerId);
+        return units.filter(unit => unit.hero).sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Get the total experience needed to reach a level
+     * @param level - Level (1 or higher)
+     * @returns Experience threshold (0 for level 1)
+     */
+    getExperienceForLevel(level: number): number {
+        return this.rules.experiencePerLevel * (level - 1) * level / 2;
+    }
+
+    /**
+     * Give a hero experience, levelling it up as far as the experience reaches
+     * @param unitId - Hero unit ID
+     * @param amount - Experience to add
+     * @param source - What the experience was earned for
+     * @returns Number of levels gained (0 if the unit is not a hero)
+     */
+    addExperience(unitId: number, amount: number, source: 'combat' | 'exploration'): number {
+        const hero = this.copyHero(unitId);
+        if (!hero || amount <= 0) return 0;
+
+        const startLevel = hero.level;
+        hero.experience += amount;
+        while (hero.level < this.rules.maxLevel && hero.experience >= this.getExperienceForLevel(hero.level + 1)) {
+            hero.level++;
+            hero.unspentLevelUps++;
+        }
+        this.registry.setUnitHero(unitId, hero);
+
+        this.events.emit('experienceGained', { unitId, amount, source });
+        for (let level = startLevel + 1; level <= hero.level; level++) {
+            this.events.emit('levelUp', { unitId, level });
+        }
+        return hero.level - startLevel;
+    }
+
+    /**
+     * Work out the exploration experience a move earns the heroes in it
+     * Call it right after the move, before the fog of war is updated for it (on the next sync).
+     * @param unitIds - Units that moved
+     * @param path - Tiles they stepped through
+     * @returns Experience per hero unit ID (heroes that earn nothing are left out)
+     */
+    getExplorationExperience(unitIds: readonly number[], path: readonly GridPosition[]): Map<number, number> {
+        const experience = new Map<number, number>();
+        if (!this.visibility || this.rules.experiencePerTileExplored <= 0) return experience;
+
+        for (const id of unitIds) {
+            const unit = this.registry.getUnit(id);
+            if (!unit?.hero) continue;
+
+            const revealed = this.visibility.countUnexploredAlong(unit.ownerId, path, unit.sightRadius);
+            if (revealed > 0) experience.set(id, revealed * this.rules.experiencePerTileExplored);
+        }
+        return experience;
+    }
+
+    /**
+     * Spend a level-up on a stat
+     * @param unitId - Hero unit ID
+     * @param stat - Stat to raise
+     * @returns true if the stat was raised, false if the unit is not a hero or has no level-up to spend
+     */
+    chooseStat(unitId: number, stat: HeroStat): boolean {
+        const hero = this.copyHero(unitId);
+        if (!hero || hero.unspentLevelUps <= 0) return false;
+
+        hero.unspentLevelUps--;
+        hero.trained[stat] += this.rules.statIncrease[stat];
+        this.registry.setUnitHero(unitId, hero);
+        this.applyStats(unitId);
+        return true;
+    }
+
+    /**
+     * Put an item into a hero's inventory
+     * @param unitId - Hero unit ID
+     * @param itemKey - Item key
+     * @returns true if the item was added, false if the unit is not a hero, the item is unknown or the inventory is full
+     */
+    giveItem(unitId: number, itemKey: string): boolean {
+        const hero = this.copyHero(unitId);
+        if (!hero || !this.items.has(itemKey) || hero.items.length >= this.rules.inventorySize) return false;
+
+        hero.items.push(itemKey);
+        this.registry.setUnitHero(unitId, hero);
+        this.applyStats(unitId);
+        return true;
+    }
+
+    /**
+     * Take an item out of a hero's inventory
+     * @param unitId - Hero unit ID
+     * @param itemKey - Item key
+     * @returns true if the item was removed, false if the hero does not carry it
+     */
+    dropItem(unitId: number, itemKey: string): boolean {
+        const hero = this.copyHero(unitId);
+        const index = hero?.items.indexOf(itemKey) ?? -1;
+        if (!hero || index < 0) return false;
+
+        hero.items.splice(index, 1);
+        this.registry.setUnitHero(unitId, hero);
+        this.applyStats(unitId);
+        return true;
+    }
+
+    /**
+     * Get a hero's bonus to a stat from level-ups and items
+     * @param unitId - Hero unit ID
+     * @param stat - Stat
+     * @returns Bonus (0 if the unit is not a hero)
+     */
+    getStatBonus(unitId: number, stat: HeroStat): number {
+        const hero = this.registry.getUnit(unitId)?.hero;
+        if (!hero) return 0;
+
+        let bonus = hero.trained[stat];
+        for (const key of hero.items) {
+            bonus += this.items.get(key)?.bonuses[stat] ?? 0;
+        }
+        return bonus;
+    }
+
+    /**
+     * Get a hero's leadership (the strength bonus it gives the stack it leads)
+     * @param unitId - Hero unit ID
+     * @returns Leadership (0 if the unit is not a hero)
+     */
+    getLeadership(unitId: number): number {
+        if (!this.isHero(unitId)) return 0;
+        return Math.max(0, this.rules.baseLeadership + this.getStatBonus(unitId, 'leadership'));
+    }
+
+    /**
+     * Get the leadership bonus of a group of units
+     * The best leader among the group's heroes leads; bonuses of several heroes do not add up.
+     * @param unitIds - Units of one stack
+     * @returns Strength bonus for every unit of the stack (0 without a hero)
+     */
+    getStackLeadership(unitIds: number[]): number {
+        return Math.max(0, ...unitIds.map(id => this.getLeadership(id)));
+    }
+
+    /**
+     * Award combat experience after a battle
+     * Every surviving hero gets experiencePerKill for each enemy unit its side killed.
+     * @param result - Battle result
+     * @param attackerIds - Attacking unit IDs
+     * @param defenderIds - Defending unit IDs
+     */
+    awardCombatExperience(result: BattleResult, attackerIds: number[], defenderIds: number[]): void {
+        const killed = new Set(result.killed);
+        const award = (heroSide: number[], enemySide: number[]) => {
+            const kills = enemySide.filter(id => killed.has(id)).length;
+            if (kills === 0) return;
+            heroSide
+                .filter(id => !killed.has(id) && this.isHero(id))
+                .forEach(id => this.addExperience(id, kills * this.rules.experiencePerKill, 'combat'));
+        };
+
+        award(attackerIds, defenderIds);
+        award(defenderIds, attackerIds);
+    }
+
+    /**
+     * Save every hero's state
+     * @returns Save data (plain JSON)
+     */
+    serialize(): HeroSaveData {
+        return {
+            version: HERO_SAVE_VERSION,
+            heroes: this.getHeroes().map(unit => ({ unitId: unit.id, ...structuredClone(unit.hero!) })),
+        };
+    }
+
+    /**
+     * Restore saved hero state onto the registry's units
+     * The units themselves must already exist (they are saved with the other units);
+     * their strength and movement are recomputed from the restored state.
+     * @param data - Save data from serialize()
+     * @returns Number of heroes restored
+     * @throws Error listing every problem if the data is invalid
+     */
+    load(data: HeroSaveData): number {
+        const errors = this.validate(data);
+        if (errors.length > 0) {
+            throw new Error(`Invalid hero save data:\n${errors.join('\n')}`);
+        }
+
+        for (const { unitId, ...hero } of data.heroes) {
+            this.registry.setUnitHero(unitId, hero);
+            this.applyStats(unitId);
+        }
+        return data.heroes.length;
+    }
+
+    /**
+     * Check hero save data for problems
+     * @param data - Save data to check
+     * @returns Human-readable problems (empty if the data can be loaded)
+     */
+    validate(data: HeroSaveData): string[] {
+        const errors: string[] = [];
+        if (data?.version !== HERO_SAVE_VERSION) {
+            errors.push(`Unsupported version ${data?.version} (expected ${HERO_SAVE_VERSION})`);
+        }
+        if (!Array.isArray(data?.heroes)) {
+            errors.push('heroes must be an array');
+            return errors;
+        }
+
+        const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+
+        data.heroes.forEach((hero, index) => {
+            const where = `heroes[${index}] (unit ${hero?.unitId})`;
+
+            if (!this.registry.hasUnit(hero.unitId)) errors.push(`${where}: no such unit`);
+            if (typeof hero.name !== 'string' || hero.name === '') errors.push(`${where}: name is required`);
+            if (!Number.isInteger(hero.level) || hero.level < 1 || hero.level > this.rules.maxLevel) {
+                errors.push(`${where}: level must be 1-${this.rules.maxLevel}`);
+            }
+            if (!isCount(hero.experience)) errors.push(`${where}: experience must be a non-negative integer`);
+            if (!isCount(hero.unspentLevelUps)) errors.push(`${where}: unspentLevelUps must be a non-negative integer`);
+
+            for (const stat of HERO_STATS) {
+                if (typeof hero.trained?.[stat] !== 'number') errors.push(`${where}: trained.${stat} must be a number`);
+            }
+
+            if (!Array.isArray(hero.items)) {
+                errors.push(`${where}: items must be an array`);
+            } else {
+                if (hero.items.length > this.rules.inventorySize) {
+                    errors.push(`${where}: carries more than ${this.rules.inventorySize} items`);
+                }
+                hero.items
+                    .filter(key => !this.items.has(key))
+                    .forEach(key => errors.push(`${where}: unknown item "${key}"`));
+            }
+        });
+
+        return errors;
+    }
+
+    /**
+     * Recompute a hero's strength and maximum movement from its type, level-ups and items
+     */
+    private applyStats(unitId: number): void {
+        const unit = this.registry.getUnit(unitId);
+        const type = unit && this.registry.getCatalog().get(unit.unitType);
+        if (!unit?.hero || !type) return;
+
+        this.registry.setUnitStats(unitId, {
+            strength: Math.max(0, type.strength + this.getStatBonus(unitId, 'strength')),
+            maxMovementPoints: Math.max(0, type.movement + this.getStatBonus(unitId, 'movement')),
+        });
+    }
+
+    /**
+     * Get a copy of a hero's state to modify and write back with setUnitHero
+     */
+    private copyHero(unitId: number): HeroState | undefined {
+        const hero = this.registry.getUnit(unitId)?.hero;
+        return hero && structuredClone(hero);
+    }
+}
@@ -0,0 +1,587 @@
+/**
+ * MapEditor - Hand-authoring of scenario maps in the running game
+ *
+ * The editor paints terrain with a brush (size and shape shared with the worker's
+ * overlay, see shared/editorBrush.ts), fills areas, places and removes buildings,
+ * cities and units, and converts the result to and from the scenario format:
+ *
+ *     paintTerrain   - every tile under the brush
+ *     fillTerrain    - flood fill of the connected area with the clicked tile's terrain
+ *     fillRect       - every tile in a rectangle
+ *     placeBuilding  - farm, mine or fortress with a level and owner on one tile
+ *     placeCity      - city footprint with its top-left corner on a tile
+ *     removeBuildings / removeUnits - everything under the brush
+ *     placeUnit      - one unit of a (non-hero) catalog type
+ *
+ * Every edit runs through the CommandHistory as one undo step (edits of several tiles
+ * are a BatchCommand); between beginStroke() and endStroke() the edits are applied
+ * right away and recorded together, so a whole mouse drag is undone at once.
+ * Edits only change WorldContainer/UnitRegistry/CityRegistry - the GameStateCoordinator
+ * sends the changed tiles and units to the worker like after any other change.
+ * The map stays a valid scenario: water is never painted under cities or buildings,
+ * terrain is not painted where a unit standing on it could not stand, units are only
+ * placed on terrain their type allows, and only allies share a tile.
+ *
+ * exportScenario() writes the map as a tile blob together with the current cities,
+ * units, treasuries and treaties; importScenario() loads a scenario's map, cities and
+ * units into this game (same map size and players only; it cannot be undone).
+ *
+ * Usage example:
+ * ```typescript
+ * const editor = new MapEditor({ world, units, cities, economy, heroes, diplomacy, turns, history });
+ * editor.setBrush({ size: 3, shape: BrushShape.CIRCLE });
+ * editor.paintTerrain({ x: 10, y: 10 }, TerrainType.FOREST); // One undo step
+ * editor.beginStroke();
+ * path.forEach(tile => editor.paintTerrain(tile, TerrainType.WATER));
+ * editor.endStroke(); // The whole drag is one undo step
+ * editor.placeBuilding({ x: 12, y: 9 }, BuildingType.MINE, 2, 1);
+ * const json = JSON.stringify(editor.exportScenario(scenario.getData()));
+ * ```
+ */
+
+import { BuildingType, TerrainType } from './WorldContainer';
+import type { WorldContainer } from './WorldContainer';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import { MAX_STACK_SIZE } from './UnitRegistry';
+import type { UnitTypeId } from './UnitCatalog';
+import type { CityRegistry } from './CityRegistry';
+import { DEFAULT_CITY_HEIGHT, DEFAULT_CITY_WIDTH } from './CityRegistry';
+import type { TurnManager } from './TurnManager';
+import type { CommandHistory } from './CommandHistory';
+import {
+    AddUnitCommand,
+    BatchCommand,
+    FoundCityCommand,
+    PlaceBuildingCommand,
+    RemoveCityCommand,
+    RemoveUnitCommand,
+    SetTerrainCommand,
+} from './GameCommands';
+import type { GameCommand } from './GameCommands';
+import { DiplomaticState } from './DiplomacySystem';
+import { encodeTileBlob, Scenario, SCENARIO_VERSION } from './Scenario';
+import type { ScenarioData, ScenarioTargets } from './Scenario';
+import { BrushShape, getBrushStart, isInBrush, MAX_BRUSH_SIZE } from '../../shared/editorBrush';
+import { TILE_FIELDS } from '../../shared/tileEncoding';
+
+/**
+ * Highest building level the tile encoding can hold
+ */
+export const MAX_EDITOR_BUILDING_LEVEL = (1 << TILE_FIELDS.LEVEL.bits) - 1;
+
+/**
+ * Brush used by the painting tools
+ */
+export interface EditorBrush {
+    /** Tiles across (1 to MAX_BRUSH_SIZE) */
+    size: number;
+
+    shape: BrushShape;
+}
+
+/**
+ * Default brush (a single tile)
+ */
+export const DEFAULT_EDITOR_BRUSH: EditorBrush = {
+    size: 1,
+    shape: BrushShape.SQUARE,
+};
+
+/**
+ * Systems the editor changes (the scenario targets plus the map, turn order and undo history)
+ */
+export interface MapEditorDeps extends ScenarioTargets {
+    world: WorldContainer;
+
+    /** Players of the game (owners must be one of them, or 0 = neutral) */
+    turns: TurnManager;
+
+    history: CommandHistory;
+}
+
+/**
+ * Why an edit was not made
+ */
+export enum EditRejectReason {
+    OFF_MAP = 'OFF_MAP',
+    UNKNOWN_OWNER = 'UNKNOWN_OWNER',
+    INVALID_BUILDING = 'INVALID_BUILDING',
+    INVALID_LEVEL = 'INVALID_LEVEL',
+    INVALID_UNIT_TYPE = 'INVALID_UNIT_TYPE',
+    CITY_TILE = 'CITY_TILE',
+    CITY_BLOCKED = 'CITY_BLOCKED',
+    STACK_FULL = 'STACK_FULL',
+    FOREIGN_STACK = 'FOREIGN_STACK',
+    TERRAIN_NOT_ALLOWED = 'TERRAIN_NOT_ALLOWED',
+    NO_CHANGE = 'NO_CHANGE',
+}
+
+/**
+ * Outcome of an edit
+ */
+export type EditResult =
+    | {
+        success: true;
+        /** Description recorded in the undo history */
+        label: string;
+        /** Tiles, buildings, cities or units changed */
+        changed: number;
+    }
+    | {
+        success: false;
+        reason: EditRejectReason;
+        /** Human-readable explanation */
+        message: string;
+    };
+
+/**
+ * Why a scenario was not imported
+ */
+export enum ImportRejectReason {
+    INVALID_SCENARIO = 'INVALID_SCENARIO',
+    MAP_SIZE = 'MAP_SIZE',
+    UNKNOWN_PLAYER = 'UNKNOWN_PLAYER',
+}
+
+/**
+ * Outcome of importing a scenario
+ */
+export type ImportResult =
+    | {
+        success: true;
+        cities: number;
+        units: number;
+    }
+    | {
+        success: false;
+        reason: ImportRejectReason;
+        /** Human-readable explanation (one line per problem for invalid files) */
+        message: string;
+    };
+
+/**
+ * Buildings the editor places directly (cities go through placeCity)
+ */
+const EDITOR_BUILDINGS: readonly BuildingType[] = [BuildingType.FARM, BuildingType.MINE, BuildingType.FORTRESS];
+
+/**
+ * MapEditor - Brush, fill and placement tools over the game's world and registries
+ */
+export class MapEditor {
+    private deps: MapEditorDeps;
+    private brush: EditorBrush;
+    private stroke: GameCommand[] | null = null;
+
+    /**
+     * Create a new MapEditor
+     * @param deps - Systems to edit
+     * @param brush - Starting brush (default: one tile)
+     */
+    constructor(deps: MapEditorDeps, brush: Partial<EditorBrush> = {}) {
+        this.deps = deps;
+        this.brush = { ...DEFAULT_EDITOR_BRUSH };
+        this.setBrush(brush);
+    }
+
+    /**
+     * Get the brush
+     * @returns Copy of the current brush
+     */
+    getBrush(): EditorBrush {
+        return { ...this.brush };
+    }
+
+    /**
+     * Change the brush (the size is rounded and clamped to 1..MAX_BRUSH_SIZE)
+     * @param brush - Fields to change
+     * @returns The new brush
+     */
+    setBrush(brush: Partial<EditorBrush>): EditorBrush {
+        if (brush.size !== undefined) {
+            this.brush.size = Math.max(1, Math.min(MAX_BRUSH_SIZE, Math.round(brush.size) || 1));
+        }
+        if (brush.shape !== undefined) {
+            this.brush.shape = brush.shape;
+        }
+        return this.getBrush();
+    }
+
+    /**
+     * Get the map tiles under the brush
+     * @param center - Hovered tile
+     * @returns Tiles on the map, row by row
+     */
+    getBrushTiles(center: GridPosition): GridPosition[] {
+        const { size, shape } = this.brush;
+        const start = getBrushStart(size);
+        const tiles: GridPosition[] = [];
+
+        for (let dy = start; dy < start + size; dy++) {
+            for (let dx = start; dx < start + size; dx++) {
+                const tile = { x: center.x + dx, y: center.y + dy };
+                if (isInBrush(dx, dy, size, shape) && this.deps.world.getTile(tile.x, tile.y)) tiles.push(tile);
+            }
+        }
+        return tiles;
+    }
+
+    /**
+     * Start collecting edits into one undo step (e.g. when the mouse button goes down)
+     * Edits until endStroke() are applied immediately but recorded together.
+     */
+    beginStroke(): void {
+        this.endStroke();
+        this.stroke = [];
+    }
+
+    /**
+     * Record the edits made since beginStroke() as one undo step
+     * @returns Number of edits in the stroke (0 if nothing changed or no stroke was started)
+     */
+    endStroke(): number {
+        const stroke = this.stroke;
+        this.stroke = null;
+        if (!stroke || stroke.length === 0) return 0;
+
+        const label = stroke.length === 1 ? stroke[0].label : `${stroke[0].label} (${stroke.length} edits)`;
+        this.deps.history.record(BatchCommand.ofApplied(label, stroke));
+        return stroke.length;
+    }
+
+    /**
+     * Check if a stroke is being collected
+     * @returns true between beginStroke() and endStroke()
+     */
+    isStroking(): boolean {
+        return this.stroke !== null;
+    }
+
+    /**
+     * Paint terrain under the brush
+     * @param center - Hovered tile
+     * @param terrain - Terrain to paint
+     * @returns Number of tiles changed
+     */
+    paintTerrain(center: GridPosition, terrain: TerrainType): EditResult {
+        return this.setTerrain(`Paint ${TerrainType[terrain]}`, this.getBrushTiles(center), terrain);
+    }
+
+    /**
+     * Flood fill: paint the area of same-terrain tiles connected (4-way) to a tile
+     * @param start - Tile where the fill starts
+     * @param terrain - Terrain to paint
+     * @returns Number of tiles changed
+     */
+    fillTerrain(start: GridPosition, terrain: TerrainType): EditResult {
+        const world = this.deps.world;
+        const from = world.getTile(start.x, start.y)?.terrain;
+        if (from === undefined) return this.reject(EditRejectReason.OFF_MAP, `(${start.x}, ${start.y}) is not on the map`);
+        if (from === terrain) return this.reject(EditRejectReason.NO_CHANGE, `The area is already ${TerrainType[terrain]}`);
+
+        const width = world.getWidth();
+        const visited = new Set<number>([start.y * width + start.x]);
+        const queue: GridPosition[] = [start];
+        const tiles: GridPosition[] = [];
+
+        for (let i = 0; i < queue.length; i++) {
+            const tile = queue[i];
+            tiles.push(tile);
+
+            for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+                const next = { x: tile.x + dx, y: tile.y + dy };
+                const index = next.y * width + next.x;
+                if (visited.has(index) || world.getTile(next.x, next.y)?.terrain !== from) continue;
+
+                visited.add(index);
+                queue.push(next);
+            }
+        }
+
+        return this.setTerrain(`Fill ${TerrainType[terrain]}`, tiles, terrain);
+    }
+
+    /**
+     * Paint every tile in a rectangle (corners in any order, clipped to the map)
+     * @param from - One corner
+     * @param to - Opposite corner
+     * @param terrain - Terrain to paint
+     * @returns Number of tiles changed
+     */
+    fillRect(from: GridPosition, to: GridPosition, terrain: TerrainType): EditResult {
+        const world = this.deps.world;
+        const minX = Math.max(0, Math.min(from.x, to.x));
+        const minY = Math.max(0, Math.min(from.y, to.y));
+        const maxX = Math.min(world.getWidth() - 1, Math.max(from.x, to.x));
+        const maxY = Math.min(world.getHeight() - 1, Math.max(from.y, to.y));
+
+        const tiles: GridPosition[] = [];
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) tiles.push({ x, y });
+        }
+
+        return this.setTerrain(`Fill rectangle with ${TerrainType[terrain]}`, tiles, terrain);
+    }
+
+    /**
+     * Place (or replace) a farm, mine or fortress on one tile
+     * @param pos - Tile
+     * @param building - FARM, MINE or FORTRESS
+     * @param level - Building level (1 to MAX_EDITOR_BUILDING_LEVEL)
+     * @param ownerId - Owner (0 = neutral)
+     * @returns 1 if the tile changed
+     */
+    placeBuilding(pos: GridPosition, building: BuildingType, level: number, ownerId: number): EditResult {
+        const tile = this.deps.world.getTile(pos.x, pos.y);
+        if (!tile) return this.reject(EditRejectReason.OFF_MAP, `(${pos.x}, ${pos.y}) is not on the map`);
+        if (!EDITOR_BUILDINGS.includes(building)) {
+            return this.reject(EditRejectReason.INVALID_BUILDING, 'Only farms, mines and fortresses are placed as buildings (use placeCity for cities)');
+        }
+        if (!Number.isInteger(level) || level < 1 || level > MAX_EDITOR_BUILDING_LEVEL) {
+            return this.reject(EditRejectReason.INVALID_LEVEL, `Building level must be between 1 and ${MAX_EDITOR_BUILDING_LEVEL}`);
+        }
+        if (!this.isOwner(ownerId)) return this.reject(EditRejectReason.UNKNOWN_OWNER, `Unknown owner ${ownerId}`);
+        if (tile.building === BuildingType.CITY) {
+            return this.reject(EditRejectReason.CITY_TILE, `(${pos.x}, ${pos.y}) belongs to a city`);
+        }
+        if (tile.terrain === TerrainType.WATER) {
+            return this.reject(EditRejectReason.TERRAIN_NOT_ALLOWED, `(${pos.x}, ${pos.y}) is water`);
+        }
+        if (tile.building === building && tile.buildingLevel === level && tile.ownerId === ownerId) {
+            return this.reject(EditRejectReason.NO_CHANGE, `The ${BuildingType[building]} is already there`);
+        }
+
+        return this.execute(new PlaceBuildingCommand(this.deps.world, this.deps.cities, pos.x, pos.y, building, level, ownerId), 1);
+    }
+
+    /**
+     * Found a city with its top-left tile on a tile (default footprint, defense and income)
+     * @param pos - Top-left tile of the footprint
+     * @param name - City name
+     * @param ownerId - Owner (0 = neutral)
+     * @returns 1 if the city was founded
+     */
+    placeCity(pos: GridPosition, name: string, ownerId: number): EditResult {
+        if (!this.deps.world.getTile(pos.x, pos.y)) return this.reject(EditRejectReason.OFF_MAP, `(${pos.x}, ${pos.y}) is not on the map`);
+        if (!this.isOwner(ownerId)) return this.reject(EditRejectReason.UNKNOWN_OWNER, `Unknown owner ${ownerId}`);
+        if (!this.deps.cities.canPlaceCity(pos)) {
+            return this.reject(EditRejectReason.CITY_BLOCKED,
+                `A ${DEFAULT_CITY_WIDTH}x${DEFAULT_CITY_HEIGHT} city at (${pos.x}, ${pos.y}) would leave the map, touch water or overlap another city`);
+        }
+
+        return this.execute(new FoundCityCommand(this.deps.cities, { name, pos, ownerId }), 1);
+    }
+
+    /**
+     * Remove every building under the brush (a city goes if the brush touches its footprint)
+     * @param center - Hovered tile
+     * @returns Number of buildings and cities removed
+     */
+    removeBuildings(center: GridPosition): EditResult {
+        const { world, cities } = this.deps;
+        const commands: GameCommand[] = [];
+        const cityIds = new Set<number>();
+
+        for (const { x, y } of this.getBrushTiles(center)) {
+            const tile = world.getTile(x, y)!;
+            if (tile.building === BuildingType.CITY) {
+                const city = cities.getCityAt({ x, y });
+                if (city) cityIds.add(city.id);
+            } else if (tile.building !== BuildingType.NONE) {
+                commands.push(new PlaceBuildingCommand(world, cities, x, y, BuildingType.NONE, 0, 0));
+            }
+        }
+        cityIds.forEach(id => commands.push(new RemoveCityCommand(cities, id)));
+
+        if (commands.length === 0) return this.reject(EditRejectReason.NO_CHANGE, 'There are no buildings under the brush');
+        return this.executeBatch('Remove buildings', commands);
+    }
+
+    /**
+     * Place a unit on one tile
+     * @param pos - Tile
+     * @param unitType - Catalog type (hero types are created through the HeroSystem instead)
+     * @param ownerId - Owner (0 = neutral)
+     * @returns 1 if the unit was placed
+     */
+    placeUnit(pos: GridPosition, unitType: UnitTypeId, ownerId: number): EditResult {
+        const { world, units, diplomacy } = this.deps;
+        const tile = world.getTile(pos.x, pos.y);
+        if (!tile) return this.reject(EditRejectReason.OFF_MAP, `(${pos.x}, ${pos.y}) is not on the map`);
+
+        const catalog = units.getCatalog();
+        if (!catalog.has(unitType) || catalog.isHero(unitType)) {
+            return this.reject(EditRejectReason.INVALID_UNIT_TYPE, `Unit type ${unitType} is not a regular catalog type`);
+        }
+        if (!this.isOwner(ownerId)) return this.reject(EditRejectReason.UNKNOWN_OWNER, `Unknown owner ${ownerId}`);
+        if (!catalog.allowsTerrain(unitType, tile.terrain)) {
+            return this.reject(EditRejectReason.TERRAIN_NOT_ALLOWED,
+                `${catalog.getName(unitType)} cannot stand on ${TerrainType[tile.terrain]} at (${pos.x}, ${pos.y})`);
+        }
+        const other = units.getUnitsAt(pos).find(unit => !diplomacy.isAllied(unit.ownerId, ownerId));
+        if (other) {
+            return this.reject(EditRejectReason.FOREIGN_STACK, `(${pos.x}, ${pos.y}) is held by player ${other.ownerId}, who is not an ally`);
+        }
+        if (units.getStackAt(pos, ownerId).length >= MAX_STACK_SIZE) {
+            return this.reject(EditRejectReason.STACK_FULL, `Player ${ownerId} already has ${MAX_STACK_SIZE} units at (${pos.x}, ${pos.y})`);
+        }
+
+        return this.execute(new AddUnitCommand(units, { unitType, ownerId, gridPos: pos }), 1);
+    }
+
+    /**
+     * Remove every unit under the brush
+     * @param center - Hovered tile
+     * @returns Number of units removed
+     */
+    removeUnits(center: GridPosition): EditResult {
+        const units = this.deps.units;
+        const commands = this.getBrushTiles(center)
+            .flatMap(tile => units.getUnitsAt(tile))
+            .map(unit => new RemoveUnitCommand(units, unit.id));
+
+        if (commands.length === 0) return this.reject(EditRejectReason.NO_CHANGE, 'There are no units under the brush');
+        return this.executeBatch('Remove units', commands);
+    }
+
+    /**
+     * Write the edited map as a scenario
+     * The map becomes a tile blob (with the buildings); cities, units, treasuries and
+     * treaties are taken from the game, everything else (players, factions, victory,
+     * rules) from the base scenario.
+     * @param base - Scenario the game was started from
+     * @returns Scenario data (plain JSON)
+     */
+    exportScenario(base: ScenarioData): ScenarioData {
+        const { world, units, cities, economy, diplomacy } = this.deps;
+        const catalog = units.getCatalog();
+
+        return {
+            version: SCENARIO_VERSION,
+            name: base.name,
+            description: base.description,
+            map: { width: world.getWidth(), height: world.getHeight(), tiles: encodeTileBlob(world) },
+            factions: base.factions && structuredClone(base.factions),
+            players: base.players.map(player => ({ ...player, gold: economy.getTreasury(player.id) })),
+            cities: cities.getAllCities().map(({ name, pos, ownerId, width, height, defense, income }) => ({
+                name, pos: { ...pos }, ownerId, width, height, defense, income,
+            })),
+            units: units.getAllUnits().map(unit => {
+                const type = catalog.get(unit.unitType)!;
+                return {
+                    type: type.key,
+                    pos: { ...unit.gridPos },
+                    ownerId: unit.ownerId,
+                    hp: unit.hp < type.hp ? unit.hp : undefined,
+                    heroName: unit.hero?.name,
+                };
+            }),
+            diplomacy: diplomacy.serialize().relations.filter(relation => relation.state !== DiplomaticState.WAR),
+            victory: base.victory && structuredClone(base.victory),
+            rules: base.rules && structuredClone(base.rules),
+        };
+    }
+
+    /**
+     * Replace the map, cities, units, treasuries and treaties with a scenario's
+     * The scenario must have this map's size and only players of this game; its
+     * players, rules and victory conditions are not applied. The undo history is cleared.
+     * @param data - Scenario file
+     * @returns Number of cities and units placed, or why the file was not imported
+     */
+    importScenario(data: ScenarioData): ImportResult {
+        const { world, units, cities, turns, history } = this.deps;
+
+        const errors = Scenario.validate(data, units.getCatalog());
+        if (errors.length > 0) {
+            return { success: false, reason: ImportRejectReason.INVALID_SCENARIO, message: errors.join('\n') };
+        }
+        if (data.map.width !== world.getWidth() || data.map.height !== world.getHeight()) {
+            return {
+                success: false,
+                reason: ImportRejectReason.MAP_SIZE,
+                message: `The scenario's map is ${data.map.width}x${data.map.height}, this map is ${world.getWidth()}x${world.getHeight()}`,
+            };
+        }
+        const unknown = data.players.filter(player => !turns.getPlayer(player.id));
+        if (unknown.length > 0) {
+            return {
+                success: false,
+                reason: ImportRejectReason.UNKNOWN_PLAYER,
+                message: `Not players of this game: ${unknown.map(player => player.id).join(', ')}`,
+            };
+        }
+
+        // Clear the map, then copy the scenario's tiles over it (only changed tiles are resynced)
+        units.getAllUnits().forEach(unit => units.removeUnit(unit.id));
+        cities.getAllCities().forEach(city => cities.removeCity(city.id));
+
+        const scenario = new Scenario(data, units.getCatalog());
+        const source = scenario.createWorld();
+        for (let y = 0; y < world.getHeight(); y++) {
+            for (let x = 0; x < world.getWidth(); x++) {
+                world.setTile(x, y, source.getTile(x, y)!);
+            }
+        }
+
+        scenario.populate(this.deps);
+        this.stroke = null;
+        history.clear();
+        return { success: true, cities: cities.getCityCount(), units: units.getUnitCount() };
+    }
+
+    /**
+     * Paint terrain on tiles as one undo step
+     * Tiles are skipped where a building (water) or a unit standing there could not stand on the terrain.
+     */
+    private setTerrain(label: string, tiles: GridPosition[], terrain: TerrainType): EditResult {
+        const { world, units } = this.deps;
+        const catalog = units.getCatalog();
+        const changing = tiles.filter(({ x, y }) => world.getTile(x, y)!.terrain !== terrain);
+        const allowed = changing.filter(pos => {
+            const tile = world.getTile(pos.x, pos.y)!;
+            if (terrain === TerrainType.WATER && tile.building !== BuildingType.NONE) return false;
+            return units.getUnitsAt(pos).every(unit => catalog.allowsTerrain(unit.unitType, terrain));
+        });
+
+        if (changing.length === 0) return this.reject(EditRejectReason.NO_CHANGE, `No tile to paint ${TerrainType[terrain]}`);
+        if (allowed.length === 0) {
+            return this.reject(EditRejectReason.TERRAIN_NOT_ALLOWED, `The buildings or units there cannot stand on ${TerrainType[terrain]}`);
+        }
+        return this.executeBatch(label, allowed.map(({ x, y }) => new SetTerrainCommand(world, x, y, terrain)));
+    }
+
+    /**
+     * Run commands through the history as one undo step
+     */
+    private executeBatch(label: string, commands: GameCommand[]): EditResult {
+        const batch = new BatchCommand(label, commands);
+        return this.execute(batch, () => batch.getAppliedCount());
+    }
+
+    /**
+     * Run a command through the history (or add it to the current stroke)
+     */
+    private execute(command: GameCommand, changed: number | (() => number)): EditResult {
+        const applied = this.stroke ? command.apply() : this.deps.history.execute(command);
+        if (!applied) {
+            return this.reject(EditRejectReason.NO_CHANGE, `"${command.label}" changed nothing`);
+        }
+        this.stroke?.push(command);
+
+        return { success: true, label: command.label, changed: typeof changed === 'number' ? changed : changed() };
+    }
+
+    /**
+     * Check if an owner ID is a player of this game or neutral
+     */
+    private isOwner(ownerId: number): boolean {
+        return ownerId === 0 || this.deps.turns.getPlayer(ownerId) !== undefined;
+    }
+
+    /**
+     * Build a rejected edit
+     */
+    private reject(reason: EditRejectReason, message: string): EditResult {
+        return { success: false, reason, message };
+    }
+}
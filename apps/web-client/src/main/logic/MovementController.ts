@@ -0,0 +1,255 @@
+/**
+ * MovementController - Validates and executes turn-limited unit movement
+ *
+ * Combines the Pathfinder (terrain costs) with each unit's movement points.
+ * A move is only applied if a path exists and its cost fits in the unit's
+ * remaining points; otherwise it is rejected with a reason and nothing changes.
+ * Paths never pass through tiles held by other players' units, and a tile held
+ * by enemies cannot be moved onto - that is an attack (see CombatResolver).
+ * With a DiplomacySystem, allies' units do not block: allies may pass through
+ * and share each other's tiles (each keeps its own stack).
+ *
+ * Units on the same tile can move as an army stack: the stack follows one path
+ * priced for its slowest member, can only go as far as its member with the
+ * fewest movement points, and may not grow beyond MAX_STACK_SIZE when it ends
+ * on friendly units. Moving part of a stack splits it; moving onto a friendly
+ * stack merges them.
+ *
+ * With a TurnManager, units only accept orders during their owner's turn.
+ *
+ * Usage example:
+ * ```typescript
+ * const movement = new MovementController(unitRegistry, pathfinder);
+ * const result = movement.moveUnit(unitId, { x: 12, y: 8 });
+ * if (!result.success) console.log(result.reason, result.message);
+ *
+ * movement.moveStack([id1, id2, id3], { x: 14, y: 8 }); // Move (part of) a stack together
+ *
+ * movement.startTurn(1); // Restore movement points for player 1
+ * ```
+ */
+
+import type { Pathfinder, ReachableTiles } from './Pathfinder';
+import { MAX_STACK_SIZE } from './UnitRegistry';
+import type { GridPosition, Unit, UnitRegistry } from './UnitRegistry';
+import type { TurnManager } from './TurnManager';
+import type { DiplomacySystem } from './DiplomacySystem';
+
+/**
+ * Why a move was rejected
+ */
+export enum MoveRejectReason {
+    UNIT_NOT_FOUND = 'UNIT_NOT_FOUND',
+    NOT_A_STACK = 'NOT_A_STACK',
+    SAME_TILE = 'SAME_TILE',
+    IMPASSABLE = 'IMPASSABLE',
+    ENEMY_OCCUPIED = 'ENEMY_OCCUPIED',
+    NO_PATH = 'NO_PATH',
+    INSUFFICIENT_MOVEMENT = 'INSUFFICIENT_MOVEMENT',
+    STACK_FULL = 'STACK_FULL',
+    NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+}
+
+/**
+ * Outcome of a move request
+ */
+export type MoveResult =
+    | {
+        success: true;
+        /** Tiles stepped through (excluding the start) */
+        path: GridPosition[];
+        /** Movement points spent */
+        cost: number;
+        /** Movement points left after the move */
+        remaining: number;
+    }
+    | {
+        success: false;
+        reason: MoveRejectReason;
+        /** Human-readable explanation */
+        message: string;
+    };
+
+/**
+ * MovementController - Applies movement rules to UnitRegistry
+ */
+export class MovementController {
+    private registry: UnitRegistry;
+    private pathfinder: Pathfinder;
+    private turns: TurnManager | null;
+    private diplomacy: DiplomacySystem | null;
+
+    /**
+     * Create a new MovementController
+     * @param registry - Unit registry to move units in
+     * @param pathfinder - Pathfinder over the world
+     * @param turns - Turn manager; if given, only the active player's units move, in the orders phase
+     * @param diplomacy - Diplomacy; if given, allied units do not block each other
+     */
+    constructor(registry: UnitRegistry, pathfinder: Pathfinder, turns: TurnManager | null = null, diplomacy: DiplomacySystem | null = null) {
+        this.registry = registry;
+        this.pathfinder = pathfinder;
+        this.turns = turns;
+        this.diplomacy = diplomacy;
+    }
+
+    /**
+     * Check a move without applying it
+     * @param unitId - Unit ID
+     * @param target - Destination tile
+     * @returns Planned path and cost, or the reason the move is not allowed
+     */
+    planMove(unitId: number, target: GridPosition): MoveResult {
+        return this.planStackMove([unitId], target);
+    }
+
+    /**
+     * Check a move of several units together without applying it
+     * @param unitIds - Units to move (all must stand on the same tile and share an owner)
+     * @param target - Destination tile
+     * @returns Planned path and cost (per unit), or the reason the move is not allowed
+     */
+    planStackMove(unitIds: number[], target: GridPosition): MoveResult {
+        const units = unitIds.map(id => this.registry.getUnit(id));
+        const missing = unitIds.find((_, i) => !units[i]);
+        if (units.length === 0 || missing !== undefined) {
+            return { success: false, reason: MoveRejectReason.UNIT_NOT_FOUND, message: `Unit ${missing ?? '(none)'} does not exist` };
+        }
+
+        if (!this.registry.isSameStack(unitIds)) {
+            return { success: false, reason: MoveRejectReason.NOT_A_STACK, message: 'Units must share a tile and an owner to move together' };
+        }
+
+        const leader = units[0] as Unit;
+        const unitTypes = (units as Unit[]).map(unit => unit.unitType);
+
+        if (this.turns && !this.turns.canCommand(leader.ownerId)) {
+            return { success: false, reason: MoveRejectReason.NOT_YOUR_TURN, message: `It is not player ${leader.ownerId}'s turn` };
+        }
+
+        if (leader.gridPos.x === target.x && leader.gridPos.y === target.y) {
+            return { success: false, reason: MoveRejectReason.SAME_TILE, message: 'Unit is already on that tile' };
+        }
+
+        if (!this.pathfinder.isPassable(unitTypes, target)) {
+            return { success: false, reason: MoveRejectReason.IMPASSABLE, message: 'Destination is impassable for this unit' };
+        }
+
+        if (this.isEnemyOccupied(target.x, target.y, leader.ownerId)) {
+            return { success: false, reason: MoveRejectReason.ENEMY_OCCUPIED, message: 'Destination is held by units of a player you are not allied with' };
+        }
+
+        const resultingSize = this.registry.getStackAt(target, leader.ownerId).length + unitIds.length;
+        if (resultingSize > MAX_STACK_SIZE) {
+            return {
+                success: false,
+                reason: MoveRejectReason.STACK_FULL,
+                message: `Stack would hold ${resultingSize} units (maximum ${MAX_STACK_SIZE})`,
+            };
+        }
+
+        // Search without a cost limit so "too far" and "unreachable" can be told apart
+        const route = this.pathfinder.findPath(unitTypes, leader.gridPos, target, {
+            isBlocked: (x, y) => this.isEnemyOccupied(x, y, leader.ownerId),
+        });
+        if (!route) {
+            return { success: false, reason: MoveRejectReason.NO_PATH, message: 'No path to destination' };
+        }
+
+        const movementPoints = this.registry.getStackMovementPoints(unitIds);
+        if (route.cost > movementPoints) {
+            return {
+                success: false,
+                reason: MoveRejectReason.INSUFFICIENT_MOVEMENT,
+                message: `Move costs ${route.cost} but only ${movementPoints} movement points remain`,
+            };
+        }
+
+        return {
+            success: true,
+            path: route.path,
+            cost: route.cost,
+            remaining: movementPoints - route.cost,
+        };
+    }
+
+    /**
+     * Validate and apply a move, deducting its cost from the unit's movement points
+     * @param unitId - Unit ID
+     * @param target - Destination tile
+     * @returns Result of the move (nothing changes on rejection)
+     */
+    moveUnit(unitId: number, target: GridPosition): MoveResult {
+        return this.moveStack([unitId], target);
+    }
+
+    /**
+     * Validate and apply a move of several units together
+     * Every unit pays the stack's path cost. Moving only some units of a stack
+     * splits it; ending on friendly units merges with them.
+     * @param unitIds - Units to move (all must stand on the same tile and share an owner)
+     * @param target - Destination tile
+     * @returns Result of the move (nothing changes on rejection); remaining is the stack's minimum
+     */
+    moveStack(unitIds: number[], target: GridPosition): MoveResult {
+        const result = this.planStackMove(unitIds, target);
+        if (!result.success) return result;
+
+        for (const id of unitIds) {
+            this.registry.spendMovementPoints(id, result.cost);
+            this.registry.moveUnit(id, target);
+        }
+        return result;
+    }
+
+    /**
+     * Get the tiles a unit can still reach this turn
+     * @param unitId - Unit ID
+     * @returns Reachable tiles, or null if the unit does not exist
+     */
+    getReachableTiles(unitId: number): ReachableTiles | null {
+        return this.getStackReachableTiles([unitId]);
+    }
+
+    /**
+     * Get the tiles a group of units can still reach together this turn
+     * Tiles where the merged stack would exceed MAX_STACK_SIZE may still be listed
+     * (they can be passed through); planStackMove rejects ending there.
+     * @param unitIds - Units moving together
+     * @returns Reachable tiles, or null if the units do not form one stack
+     */
+    getStackReachableTiles(unitIds: number[]): ReachableTiles | null {
+        if (!this.registry.isSameStack(unitIds)) return null;
+
+        const units = unitIds.map(id => this.registry.getUnit(id)!);
+        const leader = units[0];
+        return this.pathfinder.getReachableTiles(
+            units.map(unit => unit.unitType),
+            leader.gridPos,
+            this.registry.getStackMovementPoints(unitIds),
+            { isBlocked: (x, y) => this.isEnemyOccupied(x, y, leader.ownerId) }
+        );
+    }
+
+    /**
+     * Check if a tile holds units the moving owner may not enter (anyone but its own and its allies')
+     * @param x - Tile X coordinate
+     * @param y - Tile Y coordinate
+     * @param ownerId - Owner ID of the moving unit
+     * @returns true if any unit on the tile belongs to a different, non-allied owner
+     */
+    isEnemyOccupied(x: number, y: number, ownerId: number): boolean {
+        return this.registry.getUnitsAt({ x, y }).some(other =>
+            other.ownerId !== ownerId && !this.diplomacy?.isAllied(ownerId, other.ownerId)
+        );
+    }
+
+    /**
+     * Start a new turn - restore movement points
+     * @param ownerId - Only restore units of this owner (default: all units)
+     * @returns Number of units restored
+     */
+    startTurn(ownerId?: number): number {
+        return this.registry.resetMovementPoints(ownerId);
+    }
+}
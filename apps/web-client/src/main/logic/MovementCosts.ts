@@ -0,0 +1,113 @@
+/**
+ * MovementCosts - Data-driven terrain movement cost table
+ *
+ * Defines how many movement points it costs a unit to enter a tile of a given
+ * terrain. Costs are plain data (JSON-friendly), with a default row per terrain
+ * and optional per-unit-type overrides. `null` marks terrain as impassable.
+ * The default overrides come from the unit catalog (allowed terrain, terrainCosts).
+ *
+ * Usage example:
+ * ```typescript
+ * const costs = new MovementCostTable(); // Uses DEFAULT_MOVEMENT_COSTS
+ * costs.getCost(UnitType.CAVALRY, TerrainType.FOREST); // 3
+ * costs.isPassable(UnitType.WARRIOR, TerrainType.WATER); // false
+ * ```
+ */
+
+import { TerrainType } from './WorldContainer';
+import { DEFAULT_UNIT_CATALOG } from './UnitCatalog';
+import type { UnitTypeId } from './UnitCatalog';
+
+/**
+ * Cost per terrain type (null = impassable)
+ */
+export type TerrainCostRow = Partial<Record<TerrainType, number | null>>;
+
+/**
+ * Movement cost data (serializable, e.g. loaded from JSON)
+ */
+export interface MovementCostData {
+    /** Default cost to enter each terrain type */
+    terrain: Record<TerrainType, number | null>;
+
+    /** Per-unit-type overrides (only the listed terrains differ from the default) */
+    unitOverrides?: Partial<Record<UnitTypeId, TerrainCostRow>>;
+}
+
+/**
+ * Default cost to enter each terrain type
+ */
+export const DEFAULT_TERRAIN_COSTS: Record<TerrainType, number | null> = {
+    [TerrainType.GRASS]: 1,
+    [TerrainType.FOREST]: 2,
+    [TerrainType.WATER]: null,
+    [TerrainType.MOUNTAIN]: 3,
+};
+
+/**
+ * Default movement costs (default terrain costs + built-in unit catalog rules)
+ */
+export const DEFAULT_MOVEMENT_COSTS: MovementCostData = DEFAULT_UNIT_CATALOG.getMovementCostData(DEFAULT_TERRAIN_COSTS);
+
+/**
+ * MovementCostTable - Looks up terrain costs per unit type
+ */
+export class MovementCostTable {
+    private data: MovementCostData;
+
+    /**
+     * Create a new MovementCostTable
+     * @param data - Cost data (default: DEFAULT_MOVEMENT_COSTS)
+     */
+    constructor(data: MovementCostData = DEFAULT_MOVEMENT_COSTS) {
+        this.data = data;
+    }
+
+    /**
+     * Get the cost for a unit type to enter a terrain type
+     * @param unitType - Unit type
+     * @param terrain - Terrain type of the tile being entered
+     * @returns Movement point cost, or Infinity if impassable
+     */
+    getCost(unitType: UnitTypeId, terrain: TerrainType): number {
+        const override = this.data.unitOverrides?.[unitType];
+        const cost = override && terrain in override
+            ? override[terrain]
+            : this.data.terrain[terrain];
+
+        return cost === null || cost === undefined ? Infinity : cost;
+    }
+
+    /**
+     * Check if a unit type can enter a terrain type at all
+     * @param unitType - Unit type
+     * @param terrain - Terrain type
+     * @returns true if the terrain is passable for this unit type
+     */
+    isPassable(unitType: UnitTypeId, terrain: TerrainType): boolean {
+        return Number.isFinite(this.getCost(unitType, terrain));
+    }
+
+    /**
+     * Get the cheapest cost a unit type pays for any passable terrain
+     * Used as the per-step lower bound for pathfinding heuristics.
+     * @param unitType - Unit type
+     * @returns Minimum cost, or Infinity if no terrain is passable
+     */
+    getMinimumCost(unitType: UnitTypeId): number {
+        let min = Infinity;
+        for (const key of Object.keys(this.data.terrain)) {
+            const cost = this.getCost(unitType, Number(key) as TerrainType);
+            if (cost < min) min = cost;
+        }
+        return min;
+    }
+
+    /**
+     * Get the underlying cost data
+     * @returns Movement cost data
+     */
+    getData(): MovementCostData {
+        return this.data;
+    }
+}
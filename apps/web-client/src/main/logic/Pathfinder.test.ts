@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { MovementCostTable } from './MovementCosts';
+import { Pathfinder } from './Pathfinder';
+import type { PathfindingGrid } from './Pathfinder';
+import { UnitType } from './UnitRegistry';
+import { TerrainType } from './WorldContainer';
+
+/** A unit type that only moves on water */
+const SHIP = 9;
+
+const COSTS = new MovementCostTable({
+    terrain: {
+        [TerrainType.GRASS]: 1,
+        [TerrainType.FOREST]: 2,
+        [TerrainType.WATER]: null,
+        [TerrainType.MOUNTAIN]: 3,
+    },
+    unitOverrides: {
+        [UnitType.CAVALRY]: { [TerrainType.MOUNTAIN]: null },
+        [SHIP]: { [TerrainType.GRASS]: null, [TerrainType.FOREST]: null, [TerrainType.WATER]: 1, [TerrainType.MOUNTAIN]: null },
+    },
+});
+
+const TERRAIN: Record<string, TerrainType> = {
+    '.': TerrainType.GRASS,
+    'f': TerrainType.FOREST,
+    '~': TerrainType.WATER,
+    '^': TerrainType.MOUNTAIN,
+};
+
+/**
+ * A pathfinder over a grid drawn as rows of terrain characters
+ */
+function setup(...rows: string[]) {
+    const grid: PathfindingGrid = {
+        getWidth: () => rows[0].length,
+        getHeight: () => rows.length,
+        getTile: (x, y) => {
+            const char = rows[y]?.[x];
+            return char === undefined ? undefined : { terrain: TERRAIN[char] };
+        },
+    };
+    return new Pathfinder(grid, COSTS);
+}
+
+describe('Pathfinder', () => {
+    it('charges the terrain cost of every tile entered', () => {
+        const pathfinder = setup(
+            '.....',
+            '..f..',
+            '.....',
+        );
+
+        expect(pathfinder.getTileCost(UnitType.WARRIOR, 2, 1)).toBe(2);
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 1 }, { x: 0, y: 1 })).toEqual({ path: [], cost: 0 });
+
+        const result = pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 1 }, { x: 4, y: 1 })!;
+        expect(result.cost).toBe(4);
+        expect(result.path).toHaveLength(4);
+        expect(result.path).not.toContainEqual({ x: 2, y: 1 });
+        expect(result.path[3]).toEqual({ x: 4, y: 1 });
+
+        expect(setup('..f..').findPath(UnitType.WARRIOR, { x: 0, y: 0 }, { x: 4, y: 0 })?.cost).toBe(5);
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 1 }, { x: 4, y: 1 }, { maxCost: 3 })).toBeNull();
+    });
+
+    it('never enters water or other terrain impassable to any unit of the stack', () => {
+        const pathfinder = setup(
+            '..~..',
+            '..~..',
+            '..^..',
+        );
+        const around = [{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 1 }, { x: 4, y: 0 }];
+
+        expect(pathfinder.isPassable(UnitType.WARRIOR, { x: 2, y: 0 })).toBe(false);
+        expect(pathfinder.isPassable(UnitType.WARRIOR, { x: 5, y: 0 })).toBe(false);
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 0 }, { x: 2, y: 0 })).toBeNull();
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 0 }, { x: 4, y: 0 })).toEqual({ path: around, cost: 6 });
+        expect(pathfinder.findPath(UnitType.CAVALRY, { x: 0, y: 0 }, { x: 4, y: 0 })).toBeNull();
+
+        expect(pathfinder.findPath([UnitType.WARRIOR, UnitType.ARCHER], { x: 0, y: 0 }, { x: 4, y: 0 })).toEqual({ path: around, cost: 6 });
+        expect(pathfinder.findPath([UnitType.WARRIOR, UnitType.CAVALRY], { x: 0, y: 0 }, { x: 4, y: 0 })).toBeNull();
+
+        expect(pathfinder.findPath(SHIP, { x: 2, y: 0 }, { x: 2, y: 1 })).toEqual({ path: [{ x: 2, y: 1 }], cost: 1 });
+        expect(pathfinder.findPath(SHIP, { x: 2, y: 0 }, { x: 3, y: 0 })).toBeNull();
+    });
+
+    it('goes around blocked tiles and gives up when the destination or every way is blocked', () => {
+        const pathfinder = setup(
+            '.....',
+            '.....',
+            '.....',
+        );
+        const wall = (x: number, y: number) => x === 2 && y < 2;
+
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 0 }, { x: 4, y: 0 }, { isBlocked: wall })).toEqual({
+            path: [{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 1 }, { x: 4, y: 0 }],
+            cost: 4,
+        });
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 0 }, { x: 2, y: 1 }, { isBlocked: wall })).toBeNull();
+        expect(pathfinder.findPath(UnitType.WARRIOR, { x: 0, y: 0 }, { x: 4, y: 0 }, { isBlocked: x => x === 2 })).toBeNull();
+    });
+
+    it('reaches the tiles a movement budget pays for', () => {
+        const pathfinder = setup(
+            '..~..',
+            '.f...',
+            '.....',
+        );
+
+        const reachable = pathfinder.getReachableTiles(UnitType.WARRIOR, { x: 0, y: 0 }, 2);
+        const tiles = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 0, y: 2 }, { x: 1, y: 2 }];
+        expect(reachable.size).toBe(tiles.length);
+        expect(reachable.getTiles()).toEqual(expect.arrayContaining(tiles));
+        expect(reachable.getCost({ x: 0, y: 0 })).toBe(0);
+        expect(reachable.getCost({ x: 1, y: 1 })).toBe(2);
+        expect(reachable.getPathTo({ x: 1, y: 2 })).toEqual([{ x: 0, y: 1 }, { x: 1, y: 2 }]);
+        expect(reachable.has({ x: 2, y: 0 })).toBe(false);
+        expect(reachable.has({ x: 2, y: 2 })).toBe(false);
+        expect(reachable.getPathTo({ x: 2, y: 2 })).toBeNull();
+
+        const blocked = pathfinder.getReachableTiles(UnitType.WARRIOR, { x: 0, y: 0 }, 2, { isBlocked: (x, y) => x === 0 && y === 1 });
+        expect(blocked.getTiles()).toEqual(expect.arrayContaining([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 1 }]));
+        expect(blocked.size).toBe(4);
+
+        expect(pathfinder.getReachableTiles(UnitType.WARRIOR, { x: 0, y: 0 }, 0).getTiles()).toEqual([{ x: 0, y: 0 }]);
+    });
+});
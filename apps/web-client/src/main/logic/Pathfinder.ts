@@ -0,0 +1,441 @@
+/**
+ * Pathfinder - A* pathfinding and movement range over the tile grid
+ *
+ * Pure TypeScript with no DOM, worker or GPU dependencies, so the same code can
+ * run in the browser, in a local stand-in server and in unit tests.
+ *
+ * Movement is 8-directional. Entering a tile costs the MovementCostTable value
+ * for the unit type and that tile's terrain; diagonal steps cost the same as
+ * orthogonal ones. The starting tile is never charged.
+ *
+ * A group of unit types (an army stack) moves as one: each tile costs the most
+ * any member pays, and a tile any member cannot enter is impassable.
+ *
+ * Usage example:
+ * ```typescript
+ * const pathfinder = new Pathfinder(worldContainer, new MovementCostTable());
+ * const result = pathfinder.findPath(UnitType.WARRIOR, { x: 2, y: 3 }, { x: 9, y: 5 });
+ * if (result) console.log(result.path, result.cost);
+ *
+ * const reachable = pathfinder.getReachableTiles(UnitType.CAVALRY, { x: 2, y: 3 }, 4);
+ * reachable.has({ x: 4, y: 4 }); // true / false
+ *
+ * pathfinder.findPath([UnitType.ARCHER, UnitType.CAVALRY], { x: 2, y: 3 }, { x: 9, y: 5 }); // Stack path
+ * ```
+ */
+
+import type { TileMetadata } from './WorldContainer';
+import { MovementCostTable } from './MovementCosts';
+import type { GridPosition } from './UnitRegistry';
+import type { UnitTypeId } from './UnitCatalog';
+
+/**
+ * Minimal grid interface the pathfinder reads from (implemented by WorldContainer)
+ */
+export interface PathfindingGrid {
+    getWidth(): number;
+    getHeight(): number;
+    getTile(x: number, y: number): Pick<TileMetadata, 'terrain'> | undefined;
+}
+
+/**
+ * What is moving: a single unit type, or the unit types of a stack moving together
+ */
+export type PathfindingUnit = UnitTypeId | readonly UnitTypeId[];
+
+/**
+ * Extra constraints for a search
+ */
+export interface PathfindingOptions {
+    /** Maximum total cost; paths or tiles costing more are rejected */
+    maxCost?: number;
+
+    /** Returns true for tiles that cannot be entered (e.g. occupied by enemies) */
+    isBlocked?: (x: number, y: number) => boolean;
+}
+
+/**
+ * Result of a successful path search
+ */
+export interface PathResult {
+    /** Tiles to step through, excluding the start and including the destination */
+    path: GridPosition[];
+
+    /** Total movement cost of the path */
+    cost: number;
+}
+
+// 8-directional neighbour offsets (orthogonal first so ties prefer straight moves)
+const NEIGHBOUR_OFFSETS: readonly [number, number][] = [
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+    [1, 1], [-1, 1], [1, -1], [-1, -1],
+];
+
+/**
+ * Binary min-heap of tile indices keyed by priority
+ * Ties are broken by insertion order so searches are deterministic.
+ */
+class TileHeap {
+    private indices: number[] = [];
+    private priorities: number[] = [];
+    private order: number[] = [];
+    private counter = 0;
+
+    get size(): number {
+        return this.indices.length;
+    }
+
+    push(index: number, priority: number): void {
+        this.indices.push(index);
+        this.priorities.push(priority);
+        this.order.push(this.counter++);
+        this.siftUp(this.indices.length - 1);
+    }
+
+    pop(): number | undefined {
+        if (this.indices.length === 0) return undefined;
+        const top = this.indices[0];
+        const last = this.indices.length - 1;
+        this.swap(0, last);
+        this.indices.pop();
+        this.priorities.pop();
+        this.order.pop();
+        this.siftDown(0);
+        return top;
+    }
+
+    private less(a: number, b: number): boolean {
+        return this.priorities[a] < this.priorities[b] ||
+            (this.priorities[a] === this.priorities[b] && this.order[a] < this.order[b]);
+    }
+
+    private swap(a: number, b: number): void {
+        [this.indices[a], this.indices[b]] = [this.indices[b], this.indices[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+        [this.order[a], this.order[b]] = [this.order[b], this.order[a]];
+    }
+
+    private siftUp(i: number): void {
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.less(i, parent)) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    private siftDown(i: number): void {
+        const n = this.indices.length;
+        for (;;) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < n && this.less(left, smallest)) smallest = left;
+            if (right < n && this.less(right, smallest)) smallest = right;
+            if (smallest === i) break;
+            this.swap(i, smallest);
+            i = smallest;
+        }
+    }
+}
+
+/**
+ * ReachableTiles - Tiles a unit can reach within a movement budget
+ */
+export class ReachableTiles {
+    private costs: Map<number, number>;
+    private cameFrom: Map<number, number>;
+    private width: number;
+
+    /**
+     * Create a new ReachableTiles set (built by Pathfinder.getReachableTiles)
+     * @param width - Grid width in tiles
+     * @param costs - Cheapest cost per tile index
+     * @param cameFrom - Predecessor per tile index
+     */
+    constructor(width: number, costs: Map<number, number>, cameFrom: Map<number, number>) {
+        this.width = width;
+        this.costs = costs;
+        this.cameFrom = cameFrom;
+    }
+
+    /**
+     * Check if a tile is reachable
+     * @param pos - Tile position
+     * @returns true if reachable within the budget
+     */
+    has(pos: GridPosition): boolean {
+        return this.costs.has(this.toIndex(pos));
+    }
+
+    /**
+     * Get the cheapest cost to reach a tile
+     * @param pos - Tile position
+     * @returns Movement cost, or undefined if not reachable
+     */
+    getCost(pos: GridPosition): number | undefined {
+        return this.costs.get(this.toIndex(pos));
+    }
+
+    /**
+     * Get the cheapest path to a reachable tile
+     * @param pos - Tile position
+     * @returns Path (excluding the start), or null if not reachable
+     */
+    getPathTo(pos: GridPosition): GridPosition[] | null {
+        const index = this.toIndex(pos);
+        if (!this.costs.has(index)) return null;
+        return reconstructPath(this.cameFrom, index, this.width);
+    }
+
+    /**
+     * Get all reachable tiles (including the start)
+     * @returns Array of tile positions
+     */
+    getTiles(): GridPosition[] {
+        return Array.from(this.costs.keys(), (index) => fromIndex(index, this.width));
+    }
+
+    /**
+     * Get the number of reachable tiles (including the start)
+     * @returns Tile count
+     */
+    get size(): number {
+        return this.costs.size;
+    }
+
+    private toIndex(pos: GridPosition): number {
+        if (pos.x < 0 || pos.x >= this.width) return -1;
+        return pos.y * this.width + pos.x;
+    }
+}
+
+/**
+ * Convert a tile index back to a position
+ */
+function fromIndex(index: number, width: number): GridPosition {
+    const x = index % width;
+    return { x, y: (index - x) / width };
+}
+
+/**
+ * Walk predecessor links back to the start (the start itself is not included)
+ */
+function reconstructPath(cameFrom: Map<number, number>, endIndex: number, width: number): GridPosition[] {
+    const path: GridPosition[] = [];
+    let current: number | undefined = endIndex;
+    while (current !== undefined && cameFrom.has(current)) {
+        path.push(fromIndex(current, width));
+        current = cameFrom.get(current);
+    }
+    return path.reverse();
+}
+
+/**
+ * Pathfinder - Finds paths and movement ranges for unit types
+ */
+export class Pathfinder {
+    private grid: PathfindingGrid;
+    private costs: MovementCostTable;
+
+    /**
+     * Create a new Pathfinder
+     * @param grid - Tile grid (usually the WorldContainer)
+     * @param costs - Movement cost table (default: DEFAULT_MOVEMENT_COSTS)
+     */
+    constructor(grid: PathfindingGrid, costs: MovementCostTable = new MovementCostTable()) {
+        this.grid = grid;
+        this.costs = costs;
+    }
+
+    /**
+     * Get the movement cost table
+     * @returns Movement cost table
+     */
+    getCostTable(): MovementCostTable {
+        return this.costs;
+    }
+
+    /**
+     * Get the cost for a unit type (or stack) to enter a tile
+     * @param unitType - Unit type, or the unit types of a stack (the highest member cost applies)
+     * @param x - Tile X coordinate
+     * @param y - Tile Y coordinate
+     * @returns Movement cost, or Infinity if out of bounds or impassable
+     */
+    getTileCost(unitType: PathfindingUnit, x: number, y: number): number {
+        const tile = this.grid.getTile(x, y);
+        if (!tile) return Infinity;
+        if (!Array.isArray(unitType)) return this.costs.getCost(unitType as UnitTypeId, tile.terrain);
+
+        let cost = unitType.length > 0 ? 0 : Infinity;
+        for (const type of unitType as readonly UnitTypeId[]) {
+            cost = Math.max(cost, this.costs.getCost(type, tile.terrain));
+        }
+        return cost;
+    }
+
+    /**
+     * Check if a unit type (or every unit type of a stack) can stand on a tile
+     * @param unitType - Unit type or stack unit types
+     * @param pos - Tile position
+     * @returns true if the tile exists and its terrain is passable
+     */
+    isPassable(unitType: PathfindingUnit, pos: GridPosition): boolean {
+        return Number.isFinite(this.getTileCost(unitType, pos.x, pos.y));
+    }
+
+    /**
+     * Find the cheapest path between two tiles (A*)
+     * @param unitType - Unit type or stack unit types (determines terrain costs)
+     * @param from - Start tile
+     * @param to - Destination tile
+     * @param options - Optional cost limit and blocked-tile callback
+     * @returns Path and total cost, or null if no path exists
+     */
+    findPath(
+        unitType: PathfindingUnit,
+        from: GridPosition,
+        to: GridPosition,
+        options: PathfindingOptions = {}
+    ): PathResult | null {
+        const width = this.grid.getWidth();
+        const height = this.grid.getHeight();
+        if (!this.inBounds(from, width, height) || !this.inBounds(to, width, height)) return null;
+
+        const startIndex = from.y * width + from.x;
+        const goalIndex = to.y * width + to.x;
+        if (startIndex === goalIndex) return { path: [], cost: 0 };
+        if (!this.canEnter(unitType, to.x, to.y, options)) return null;
+
+        const maxCost = options.maxCost ?? Infinity;
+        const minStepCost = this.getMinimumStepCost(unitType);
+        const heuristic = (x: number, y: number): number =>
+            Math.max(Math.abs(x - to.x), Math.abs(y - to.y)) * minStepCost;
+
+        const gScore = new Map<number, number>([[startIndex, 0]]);
+        const cameFrom = new Map<number, number>();
+        const closed = new Set<number>();
+        const open = new TileHeap();
+        open.push(startIndex, heuristic(from.x, from.y));
+
+        while (open.size > 0) {
+            const current = open.pop()!;
+            if (current === goalIndex) {
+                return { path: reconstructPath(cameFrom, goalIndex, width), cost: gScore.get(goalIndex)! };
+            }
+            if (closed.has(current)) continue;
+            closed.add(current);
+
+            const cx = current % width;
+            const cy = (current - cx) / width;
+            const currentCost = gScore.get(current)!;
+
+            for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+                const nx = cx + dx;
+                const ny = cy + dy;
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+                const neighbour = ny * width + nx;
+                if (closed.has(neighbour)) continue;
+                if (!this.canEnter(unitType, nx, ny, options)) continue;
+
+                const tentative = currentCost + this.getTileCost(unitType, nx, ny);
+                if (tentative > maxCost) continue;
+                if (tentative >= (gScore.get(neighbour) ?? Infinity)) continue;
+
+                gScore.set(neighbour, tentative);
+                cameFrom.set(neighbour, current);
+                open.push(neighbour, tentative + heuristic(nx, ny));
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Find every tile reachable within a movement budget (Dijkstra)
+     * @param unitType - Unit type or stack unit types (determines terrain costs)
+     * @param from - Start tile
+     * @param budget - Available movement points
+     * @param options - Optional blocked-tile callback (maxCost is ignored in favour of budget)
+     * @returns Reachable tiles with costs and paths (always includes the start tile)
+     */
+    getReachableTiles(
+        unitType: PathfindingUnit,
+        from: GridPosition,
+        budget: number,
+        options: PathfindingOptions = {}
+    ): ReachableTiles {
+        const width = this.grid.getWidth();
+        const height = this.grid.getHeight();
+        const costs = new Map<number, number>();
+        const cameFrom = new Map<number, number>();
+        if (!this.inBounds(from, width, height)) return new ReachableTiles(width, costs, cameFrom);
+
+        const startIndex = from.y * width + from.x;
+        const closed = new Set<number>();
+        const open = new TileHeap();
+        costs.set(startIndex, 0);
+        open.push(startIndex, 0);
+
+        while (open.size > 0) {
+            const current = open.pop()!;
+            if (closed.has(current)) continue;
+            closed.add(current);
+
+            const cx = current % width;
+            const cy = (current - cx) / width;
+            const currentCost = costs.get(current)!;
+
+            for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+                const nx = cx + dx;
+                const ny = cy + dy;
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+                const neighbour = ny * width + nx;
+                if (closed.has(neighbour)) continue;
+                if (!this.canEnter(unitType, nx, ny, options)) continue;
+
+                const tentative = currentCost + this.getTileCost(unitType, nx, ny);
+                if (tentative > budget) continue;
+                if (tentative >= (costs.get(neighbour) ?? Infinity)) continue;
+
+                costs.set(neighbour, tentative);
+                cameFrom.set(neighbour, current);
+                open.push(neighbour, tentative);
+            }
+        }
+
+        return new ReachableTiles(width, costs, cameFrom);
+    }
+
+    /**
+     * Check that a tile is passable terrain and not blocked by the caller
+     */
+    private canEnter(unitType: PathfindingUnit, x: number, y: number, options: PathfindingOptions): boolean {
+        if (!Number.isFinite(this.getTileCost(unitType, x, y))) return false;
+        return !options.isBlocked?.(x, y);
+    }
+
+    /**
+     * Lower bound on the cost of one step, for the A* heuristic
+     * A stack pays at least what its most restricted member pays on its cheapest terrain.
+     */
+    private getMinimumStepCost(unitType: PathfindingUnit): number {
+        if (!Array.isArray(unitType)) return this.costs.getMinimumCost(unitType as UnitTypeId);
+
+        let min = 0;
+        for (const type of unitType as readonly UnitTypeId[]) {
+            min = Math.max(min, this.costs.getMinimumCost(type));
+        }
+        return min;
+    }
+
+    /**
+     * Check that a position lies within the grid
+     */
+    private inBounds(pos: GridPosition, width: number, height: number): boolean {
+        return pos.x >= 0 && pos.y >= 0 && pos.x < width && pos.y < height;
+    }
+}
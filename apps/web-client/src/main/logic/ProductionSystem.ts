@@ -0,0 +1,320 @@
+/**
+ * ProductionSystem - City unit production queues
+ *
+ * Every city has a queue of unit types to build. Ordering a unit pays its gold
+ * cost (the catalog's cost) from the owner's treasury up front; cancelling an
+ * order refunds it. At the end of its owner's turn each city works on the
+ * first order in its queue, and once the catalog's buildTurns have passed the
+ * unit is created through UnitRegistry.addUnit on the city's footprint - or,
+ * if the footprint is full, on the nearest free tile around it.
+ *
+ * A unit that finds no room at all stays finished at the front of the queue
+ * and is placed as soon as a tile frees up (checked every turn end). A city
+ * that changes hands loses its queue without refund.
+ *
+ * Every change is announced as a typed event (see ProductionEvents) for the HUD.
+ *
+ * Usage example:
+ * ```typescript
+ * const production = new ProductionSystem(worldContainer, unitRegistry, cityRegistry, economy);
+ * production.on('unitCompleted', ({ cityId, unitId }) => console.log(cityId, 'produced', unitId));
+ * production.enqueue(cityId, UnitType.CAVALRY); // Pays 40 gold, ready in 3 turns
+ * production.processTurn(1); // End of player 1's turn
+ * ```
+ */
+
+import { TerrainType } from './WorldContainer';
+import type { WorldContainer } from './WorldContainer';
+import { MAX_STACK_SIZE } from './UnitRegistry';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import type { TerrainName, UnitTypeId } from './UnitCatalog';
+import type { City, CityRegistry } from './CityRegistry';
+import type { Economy } from './Economy';
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+
+/**
+ * Production limits (serializable, e.g. loaded from JSON)
+ */
+export interface ProductionRules {
+    /** Orders a city can queue at once */
+    maxQueueLength: number;
+
+    /** How far around a full city footprint (in tiles) finished units may be placed */
+    spawnRadius: number;
+}
+
+/**
+ * Default production limits
+ */
+export const DEFAULT_PRODUCTION_RULES: ProductionRules = {
+    maxQueueLength: 5,
+    spawnRadius: 2,
+};
+
+/**
+ * One queued unit
+ */
+export interface ProductionOrder {
+    /** Unit type to produce */
+    unitType: UnitTypeId;
+
+    /** Gold paid for the order (refunded on cancel) */
+    cost: number;
+
+    /** Turn ends left until the unit is finished (0 = finished, waiting for room) */
+    turnsLeft: number;
+}
+
+/**
+ * Why an order was refused
+ */
+export enum ProductionRejectReason {
+    UNKNOWN_CITY = 'UNKNOWN_CITY',
+    UNKNOWN_UNIT_TYPE = 'UNKNOWN_UNIT_TYPE',
+    HERO_UNIT_TYPE = 'HERO_UNIT_TYPE', // Heroes are recruited, not built
+    QUEUE_FULL = 'QUEUE_FULL',
+    INSUFFICIENT_GOLD = 'INSUFFICIENT_GOLD',
+    NOT_YOUR_TURN = 'NOT_YOUR_TURN', // Refused by GameController outside the owner's orders phase
+}
+
+/**
+ * Outcome of ordering a unit
+ */
+export type EnqueueResult =
+    | { success: true; order: ProductionOrder }
+    | { success: false; reason: ProductionRejectReason };
+
+/**
+ * Events emitted by ProductionSystem (event name -> payload)
+ * Orders in payloads are copies.
+ */
+export interface ProductionEvents {
+    /** A unit was ordered */
+    orderQueued: { cityId: number; order: ProductionOrder };
+
+    /** An order was cancelled (refunded is the gold returned; 0 when a captured city loses its queue) */
+    orderCancelled: { cityId: number; order: ProductionOrder; refunded: number };
+
+    /** A city worked on its first order for a turn */
+    orderProgressed: { cityId: number; order: ProductionOrder };
+
+    /** A finished unit was placed on the map */
+    unitCompleted: { cityId: number; unitType: UnitTypeId; unitId: number; pos: GridPosition };
+
+    /** A finished unit found no free tile near its city (it is placed once there is room) */
+    productionBlocked: { cityId: number; unitType: UnitTypeId };
+}
+
+/**
+ * Queue of one city (remembers who ordered, so a captured city's queue is dropped)
+ */
+interface CityQueue {
+    ownerId: number;
+    orders: ProductionOrder[];
+}
+
+/**
+ * ProductionSystem - Builds units in cities
+ */
+export class ProductionSystem {
+    private world: WorldContainer;
+    private units: UnitRegistry;
+    private cities: CityRegistry;
+    private economy: Economy;
+    private rules: ProductionRules;
+    private queues: Map<number, CityQueue>; // City ID -> queue
+    private events: EventEmitter<ProductionEvents> = new EventEmitter();
+
+    /**
+     * Create a new ProductionSystem
+     * @param world - WorldContainer (terrain of spawn tiles)
+     * @param units - UnitRegistry (finished units are added here)
+     * @param cities - CityRegistry (production sites)
+     * @param economy - Economy (orders are paid from the owner's treasury)
+     * @param rules - Production limits (default: DEFAULT_PRODUCTION_RULES)
+     */
+    constructor(
+        world: WorldContainer,
+        units: UnitRegistry,
+        cities: CityRegistry,
+        economy: Economy,
+        rules: ProductionRules = DEFAULT_PRODUCTION_RULES
+    ) {
+        this.world = world;
+        this.units = units;
+        this.cities = cities;
+        this.economy = economy;
+        this.rules = rules;
+        this.queues = new Map();
+    }
+
+    /**
+     * Subscribe to production events
+     * @param type - Event name
+     * @param listener - Called with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof ProductionEvents>(type: K, listener: EventListener<ProductionEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from production events
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof ProductionEvents>(type: K, listener: EventListener<ProductionEvents[K]>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Order a unit in a city, paying its cost from the city owner's treasury
+     * @param cityId - City ID
+     * @param unitType - Unit type to produce
+     * @returns The queued order, or why it was refused (nothing is paid then)
+     */
+    enqueue(cityId: number, unitType: UnitTypeId): EnqueueResult {
+        const city = this.cities.getCity(cityId);
+        if (!city) return { success: false, reason: ProductionRejectReason.UNKNOWN_CITY };
+
+        const type = this.units.getCatalog().get(unitType);
+        if (!type) return { success: false, reason: ProductionRejectReason.UNKNOWN_UNIT_TYPE };
+        if (type.hero) return { success: false, reason: ProductionRejectReason.HERO_UNIT_TYPE };
+
+        const queue = this.getCityQueue(city);
+        if (queue.orders.length >= this.rules.maxQueueLength) {
+            return { success: false, reason: ProductionRejectReason.QUEUE_FULL };
+        }
+        if (!this.economy.spend(city.ownerId, type.cost)) {
+            return { success: false, reason: ProductionRejectReason.INSUFFICIENT_GOLD };
+        }
+
+        const order: ProductionOrder = { unitType, cost: type.cost, turnsLeft: type.buildTurns };
+        queue.orders.push(order);
+        this.events.emit('orderQueued', { cityId, order: { ...order } });
+        return { success: true, order: { ...order } };
+    }
+
+    /**
+     * Cancel an order and refund its cost
+     * @param cityId - City ID
+     * @param index - Position in the queue (default: the last order)
+     * @returns The cancelled order, or null if there is no such order
+     */
+    cancel(cityId: number, index?: number): ProductionOrder | null {
+        const city = this.cities.getCity(cityId);
+        const queue = city && this.getCityQueue(city);
+        if (!queue) return null;
+
+        const position = index ?? queue.orders.length - 1;
+        if (position < 0 || position >= queue.orders.length) return null;
+
+        const [order] = queue.orders.splice(position, 1);
+        this.economy.deposit(queue.ownerId, order.cost);
+        this.events.emit('orderCancelled', { cityId, order: { ...order }, refunded: order.cost });
+        return { ...order };
+    }
+
+    /**
+     * Get a city's production queue
+     * @param cityId - City ID
+     * @returns Copies of the orders, first to be built first (empty for unknown cities)
+     */
+    getQueue(cityId: number): ProductionOrder[] {
+        const city = this.cities.getCity(cityId);
+        return city ? this.getCityQueue(city).orders.map(order => ({ ...order })) : [];
+    }
+
+    /**
+     * Advance production in a player's cities (call at the end of their turn)
+     * @param ownerId - Player whose turn ends
+     * @returns IDs of the units that were completed
+     */
+    processTurn(ownerId: number): number[] {
+        // Forget queues of cities that no longer exist
+        for (const cityId of this.queues.keys()) {
+            if (!this.cities.getCity(cityId)) this.queues.delete(cityId);
+        }
+
+        const completed: number[] = [];
+        for (const city of this.cities.getCitiesByOwner(ownerId)) {
+            const order = this.getCityQueue(city).orders[0];
+            if (!order) continue;
+
+            if (order.turnsLeft > 0) {
+                order.turnsLeft--;
+                this.events.emit('orderProgressed', { cityId: city.id, order: { ...order } });
+            }
+            if (order.turnsLeft > 0) continue;
+
+            const pos = this.findSpawnTile(city, order.unitType);
+            if (!pos) {
+                this.events.emit('productionBlocked', { cityId: city.id, unitType: order.unitType });
+                continue;
+            }
+
+            this.getCityQueue(city).orders.shift();
+            const unitId = this.units.addUnit({ unitType: order.unitType, ownerId: city.ownerId, gridPos: pos });
+            completed.push(unitId);
+            this.events.emit('unitCompleted', { cityId: city.id, unitType: order.unitType, unitId, pos });
+        }
+
+        return completed;
+    }
+
+    /**
+     * Get the production limits
+     * @returns Production rules
+     */
+    getRules(): ProductionRules {
+        return this.rules;
+    }
+
+    /**
+     * Find where a finished unit goes: the city footprint first, then the nearest
+     * tiles around it the unit type may enter, without enemy units and with room
+     * in the owner's stack
+     */
+    private findSpawnTile(city: City, unitType: UnitTypeId): GridPosition | null {
+        const type = this.units.getCatalog().get(unitType);
+        if (!type) return null;
+
+        const isFree = (x: number, y: number): boolean => {
+            const tile = this.world.getTile(x, y);
+            if (!tile || !type.allowedTerrain.includes(TerrainType[tile.terrain] as TerrainName)) return false;
+
+            const occupants = this.units.getUnitsAt({ x, y });
+            return occupants.every(unit => unit.ownerId === city.ownerId) && occupants.length < MAX_STACK_SIZE;
+        };
+
+        // Ring 0 is the footprint itself; ring r surrounds it at Chebyshev distance r
+        for (let ring = 0; ring <= this.rules.spawnRadius; ring++) {
+            for (let y = city.pos.y - ring; y < city.pos.y + city.height + ring; y++) {
+                for (let x = city.pos.x - ring; x < city.pos.x + city.width + ring; x++) {
+                    const onRing = ring === 0 ||
+                        y === city.pos.y - ring || y === city.pos.y + city.height - 1 + ring ||
+                        x === city.pos.x - ring || x === city.pos.x + city.width - 1 + ring;
+                    if (onRing && isFree(x, y)) return { x, y };
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Get a city's queue, dropping it if the city changed hands since it was started
+     */
+    private getCityQueue(city: City): CityQueue {
+        let queue = this.queues.get(city.id);
+        if (queue && queue.ownerId !== city.ownerId) {
+            queue.orders.forEach(order => this.events.emit('orderCancelled', { cityId: city.id, order: { ...order }, refunded: 0 }));
+            queue = undefined;
+        }
+        if (!queue) {
+            queue = { ownerId: city.ownerId, orders: [] };
+            this.queues.set(city.id, queue);
+        }
+        return queue;
+    }
+}
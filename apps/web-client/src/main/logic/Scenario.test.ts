@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Scenario, createRandomScenario, encodeTileBlob, getRandomScenarioStart } from './Scenario';
+import type { RandomScenarioOptions } from './Scenario';
+import { DEFAULT_UNIT_CATALOG } from './UnitCatalog';
+import { TerrainType, WorldContainer } from './WorldContainer';
+import { DEFAULT_WORLD_GEN_OPTIONS } from './WorldGenerator';
+
+const OPTIONS: RandomScenarioOptions = {
+    width: 96,
+    height: 64,
+    seed: 0,
+    players: [
+        { id: 1, name: 'Player 1', kind: 'human' },
+        { id: 2, name: 'Player 2', kind: 'human' },
+        { id: 3, name: 'Computer 3', kind: 'ai' },
+    ],
+};
+
+describe('createRandomScenario', () => {
+    it('builds a valid scenario for every seed', () => {
+        for (let seed = 0; seed < 60; seed++) {
+            const data = createRandomScenario({ ...OPTIONS, seed });
+            expect(Scenario.validate(data), `seed ${seed}`).toEqual([]);
+            expect(data.units?.map(unit => unit.ownerId), `seed ${seed}`).toEqual([1, 2, 3]);
+        }
+    });
+
+    it('starts each warrior on the nearest tile to its spot that it can stand on', () => {
+        const warrior = DEFAULT_UNIT_CATALOG.getByKey('warrior')!;
+        const canStand = (terrain: TerrainType) => DEFAULT_UNIT_CATALOG.allowsTerrain(warrior.id, terrain);
+        const start = getRandomScenarioStart(OPTIONS.width, OPTIONS.height, 0, OPTIONS.players.length);
+        const seed = [...Array(60).keys()].find(value => {
+            const world = new WorldContainer(OPTIONS.width, OPTIONS.height, { ...DEFAULT_WORLD_GEN_OPTIONS, seed: value });
+            return !canStand(world.getTile(start.x, start.y)!.terrain);
+        })!;
+        const data = createRandomScenario({ ...OPTIONS, seed });
+        const world = new Scenario(data).createWorld();
+        const { pos } = data.units![0];
+
+        expect(canStand(world.getTile(pos.x, pos.y)!.terrain)).toBe(true);
+        const ring = Math.max(Math.abs(pos.x - start.x), Math.abs(pos.y - start.y));
+        expect(ring).toBeGreaterThan(0);
+        for (let y = start.y - ring + 1; y < start.y + ring; y++) {
+            for (let x = start.x - ring + 1; x < start.x + ring; x++) {
+                expect(canStand(world.getTile(x, y)!.terrain), `(${x}, ${y})`).toBe(false);
+            }
+        }
+    });
+
+    it('builds the same map again from the logged seed passed back through the URL', () => {
+        const world = new Scenario(createRandomScenario({ ...OPTIONS, seed: 3141592653 })).createWorld();
+        const logged = world.getGenerationOptions().seed;
+        const fromUrl = new URLSearchParams(`?seed=${logged}`).get('seed')!;
+
+        const replayed = new Scenario(createRandomScenario({ ...OPTIONS, seed: fromUrl })).createWorld();
+        expect(encodeTileBlob(replayed)).toBe(encodeTileBlob(world));
+    });
+});
@@ -0,0 +1,893 @@
+/**
+ * Scenario - Versioned scenario files: map, players, starting position and rules
+ *
+ * A scenario describes everything a game starts from, as plain JSON:
+ *
+ *     map        - size, and either generation options (seeded terrain) or a
+ *                  binary tile blob (base64, see encodeTileBlob)
+ *     buildings  - farms, mines and fortresses with levels and owners
+ *     factions   - named sides with a color, picked by players
+ *     players    - turn order, human or computer, faction, starting gold
+ *     cities     - name, owner, footprint, defense and income
+ *     units      - starting units by catalog key (hero types become heroes)
+ *     diplomacy  - relations that do not start at war
+ *     victory    - victory conditions (default: DEFAULT_VICTORY_RULES)
+ *     rules      - overrides of the economy, combat, production and hero rules
+ *
+ * The constructor validates the whole file and throws with one line per
+ * problem (e.g. "units[3] (cavalry): unknown owner 5"). createWorld() builds the WorldContainer; populate() fills the unit,
+ * city, economy, hero and diplomacy systems created for it; the getters hand
+ * out the players and the merged rules those systems are created with.
+ *
+ * Tile blob layout: 4 bytes per tile in row-major order - terrain, building,
+ * building level, owner. City tiles are not stored in the blob (cities are
+ * listed separately and claim their footprint when they are placed).
+ *
+ * Usage example:
+ * ```typescript
+ * const scenario = new Scenario(json as ScenarioData); // Throws if the file is invalid
+ * const world = scenario.createWorld();
+ * const units = new UnitRegistry();
+ * const cities = new CityRegistry(world);
+ * const economy = new Economy(world, units, cities, scenario.getEconomyRules());
+ * const turns = new TurnManager(scenario.getPlayers(), { hotSeat: scenario.isHotSeat() });
+ * ...
+ * scenario.populate({ units, cities, economy, heroes, diplomacy });
+ * ```
+ */
+
+import { BuildingType, TerrainType, WorldContainer } from './WorldContainer';
+import type { WorldGenOptions } from './WorldGenerator';
+import { DEFAULT_WORLD_GEN_OPTIONS } from './WorldGenerator';
+import { MAX_STACK_SIZE } from './UnitRegistry';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import { DEFAULT_UNIT_CATALOG } from './UnitCatalog';
+import type { UnitCatalog } from './UnitCatalog';
+import { CityRegistry } from './CityRegistry';
+import type { Economy, EconomyRules } from './Economy';
+import { DEFAULT_ECONOMY_RULES } from './Economy';
+import type { CombatRules } from './CombatResolver';
+import { DEFAULT_COMBAT_RULES } from './CombatResolver';
+import type { ProductionRules } from './ProductionSystem';
+import { DEFAULT_PRODUCTION_RULES } from './ProductionSystem';
+import type { HeroRules, HeroSystem } from './HeroSystem';
+import { DEFAULT_HERO_RULES, HERO_STATS } from './HeroSystem';
+import type { PlayerKind, TurnPlayer } from './TurnManager';
+import { DIPLOMACY_SAVE_VERSION, DiplomaticState } from './DiplomacySystem';
+import type { DiplomacySystem } from './DiplomacySystem';
+import { DEFAULT_VICTORY_RULES, VictorySystem } from './VictorySystem';
+import type { VictoryRules } from './VictorySystem';
+
+/**
+ * Scenario format version this code reads and writes
+ */
+export const SCENARIO_VERSION = 1;
+
+/**
+ * Bytes per tile in a tile blob (terrain, building, level, owner)
+ */
+export const TILE_BLOB_BYTES_PER_TILE = 4;
+
+/**
+ * Building name as written in JSON (a BuildingType key other than NONE and CITY)
+ */
+export type ScenarioBuildingName = Exclude<keyof typeof BuildingType, 'NONE' | 'CITY'>;
+
+/**
+ * Map size and terrain
+ */
+export interface ScenarioMap {
+    width: number;
+    height: number;
+
+    /** Procedural terrain options (ignored if tiles are given; default seed: 0) */
+    generation?: Partial<WorldGenOptions>;
+
+    /** Base64 tile blob (see encodeTileBlob) */
+    tiles?: string;
+}
+
+/**
+ * A building placed on the map
+ */
+export interface ScenarioBuilding {
+    pos: GridPosition;
+    type: ScenarioBuildingName;
+
+    /** Building level (default: 1) */
+    level?: number;
+
+    /** Owner ID (default: 0 = neutral) */
+    ownerId?: number;
+}
+
+/**
+ * A named side players can play
+ */
+export interface ScenarioFaction {
+    /** Stable identifier players refer to, e.g. "sirians" */
+    key: string;
+
+    /** Display name */
+    name: string;
+
+    /** RGB color (0-1) */
+    color: [number, number, number];
+}
+
+/**
+ * A player in turn order
+ */
+export interface ScenarioPlayer {
+    /** Player ID (1+; the ownerId of their units and cities) */
+    id: number;
+
+    name: string;
+    kind: PlayerKind;
+
+    /** Faction key (default: none) */
+    faction?: string;
+
+    /** Starting treasury (default: the economy's startingGold) */
+    gold?: number;
+}
+
+/**
+ * A city placed at the start
+ */
+export interface ScenarioCity {
+    name: string;
+
+    /** Top-left tile of the footprint */
+    pos: GridPosition;
+
+    /** Owner ID (default: 0 = neutral) */
+    ownerId?: number;
+
+    /** Footprint size, defense and income (default: CityRegistry defaults) */
+    width?: number;
+    height?: number;
+    defense?: number;
+    income?: number;
+}
+
+/**
+ * A starting unit
+ */
+export interface ScenarioUnit {
+    /** Unit type key from the unit catalog, e.g. "cavalry" */
+    type: string;
+
+    pos: GridPosition;
+    ownerId: number;
+
+    /** Hit points (default: the type's maximum) */
+    hp?: number;
+
+    /** Hero name, for hero types (default: the type's name) */
+    heroName?: string;
+}
+
+/**
+ * A relationship that does not start at war
+ */
+export interface ScenarioRelation {
+    playerA: number;
+    playerB: number;
+    state: DiplomaticState;
+}
+
+/**
+ * Rule overrides (fields left out keep their defaults; tables are merged entry by entry)
+ */
+export interface ScenarioRules {
+    economy?: Partial<EconomyRules>;
+    combat?: Partial<CombatRules>;
+    production?: Partial<ProductionRules>;
+    heroes?: Partial<HeroRules>;
+}
+
+/**
+ * Scenario file (plain JSON)
+ */
+export interface ScenarioData {
+    version: number;
+    name: string;
+    description?: string;
+    map: ScenarioMap;
+    buildings?: ScenarioBuilding[];
+    factions?: ScenarioFaction[];
+    players: ScenarioPlayer[];
+    cities?: ScenarioCity[];
+    units?: ScenarioUnit[];
+    diplomacy?: ScenarioRelation[];
+    victory?: VictoryRules;
+    rules?: ScenarioRules;
+}
+
+/**
+ * Systems populate() fills (created empty for the scenario's world)
+ */
+export interface ScenarioTargets {
+    units: UnitRegistry;
+    cities: CityRegistry;
+    economy: Economy;
+    heroes: HeroSystem;
+    diplomacy: DiplomacySystem;
+}
+
+/**
+ * Largest map side a scenario may have (the unit spatial hash works up to 65536)
+ */
+const MAX_MAP_SIZE = 4096;
+
+/**
+ * Keys allowed in the rule tables that are keyed by enum values or stats
+ */
+const RULE_TABLE_KEYS: Record<string, readonly string[]> = {
+    'economy.buildingIncome': Object.values(BuildingType).filter(value => typeof value === 'number').map(String),
+    'combat.terrainDefense': Object.values(TerrainType).filter(value => typeof value === 'number').map(String),
+    'heroes.statIncrease': HERO_STATS,
+};
+
+/**
+ * Check if a value is a plain object (not an array or null)
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge rule overrides into defaults (tables are merged one level deep)
+ */
+function mergeRules<T extends object>(defaults: T, overrides: Partial<T> | undefined): T {
+    const merged = { ...defaults } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(overrides ?? {})) {
+        const base = merged[key];
+        merged[key] = isObject(base) && isObject(value) ? { ...base, ...value } : value;
+    }
+    return merged as T;
+}
+
+/**
+ * Encode a world's tiles as a base64 tile blob
+ * City footprint tiles are written as bare terrain (cities are stored separately).
+ * @param world - World to encode
+ * @returns Base64 string for ScenarioMap.tiles
+ */
+export function encodeTileBlob(world: WorldContainer): string {
+    const width = world.getWidth();
+    const height = world.getHeight();
+    const bytes = new Uint8Array(width * height * TILE_BLOB_BYTES_PER_TILE);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const tile = world.getTile(x, y)!;
+            const offset = (y * width + x) * TILE_BLOB_BYTES_PER_TILE;
+            const isCity = tile.building === BuildingType.CITY;
+            bytes[offset] = tile.terrain;
+            bytes[offset + 1] = isCity ? BuildingType.NONE : tile.building;
+            bytes[offset + 2] = isCity ? 0 : tile.buildingLevel;
+            bytes[offset + 3] = isCity ? 0 : tile.ownerId;
+        }
+    }
+
+    // btoa takes a binary string; build it in chunks to stay below argument limits
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decode a base64 tile blob
+ * @param blob - Base64 string from encodeTileBlob
+ * @returns Tile bytes, or null if the string is not valid base64
+ */
+export function decodeTileBlob(blob: string): Uint8Array | null {
+    try {
+        return Uint8Array.from(atob(blob), char => char.charCodeAt(0));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Options for createRandomScenario
+ */
+export interface RandomScenarioOptions {
+    width: number;
+    height: number;
+
+    /** Terrain generation seed */
+    seed: number | string;
+
+    players: ScenarioPlayer[];
+}
+
+/**
+ * Catalog key of the unit every random-map player starts with
+ */
+const RANDOM_SCENARIO_UNIT = 'warrior';
+
+/**
+ * Describe a seeded procedural map as a scenario
+ * Every player starts with one unit. The starting tiles are spread around an
+ * ellipse, and each unit goes on the nearest free tile to its spot that it can
+ * stand on (none if the map has no such tile), so the result always validates.
+ * @param options - Map size, seed and players
+ * @param catalog - Unit catalog (default: DEFAULT_UNIT_CATALOG)
+ * @returns Scenario data
+ */
+export function createRandomScenario(options: RandomScenarioOptions, catalog: UnitCatalog = DEFAULT_UNIT_CATALOG): ScenarioData {
+    const { width, height, seed, players } = options;
+    const world = new WorldContainer(width, height, { ...DEFAULT_WORLD_GEN_OPTIONS, seed });
+    const unitType = catalog.getByKey(RANDOM_SCENARIO_UNIT);
+
+    const units: ScenarioUnit[] = [];
+    const taken = new Set<string>();
+    players.forEach((player, i) => {
+        if (!unitType) return;
+        const pos = findNearestTile(world, getRandomScenarioStart(width, height, i, players.length),
+            (x, y, terrain) => !taken.has(`${x}:${y}`) && catalog.allowsTerrain(unitType.id, terrain));
+        if (!pos) return;
+
+        taken.add(`${pos.x}:${pos.y}`);
+        units.push({ type: RANDOM_SCENARIO_UNIT, ownerId: player.id, pos });
+    });
+
+    return {
+        version: SCENARIO_VERSION,
+        name: 'Random map',
+        map: { width, height, generation: { seed } },
+        players,
+        units,
+    };
+}
+
+/**
+ * Get the spot a random-map player's starting unit is placed nearest to
+ * @param width - Map width
+ * @param height - Map height
+ * @param index - Player's place in the turn order
+ * @param playerCount - Number of players
+ * @returns Tile on an ellipse around the map center
+ */
+export function getRandomScenarioStart(width: number, height: number, index: number, playerCount: number): GridPosition {
+    const angle = (2 * Math.PI * index) / playerCount;
+    return {
+        x: Math.round(width / 2 + Math.cos(angle) * width * 0.35),
+        y: Math.round(height / 2 + Math.sin(angle) * height * 0.35),
+    };
+}
+
+/**
+ * Find the nearest tile to a position (in rings of growing distance) whose terrain passes a test
+ * @returns The tile, or null if no tile on the map passes
+ */
+function findNearestTile(world: WorldContainer, from: GridPosition, accepts: (x: number, y: number, terrain: TerrainType) => boolean): GridPosition | null {
+    const maxRing = Math.max(world.getWidth(), world.getHeight());
+    for (let ring = 0; ring <= maxRing; ring++) {
+        for (let y = from.y - ring; y <= from.y + ring; y++) {
+            for (let x = from.x - ring; x <= from.x + ring; x++) {
+                if (Math.max(Math.abs(x - from.x), Math.abs(y - from.y)) !== ring) continue;
+                const tile = world.getTile(x, y);
+                if (tile && accepts(x, y, tile.terrain)) return { x, y };
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Scenario - A validated scenario file and the code that sets it up
+ */
+export class Scenario {
+    private data: ScenarioData;
+    private catalog: UnitCatalog;
+
+    /**
+     * Create a new Scenario
+     * @param data - Scenario file (e.g. parsed JSON)
+     * @param catalog - Unit catalog the unit types are looked up in (default: built-in types)
+     * @throws Error listing every problem if the file is invalid
+     */
+    constructor(data: ScenarioData, catalog: UnitCatalog = DEFAULT_UNIT_CATALOG) {
+        const errors = Scenario.validate(data, catalog);
+        if (errors.length > 0) {
+            throw new Error(`Invalid scenario:\n${errors.join('\n')}`);
+        }
+
+        this.data = data;
+        this.catalog = catalog;
+    }
+
+    /**
+     * Check a scenario file for problems
+     * Structural problems are reported first; only a well-formed file is then
+     * checked against its map (city footprints on land and not overlapping).
+     * @param data - Scenario file to check
+     * @param catalog - Unit catalog the unit types are looked up in (default: built-in types)
+     * @returns Human-readable problems (empty if the scenario can be loaded)
+     */
+    static validate(data: ScenarioData, catalog: UnitCatalog = DEFAULT_UNIT_CATALOG): string[] {
+        const errors: string[] = [];
+        if (data?.version !== SCENARIO_VERSION) {
+            errors.push(`Unsupported version ${data?.version} (expected ${SCENARIO_VERSION})`);
+        }
+        if (typeof data?.name !== 'string' || data.name === '') errors.push('name is required');
+        if (data?.description !== undefined && typeof data.description !== 'string') errors.push('description must be a string');
+
+        // Without a valid map size nothing else can be checked against the map
+        const map = data?.map;
+        const isSize = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_MAP_SIZE;
+        if (!isObject(map) || !isSize(map.width) || !isSize(map.height)) {
+            errors.push(`map.width and map.height must be integers between 1 and ${MAX_MAP_SIZE}`);
+            return errors;
+        }
+
+        const onMap = (pos: GridPosition | undefined): boolean =>
+            Number.isInteger(pos?.x) && Number.isInteger(pos?.y) && pos!.x >= 0 && pos!.x < map.width && pos!.y >= 0 && pos!.y < map.height;
+        const isNonNegative = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+        Scenario.validateMap(map, errors);
+
+        // Factions and players
+        const factionKeys = new Set<string>();
+        Scenario.checkArray(data.factions, 'factions', errors, (faction, where) => {
+            if (typeof faction.key !== 'string' || faction.key === '') errors.push(`${where}: key is required`);
+            else if (factionKeys.has(faction.key)) errors.push(`${where}: duplicate key "${faction.key}"`);
+            factionKeys.add(faction.key);
+
+            if (typeof faction.name !== 'string' || faction.name === '') errors.push(`${where}: name is required`);
+            const color = faction.color;
+            if (!Array.isArray(color) || color.length !== 3 || color.some(c => typeof c !== 'number' || c < 0 || c > 1)) {
+                errors.push(`${where}: color must be [r, g, b] with values 0-1`);
+            }
+        });
+
+        const playerIds = new Set<number>();
+        if (!Array.isArray(data.players) || data.players.length === 0) {
+            errors.push('players must list at least one player');
+        } else {
+            Scenario.checkArray(data.players, 'players', errors, (player, where) => {
+                if (!Number.isInteger(player.id) || player.id < 1) errors.push(`${where}: id must be a positive integer`);
+                else if (playerIds.has(player.id)) errors.push(`${where}: duplicate id ${player.id}`);
+                playerIds.add(player.id);
+
+                if (typeof player.name !== 'string' || player.name === '') errors.push(`${where}: name is required`);
+                if (player.kind !== 'human' && player.kind !== 'ai') errors.push(`${where}: kind must be "human" or "ai"`);
+                if (player.faction !== undefined && !factionKeys.has(player.faction)) {
+                    errors.push(`${where}: unknown faction "${player.faction}"`);
+                }
+                if (player.gold !== undefined && !isNonNegative(player.gold)) errors.push(`${where}: gold must be a non-negative number`);
+            }, player => player?.name);
+        }
+        const isOwner = (value: unknown): boolean => value === 0 || playerIds.has(value as number);
+
+        // Map contents
+        Scenario.checkArray(data.buildings, 'buildings', errors, (building, where) => {
+            if (!onMap(building.pos)) errors.push(`${where}: pos must be a tile on the map`);
+            if (!['FARM', 'MINE', 'FORTRESS'].includes(building.type)) {
+                errors.push(`${where}: type must be FARM, MINE or FORTRESS (cities are listed under cities)`);
+            }
+            if (building.level !== undefined && (!Number.isInteger(building.level) || building.level < 1)) {
+                errors.push(`${where}: level must be a positive integer`);
+            }
+            if (building.ownerId !== undefined && !isOwner(building.ownerId)) errors.push(`${where}: unknown owner ${building.ownerId}`);
+        });
+
+        Scenario.checkArray(data.cities, 'cities', errors, (city, where) => {
+            if (typeof city.name !== 'string' || city.name === '') errors.push(`${where}: name is required`);
+            if (!onMap(city.pos)) errors.push(`${where}: pos must be a tile on the map`);
+            if (city.ownerId !== undefined && !isOwner(city.ownerId)) errors.push(`${where}: unknown owner ${city.ownerId}`);
+            for (const field of ['width', 'height'] as const) {
+                if (city[field] !== undefined && (!Number.isInteger(city[field]) || city[field]! < 1)) {
+                    errors.push(`${where}: ${field} must be a positive integer`);
+                }
+            }
+            for (const field of ['defense', 'income'] as const) {
+                if (city[field] !== undefined && !isNonNegative(city[field])) errors.push(`${where}: ${field} must be a non-negative number`);
+            }
+        }, city => city?.name);
+
+        const stackSizes = new Map<string, number>();
+        Scenario.checkArray(data.units, 'units', errors, (unit, where) => {
+            const type = catalog.getByKey(unit.type);
+            if (!type) errors.push(`${where}: unknown unit type "${unit.type}"`);
+            if (!onMap(unit.pos)) errors.push(`${where}: pos must be a tile on the map`);
+            if (!isOwner(unit.ownerId)) errors.push(`${where}: unknown owner ${unit.ownerId}`);
+            if (unit.hp !== undefined && (!(typeof unit.hp === 'number' && unit.hp > 0) || (type && unit.hp > type.hp))) {
+                errors.push(`${where}: hp must be between 1 and ${type?.hp ?? 'the type\'s maximum'}`);
+            }
+            if (unit.heroName !== undefined && (typeof unit.heroName !== 'string' || !type?.hero)) {
+                errors.push(`${where}: heroName is only allowed (as a string) for hero types`);
+            }
+
+            if (onMap(unit.pos)) {
+                const key = `${unit.ownerId}:${unit.pos.x}:${unit.pos.y}`;
+                const size = (stackSizes.get(key) ?? 0) + 1;
+                stackSizes.set(key, size);
+                if (size === MAX_STACK_SIZE + 1) {
+                    errors.push(`${where}: more than ${MAX_STACK_SIZE} units of player ${unit.ownerId} at (${unit.pos.x}, ${unit.pos.y})`);
+                }
+            }
+        }, unit => unit?.type);
+
+        // Diplomacy, victory and rules
+        const pairs = new Set<string>();
+        Scenario.checkArray(data.diplomacy, 'diplomacy', errors, (relation, where) => {
+            if (!playerIds.has(relation.playerA) || !playerIds.has(relation.playerB) || relation.playerA === relation.playerB) {
+                errors.push(`${where}: needs two different player IDs`);
+            }
+            if (!Object.values(DiplomaticState).includes(relation.state)) errors.push(`${where}: unknown state "${relation.state}"`);
+
+            const pair = [relation.playerA, relation.playerB].sort((a, b) => a - b).join(':');
+            if (pairs.has(pair)) errors.push(`${where}: players ${pair.replace(':', ' and ')} are listed twice`);
+            pairs.add(pair);
+        });
+
+        if (data.victory !== undefined) {
+            VictorySystem.validateRules(data.victory, map.width, map.height).forEach(error => errors.push(`victory.${error}`));
+        }
+        Scenario.validateRules(data.rules, catalog, errors);
+
+        // Cities, buildings and units can only be checked against the terrain once everything else is sound
+        if (errors.length === 0) {
+            const world = Scenario.buildWorld(data);
+            const cities = new CityRegistry(world);
+            data.cities?.forEach((city, i) => {
+                if (cities.addCity(city) === null) {
+                    errors.push(`cities[${i}] (${city.name}): footprint at (${city.pos.x}, ${city.pos.y}) is off the map, on water or overlaps another city`);
+                }
+            });
+            Scenario.validatePlacement(data, world, catalog, errors);
+        }
+
+        return errors;
+    }
+
+    /**
+     * Get the scenario's name
+     * @returns Name
+     */
+    getName(): string {
+        return this.data.name;
+    }
+
+    /**
+     * Get the scenario's description
+     * @returns Description (empty if there is none)
+     */
+    getDescription(): string {
+        return this.data.description ?? '';
+    }
+
+    /**
+     * Get the scenario file
+     * @returns Scenario data (do not modify)
+     */
+    getData(): ScenarioData {
+        return this.data;
+    }
+
+    /**
+     * Get the players in turn order
+     * @returns Players for a TurnManager
+     */
+    getPlayers(): TurnPlayer[] {
+        return this.data.players.map(({ id, name, kind }) => ({ id, name, kind }));
+    }
+
+    /**
+     * Check if several humans share this machine
+     * @returns true if more than one player is human
+     */
+    isHotSeat(): boolean {
+        return this.data.players.filter(player => player.kind === 'human').length > 1;
+    }
+
+    /**
+     * Get a player's faction
+     * @param playerId - Player ID
+     * @returns Faction, or undefined if the player has none
+     */
+    getFaction(playerId: number): ScenarioFaction | undefined {
+        const key = this.data.players.find(player => player.id === playerId)?.faction;
+        return this.data.factions?.find(faction => faction.key === key);
+    }
+
+    /**
+     * Get the victory rules
+     * @returns Scenario victory rules, or DEFAULT_VICTORY_RULES
+     */
+    getVictoryRules(): VictoryRules {
+        return this.data.victory ?? DEFAULT_VICTORY_RULES;
+    }
+
+    /**
+     * Get the economy rules
+     * @returns Defaults with the scenario's overrides
+     */
+    getEconomyRules(): EconomyRules {
+        return mergeRules(DEFAULT_ECONOMY_RULES, this.data.rules?.economy);
+    }
+
+    /**
+     * Get the combat rules
+     * @returns Defaults with the scenario's overrides
+     */
+    getCombatRules(): CombatRules {
+        return mergeRules(DEFAULT_COMBAT_RULES, this.data.rules?.combat);
+    }
+
+    /**
+     * Get the production rules
+     * @returns Defaults with the scenario's overrides
+     */
+    getProductionRules(): ProductionRules {
+        return mergeRules(DEFAULT_PRODUCTION_RULES, this.data.rules?.production);
+    }
+
+    /**
+     * Get the hero rules
+     * @returns Defaults with the scenario's overrides
+     */
+    getHeroRules(): HeroRules {
+        return mergeRules(DEFAULT_HERO_RULES, this.data.rules?.heroes);
+    }
+
+    /**
+     * Build the scenario's map: terrain (generated or from the tile blob) and buildings
+     * @returns New WorldContainer
+     */
+    createWorld(): WorldContainer {
+        return Scenario.buildWorld(this.data);
+    }
+
+    /**
+     * Place the cities and units and set treasuries and diplomacy
+     * The systems should be empty and belong to a world from createWorld().
+     * @param targets - Systems to fill
+     */
+    populate(targets: ScenarioTargets): void {
+        const { units, cities, economy, heroes, diplomacy } = targets;
+
+        for (const city of this.data.cities ?? []) {
+            cities.addCity({ ...city, ownerId: city.ownerId ?? 0 });
+        }
+
+        for (const unit of this.data.units ?? []) {
+            const type = this.catalog.getByKey(unit.type)!;
+            const unitId = type.hero
+                ? heroes.createHero({ name: unit.heroName ?? type.name, ownerId: unit.ownerId, gridPos: unit.pos, unitType: type.id })
+                : units.addUnit({ unitType: type.id, ownerId: unit.ownerId, gridPos: unit.pos });
+            if (unit.hp !== undefined) units.setUnitHp(unitId, unit.hp);
+        }
+
+        for (const player of this.data.players) {
+            if (player.gold !== undefined) economy.setTreasury(player.id, player.gold);
+        }
+
+        diplomacy.load({
+            version: DIPLOMACY_SAVE_VERSION,
+            relations: this.data.diplomacy ?? [],
+            proposals: [],
+            history: [],
+            nextProposalId: 1,
+        });
+    }
+
+    /**
+     * Build a world from (already validated) scenario data
+     */
+    private static buildWorld(data: ScenarioData): WorldContainer {
+        const { width, height, generation, tiles } = data.map;
+        const world = new WorldContainer(width, height, { ...DEFAULT_WORLD_GEN_OPTIONS, ...generation });
+
+        const bytes = tiles === undefined ? null : decodeTileBlob(tiles)!;
+        if (bytes) {
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const offset = (y * width + x) * TILE_BLOB_BYTES_PER_TILE;
+                    world.setTile(x, y, {
+                        terrain: bytes[offset],
+                        building: bytes[offset + 1],
+                        buildingLevel: bytes[offset + 2],
+                        ownerId: bytes[offset + 3],
+                    });
+                }
+            }
+        }
+
+        for (const building of data.buildings ?? []) {
+            world.placeBuilding(building.pos.x, building.pos.y, BuildingType[building.type], building.level ?? 1, building.ownerId ?? 0);
+        }
+
+        return world;
+    }
+
+    /**
+     * Check that buildings and units stand on terrain they can stand on, and that units
+     * only share a tile with their own or allied units (as the MapEditor enforces)
+     */
+    private static validatePlacement(data: ScenarioData, world: WorldContainer, catalog: UnitCatalog, errors: string[]): void {
+        const listed = new Set<string>();
+        data.buildings?.forEach((building, i) => {
+            const { x, y } = building.pos;
+            listed.add(`${x}:${y}`);
+            if (world.getTile(x, y)!.terrain === TerrainType.WATER) {
+                errors.push(`buildings[${i}] (${building.type}): (${x}, ${y}) is on water`);
+            }
+        });
+
+        // Buildings from the tile blob (city tiles are not stored there)
+        for (let y = 0; y < world.getHeight(); y++) {
+            for (let x = 0; x < world.getWidth(); x++) {
+                const tile = world.getTile(x, y)!;
+                if (tile.terrain === TerrainType.WATER && tile.building !== BuildingType.NONE
+                    && tile.building !== BuildingType.CITY && !listed.has(`${x}:${y}`)) {
+                    errors.push(`map.tiles: ${BuildingType[tile.building]} at (${x}, ${y}) is on water`);
+                }
+            }
+        }
+
+        const allied = new Set((data.diplomacy ?? [])
+            .filter(relation => relation.state === DiplomaticState.ALLIANCE)
+            .map(relation => [relation.playerA, relation.playerB].sort((a, b) => a - b).join(':')));
+        const isAllied = (a: number, b: number): boolean => a === b || allied.has([a, b].sort((p, q) => p - q).join(':'));
+
+        const owners = new Map<string, number[]>(); // "x:y" -> owners of the units there
+        data.units?.forEach((unit, i) => {
+            const where = `units[${i}] (${unit.type})`;
+            const { x, y } = unit.pos;
+            const terrain = world.getTile(x, y)!.terrain;
+            if (!catalog.allowsTerrain(catalog.getByKey(unit.type)!.id, terrain)) {
+                errors.push(`${where}: cannot stand on ${TerrainType[terrain]} at (${x}, ${y})`);
+            }
+
+            const key = `${x}:${y}`;
+            const here = owners.get(key) ?? [];
+            const enemy = here.find(ownerId => !isAllied(ownerId, unit.ownerId));
+            if (enemy !== undefined) {
+                errors.push(`${where}: shares (${x}, ${y}) with units of player ${enemy}, who is not allied with player ${unit.ownerId}`);
+            }
+            if (!here.includes(unit.ownerId)) owners.set(key, [...here, unit.ownerId]);
+        });
+    }
+
+    /**
+     * Check the map's generation options and tile blob
+     */
+    private static validateMap(map: ScenarioMap, errors: string[]): void {
+        if (map.generation !== undefined) {
+            if (!isObject(map.generation)) {
+                errors.push('map.generation must be an object');
+            } else {
+                for (const [key, value] of Object.entries(map.generation)) {
+                    if (!(key in DEFAULT_WORLD_GEN_OPTIONS)) errors.push(`map.generation: unknown option "${key}"`);
+                    else if (key === 'seed' ? !['number', 'string'].includes(typeof value) : typeof value !== 'number') {
+                        errors.push(`map.generation.${key} must be a ${key === 'seed' ? 'number or string' : 'number'}`);
+                    }
+                }
+            }
+        }
+
+        if (map.tiles === undefined) return;
+        const bytes = typeof map.tiles === 'string' ? decodeTileBlob(map.tiles) : null;
+        if (!bytes) {
+            errors.push('map.tiles must be a base64 string');
+            return;
+        }
+
+        const expected = map.width * map.height * TILE_BLOB_BYTES_PER_TILE;
+        if (bytes.length !== expected) {
+            errors.push(`map.tiles holds ${bytes.length} bytes (expected ${expected} for ${map.width}x${map.height} tiles)`);
+            return;
+        }
+
+        // Report the first bad tile of each kind, not thousands of lines
+        const problems = new Map<string, string>();
+        for (let i = 0; i < map.width * map.height; i++) {
+            const [terrain, building, level] = bytes.subarray(i * TILE_BLOB_BYTES_PER_TILE, (i + 1) * TILE_BLOB_BYTES_PER_TILE);
+            const where = `map.tiles: tile (${i % map.width}, ${Math.floor(i / map.width)})`;
+            if (!(terrain in TerrainType)) problems.set('terrain', `${where} has unknown terrain ${terrain}`);
+            if (!(building in BuildingType)) problems.set('building', `${where} has unknown building ${building}`);
+            if (building === BuildingType.CITY) problems.set('city', `${where} is a city tile (cities are listed under cities)`);
+            if ((building === BuildingType.NONE) !== (level === 0)) problems.set('level', `${where} has building ${building} at level ${level}`);
+        }
+        errors.push(...problems.values());
+    }
+
+    /**
+     * Check rule overrides against the default rules' fields
+     */
+    private static validateRules(rules: ScenarioRules | undefined, catalog: UnitCatalog, errors: string[]): void {
+        if (rules === undefined) return;
+        if (!isObject(rules)) {
+            errors.push('rules must be an object');
+            return;
+        }
+
+        const defaults: Record<string, object> = {
+            economy: DEFAULT_ECONOMY_RULES,
+            combat: DEFAULT_COMBAT_RULES,
+            production: DEFAULT_PRODUCTION_RULES,
+            heroes: DEFAULT_HERO_RULES,
+        };
+        const tableKeys: Record<string, readonly string[]> = {
+            ...RULE_TABLE_KEYS,
+            'economy.unitUpkeep': catalog.getAll().map(type => String(type.id)),
+        };
+
+        for (const [section, overrides] of Object.entries(rules)) {
+            const sectionDefaults = defaults[section] as Record<string, unknown> | undefined;
+            if (!sectionDefaults) {
+                errors.push(`rules: unknown section "${section}"`);
+                continue;
+            }
+            if (!isObject(overrides)) {
+                errors.push(`rules.${section} must be an object`);
+                continue;
+            }
+
+            for (const [field, value] of Object.entries(overrides)) {
+                const path = `rules.${section}.${field}`;
+                const base = sectionDefaults[field];
+                if (base === undefined) {
+                    errors.push(`rules.${section}: unknown field "${field}"`);
+                } else if (typeof base === 'number') {
+                    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) errors.push(`${path} must be a non-negative number`);
+                } else if (Array.isArray(base)) {
+                    // The only list is heroes.items
+                    Scenario.checkArray(value as { key: string; name: string; bonuses: Record<string, number> }[], path, errors, (item, where) => {
+                        if (typeof item.key !== 'string' || item.key === '') errors.push(`${where}: key is required`);
+                        if (typeof item.name !== 'string' || item.name === '') errors.push(`${where}: name is required`);
+                        if (!isObject(item.bonuses) || Object.entries(item.bonuses).some(([stat, bonus]) =>
+                            !HERO_STATS.includes(stat as typeof HERO_STATS[number]) || typeof bonus !== 'number')) {
+                            errors.push(`${where}: bonuses must map ${HERO_STATS.join(', ')} to numbers`);
+                        }
+                    });
+                } else if (!isObject(value)) {
+                    errors.push(`${path} must be an object`);
+                } else {
+                    const keys = tableKeys[`${section}.${field}`];
+                    for (const [key, entry] of Object.entries(value)) {
+                        if (keys && !keys.includes(key)) errors.push(`${path}: unknown key "${key}"`);
+                        if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0) errors.push(`${path}.${key} must be a non-negative number`);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Check an optional list and each of its entries
+     * @param list - List from the file (undefined is fine)
+     * @param path - Its path in the file, for messages
+     * @param errors - Problems found so far
+     * @param check - Checks one entry; where is e.g. "units[3] (cavalry)"
+     * @param label - Short label for an entry in messages
+     */
+    private static checkArray<T>(
+        list: T[] | undefined,
+        path: string,
+        errors: string[],
+        check: (entry: T, where: string) => void,
+        label?: (entry: T) => string | undefined
+    ): void {
+        if (list === undefined) return;
+        if (!Array.isArray(list)) {
+            errors.push(`${path} must be an array`);
+            return;
+        }
+
+        list.forEach((entry, i) => {
+            const name = label?.(entry);
+            const where = name ? `${path}[${i}] (${name})` : `${path}[${i}]`;
+            if (!isObject(entry)) errors.push(`${where} must be an object`);
+            else check(entry, where);
+        });
+    }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { SeededRandom, hashSeed } from './SeededRandom';
+
+describe('hashSeed', () => {
+    it('reads a string of digits as the number it spells', () => {
+        expect(hashSeed('123456')).toBe(hashSeed(123456));
+        expect(hashSeed('4294967295')).toBe(4294967295);
+        expect(hashSeed('-1')).toBe(hashSeed(-1));
+        expect(new SeededRandom('77').nextUint32()).toBe(new SeededRandom(77).nextUint32());
+    });
+
+    it('hashes other strings', () => {
+        expect(hashSeed('two-kingdoms')).not.toBe(hashSeed('two-kingdom'));
+        expect(hashSeed('12a')).not.toBe(hashSeed(12));
+        expect(hashSeed('1.5')).not.toBe(hashSeed(1));
+    });
+});
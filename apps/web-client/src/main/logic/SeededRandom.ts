@@ -0,0 +1,123 @@
+/**
+ * SeededRandom - Deterministic pseudo-random number generator
+ *
+ * Wraps a small 32-bit generator (mulberry32) so that any system that needs
+ * randomness (world generation, combat, AI) can reproduce the exact same
+ * sequence from the same seed. Only integer math is used, so results are
+ * identical across browsers and JS engines.
+ *
+ * Usage example:
+ * ```typescript
+ * const rng = new SeededRandom(1234);
+ * const roll = rng.nextInt(1, 6); // 1..6, same value every run for seed 1234
+ * const fork = rng.fork('combat'); // Independent stream derived from the same seed
+ * ```
+ */
+
+/**
+ * Hash an arbitrary seed (number or string) into an unsigned 32-bit integer
+ * A string of decimal digits counts as the number it spells, so a numeric seed
+ * read back from a URL or a log gives the same stream as the number itself.
+ * @param seed - Seed value (numbers are truncated, other strings are hashed with FNV-1a)
+ * @returns Unsigned 32-bit seed
+ */
+export function hashSeed(seed: number | string): number {
+    const value = typeof seed === 'string' && /^-?\d+$/.test(seed) ? Number(seed) : seed;
+    if (typeof value === 'number') {
+        return (Math.floor(value) >>> 0);
+    }
+
+    // FNV-1a string hash
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * SeededRandom - Reproducible random number stream
+ */
+export class SeededRandom {
+    private state: number;
+    private readonly seed: number;
+
+    /**
+     * Create a new SeededRandom
+     * @param seed - Seed value (number or string)
+     */
+    constructor(seed: number | string) {
+        this.seed = hashSeed(seed);
+        this.state = this.seed;
+    }
+
+    /**
+     * Get the normalized seed this generator was created with
+     * @returns Unsigned 32-bit seed
+     */
+    getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Get the next raw unsigned 32-bit value
+     * @returns Integer in [0, 2^32)
+     */
+    nextUint32(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return (t ^ (t >>> 14)) >>> 0;
+    }
+
+    /**
+     * Get the next float
+     * @returns Float in [0, 1)
+     */
+    next(): number {
+        return this.nextUint32() / 4294967296;
+    }
+
+    /**
+     * Get the next float in a range
+     * @param min - Inclusive lower bound
+     * @param max - Exclusive upper bound
+     * @returns Float in [min, max)
+     */
+    nextRange(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Get the next integer in a range
+     * @param min - Inclusive lower bound
+     * @param max - Inclusive upper bound
+     * @returns Integer in [min, max]
+     */
+    nextInt(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * Pick a random element from an array
+     * @param items - Array to pick from
+     * @returns A random element, or undefined if the array is empty
+     */
+    pick<T>(items: readonly T[]): T | undefined {
+        if (items.length === 0) return undefined;
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    /**
+     * Create an independent generator derived from this generator's seed
+     * Forks do not consume values from the parent stream, so adding a new
+     * consumer never changes the results of existing ones.
+     * @param salt - Name or number distinguishing the derived stream
+     * @returns New SeededRandom
+     */
+    fork(salt: number | string): SeededRandom {
+        return new SeededRandom(hashSeed(`${this.seed}:${salt}`));
+    }
+}
@@ -0,0 +1,271 @@
+/**
+ * SelectionController - Multi-unit selection, control groups and group moves
+ *
+ * The selection itself is the SELECTED state flag on units in the UnitRegistry
+ * (so it renders and is indexed like any other state); this class adds the
+ * operations on top of it: box selection over a tile region, toggling stacks
+ * in and out (shift-click), numbered control groups and moving a selection
+ * that spans several stacks.
+ *
+ * A group move sends each selected stack to its own tile of a formation around
+ * the destination: the stack closest to the destination takes the destination
+ * itself, the others the nearest free formation slots they can legally reach.
+ * Every stack move goes through MovementController, so terrain, paths, stack
+ * limits and movement points apply exactly as for single moves.
+ *
+ * Usage example:
+ * ```typescript
+ * const selection = new SelectionController(unitRegistry, movementController);
+ * selection.selectInRegion({ x: 4, y: 4, width: 6, height: 3 }, playerId); // Drag box
+ * selection.toggleStackAt({ x: 12, y: 8 }, playerId); // Shift-click
+ * selection.assignGroup(1); // Ctrl+1
+ * selection.recallGroup(1); // 1
+ * const moves = selection.moveSelection({ x: 20, y: 10 });
+ * ```
+ */
+
+import type { MovementController, MoveResult } from './MovementController';
+import { UnitState } from './UnitRegistry';
+import type { GridPosition, Unit, UnitRegistry } from './UnitRegistry';
+import type { TileRegion } from './WorldContainer';
+
+/**
+ * Number of control groups (keys 1-9)
+ */
+export const CONTROL_GROUP_COUNT = 9;
+
+/**
+ * How far (in tiles) formation slots reach from the destination
+ * Radius 2 gives 25 slots, enough for a full selection of separate stacks.
+ */
+export const FORMATION_RADIUS = 2;
+
+/**
+ * Outcome of moving one selected stack in a group move
+ */
+export interface FormationMove {
+    /** Units of the stack */
+    unitIds: number[];
+
+    /** Formation slot the stack moved to (the destination itself if it could not move) */
+    target: GridPosition;
+
+    /** Move result (on failure: why the stack could not reach the destination) */
+    result: MoveResult;
+}
+
+/**
+ * SelectionController - Selection operations on top of UnitRegistry
+ */
+export class SelectionController {
+    private registry: UnitRegistry;
+    private movement: MovementController;
+    private groups: Map<number, number[]> = new Map();
+
+    /**
+     * Create a new SelectionController
+     * @param registry - Unit registry holding the selection state
+     * @param movement - Movement controller used for group moves
+     */
+    constructor(registry: UnitRegistry, movement: MovementController) {
+        this.registry = registry;
+        this.movement = movement;
+    }
+
+    /**
+     * Get the selected unit IDs
+     * @returns Selected unit IDs in ascending order
+     */
+    getSelectedIds(): number[] {
+        return this.registry.getSelectedUnits().map(unit => unit.id).sort((a, b) => a - b);
+    }
+
+    /**
+     * Replace the selection
+     * @param unitIds - Units to select (unknown IDs are ignored)
+     */
+    select(unitIds: number[]): void {
+        this.registry.clearSelection();
+        unitIds.forEach(id => this.registry.setUnitState(id, UnitState.SELECTED, true));
+    }
+
+    /**
+     * Select a player's units inside a tile region
+     * @param region - Tiles covered by the selection box
+     * @param ownerId - Only this player's units are selected
+     * @param additive - Add to the current selection instead of replacing it
+     * @returns IDs of the units inside the region
+     */
+    selectInRegion(region: TileRegion, ownerId: number, additive: boolean = false): number[] {
+        const inside = this.registry.getUnitsByOwner(ownerId)
+            .filter(unit => isInRegion(unit.gridPos, region))
+            .map(unit => unit.id);
+
+        if (!additive) {
+            this.registry.clearSelection();
+        }
+        inside.forEach(id => this.registry.setUnitState(id, UnitState.SELECTED, true));
+        return inside;
+    }
+
+    /**
+     * Add a player's stack at a tile to the selection, or remove it if it is already fully selected
+     * @param pos - Tile clicked
+     * @param ownerId - Owner of the stack to toggle
+     * @returns true if the stack was added, false if it was removed or there is no stack
+     */
+    toggleStackAt(pos: GridPosition, ownerId: number): boolean {
+        const stack = this.registry.getStackAt(pos, ownerId);
+        if (stack.length === 0) return false;
+
+        const add = stack.some(unit => !(unit.state & UnitState.SELECTED));
+        stack.forEach(unit => this.registry.setUnitState(unit.id, UnitState.SELECTED, add));
+        return add;
+    }
+
+    /**
+     * Store the current selection as a control group
+     * @param group - Group number (1 to CONTROL_GROUP_COUNT)
+     * @returns Number of units in the group (an empty selection clears the group)
+     */
+    assignGroup(group: number): number {
+        this.assertGroup(group);
+        const unitIds = this.getSelectedIds();
+        if (unitIds.length === 0) {
+            this.groups.delete(group);
+        } else {
+            this.groups.set(group, unitIds);
+        }
+        return unitIds.length;
+    }
+
+    /**
+     * Select a control group
+     * Units that no longer exist are dropped from the group.
+     * @param group - Group number (1 to CONTROL_GROUP_COUNT)
+     * @returns IDs of the selected units (empty if the group is unassigned; the selection is then unchanged)
+     */
+    recallGroup(group: number): number[] {
+        const unitIds = this.getGroup(group);
+        if (unitIds.length > 0) {
+            this.select(unitIds);
+        }
+        return unitIds;
+    }
+
+    /**
+     * Get a control group's units
+     * @param group - Group number (1 to CONTROL_GROUP_COUNT)
+     * @returns IDs of the group's living units
+     */
+    getGroup(group: number): number[] {
+        this.assertGroup(group);
+        const unitIds = (this.groups.get(group) ?? []).filter(id => this.registry.hasUnit(id));
+        if (unitIds.length === 0) {
+            this.groups.delete(group);
+        } else {
+            this.groups.set(group, unitIds);
+        }
+        return unitIds;
+    }
+
+    /**
+     * Split the selection into the stacks it covers
+     * @returns Selected unit IDs grouped by tile and owner, each group in ascending ID order
+     */
+    getSelectedStacks(): number[][] {
+        const stacks = new Map<string, number[]>();
+        for (const unit of this.registry.getSelectedUnits()) {
+            const key = `${unit.ownerId}:${unit.gridPos.x},${unit.gridPos.y}`;
+            const stack = stacks.get(key) ?? [];
+            stack.push(unit.id);
+            stacks.set(key, stack);
+        }
+        return Array.from(stacks.values()).map(ids => ids.sort((a, b) => a - b));
+    }
+
+    /**
+     * Move every selected stack towards a destination in formation
+     * Stacks are handled nearest first; each takes the closest formation slot it
+     * can legally move to, so stacks end on separate tiles. A stack that can reach
+     * no slot stays where it is and reports why it could not reach the destination.
+     * @param target - Destination tile (the formation's center)
+     * @returns One entry per selected stack
+     */
+    moveSelection(target: GridPosition): FormationMove[] {
+        const stacks = this.getSelectedStacks()
+            .map(unitIds => ({ unitIds, pos: (this.registry.getUnit(unitIds[0]) as Unit).gridPos }))
+            .sort((a, b) => distance(a.pos, target) - distance(b.pos, target));
+        const slots = getFormationOffsets(FORMATION_RADIUS).map(([dx, dy]) => ({ x: target.x + dx, y: target.y + dy }));
+        const taken = new Set<number>();
+        const moves: FormationMove[] = [];
+
+        for (const { unitIds } of stacks) {
+            let rejection: MoveResult | null = null;
+            let move: FormationMove | null = null;
+
+            for (let i = 0; i < slots.length && !move; i++) {
+                if (taken.has(i)) continue;
+                const plan = this.movement.planStackMove(unitIds, slots[i]);
+                if (plan.success) {
+                    taken.add(i);
+                    move = { unitIds, target: slots[i], result: this.movement.moveStack(unitIds, slots[i]) };
+                } else {
+                    rejection ??= plan;
+                }
+            }
+
+            moves.push(move ?? { unitIds, target: { ...target }, result: rejection! });
+        }
+
+        return moves;
+    }
+
+    /**
+     * Throw if a group number is out of range
+     */
+    private assertGroup(group: number): void {
+        if (!Number.isInteger(group) || group < 1 || group > CONTROL_GROUP_COUNT) {
+            throw new Error(`Control group must be 1-${CONTROL_GROUP_COUNT}, got ${group}`);
+        }
+    }
+}
+
+/**
+ * Formation slots around a destination, nearest first
+ * Ordered by ring (Chebyshev distance), then straight-line distance, then
+ * clockwise from north, so the layout is the same on every client.
+ * @param radius - Rings around the center
+ * @returns [dx, dy] offsets, starting with [0, 0]
+ */
+export function getFormationOffsets(radius: number): [number, number][] {
+    const offsets: [number, number][] = [];
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            offsets.push([dx, dy]);
+        }
+    }
+
+    const ring = ([dx, dy]: [number, number]) => Math.max(Math.abs(dx), Math.abs(dy));
+    const angle = ([dx, dy]: [number, number]) => (Math.atan2(dx, dy) + 2 * Math.PI) % (2 * Math.PI);
+    return offsets.sort((a, b) =>
+        ring(a) - ring(b) ||
+        Math.hypot(...a) - Math.hypot(...b) ||
+        angle(a) - angle(b)
+    );
+}
+
+/**
+ * Check if a tile lies inside a region
+ */
+function isInRegion(pos: GridPosition, region: TileRegion): boolean {
+    return pos.x >= region.x && pos.x < region.x + region.width &&
+           pos.y >= region.y && pos.y < region.y + region.height;
+}
+
+/**
+ * Chebyshev distance between two tiles (diagonal steps count as one)
+ */
+function distance(a: GridPosition, b: GridPosition): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
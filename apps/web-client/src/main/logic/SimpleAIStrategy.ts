@@ -0,0 +1,289 @@
+/**
+ * SimpleAIStrategy - A straightforward computer opponent
+ *
+ * Each turn, in this order:
+ *
+ *     1. Build  - every city with an empty queue orders the strongest unit per
+ *                 gold it can afford
+ *     2. Defend - every city keeps a garrison; an empty city calls the nearest
+ *                 free stack that can reach it this turn
+ *     3. Attack - free stacks attack visible enemy stacks they clearly outmatch
+ *                 (own power > enemy power with the tile's defense bonus, times
+ *                 a safety margin), weakest target first
+ *     4. Expand - other free stacks march on the nearest known city they could
+ *                 take, or explore towards unexplored land, or - once there is
+ *                 nothing left to explore - hunt the nearest weaker enemy stack
+ *
+ * Treaty offers: peace is accepted from players the AI cannot clearly beat
+ * (their visible power times the attack margin at least matches its own);
+ * alliances are always turned down.
+ *
+ * Every decision is made in ID order from the AIGameView, so the same game
+ * state always produces the same orders (AI-vs-AI games replay exactly).
+ *
+ * Usage example:
+ * ```typescript
+ * const ai = new AIPlayer(2, new SimpleAIStrategy({ attackMargin: 2 }), deps);
+ * ```
+ */
+
+import type { AIGameView, AIOrders, AIStrategy } from './AIPlayer';
+import type { GridPosition, Unit } from './UnitRegistry';
+import type { City } from './CityRegistry';
+import { DiplomaticState } from './DiplomacySystem';
+import type { TreatyProposal } from './DiplomacySystem';
+
+/**
+ * Tuning of the simple strategy (serializable, e.g. loaded from JSON)
+ */
+export interface SimpleAIRules {
+    /** Units each city keeps at home */
+    garrisonSize: number;
+
+    /** How much stronger (power ratio) a stack must be before it attacks */
+    attackMargin: number;
+
+    /** Gold kept back when ordering units (for upkeep) */
+    goldReserve: number;
+
+    /** Radius used to score how much unexplored land a tile reveals */
+    exploreRadius: number;
+}
+
+/**
+ * Default tuning
+ */
+export const DEFAULT_SIMPLE_AI_RULES: SimpleAIRules = {
+    garrisonSize: 1,
+    attackMargin: 1.5,
+    goldReserve: 10,
+    exploreRadius: 3,
+};
+
+/**
+ * Chebyshev distance between two tiles (diagonal steps count as one)
+ */
+function distance(a: GridPosition, b: GridPosition): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+/**
+ * SimpleAIStrategy - Expand, defend cities, attack weak stacks
+ */
+export class SimpleAIStrategy implements AIStrategy {
+    readonly name = 'simple';
+    private rules: SimpleAIRules;
+
+    /**
+     * Create a new SimpleAIStrategy
+     * @param rules - Tuning (missing values come from DEFAULT_SIMPLE_AI_RULES)
+     */
+    constructor(rules: Partial<SimpleAIRules> = {}) {
+        this.rules = { ...DEFAULT_SIMPLE_AI_RULES, ...rules };
+    }
+
+    /**
+     * Give this turn's orders
+     * @param view - What the player knows
+     * @param orders - Validated order API
+     */
+    playTurn(view: AIGameView, orders: AIOrders): void {
+        this.build(view, orders);
+
+        const reserved = this.defend(view, orders);
+        for (const stack of view.getOwnStacks()) {
+            const unitIds = stack.units.map(unit => unit.id).filter(id => !reserved.has(id));
+            if (unitIds.length === 0) continue;
+
+            if (!this.attack(view, orders, unitIds, stack.pos)) {
+                this.expand(view, orders, unitIds, stack.pos);
+            }
+        }
+    }
+
+    /**
+     * Accept peace from players the AI cannot clearly beat, never an alliance
+     * @param view - What the player knows
+     * @param proposal - The offer
+     * @returns true to accept
+     */
+    answerProposal(view: AIGameView, proposal: TreatyProposal): boolean {
+        if (proposal.state !== DiplomaticState.PEACE) return false;
+
+        const ownPower = view.getPower(view.getOwnStacks().flatMap(stack => stack.units));
+        const theirPower = view.getPower(view.getVisibleEnemyStacks()
+            .filter(stack => stack.ownerId === proposal.from)
+            .flatMap(stack => stack.units));
+        return ownPower <= theirPower * this.rules.attackMargin;
+    }
+
+    /**
+     * Order the best affordable unit in every idle city
+     */
+    private build(view: AIGameView, orders: AIOrders): void {
+        const types = view.getBuildableTypes()
+            .sort((a, b) => (b.strength / b.cost - a.strength / a.cost) || (a.id - b.id));
+
+        for (const city of view.getOwnCities()) {
+            if (view.getQueue(city.id).length > 0) continue;
+
+            const type = types.find(candidate => candidate.cost + this.rules.goldReserve <= view.getTreasury());
+            if (type) orders.orderUnit(city.id, type.id);
+        }
+    }
+
+    /**
+     * Keep a garrison in every city
+     * @returns IDs of the units that stay put this turn
+     */
+    private defend(view: AIGameView, orders: AIOrders): Set<number> {
+        const reserved = new Set<number>();
+        const cities = view.getOwnCities();
+
+        // Units already inside a city stay there, up to the garrison size
+        for (const city of cities) {
+            this.getGarrison(view, city).slice(0, this.rules.garrisonSize).forEach(unit => reserved.add(unit.id));
+        }
+
+        // Empty cities call the nearest free stack that can get there this turn
+        for (const city of cities) {
+            if (this.getGarrison(view, city).length > 0) continue;
+
+            const candidates = view.getOwnStacks()
+                .map(stack => ({ stack, unitIds: stack.units.map(unit => unit.id).filter(id => !reserved.has(id)) }))
+                .filter(({ unitIds }) => unitIds.length > 0)
+                .sort((a, b) => distance(a.stack.pos, city.pos) - distance(b.stack.pos, city.pos));
+
+            for (const { unitIds } of candidates) {
+                const reachable = view.getReachableTiles(unitIds);
+                const tile = view.getFootprint(city.id).find(pos => reachable?.has(pos) && view.hasRoom(pos, unitIds.length));
+                if (!tile) continue;
+
+                if (orders.move(unitIds, tile).type === 'moved') {
+                    unitIds.forEach(id => reserved.add(id));
+                    break;
+                }
+            }
+        }
+
+        return reserved;
+    }
+
+    /**
+     * Attack the weakest visible enemy stack this stack clearly outmatches and can reach this turn
+     * @returns true if the stack attacked
+     */
+    private attack(view: AIGameView, orders: AIOrders, unitIds: number[], pos: GridPosition): boolean {
+        const attackers = view.getOwnUnitsAt(pos).filter(unit => unitIds.includes(unit.id));
+        const power = view.getPower(attackers);
+        const reachable = view.getReachableTiles(unitIds);
+        if (!reachable) return false;
+
+        const movementPoints = Math.min(...attackers.map(unit => unit.movementPoints));
+        const targets = view.getVisibleEnemyStacks()
+            .map(stack => ({ stack, power: view.getPower(stack.units, view.getTileDefenseBonus(stack.pos)) }))
+            .filter(target => power > target.power * this.rules.attackMargin)
+            .sort((a, b) => (a.power - b.power) || (distance(pos, a.stack.pos) - distance(pos, b.stack.pos)));
+
+        for (const { stack } of targets) {
+            // Stand next to the target with movement left to attack
+            const launch = this.getNeighbours(stack.pos)
+                .filter(tile => (tile.x === pos.x && tile.y === pos.y) ||
+                    (reachable.has(tile) && reachable.getCost(tile)! < movementPoints && view.hasRoom(tile, unitIds.length)))
+                .sort((a, b) => (reachable.getCost(a) ?? 0) - (reachable.getCost(b) ?? 0))[0];
+            if (!launch) continue;
+
+            if ((launch.x !== pos.x || launch.y !== pos.y) && orders.move(unitIds, launch).type !== 'moved') continue;
+            return orders.attack(unitIds, stack.pos).type === 'attacked';
+        }
+        return false;
+    }
+
+    /**
+     * March on the nearest city worth taking, otherwise explore
+     */
+    private expand(view: AIGameView, orders: AIOrders, unitIds: number[], pos: GridPosition): void {
+        const attackers = view.getOwnUnitsAt(pos).filter(unit => unitIds.includes(unit.id));
+        const power = view.getPower(attackers);
+
+        const target = view.getKnownCities()
+            .filter(city => {
+                const defenders = this.getVisibleDefenders(view, city);
+                return power > view.getPower(defenders, view.getTileDefenseBonus(city.pos)) * this.rules.attackMargin;
+            })
+            .sort((a, b) => (distance(pos, a.pos) - distance(pos, b.pos)) || (a.id - b.id))[0];
+
+        const prey = view.getVisibleEnemyStacks()
+            .filter(stack => power > view.getPower(stack.units, view.getTileDefenseBonus(stack.pos)) * this.rules.attackMargin)
+            .sort((a, b) => (distance(pos, a.pos) - distance(pos, b.pos)) || (a.units[0].id - b.units[0].id))[0];
+
+        const destination = target?.pos ?? this.findExploreTarget(view, unitIds, pos) ?? prey?.pos;
+        if (!destination) return;
+
+        // Defended cities are fought over by attack() once the stack stands next to them
+        const step = this.stepTowards(view, unitIds, destination);
+        if (step) orders.move(unitIds, step);
+    }
+
+    /**
+     * Pick the reachable tile that reveals the most unexplored land
+     */
+    private findExploreTarget(view: AIGameView, unitIds: number[], pos: GridPosition): GridPosition | null {
+        const reachable = view.getReachableTiles(unitIds);
+        if (!reachable) return null;
+
+        let best: GridPosition | null = null;
+        let bestScore = 0;
+        for (const tile of reachable.getTiles()) {
+            if (!view.hasRoom(tile, unitIds.length)) continue;
+
+            const score = view.countUnexplored(tile, this.rules.exploreRadius);
+            if (score > bestScore || (score === bestScore && best && distance(pos, tile) > distance(pos, best))) {
+                best = tile;
+                bestScore = score;
+            }
+        }
+        return bestScore > 0 ? best : null;
+    }
+
+    /**
+     * Get the furthest tile along the path to a destination the stack can reach this turn
+     */
+    private stepTowards(view: AIGameView, unitIds: number[], destination: GridPosition): GridPosition | null {
+        const reachable = view.getReachableTiles(unitIds);
+        const path = view.findPath(unitIds, destination);
+        if (!reachable || !path) return null;
+
+        for (let i = path.length - 1; i >= 0; i--) {
+            if (reachable.has(path[i]) && view.hasRoom(path[i], unitIds.length)) return path[i];
+        }
+        return null;
+    }
+
+    /**
+     * Get the player's units inside a city
+     */
+    private getGarrison(view: AIGameView, city: City): Unit[] {
+        return view.getFootprint(city.id).flatMap(pos => view.getOwnUnitsAt(pos));
+    }
+
+    /**
+     * Get the enemy units the player can see inside a city
+     */
+    private getVisibleDefenders(view: AIGameView, city: City): Unit[] {
+        return view.getFootprint(city.id).flatMap(pos => view.getVisibleEnemiesAt(pos));
+    }
+
+    /**
+     * Get the 8 tiles around a tile
+     */
+    private getNeighbours(pos: GridPosition): GridPosition[] {
+        const tiles: GridPosition[] = [];
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                if (dx !== 0 || dy !== 0) tiles.push({ x: pos.x + dx, y: pos.y + dy });
+            }
+        }
+        return tiles;
+    }
+}
@@ -0,0 +1,271 @@
+/**
+ * TurnManager - Turn order, active player and turn phases
+ *
+ * Players take turns in a fixed order; the turn number goes up each time the
+ * order wraps around to the first player (a Warlords "turn" is one round).
+ * Each player's turn runs through phases:
+ *
+ *     START  - start-of-turn upkeep (movement points, income); listeners of
+ *              phaseChanged do the work, then the turn moves on by itself
+ *     ORDERS - the active player moves, attacks and builds
+ *     END    - end-of-turn resolution (production), then the next player's turn
+ *
+ * Only the active player may give orders, and only in the ORDERS phase:
+ * canCommand() is what MovementController and the input handlers check.
+ *
+ * In hot-seat mode (several human players on one machine) a human player's
+ * turn begins in the WAITING phase, so the previous player's view can be
+ * hidden until the next player has taken the seat and calls beginTurn().
+ *
+ * Usage example:
+ * ```typescript
+ * const turns = new TurnManager([{ id: 1, name: 'Sirians', kind: 'human' }, { id: 2, name: 'Storm Giants', kind: 'human' }], { hotSeat: true });
+ * turns.on('phaseChanged', ({ phase, playerId }) => { if (phase === TurnPhase.START) economy.processTurn(playerId); });
+ * turns.start(); // Turn 1, player 1 (WAITING in hot-seat mode)
+ * turns.beginTurn(); // Player 1 has the seat: START, then ORDERS
+ * turns.canCommand(1); // true
+ * turns.endTurn(); // END for player 1, then player 2 is up
+ * ```
+ */
+
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+
+/**
+ * Phase of the active player's turn
+ */
+export enum TurnPhase {
+    WAITING = 'WAITING', // Not started yet, or (hot-seat) waiting for the player to take the seat
+    START = 'START',
+    ORDERS = 'ORDERS',
+    END = 'END',
+}
+
+/**
+ * Who plays a player's turns
+ */
+export type PlayerKind = 'human' | 'ai';
+
+/**
+ * A player in the turn order
+ */
+export interface TurnPlayer {
+    /** Player ID (the ownerId of their units and cities) */
+    id: number;
+
+    /** Display name */
+    name: string;
+
+    /** Human or computer player */
+    kind: PlayerKind;
+}
+
+/**
+ * Options for creating a TurnManager
+ */
+export interface TurnManagerOptions {
+    /** Several human players share this machine (default: false) */
+    hotSeat?: boolean;
+}
+
+/**
+ * Events emitted by TurnManager (event name -> payload)
+ */
+export interface TurnEvents {
+    /** The active player's turn entered a new phase */
+    phaseChanged: { turnNumber: number; playerId: number; phase: TurnPhase };
+
+    /** A player's upkeep is done and they can give orders */
+    turnStarted: { turnNumber: number; playerId: number };
+
+    /** A player's turn is over (end-of-turn resolution is done) */
+    turnEnded: { turnNumber: number; playerId: number };
+}
+
+/**
+ * TurnManager - Tracks whose turn it is
+ */
+export class TurnManager {
+    private players: TurnPlayer[];
+    private hotSeat: boolean;
+    private activeIndex: number = 0;
+    private turnNumber: number = 0;
+    private phase: TurnPhase = TurnPhase.WAITING;
+    private events: EventEmitter<TurnEvents> = new EventEmitter();
+
+    /**
+     * Create a new TurnManager
+     * @param players - Players in turn order
+     * @param options - Hot-seat mode
+     * @throws Error if there are no players or player IDs repeat
+     */
+    constructor(players: TurnPlayer[], options: TurnManagerOptions = {}) {
+        if (players.length === 0) {
+            throw new Error('A game needs at least one player');
+        }
+        const ids = new Set(players.map(player => player.id));
+        if (ids.size !== players.length) {
+            throw new Error(`Player IDs must be unique, got ${players.map(player => player.id).join(', ')}`);
+        }
+
+        this.players = players.map(player => ({ ...player }));
+        this.hotSeat = options.hotSeat ?? false;
+    }
+
+    /**
+     * Subscribe to turn events
+     * @param type - Event name
+     * @param listener - Called with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof TurnEvents>(type: K, listener: EventListener<TurnEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from turn events
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof TurnEvents>(type: K, listener: EventListener<TurnEvents[K]>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Start the game: turn 1 of the first player
+     * @throws Error if the game has already started
+     */
+    start(): void {
+        if (this.turnNumber > 0) {
+            throw new Error('The game has already started');
+        }
+        this.turnNumber = 1;
+        this.activeIndex = 0;
+        this.enterTurn();
+    }
+
+    /**
+     * Take the seat in hot-seat mode: run the waiting player's start-of-turn upkeep and give them the orders phase
+     * @returns true if the turn began, false if no player is waiting
+     */
+    beginTurn(): boolean {
+        if (this.turnNumber === 0 || this.phase !== TurnPhase.WAITING) return false;
+
+        this.runStartPhase();
+        return true;
+    }
+
+    /**
+     * End the active player's turn: run end-of-turn resolution and hand over to the next player
+     * @returns true if the turn ended, false if the active player is not in the orders phase
+     */
+    endTurn(): boolean {
+        if (this.phase !== TurnPhase.ORDERS) return false;
+
+        const { turnNumber } = this;
+        const playerId = this.getActivePlayerId();
+        this.setPhase(TurnPhase.END);
+        this.events.emit('turnEnded', { turnNumber, playerId });
+
+        this.activeIndex = (this.activeIndex + 1) % this.players.length;
+        if (this.activeIndex === 0) {
+            this.turnNumber++;
+        }
+        this.enterTurn();
+        return true;
+    }
+
+    /**
+     * Check if a player may give orders right now
+     * @param playerId - Player ID (e.g. the owner of the units being ordered)
+     * @returns true if it is the player's turn and the orders phase
+     */
+    canCommand(playerId: number): boolean {
+        return this.phase === TurnPhase.ORDERS && playerId === this.getActivePlayerId();
+    }
+
+    /**
+     * Get the current turn number
+     * @returns Turn number (1 on the first turn, 0 before start())
+     */
+    getTurnNumber(): number {
+        return this.turnNumber;
+    }
+
+    /**
+     * Get the current phase
+     * @returns Phase of the active player's turn
+     */
+    getPhase(): TurnPhase {
+        return this.phase;
+    }
+
+    /**
+     * Get the player whose turn it is
+     * @returns Active player (the first player before start())
+     */
+    getActivePlayer(): TurnPlayer {
+        return this.players[this.activeIndex];
+    }
+
+    /**
+     * Get the ID of the player whose turn it is
+     * @returns Active player ID
+     */
+    getActivePlayerId(): number {
+        return this.players[this.activeIndex].id;
+    }
+
+    /**
+     * Get a player
+     * @param playerId - Player ID
+     * @returns Player or undefined if not in the turn order
+     */
+    getPlayer(playerId: number): TurnPlayer | undefined {
+        return this.players.find(player => player.id === playerId);
+    }
+
+    /**
+     * Get all players
+     * @returns Players in turn order
+     */
+    getPlayers(): TurnPlayer[] {
+        return this.players.map(player => ({ ...player }));
+    }
+
+    /**
+     * Check if several human players share this machine
+     * @returns true in hot-seat mode
+     */
+    isHotSeat(): boolean {
+        return this.hotSeat;
+    }
+
+    /**
+     * Begin the active player's turn, or wait for them to take the seat (hot-seat humans)
+     */
+    private enterTurn(): void {
+        if (this.hotSeat && this.getActivePlayer().kind === 'human') {
+            this.setPhase(TurnPhase.WAITING);
+            return;
+        }
+        this.runStartPhase();
+    }
+
+    /**
+     * Run start-of-turn upkeep, then open the orders phase
+     */
+    private runStartPhase(): void {
+        this.setPhase(TurnPhase.START);
+        this.setPhase(TurnPhase.ORDERS);
+        this.events.emit('turnStarted', { turnNumber: this.turnNumber, playerId: this.getActivePlayerId() });
+    }
+
+    /**
+     * Change phase and announce it
+     */
+    private setPhase(phase: TurnPhase): void {
+        this.phase = phase;
+        this.events.emit('phaseChanged', { turnNumber: this.turnNumber, playerId: this.getActivePlayerId(), phase });
+    }
+}
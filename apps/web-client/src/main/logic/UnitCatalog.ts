@@ -0,0 +1,343 @@
+/**
+ * UnitCatalog - Data-driven unit type definitions
+ *
+ * Every unit type - its name, stats, costs, the terrain it may enter and how it
+ * looks - is plain data, loaded from JSON (main/data/unitTypes.json by default).
+ * Designers add a unit type by adding an entry; no enum or shader changes are
+ * needed. Unit type IDs are the numbers stored in Unit.unitType and sent to the
+ * GPU, so they must be unique non-negative integers.
+ *
+ * The catalog feeds UnitRegistry.addUnit defaults, the movement cost table, the
+ * economy's upkeep and the renderer's per-type appearance buffer.
+ *
+ * Usage example:
+ * ```typescript
+ * const catalog = new UnitCatalog(json as UnitCatalogData); // Throws if the data is invalid
+ * catalog.getByKey('cavalry')?.movement; // 5
+ * const costs = new MovementCostTable(catalog.getMovementCostData(DEFAULT_TERRAIN_COSTS));
+ * const appearance = catalog.getAppearanceData(); // Float32Array for the worker
+ * ```
+ */
+
+import { TerrainType } from './WorldContainer';
+import type { MovementCostData, TerrainCostRow } from './MovementCosts';
+import { UNIT_APPEARANCE_STRIDE, UNIT_SPRITES } from '../../shared/unitAppearance';
+import type { UnitSprite } from '../../shared/unitAppearance';
+import defaultUnitTypes from '../data/unitTypes.json';
+
+/**
+ * Unit type ID (Unit.unitType); see the catalog for what each ID means
+ */
+export type UnitTypeId = number;
+
+/**
+ * Terrain name as written in JSON (a TerrainType key, e.g. "FOREST")
+ */
+export type TerrainName = keyof typeof TerrainType;
+
+/**
+ * How a unit type is drawn
+ */
+export interface UnitAppearance {
+    /** RGB color (0-1) */
+    color: [number, number, number];
+
+    /** Marker shape */
+    sprite: UnitSprite;
+}
+
+/**
+ * One unit type
+ */
+export interface UnitTypeDefinition {
+    /** Unique ID stored on units and sent to the GPU */
+    id: UnitTypeId;
+
+    /** Stable identifier for scripts and scenarios, e.g. "cavalry" */
+    key: string;
+
+    /** Display name */
+    name: string;
+
+    /** Units of this type are heroes (they gain experience and carry items, see HeroSystem) */
+    hero?: boolean;
+
+    /** Maximum hit points */
+    hp: number;
+
+    /** Base combat strength */
+    strength: number;
+
+    /** Movement points per turn */
+    movement: number;
+
+    /** Sight radius in tiles */
+    sight: number;
+
+    /** Gold to produce one unit */
+    cost: number;
+
+    /** Turns a city needs to produce one unit */
+    buildTurns: number;
+
+    /** Gold per turn to maintain one unit */
+    upkeep: number;
+
+    /** Terrain the unit may enter (others are impassable) */
+    allowedTerrain: TerrainName[];
+
+    /** Costs that differ from the default terrain costs */
+    terrainCosts?: Partial<Record<TerrainName, number>>;
+
+    /** How the unit is drawn */
+    appearance: UnitAppearance;
+}
+
+/**
+ * Unit catalog file format
+ */
+export interface UnitCatalogData {
+    /** Format version */
+    version: number;
+
+    /** All unit types */
+    unitTypes: UnitTypeDefinition[];
+}
+
+/**
+ * Unit catalog format version this code reads
+ */
+export const UNIT_CATALOG_VERSION = 1;
+
+/**
+ * UnitCatalog - Lookup of unit type definitions by ID and key
+ */
+export class UnitCatalog {
+    private types: Map<UnitTypeId, UnitTypeDefinition>;
+    private typesByKey: Map<string, UnitTypeDefinition>;
+
+    /**
+     * Create a new UnitCatalog
+     * @param data - Catalog data (e.g. parsed JSON)
+     * @throws Error listing every problem if the data is invalid
+     */
+    constructor(data: UnitCatalogData) {
+        const errors = UnitCatalog.validate(data);
+        if (errors.length > 0) {
+            throw new Error(`Invalid unit catalog:\n${errors.join('\n')}`);
+        }
+
+        this.types = new Map();
+        this.typesByKey = new Map();
+        for (const type of data.unitTypes) {
+            this.types.set(type.id, type);
+            this.typesByKey.set(type.key, type);
+        }
+    }
+
+    /**
+     * Check catalog data for problems
+     * @param data - Catalog data to check
+     * @returns Human-readable problems (empty if the data is valid)
+     */
+    static validate(data: UnitCatalogData): string[] {
+        const errors: string[] = [];
+        if (data?.version !== UNIT_CATALOG_VERSION) {
+            errors.push(`Unsupported version ${data?.version} (expected ${UNIT_CATALOG_VERSION})`);
+        }
+        if (!Array.isArray(data?.unitTypes)) {
+            errors.push('unitTypes must be an array');
+            return errors;
+        }
+
+        const ids = new Set<number>();
+        const keys = new Set<string>();
+        const isTerrain = (name: string): boolean => name in TerrainType && isNaN(Number(name));
+        const isNonNegative = (value: unknown): boolean => typeof value === 'number' && value >= 0;
+
+        data.unitTypes.forEach((type, index) => {
+            const where = `unitTypes[${index}] (${type?.key ?? 'no key'})`;
+
+            if (!Number.isInteger(type.id) || type.id < 0) errors.push(`${where}: id must be a non-negative integer`);
+            else if (ids.has(type.id)) errors.push(`${where}: duplicate id ${type.id}`);
+            ids.add(type.id);
+
+            if (typeof type.key !== 'string' || type.key === '') errors.push(`${where}: key is required`);
+            else if (keys.has(type.key)) errors.push(`${where}: duplicate key "${type.key}"`);
+            keys.add(type.key);
+
+            if (typeof type.name !== 'string' || type.name === '') errors.push(`${where}: name is required`);
+            if (type.hero !== undefined && typeof type.hero !== 'boolean') errors.push(`${where}: hero must be true or false`);
+            if (!(type.hp > 0)) errors.push(`${where}: hp must be positive`);
+
+            for (const field of ['strength', 'movement', 'sight', 'cost', 'upkeep'] as const) {
+                if (!isNonNegative(type[field])) errors.push(`${where}: ${field} must be a non-negative number`);
+            }
+            if (!Number.isInteger(type.buildTurns) || type.buildTurns < 1) errors.push(`${where}: buildTurns must be a positive integer`);
+
+            if (!Array.isArray(type.allowedTerrain)) {
+                errors.push(`${where}: allowedTerrain must be an array`);
+            } else {
+                type.allowedTerrain
+                    .filter(name => !isTerrain(name))
+                    .forEach(name => errors.push(`${where}: unknown terrain "${name}"`));
+            }
+
+            for (const [name, cost] of Object.entries(type.terrainCosts ?? {})) {
+                if (!isTerrain(name)) errors.push(`${where}: unknown terrain "${name}" in terrainCosts`);
+                if (!(typeof cost === 'number' && cost > 0)) errors.push(`${where}: terrain cost for ${name} must be positive`);
+            }
+
+            const color = type.appearance?.color;
+            if (!Array.isArray(color) || color.length !== 3 || color.some(c => typeof c !== 'number' || c < 0 || c > 1)) {
+                errors.push(`${where}: appearance.color must be [r, g, b] with values 0-1`);
+            }
+            if (!UNIT_SPRITES.includes(type.appearance?.sprite)) {
+                errors.push(`${where}: appearance.sprite must be one of ${UNIT_SPRITES.join(', ')}`);
+            }
+        });
+
+        return errors;
+    }
+
+    /**
+     * Get a unit type by ID
+     * @param id - Unit type ID
+     * @returns Definition or undefined if the catalog has no such type
+     */
+    get(id: UnitTypeId): UnitTypeDefinition | undefined {
+        return this.types.get(id);
+    }
+
+    /**
+     * Get a unit type by key
+     * @param key - Unit type key, e.g. "archer"
+     * @returns Definition or undefined if the catalog has no such type
+     */
+    getByKey(key: string): UnitTypeDefinition | undefined {
+        return this.typesByKey.get(key);
+    }
+
+    /**
+     * Check if a unit type exists
+     * @param id - Unit type ID
+     * @returns true if the catalog defines the type
+     */
+    has(id: UnitTypeId): boolean {
+        return this.types.has(id);
+    }
+
+    /**
+     * Check if a unit type is a hero type
+     * @param id - Unit type ID
+     * @returns true if the type is marked as hero (false for unknown types)
+     */
+    isHero(id: UnitTypeId): boolean {
+        return this.types.get(id)?.hero === true;
+    }
+
+    /**
+     * Check if a unit type may stand on a terrain type (its allowedTerrain)
+     * @param id - Unit type ID
+     * @param terrain - Terrain type
+     * @returns true if allowed (false for unknown types)
+     */
+    allowsTerrain(id: UnitTypeId, terrain: TerrainType): boolean {
+        return this.types.get(id)?.allowedTerrain.includes(TerrainType[terrain] as TerrainName) === true;
+    }
+
+    /**
+     * Get all unit types
+     * @returns Definitions ordered by ID
+     */
+    getAll(): UnitTypeDefinition[] {
+        return Array.from(this.types.values()).sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Get the number of unit types
+     * @returns Number of unit types
+     */
+    getCount(): number {
+        return this.types.size;
+    }
+
+    /**
+     * Get a unit type's display name
+     * @param id - Unit type ID
+     * @returns Name, or "Unit type <id>" for unknown types
+     */
+    getName(id: UnitTypeId): string {
+        return this.types.get(id)?.name ?? `Unit type ${id}`;
+    }
+
+    /**
+     * Build movement cost data from the catalog's terrain rules
+     * Terrain a type may not enter becomes impassable for it; terrainCosts
+     * replace the default cost. Terrain that is impassable by default stays
+     * impassable unless the type lists it and gives it a cost.
+     * @param terrain - Default cost to enter each terrain type
+     * @returns Movement cost data for a MovementCostTable
+     */
+    getMovementCostData(terrain: Record<TerrainType, number | null>): MovementCostData {
+        const terrainNames = Object.keys(TerrainType).filter(name => isNaN(Number(name))) as TerrainName[];
+        const unitOverrides: Record<UnitTypeId, TerrainCostRow> = {};
+
+        for (const type of this.types.values()) {
+            const row: TerrainCostRow = {};
+            for (const name of terrainNames) {
+                const terrainType = TerrainType[name];
+                const override = type.terrainCosts?.[name];
+                if (!type.allowedTerrain.includes(name)) {
+                    row[terrainType] = null;
+                } else if (override !== undefined) {
+                    row[terrainType] = override;
+                }
+            }
+            unitOverrides[type.id] = row;
+        }
+
+        return { terrain: { ...terrain }, unitOverrides };
+    }
+
+    /**
+     * Get the upkeep of every unit type
+     * @returns Unit type ID -> gold per turn
+     */
+    getUpkeepTable(): Record<UnitTypeId, number> {
+        const upkeep: Record<UnitTypeId, number> = {};
+        for (const type of this.types.values()) {
+            upkeep[type.id] = type.upkeep;
+        }
+        return upkeep;
+    }
+
+    /**
+     * Pack every type's appearance for the GPU lookup buffer
+     * Layout: [r, g, b, spriteId] per unit type ID (see UNIT_APPEARANCE_STRIDE);
+     * IDs the catalog skips get spriteId -1.
+     * @returns Float32Array indexed by unit type ID
+     */
+    getAppearanceData(): Float32Array {
+        const maxId = Math.max(-1, ...this.types.keys());
+        const data = new Float32Array((maxId + 1) * UNIT_APPEARANCE_STRIDE);
+
+        for (let id = 0; id <= maxId; id++) {
+            const offset = id * UNIT_APPEARANCE_STRIDE;
+            const type = this.types.get(id);
+            if (!type) {
+                data.set([1, 1, 1, -1], offset);
+                continue;
+            }
+            const [r, g, b] = type.appearance.color;
+            data.set([r, g, b, UNIT_SPRITES.indexOf(type.appearance.sprite)], offset);
+        }
+
+        return data;
+    }
+}
+
+/**
+ * Catalog of the built-in unit types (main/data/unitTypes.json)
+ */
+export const DEFAULT_UNIT_CATALOG = new UnitCatalog(defaultUnitTypes as UnitCatalogData);
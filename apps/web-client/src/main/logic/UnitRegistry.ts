@@ -3,27 +3,63 @@
  * 
  * This class stores units with gameplay fields and provides a sync system
  * to send only the visual representation data to the worker thread.
+ * New units take their stats from the unit catalog unless they are given explicitly.
+ *
+ * Tile, owner and selection queries are answered from indexes (a tile -> unit
+ * spatial hash, owner -> units and the selected set) that addUnit, removeUnit,
+ * moveUnit, setUnitState and clearSelection keep up to date, so they cost the
+ * size of the answer rather than a scan of every unit. Change a unit's position
+ * and state through these methods, not by writing to the Unit object.
+ *
+ * Every change is announced as a typed event (see UnitRegistryEvents), which
+ * the GameStateCoordinator uses to resync the worker and UI panels can use to
+ * refresh themselves.
  * 
  * Usage example:
  * ```typescript
  * const registry = new UnitRegistry();
- * registry.addUnit({ id: 1, hp: 100, ownerId: 1, unitType: UnitType.WARRIOR, gridPos: { x: 10, y: 10 } });
+ * registry.addUnit({ id: 1, ownerId: 1, unitType: UnitType.WARRIOR, gridPos: { x: 10, y: 10 } }); // Stats from the catalog
+ * registry.on('unitMoved', ({ unit, from, to }) => console.log(unit.id, from, to));
  * registry.moveUnit(1, { x: 11, y: 10 });
- * const unitData = registry.syncToWorker(); // Get Float32Array for worker
- * worker.postMessage({ type: 'UPDATE_UNITS', unitData }, [unitData.buffer]);
+ * const unitData = registry.syncUnits(); // Get Float32Array for the worker
+ *
+ * // Army stacks: all units of one owner on one tile
+ * const stack = registry.getStackOf(1); // Unit 1 and its stack mates
+ * registry.getStackMovementPoints(stack.map(u => u.id)); // The slowest member's points
  * ```
  */
 
+import { STACK_GPU_ENCODING } from '../../shared/constants';
+import { DEFAULT_UNIT_CATALOG } from './UnitCatalog';
+import type { UnitCatalog, UnitTypeId } from './UnitCatalog';
+import type { HeroState } from './HeroSystem';
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+
 /**
- * Unit type enumeration
+ * IDs of the built-in unit types (see main/data/unitTypes.json)
+ * A convenience for code that refers to these types by name; the UnitCatalog is
+ * authoritative and may define more types than are listed here.
  */
 export enum UnitType {
     WARRIOR = 0,
     ARCHER = 1,
     CAVALRY = 2,
     SETTLER = 3,
+    HERO = 4,
 }
 
+/**
+ * Maximum number of units in one army stack (as in Warlords)
+ */
+export const MAX_STACK_SIZE = 8;
+
+/**
+ * Spatial hash key stride: tile keys are y * TILE_KEY_STRIDE + x
+ * (tile coordinates must be non-negative and below this value)
+ */
+const TILE_KEY_STRIDE = 1 << 16;
+
 /**
  * Grid position (tile coordinates)
  */
@@ -60,19 +96,71 @@ export interface Unit {
     /** Owner ID (0 = neutral, 1+ = player ID) */
     ownerId: number;
     
-    /** Unit type (warrior, archer, etc.) */
-    unitType: UnitType;
+    /** Unit type ID (see UnitCatalog) */
+    unitType: UnitTypeId;
     
     /** Grid position (tile coordinates) */
     gridPos: GridPosition;
+
+    /** Movement points left this turn */
+    movementPoints: number;
+
+    /** Movement points restored at the start of each turn */
+    maxMovementPoints: number;
+
+    /** How far the unit reveals the map, in tiles */
+    sightRadius: number;
+
+    /** Base combat strength */
+    strength: number;
     
     /** Unit state flags (bitmask) */
     state: UnitState;
+
+    /** Experience, level and items (heroes only, see HeroSystem) */
+    hero?: HeroState;
     
     /** Additional gameplay metadata */
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * Army stack - all units of one owner standing on one tile
+ * Stacks are not stored: they are derived from unit positions, so moving units
+ * together, splitting some off or merging onto friends needs no extra bookkeeping.
+ */
+export interface UnitStack {
+    /** Owner ID of every unit in the stack */
+    ownerId: number;
+
+    /** Tile the stack stands on */
+    pos: GridPosition;
+
+    /** Units in the stack, ordered by ID */
+    units: Unit[];
+}
+
+/**
+ * Events emitted by UnitRegistry (event name -> payload)
+ * Payloads reference the live Unit objects; treat them as read-only.
+ */
+export interface UnitRegistryEvents {
+    /** A unit was added (also when an existing ID is re-added, after unitRemoved) */
+    unitAdded: { unit: Unit };
+
+    /** A unit was removed */
+    unitRemoved: { unit: Unit };
+
+    /** A unit changed tile */
+    unitMoved: { unit: Unit; from: GridPosition; to: GridPosition };
+
+    /** A unit's HP, movement points, stats, hero state or state flags (other than selection) changed */
+    unitChanged: { unit: Unit };
+
+    /** Units were selected or deselected */
+    selectionChanged: { unitIds: number[] };
+}
+
 /**
  * UnitRegistry - Manages units and syncs them to the worker
  */
@@ -80,34 +168,97 @@ export class UnitRegistry {
     private units: Map<number, Unit>;
     private dirtyUnits: Set<number>;
     private nextUnitId: number;
+    private catalog: UnitCatalog;
+    private unitsByTile: Map<number, Set<number>>; // Tile key -> unit IDs (spatial hash)
+    private unitsByOwner: Map<number, Set<number>>; // Owner ID -> unit IDs
+    private selectedUnits: Set<number>;
+    private events: EventEmitter<UnitRegistryEvents> = new EventEmitter();
 
-    constructor() {
+    /**
+     * Create a new UnitRegistry
+     * @param catalog - Unit type definitions (default: built-in catalog)
+     */
+    constructor(catalog: UnitCatalog = DEFAULT_UNIT_CATALOG) {
         this.units = new Map();
         this.dirtyUnits = new Set();
         this.nextUnitId = 1;
+        this.catalog = catalog;
+        this.unitsByTile = new Map();
+        this.unitsByOwner = new Map();
+        this.selectedUnits = new Set();
+    }
+
+    /**
+     * Get the unit type catalog
+     * @returns Unit catalog
+     */
+    getCatalog(): UnitCatalog {
+        return this.catalog;
+    }
+
+    /**
+     * Subscribe to registry changes
+     * @param type - Event name
+     * @param listener - Called after the change with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof UnitRegistryEvents>(type: K, listener: EventListener<UnitRegistryEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from registry changes
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof UnitRegistryEvents>(type: K, listener: EventListener<UnitRegistryEvents[K]>): void {
+        this.events.off(type, listener);
     }
 
     /**
      * Add a unit to the registry
+     * Stats that are not given (HP, movement, sight, strength) come from the catalog.
      * @param unit - Unit to add (id will be auto-assigned if not provided)
      * @returns The unit ID
+     * @throws Error if the unit type is not in the catalog
      */
-    addUnit(unit: Partial<Unit> & { gridPos: GridPosition; unitType: UnitType }): number {
+    addUnit(unit: Partial<Unit> & { gridPos: GridPosition; unitType: UnitTypeId }): number {
+        const type = this.catalog.get(unit.unitType);
+        if (!type) {
+            throw new Error(`Unknown unit type ${unit.unitType}`);
+        }
+
         const id = unit.id ?? this.nextUnitId++;
+        this.nextUnitId = Math.max(this.nextUnitId, id + 1); // Never hand out an ID that was given explicitly
+        const maxMovementPoints = unit.maxMovementPoints ?? type.movement;
         
         const fullUnit: Unit = {
             id,
-            hp: unit.hp ?? 100,
-            maxHp: unit.maxHp ?? unit.hp ?? 100,
+            hp: unit.hp ?? unit.maxHp ?? type.hp,
+            maxHp: unit.maxHp ?? unit.hp ?? type.hp,
             ownerId: unit.ownerId ?? 0,
             unitType: unit.unitType,
-            gridPos: unit.gridPos,
+            gridPos: { ...unit.gridPos },
+            movementPoints: unit.movementPoints ?? maxMovementPoints,
+            maxMovementPoints,
+            sightRadius: unit.sightRadius ?? type.sight,
+            strength: unit.strength ?? type.strength,
             state: unit.state ?? UnitState.NONE,
+            hero: unit.hero && structuredClone(unit.hero),
             metadata: unit.metadata,
         };
 
+        // Re-adding an existing ID replaces that unit
+        const replaced = this.units.get(id);
+        if (replaced) {
+            this.unindexUnit(replaced);
+            this.events.emit('unitRemoved', { unit: replaced });
+        }
+
         this.units.set(id, fullUnit);
+        this.indexUnit(fullUnit);
         this.dirtyUnits.add(id);
+        this.events.emit('unitAdded', { unit: fullUnit });
         
         return id;
     }
@@ -118,11 +269,14 @@ export class UnitRegistry {
      * @returns true if unit was removed, false if not found
      */
     removeUnit(id: number): boolean {
-        const removed = this.units.delete(id);
-        if (removed) {
-            this.dirtyUnits.add(id); // Mark as dirty so worker knows to remove it
-        }
-        return removed;
+        const unit = this.units.get(id);
+        if (!unit) return false;
+
+        this.unindexUnit(unit);
+        this.units.delete(id);
+        this.dirtyUnits.add(id); // Mark as dirty so worker knows to remove it
+        this.events.emit('unitRemoved', { unit });
+        return true;
     }
 
     /**
@@ -144,6 +298,8 @@ export class UnitRegistry {
 
     /**
      * Move a unit to a new grid position
+     * Does not check terrain or movement points - player and AI orders go through
+     * MovementController, which validates the move and deducts its cost.
      * @param id - Unit ID
      * @param newPos - New grid position
      * @returns true if unit was moved, false if not found
@@ -154,13 +310,52 @@ export class UnitRegistry {
 
         // Only mark as dirty if position actually changed
         if (unit.gridPos.x !== newPos.x || unit.gridPos.y !== newPos.y) {
+            const from = unit.gridPos;
+            removeFromIndex(this.unitsByTile, tileKey(unit.gridPos), id);
             unit.gridPos = { ...newPos };
+            addToIndex(this.unitsByTile, tileKey(unit.gridPos), id);
             this.dirtyUnits.add(id);
+            this.events.emit('unitMoved', { unit, from, to: { ...unit.gridPos } });
         }
 
         return true;
     }
 
+    /**
+     * Deduct movement points from a unit
+     * @param id - Unit ID
+     * @param cost - Movement points to spend
+     * @returns true if the unit had enough points, false if not found or insufficient
+     */
+    spendMovementPoints(id: number, cost: number): boolean {
+        const unit = this.units.get(id);
+        if (!unit || cost > unit.movementPoints) return false;
+
+        unit.movementPoints -= cost;
+        if (cost !== 0) {
+            this.events.emit('unitChanged', { unit });
+        }
+        return true;
+    }
+
+    /**
+     * Restore movement points to the maximum (start of turn)
+     * @param ownerId - Only reset units of this owner (default: all units)
+     * @returns Number of units whose movement points were reset
+     */
+    resetMovementPoints(ownerId?: number): number {
+        const units = ownerId === undefined ? this.units.values() : this.getUnitsByOwner(ownerId);
+        let count = 0;
+        for (const unit of units) {
+            if (unit.movementPoints !== unit.maxMovementPoints) {
+                unit.movementPoints = unit.maxMovementPoints;
+                this.events.emit('unitChanged', { unit });
+            }
+            count++;
+        }
+        return count;
+    }
+
     /**
      * Update unit HP
      * @param id - Unit ID
@@ -184,11 +379,49 @@ export class UnitRegistry {
             } else {
                 unit.state &= ~UnitState.DAMAGED;
             }
+            this.events.emit('unitChanged', { unit });
         }
 
         return true;
     }
 
+    /**
+     * Change a unit's strength and maximum movement points (e.g. hero level-ups and items)
+     * Movement points left this turn change by the same amount as the maximum.
+     * @param id - Unit ID
+     * @param stats - New values (omitted stats stay unchanged)
+     * @returns true if unit was updated, false if not found
+     */
+    setUnitStats(id: number, stats: { strength?: number; maxMovementPoints?: number }): boolean {
+        const unit = this.units.get(id);
+        if (!unit) return false;
+
+        const strength = stats.strength ?? unit.strength;
+        const maxMovementPoints = stats.maxMovementPoints ?? unit.maxMovementPoints;
+        if (strength === unit.strength && maxMovementPoints === unit.maxMovementPoints) return true;
+
+        unit.movementPoints = Math.max(0, unit.movementPoints + maxMovementPoints - unit.maxMovementPoints);
+        unit.maxMovementPoints = maxMovementPoints;
+        unit.strength = strength;
+        this.events.emit('unitChanged', { unit });
+        return true;
+    }
+
+    /**
+     * Replace a unit's hero state
+     * @param id - Unit ID
+     * @param hero - New hero state (copied), or undefined to make the unit an ordinary unit
+     * @returns true if unit was updated, false if not found
+     */
+    setUnitHero(id: number, hero: HeroState | undefined): boolean {
+        const unit = this.units.get(id);
+        if (!unit) return false;
+
+        unit.hero = hero && structuredClone(hero);
+        this.events.emit('unitChanged', { unit });
+        return true;
+    }
+
     /**
      * Update unit state flags
      * @param id - Unit ID
@@ -210,6 +443,18 @@ export class UnitRegistry {
         // Mark as dirty if state changed
         if (oldState !== unit.state) {
             this.dirtyUnits.add(id);
+            if (unit.state & UnitState.SELECTED) {
+                this.selectedUnits.add(id);
+            } else {
+                this.selectedUnits.delete(id);
+            }
+
+            if ((oldState ^ unit.state) & UnitState.SELECTED) {
+                this.events.emit('selectionChanged', { unitIds: [id] });
+            }
+            if ((oldState ^ unit.state) & ~UnitState.SELECTED) {
+                this.events.emit('unitChanged', { unit });
+            }
         }
 
         return true;
@@ -245,7 +490,7 @@ export class UnitRegistry {
      * - id: Unit ID (f32)
      * - x: Grid X position (f32)
      * - y: Grid Y position (f32)
-     * - typeId: Unit type ID (f32, cast from UnitType enum)
+     * - typeId: Unit type ID (f32)
      * - stateBits: State flags bitmask (f32, cast from UnitState enum)
      * 
      * The array can be transferred to the worker via postMessage using transferable objects.
@@ -281,8 +526,10 @@ export class UnitRegistry {
      * Format: [x, y, typeId, state] per unit (4 floats per unit)
      * - x: Grid X position (f32)
      * - y: Grid Y position (f32)
-     * - typeId: Unit type ID (f32, cast from UnitType enum)
-     * - state: State flags bitmask (f32, cast from UnitState enum)
+     * - typeId: Unit type ID (f32)
+     * - state: State flags bitmask (f32, cast from UnitState enum), plus the unit's
+     *   index in and the size of its stack (see STACK_GPU_ENCODING) so the renderer
+     *   can draw one marker per stack
      * 
      * This is the format expected by the GPU instancing system.
      * The array can be transferred to the worker via postMessage using transferable objects.
@@ -295,17 +542,24 @@ export class UnitRegistry {
             ? Array.from(this.dirtyUnits).map(id => this.units.get(id)).filter((u): u is Unit => u !== undefined)
             : Array.from(this.units.values());
 
+        // Stack index/size per unit, derived from all units (not just the synced ones)
+        const stackInfo = this.getStackRenderInfo();
+        const { INDEX_SHIFT, SIZE_SHIFT, FIELD_MASK } = STACK_GPU_ENCODING;
+
         // Each unit takes 4 floats: [x, y, typeId, state]
         const buffer = new Float32Array(unitsToSync.length * 4);
 
         for (let i = 0; i < unitsToSync.length; i++) {
             const unit = unitsToSync[i];
             const offset = i * 4;
+            const [stackIndex, stackSize] = stackInfo.get(unit.id) ?? [0, 1];
 
             buffer[offset + 0] = unit.gridPos.x;             // x
             buffer[offset + 1] = unit.gridPos.y;             // y
             buffer[offset + 2] = unit.unitType;              // typeId
-            buffer[offset + 3] = unit.state;                 // state
+            buffer[offset + 3] = unit.state                  // state + stack bits
+                | (Math.min(stackIndex, FIELD_MASK) << INDEX_SHIFT)
+                | (Math.min(stackSize, FIELD_MASK) << SIZE_SHIFT);
         }
 
         return buffer;
@@ -334,30 +588,113 @@ export class UnitRegistry {
      * @returns Array of units at that position
      */
     getUnitsAt(pos: GridPosition): Unit[] {
-        return Array.from(this.units.values()).filter(
-            unit => unit.gridPos.x === pos.x && unit.gridPos.y === pos.y
+        return this.resolveIds(this.unitsByTile.get(tileKey(pos)));
+    }
+
+    /**
+     * Get the army stack of a player on a tile
+     * @param pos - Grid position
+     * @param ownerId - Owner ID
+     * @returns The owner's units on that tile, ordered by ID (empty if none)
+     */
+    getStackAt(pos: GridPosition, ownerId: number): Unit[] {
+        return this.getUnitsAt(pos)
+            .filter(unit => unit.ownerId === ownerId)
+            .sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Get the army stack a unit belongs to
+     * @param id - Unit ID
+     * @returns The unit and its stack mates, ordered by ID (empty if the unit does not exist)
+     */
+    getStackOf(id: number): Unit[] {
+        const unit = this.units.get(id);
+        if (!unit) return [];
+        return this.getStackAt(unit.gridPos, unit.ownerId);
+    }
+
+    /**
+     * Get all army stacks
+     * @param ownerId - Only return stacks of this owner (default: all owners)
+     * @returns Stacks, one per owner and occupied tile
+     */
+    getStacks(ownerId?: number): UnitStack[] {
+        const units = ownerId === undefined ? this.units.values() : this.getUnitsByOwner(ownerId);
+        const stacks = new Map<string, UnitStack>();
+        for (const unit of units) {
+            const key = `${unit.ownerId}:${unit.gridPos.x},${unit.gridPos.y}`;
+            let stack = stacks.get(key);
+            if (!stack) {
+                stack = { ownerId: unit.ownerId, pos: { ...unit.gridPos }, units: [] };
+                stacks.set(key, stack);
+            }
+            stack.units.push(unit);
+        }
+
+        const result = Array.from(stacks.values());
+        result.forEach(stack => stack.units.sort((a, b) => a.id - b.id));
+        return result;
+    }
+
+    /**
+     * Check if units form (part of) one stack: same owner, same tile
+     * @param ids - Unit IDs
+     * @returns true if all units exist and share owner and tile (false for an empty list)
+     */
+    isSameStack(ids: number[]): boolean {
+        const units = ids.map(id => this.units.get(id));
+        const first = units[0];
+        if (!first) return false;
+
+        return units.every(unit =>
+            unit !== undefined &&
+            unit.ownerId === first.ownerId &&
+            unit.gridPos.x === first.gridPos.x &&
+            unit.gridPos.y === first.gridPos.y
         );
     }
 
+    /**
+     * Get the movement points a group of units can still spend together
+     * @param ids - Unit IDs
+     * @returns The lowest movement points among the units (0 if any is missing or the list is empty)
+     */
+    getStackMovementPoints(ids: number[]): number {
+        if (ids.length === 0) return 0;
+
+        let min = Infinity;
+        for (const id of ids) {
+            const unit = this.units.get(id);
+            if (!unit) return 0;
+            min = Math.min(min, unit.movementPoints);
+        }
+        return min;
+    }
+
     /**
      * Get units owned by a specific player
      * @param ownerId - Owner ID
      * @returns Array of units owned by that player
      */
     getUnitsByOwner(ownerId: number): Unit[] {
-        return Array.from(this.units.values()).filter(unit => unit.ownerId === ownerId);
+        return this.resolveIds(this.unitsByOwner.get(ownerId));
     }
 
     /**
      * Clear selection state from all units
      */
     clearSelection(): void {
-        for (const unit of this.units.values()) {
-            if (unit.state & UnitState.SELECTED) {
-                unit.state &= ~UnitState.SELECTED;
-                this.dirtyUnits.add(unit.id);
-            }
+        if (this.selectedUnits.size === 0) return;
+
+        const unitIds = Array.from(this.selectedUnits);
+        for (const id of unitIds) {
+            const unit = this.units.get(id)!;
+            unit.state &= ~UnitState.SELECTED;
+            this.dirtyUnits.add(id);
         }
+        this.selectedUnits.clear();
+        this.events.emit('selectionChanged', { unitIds });
     }
 
     /**
@@ -365,8 +702,87 @@ export class UnitRegistry {
      * @returns Array of selected units
      */
     getSelectedUnits(): Unit[] {
-        return Array.from(this.units.values()).filter(
-            unit => (unit.state & UnitState.SELECTED) !== 0
-        );
+        return this.resolveIds(this.selectedUnits);
+    }
+
+    /**
+     * Add a unit to the tile, owner and selection indexes
+     */
+    private indexUnit(unit: Unit): void {
+        addToIndex(this.unitsByTile, tileKey(unit.gridPos), unit.id);
+        addToIndex(this.unitsByOwner, unit.ownerId, unit.id);
+        if (unit.state & UnitState.SELECTED) {
+            this.selectedUnits.add(unit.id);
+        }
+    }
+
+    /**
+     * Remove a unit from the tile, owner and selection indexes
+     */
+    private unindexUnit(unit: Unit): void {
+        removeFromIndex(this.unitsByTile, tileKey(unit.gridPos), unit.id);
+        removeFromIndex(this.unitsByOwner, unit.ownerId, unit.id);
+        this.selectedUnits.delete(unit.id);
+    }
+
+    /**
+     * Turn a set of indexed unit IDs into units
+     */
+    private resolveIds(ids: Set<number> | undefined): Unit[] {
+        if (!ids) return [];
+        const units: Unit[] = [];
+        for (const id of ids) {
+            units.push(this.units.get(id)!);
+        }
+        return units;
+    }
+
+    /**
+     * Compute each unit's draw position within its stack
+     * Selected units come first so the stack's marker shows the selection; the
+     * rest follow by ID.
+     * @returns Unit ID -> [index in stack, stack size]
+     */
+    private getStackRenderInfo(): Map<number, [number, number]> {
+        const info = new Map<number, [number, number]>();
+        for (const stack of this.getStacks()) {
+            const ordered = [
+                ...stack.units.filter(unit => unit.state & UnitState.SELECTED),
+                ...stack.units.filter(unit => !(unit.state & UnitState.SELECTED)),
+            ];
+            ordered.forEach((unit, index) => info.set(unit.id, [index, ordered.length]));
+        }
+        return info;
+    }
+}
+
+/**
+ * Spatial hash key of a tile
+ */
+function tileKey(pos: GridPosition): number {
+    return pos.y * TILE_KEY_STRIDE + pos.x;
+}
+
+/**
+ * Add a unit ID to an index bucket, creating the bucket if needed
+ */
+function addToIndex(index: Map<number, Set<number>>, key: number, id: number): void {
+    let bucket = index.get(key);
+    if (!bucket) {
+        bucket = new Set();
+        index.set(key, bucket);
+    }
+    bucket.add(id);
+}
+
+/**
+ * Remove a unit ID from an index bucket, dropping the bucket once empty
+ */
+function removeFromIndex(index: Map<number, Set<number>>, key: number, id: number): void {
+    const bucket = index.get(key);
+    if (!bucket) return;
+    bucket.delete(id);
+    if (bucket.size === 0) {
+        index.delete(key);
     }
 }
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGame } from './HeadlessGame';
+import { OrderRejectReason } from './GameController';
+import { DEFAULT_VICTORY_RULES, VictoryConditionType, VictorySystem } from './VictorySystem';
+import type { VictoryCondition } from './VictorySystem';
+import { CityRegistry } from './CityRegistry';
+import { TurnManager } from './TurnManager';
+import { UnitRegistry, UnitType } from './UnitRegistry';
+import { WorldContainer } from './WorldContainer';
+
+/**
+ * A small started game where every player has lost all units and cities
+ */
+function wipedOutGame(conditions: VictoryCondition[]) {
+    const game = new HeadlessGame({ width: 24, height: 16, seed: 5, victory: { ...DEFAULT_VICTORY_RULES, conditions } });
+    game.turns.start();
+    game.units.getAllUnits().forEach(unit => game.units.removeUnit(unit.id));
+    game.cities.getAllCities().forEach(city => game.cities.removeCity(city.id));
+    return game;
+}
+
+describe('VictorySystem', () => {
+    it('ends the game in a draw when every player is eliminated', () => {
+        const game = wipedOutGame(DEFAULT_VICTORY_RULES.conditions);
+        game.orders.endTurn();
+
+        expect(game.victory.getResult()).toMatchObject({ condition: VictoryConditionType.ELIMINATION, winners: [] });
+    });
+
+    it('ends the game in a draw when every player is eliminated, whatever the conditions', () => {
+        const game = wipedOutGame([{ type: VictoryConditionType.TURN_LIMIT, turns: 100 }]);
+        game.orders.endTurn();
+
+        expect(game.victory.isGameOver()).toBe(true);
+        expect(game.victory.getResult()?.winners).toEqual([]);
+    });
+});
+
+describe('VictorySystem eliminations', () => {
+    it('keeps players in the game who have never owned anything', () => {
+        const world = new WorldContainer(8, 8, { seed: 1 });
+        const units = new UnitRegistry();
+        const turns = new TurnManager([
+            { id: 1, name: 'Player 1', kind: 'human' },
+            { id: 2, name: 'Player 2', kind: 'human' },
+        ]);
+        const victory = new VictorySystem(units, new CityRegistry(world), world, turns);
+        const unitId = units.addUnit({ unitType: UnitType.WARRIOR, ownerId: 1, gridPos: { x: 0, y: 0 } });
+
+        turns.start();
+        turns.endTurn();
+        turns.endTurn();
+        expect(victory.isGameOver()).toBe(false);
+
+        // Player 2 gets a unit and loses it: now they are out
+        const enemyId = units.addUnit({ unitType: UnitType.WARRIOR, ownerId: 2, gridPos: { x: 1, y: 0 } });
+        units.removeUnit(enemyId);
+        turns.endTurn();
+        expect(victory.getResult()).toMatchObject({ condition: VictoryConditionType.ELIMINATION, winners: [1] });
+        expect(units.hasUnit(unitId)).toBe(true);
+    });
+});
+
+describe('GameController after game over', () => {
+    it('refuses moves and attacks', () => {
+        const game = new HeadlessGame({ width: 24, height: 16, seed: 5 });
+        game.turns.start();
+        const [unit] = game.units.getUnitsByOwner(1);
+        const target = { x: unit.gridPos.x + 1, y: unit.gridPos.y };
+
+        // Player 2 loses everything; player 1 wins at the end of the turn
+        game.units.getUnitsByOwner(2).forEach(enemy => game.units.removeUnit(enemy.id));
+        game.cities.getCitiesByOwner(2).forEach(city => game.cities.removeCity(city.id));
+        game.orders.endTurn();
+        expect(game.victory.getResult()?.winners).toEqual([1]);
+
+        expect(game.orders.move([unit.id], target)).toMatchObject({ type: 'rejected', reason: OrderRejectReason.GAME_OVER });
+        expect(game.orders.attack([unit.id], target)).toMatchObject({ type: 'rejected', reason: OrderRejectReason.GAME_OVER });
+        expect(game.units.getUnit(unit.id)?.gridPos).toEqual(unit.gridPos);
+        expect(game.orders.endTurn()).toBe(false);
+    });
+});
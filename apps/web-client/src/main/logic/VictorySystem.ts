@@ -0,0 +1,535 @@
+/**
+ * VictorySystem - Victory conditions and game-over detection
+ *
+ * At the end of every player's turn the configured victory conditions are
+ * checked against the unit and city state:
+ *
+ *     ELIMINATION     - every player outside one team has lost all units and cities
+ *     CITY_SHARE      - one team holds at least a share of all cities
+ *     HOLD_OBJECTIVES - one team holds every objective tile for a number of turns
+ *     TURN_LIMIT      - after the last player's turn of the limit, the best score wins
+ *
+ * The first condition that is met ends the game with a gameOver event listing
+ * every player's standing. If every player is eliminated at once, the game ends
+ * in a draw (reported as ELIMINATION, whatever the conditions). Only players
+ * who have owned a unit or city can be eliminated. Players win as teams: by
+ * default every player is a team of one, and once players can ally (see
+ * setAllianceSource) allies share their cities, objectives and victory.
+ *
+ * A tile is held by the owner of the units standing on it, or - if nobody
+ * stands there - by the owner of the city covering it.
+ *
+ * Usage example:
+ * ```typescript
+ * const victory = new VictorySystem(unitRegistry, cityRegistry, worldContainer, turns, {
+ *     conditions: [{ type: VictoryConditionType.ELIMINATION }, { type: VictoryConditionType.TURN_LIMIT, turns: 100 }],
+ *     score: DEFAULT_SCORE_WEIGHTS,
+ * });
+ * victory.on('gameOver', ({ winners, standings }) => console.table(standings));
+ * ```
+ */
+
+import type { WorldContainer } from './WorldContainer';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import type { CityRegistry } from './CityRegistry';
+import type { Economy } from './Economy';
+import type { TurnManager } from './TurnManager';
+import type { AllianceSource } from './DiplomacySystem';
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+
+/**
+ * Kinds of victory condition
+ */
+export enum VictoryConditionType {
+    ELIMINATION = 'ELIMINATION',
+    CITY_SHARE = 'CITY_SHARE',
+    HOLD_OBJECTIVES = 'HOLD_OBJECTIVES',
+    TURN_LIMIT = 'TURN_LIMIT',
+}
+
+/**
+ * One victory condition (serializable, e.g. loaded from a scenario)
+ */
+export type VictoryCondition =
+    | { type: VictoryConditionType.ELIMINATION }
+    | {
+        type: VictoryConditionType.CITY_SHARE;
+        /** Share of all cities needed (0-1, e.g. 0.6 for 60%) */
+        share: number;
+    }
+    | {
+        type: VictoryConditionType.HOLD_OBJECTIVES;
+        /** Tiles that must all be held */
+        tiles: GridPosition[];
+        /** Turns they must be held without interruption */
+        turns: number;
+    }
+    | {
+        type: VictoryConditionType.TURN_LIMIT;
+        /** Last turn played */
+        turns: number;
+    };
+
+/**
+ * Points per asset, for turn-limit games and standings
+ */
+export interface ScoreWeights {
+    city: number;
+    unit: number;
+
+    /** Points per gold in the treasury (needs an Economy) */
+    gold: number;
+}
+
+/**
+ * Victory rules (serializable, e.g. loaded from a scenario)
+ */
+export interface VictoryRules {
+    /** Checked in order; the first one met ends the game */
+    conditions: VictoryCondition[];
+
+    /** Score weights */
+    score: ScoreWeights;
+}
+
+/**
+ * Default score weights
+ */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+    city: 10,
+    unit: 1,
+    gold: 0.1,
+};
+
+/**
+ * Default victory rules: conquer everyone
+ */
+export const DEFAULT_VICTORY_RULES: VictoryRules = {
+    conditions: [{ type: VictoryConditionType.ELIMINATION }],
+    score: DEFAULT_SCORE_WEIGHTS,
+};
+
+/**
+ * Standing of one player
+ */
+export interface PlayerStanding {
+    playerId: number;
+
+    /** Lowest player ID of the player's team */
+    team: number;
+
+    cities: number;
+    units: number;
+    score: number;
+
+    /** Lost all units and cities */
+    eliminated: boolean;
+
+    /** 1 = best; team members share their team's rank */
+    rank: number;
+}
+
+/**
+ * Events emitted by VictorySystem (event name -> payload)
+ */
+export interface VictoryEvents {
+    /** A player lost their last unit and city */
+    playerEliminated: { turnNumber: number; playerId: number };
+
+    /** Objective tiles came under one team's control (or were lost: team null) */
+    objectivesChanged: { turnNumber: number; team: number | null };
+
+    /** The game is over (winners is empty for a draw) */
+    gameOver: {
+        turnNumber: number;
+        condition: VictoryConditionType;
+        winners: number[];
+        standings: PlayerStanding[];
+    };
+}
+
+/**
+ * Options for creating a VictorySystem
+ */
+export interface VictorySystemOptions {
+    /** Victory rules (default: DEFAULT_VICTORY_RULES) */
+    rules?: VictoryRules;
+
+    /** Economy, for gold in the score (default: none) */
+    economy?: Economy | null;
+}
+
+/**
+ * VictorySystem - Decides when a game is won
+ */
+export class VictorySystem {
+    private units: UnitRegistry;
+    private cities: CityRegistry;
+    private world: WorldContainer;
+    private turns: TurnManager;
+    private economy: Economy | null;
+    private rules: VictoryRules;
+    private alliances: AllianceSource | null = null;
+    private eliminated: Set<number> = new Set();
+    private established: Set<number> = new Set(); // Players that have owned a unit or city
+    private objectiveHolds: Map<number, { team: number; since: number }> = new Map(); // Condition index -> hold
+    private result: VictoryEvents['gameOver'] | null = null;
+    private events: EventEmitter<VictoryEvents> = new EventEmitter();
+
+    /**
+     * Create a new VictorySystem (checks run at the end of every turn from now on)
+     * @param units - UnitRegistry
+     * @param cities - CityRegistry
+     * @param world - WorldContainer (objective tiles must lie on the map)
+     * @param turns - TurnManager (players and turn ends)
+     * @param options - Rules and economy
+     * @throws Error if the rules are invalid
+     */
+    constructor(units: UnitRegistry, cities: CityRegistry, world: WorldContainer, turns: TurnManager, options: VictorySystemOptions = {}) {
+        this.units = units;
+        this.cities = cities;
+        this.world = world;
+        this.turns = turns;
+        this.economy = options.economy ?? null;
+        this.rules = options.rules ?? DEFAULT_VICTORY_RULES;
+
+        const errors = this.validate(this.rules);
+        if (errors.length > 0) {
+            throw new Error(`Invalid victory rules:\n${errors.join('\n')}`);
+        }
+
+        this.turns.getPlayers().forEach(({ id }) => this.hasHoldings(id) && this.established.add(id));
+        this.units.on('unitAdded', ({ unit }) => this.established.add(unit.ownerId));
+        this.turns.on('turnEnded', ({ turnNumber, playerId }) => this.evaluate(turnNumber, playerId));
+    }
+
+    /**
+     * Subscribe to victory events
+     * @param type - Event name
+     * @param listener - Called with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof VictoryEvents>(type: K, listener: EventListener<VictoryEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from victory events
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof VictoryEvents>(type: K, listener: EventListener<VictoryEvents[K]>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Tell the system who is allied with whom (allies form a team and win together)
+     * @param source - Alliance lookup, or null for every player on their own
+     */
+    setAllianceSource(source: AllianceSource | null): void {
+        this.alliances = source;
+    }
+
+    /**
+     * Check the victory conditions (called automatically at the end of every turn)
+     * @param turnNumber - Turn that is ending
+     * @param playerId - Player whose turn is ending
+     * @returns The game result if the game is (or already was) over, otherwise null
+     */
+    evaluate(turnNumber: number, playerId: number): VictoryEvents['gameOver'] | null {
+        if (this.result) return this.result;
+
+        this.updateEliminations(turnNumber);
+        if (this.getSurvivors().length === 0) return this.endGame(turnNumber, VictoryConditionType.ELIMINATION, []);
+
+        const players = this.turns.getPlayers();
+        const lastPlayerId = players[players.length - 1].id;
+        for (let i = 0; i < this.rules.conditions.length; i++) {
+            const condition = this.rules.conditions[i];
+            const winners = this.checkCondition(condition, i, turnNumber, playerId === lastPlayerId);
+            if (winners) return this.endGame(turnNumber, condition.type, winners);
+        }
+        return null;
+    }
+
+    /**
+     * Check if the game has ended
+     * @returns true once a victory condition was met
+     */
+    isGameOver(): boolean {
+        return this.result !== null;
+    }
+
+    /**
+     * Get the game result
+     * @returns The gameOver payload, or null while the game goes on
+     */
+    getResult(): VictoryEvents['gameOver'] | null {
+        return this.result;
+    }
+
+    /**
+     * Get every player's current standing
+     * @returns Standings, best rank first (ties by player ID)
+     */
+    getStandings(): PlayerStanding[] {
+        const standings = this.turns.getPlayers().map(({ id }) => {
+            const cities = this.cities.getCitiesByOwner(id).length;
+            const units = this.units.getUnitsByOwner(id).length;
+            return {
+                playerId: id,
+                team: this.getTeam(id),
+                cities,
+                units,
+                score: this.getScore(id),
+                eliminated: this.eliminated.has(id),
+                rank: 0,
+            };
+        });
+
+        // Teams are ranked by their members' combined score
+        const teamScores = new Map<number, number>();
+        standings.forEach(s => teamScores.set(s.team, (teamScores.get(s.team) ?? 0) + s.score));
+        const ranking = [...teamScores.entries()].sort((a, b) => (b[1] - a[1]) || (a[0] - b[0]));
+        for (const standing of standings) {
+            const teamScore = teamScores.get(standing.team)!;
+            standing.rank = 1 + ranking.filter(([, score]) => score > teamScore).length;
+        }
+
+        return standings.sort((a, b) => (a.rank - b.rank) || (a.playerId - b.playerId));
+    }
+
+    /**
+     * Get a player's score
+     * @param playerId - Player ID
+     * @returns Weighted cities, units and gold
+     */
+    getScore(playerId: number): number {
+        const { city, unit, gold } = this.rules.score;
+        const treasury = this.economy?.getTreasury(playerId) ?? 0;
+        return this.cities.getCitiesByOwner(playerId).length * city +
+            this.units.getUnitsByOwner(playerId).length * unit +
+            Math.floor(treasury * gold);
+    }
+
+    /**
+     * Get a player's team
+     * @param playerId - Player ID
+     * @returns Lowest player ID among the player and their allies
+     */
+    getTeam(playerId: number): number {
+        let team = playerId;
+        for (const { id } of this.turns.getPlayers()) {
+            if (id < team && this.alliances?.(playerId, id)) team = id;
+        }
+        return team;
+    }
+
+    /**
+     * Get the victory rules
+     * @returns Victory rules
+     */
+    getRules(): VictoryRules {
+        return this.rules;
+    }
+
+    /**
+     * Validate victory rules
+     * @param rules - Rules to check
+     * @returns Error messages (empty if valid)
+     */
+    validate(rules: VictoryRules): string[] {
+        return VictorySystem.validateRules(rules, this.world.getWidth(), this.world.getHeight());
+    }
+
+    /**
+     * Validate victory rules for a map size (e.g. from a scenario, before any system exists)
+     * @param rules - Rules to check
+     * @param mapWidth - Map width in tiles (objective tiles must lie on the map)
+     * @param mapHeight - Map height in tiles
+     * @returns Error messages (empty if valid)
+     */
+    static validateRules(rules: VictoryRules, mapWidth: number, mapHeight: number): string[] {
+        const errors: string[] = [];
+        if (!Array.isArray(rules?.conditions)) {
+            return ['conditions must be an array'];
+        }
+
+        const isObject = (value: unknown): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+        rules.conditions.forEach((condition, i) => {
+            const where = `conditions[${i}]`;
+            if (!isObject(condition)) {
+                errors.push(`${where}: must be an object`);
+                return;
+            }
+
+            switch (condition.type) {
+                case VictoryConditionType.ELIMINATION:
+                    break;
+                case VictoryConditionType.CITY_SHARE:
+                    if (!(condition.share > 0 && condition.share <= 1)) {
+                        errors.push(`${where}: share must be in (0, 1], got ${condition.share}`);
+                    }
+                    break;
+                case VictoryConditionType.HOLD_OBJECTIVES:
+                    if (!Array.isArray(condition.tiles) || condition.tiles.length === 0) {
+                        errors.push(`${where}: tiles must list at least one tile`);
+                    } else {
+                        condition.tiles.forEach((tile, j) => {
+                            if (!isObject(tile)) {
+                                errors.push(`${where}: tiles[${j}] must be an object with x and y`);
+                            } else if (!(Number.isInteger(tile.x) && Number.isInteger(tile?.y) && tile.x >= 0 && tile.x < mapWidth && tile.y >= 0 && tile.y < mapHeight)) {
+                                errors.push(`${where}: tiles[${j}] (${tile.x}, ${tile.y}) is off the map`);
+                            }
+                        });
+                    }
+                    if (!Number.isInteger(condition.turns) || condition.turns < 1) {
+                        errors.push(`${where}: turns must be a positive integer, got ${condition.turns}`);
+                    }
+                    break;
+                case VictoryConditionType.TURN_LIMIT:
+                    if (!Number.isInteger(condition.turns) || condition.turns < 1) {
+                        errors.push(`${where}: turns must be a positive integer, got ${condition.turns}`);
+                    }
+                    break;
+                default:
+                    errors.push(`${where}: unknown type "${(condition as { type: unknown }).type}"`);
+            }
+        });
+
+        for (const key of ['city', 'unit', 'gold'] as const) {
+            if (typeof rules.score?.[key] !== 'number' || !Number.isFinite(rules.score[key])) {
+                errors.push(`score.${key} must be a number`);
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Record the game result and announce it
+     * @returns The gameOver payload
+     */
+    private endGame(turnNumber: number, condition: VictoryConditionType, winners: number[]): VictoryEvents['gameOver'] {
+        this.result = { turnNumber, condition, winners, standings: this.getStandings() };
+        this.events.emit('gameOver', this.result);
+        return this.result;
+    }
+
+    /**
+     * Mark players who lost all their units and cities as eliminated (once)
+     * Players who never owned anything (e.g. a scenario gave them nothing yet) stay in the game.
+     */
+    private updateEliminations(turnNumber: number): void {
+        for (const { id } of this.turns.getPlayers()) {
+            if (this.eliminated.has(id)) continue;
+            if (this.hasHoldings(id)) {
+                this.established.add(id);
+                continue;
+            }
+            if (!this.established.has(id)) continue;
+
+            this.eliminated.add(id);
+            this.events.emit('playerEliminated', { turnNumber, playerId: id });
+        }
+    }
+
+    /**
+     * Check if a player owns any unit or city
+     */
+    private hasHoldings(playerId: number): boolean {
+        return this.units.getUnitsByOwner(playerId).length > 0 || this.cities.getCitiesByOwner(playerId).length > 0;
+    }
+
+    /**
+     * Check one condition
+     * @returns Winning player IDs ([] for a draw), or null if the condition is not met
+     */
+    private checkCondition(condition: VictoryCondition, index: number, turnNumber: number, roundEnded: boolean): number[] | null {
+        switch (condition.type) {
+            case VictoryConditionType.ELIMINATION: {
+                const teams = new Set(this.getSurvivors().map(id => this.getTeam(id)));
+                if (this.turns.getPlayers().length < 2 || teams.size !== 1) return null;
+                return this.getTeamMembers([...teams][0]);
+            }
+
+            case VictoryConditionType.CITY_SHARE: {
+                const total = this.cities.getCityCount();
+                if (total === 0) return null;
+
+                const teamCities = new Map<number, number>();
+                for (const city of this.cities.getAllCities()) {
+                    if (!this.turns.getPlayer(city.ownerId)) continue; // Neutral
+                    const team = this.getTeam(city.ownerId);
+                    teamCities.set(team, (teamCities.get(team) ?? 0) + 1);
+                }
+                const winner = [...teamCities.entries()]
+                    .filter(([, count]) => count / total >= condition.share)
+                    .sort((a, b) => (b[1] - a[1]) || (a[0] - b[0]))[0];
+                return winner ? this.getTeamMembers(winner[0]) : null;
+            }
+
+            case VictoryConditionType.HOLD_OBJECTIVES: {
+                const team = this.getObjectiveHolder(condition.tiles);
+                const hold = this.objectiveHolds.get(index);
+                if (team === null) {
+                    if (hold) {
+                        this.objectiveHolds.delete(index);
+                        this.events.emit('objectivesChanged', { turnNumber, team: null });
+                    }
+                    return null;
+                }
+                if (!hold || hold.team !== team) {
+                    this.objectiveHolds.set(index, { team, since: turnNumber });
+                    this.events.emit('objectivesChanged', { turnNumber, team });
+                    return null;
+                }
+                return turnNumber - hold.since >= condition.turns ? this.getTeamMembers(team) : null;
+            }
+
+            case VictoryConditionType.TURN_LIMIT: {
+                if (turnNumber < condition.turns || !roundEnded) return null;
+
+                const standings = this.getStandings();
+                const best = standings.filter(s => s.rank === 1);
+                const teams = new Set(best.map(s => s.team));
+                return teams.size === 1 ? best.map(s => s.playerId).sort((a, b) => a - b) : [];
+            }
+        }
+    }
+
+    /**
+     * Get the team holding every objective tile, or null
+     */
+    private getObjectiveHolder(tiles: GridPosition[]): number | null {
+        let team: number | null = null;
+        for (const tile of tiles) {
+            const occupant = this.units.getUnitsAt(tile)[0];
+            const holder = occupant?.ownerId ?? this.cities.getCityAt(tile)?.ownerId;
+            if (holder === undefined || !this.turns.getPlayer(holder)) return null;
+
+            const holderTeam = this.getTeam(holder);
+            if (team !== null && holderTeam !== team) return null;
+            team = holderTeam;
+        }
+        return team;
+    }
+
+    /**
+     * Get the players that are not eliminated
+     */
+    private getSurvivors(): number[] {
+        return this.turns.getPlayers().map(({ id }) => id).filter(id => !this.eliminated.has(id));
+    }
+
+    /**
+     * Get a team's surviving members (every member if all were eliminated)
+     */
+    private getTeamMembers(team: number): number[] {
+        const members = this.turns.getPlayers().map(({ id }) => id).filter(id => this.getTeam(id) === team);
+        const survivors = members.filter(id => !this.eliminated.has(id));
+        return survivors.length > 0 ? survivors : members;
+    }
+}
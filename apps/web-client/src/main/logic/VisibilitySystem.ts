@@ -0,0 +1,303 @@
+/**
+ * VisibilitySystem - Per-player fog of war
+ *
+ * Tracks, for every player, which tiles are unexplored, explored-but-hidden and
+ * currently visible. Vision comes from each owned unit's sight radius (plus any
+ * extra vision sources, e.g. cities). Explored tiles stay explored forever.
+ * Allies (see setAllianceSource) share vision: each sees what the other sees, also
+ * a player with no units or cities left, as long as they are known (see setPlayers).
+ * Alliances only take effect on the next update(), so call it when diplomacy changes.
+ *
+ * One player is the "viewer" (the local player). Their visibility is fed into
+ * the WorldContainer's tile encoding, and tiles whose state changes are marked
+ * dirty so the next incremental map sync reveals them in real time.
+ *
+ * Usage example:
+ * ```typescript
+ * const visibility = new VisibilitySystem(worldContainer);
+ * visibility.setViewer(1); // Render the map as player 1 sees it
+ * visibility.setPlayers([1, 2, 3]); // Everyone in the game gets vision (and their allies')
+ * visibility.update(unitRegistry); // After units move
+ * coordinator.syncMapChanges(); // Push revealed/hidden tiles to the worker
+ * visibility.isVisible(2, 10, 10); // Can player 2 see tile (10, 10)?
+ * ```
+ */
+
+import { TILE_VISIBILITY } from '../../shared/tileEncoding';
+import type { TileVisibility } from '../../shared/tileEncoding';
+import type { WorldContainer } from './WorldContainer';
+import type { GridPosition, UnitRegistry } from './UnitRegistry';
+import type { AllianceSource } from './DiplomacySystem';
+
+/**
+ * Something that reveals tiles around it
+ */
+export interface VisionSource {
+    /** Player the vision belongs to */
+    ownerId: number;
+
+    /** Center tile */
+    pos: GridPosition;
+
+    /** Sight radius in tiles */
+    radius: number;
+}
+
+/**
+ * VisibilitySystem - Computes and stores fog of war per player
+ */
+export class VisibilitySystem {
+    private world: WorldContainer;
+    private width: number;
+    private height: number;
+    private players: Map<number, Uint8Array>; // Player ID -> TileVisibility per tile (row-major)
+    private viewerId: number | null = null;
+    private alliances: AllianceSource | null = null;
+
+    /**
+     * Create a new VisibilitySystem
+     * @param world - WorldContainer the fog applies to
+     */
+    constructor(world: WorldContainer) {
+        this.world = world;
+        this.width = world.getWidth();
+        this.height = world.getHeight();
+        this.players = new Map();
+    }
+
+    /**
+     * Set the player whose view is rendered
+     * @param playerId - Viewing player, or null to disable fog of war in the renderer
+     */
+    setViewer(playerId: number | null): void {
+        this.viewerId = playerId;
+        this.world.setVisibilitySource(
+            playerId === null ? null : (x, y) => this.getState(playerId, x, y)
+        );
+    }
+
+    /**
+     * Get the player whose view is rendered
+     * @returns Viewing player ID, or null if fog of war is disabled
+     */
+    getViewer(): number | null {
+        return this.viewerId;
+    }
+
+    /**
+     * Track players even while they have no vision of their own
+     * (so they still see what their allies see)
+     * @param playerIds - Player IDs (owner 0 / neutral is ignored)
+     */
+    setPlayers(playerIds: number[]): void {
+        playerIds.filter(playerId => playerId > 0).forEach(playerId => this.getPlayerGrid(playerId));
+    }
+
+    /**
+     * Share vision between allies (applies from the next update())
+     * @param source - Alliance lookup, or null for no shared vision
+     */
+    setAllianceSource(source: AllianceSource | null): void {
+        this.alliances = source;
+    }
+
+    /**
+     * Recompute visibility for all players from their units' sight (and their allies')
+     * Tiles that were visible but are no longer in sight become explored.
+     * @param units - Unit registry (units of owner 0 / neutral give no vision)
+     * @param extraSources - Additional vision (e.g. cities)
+     * @returns Number of tiles that changed for the viewing player
+     */
+    update(units: UnitRegistry, extraSources: VisionSource[] = []): number {
+        // Group vision sources per player
+        const sourcesByPlayer = new Map<number, VisionSource[]>();
+        for (const playerId of this.players.keys()) {
+            sourcesByPlayer.set(playerId, []);
+        }
+
+        const addSource = (source: VisionSource) => {
+            if (source.ownerId <= 0) return;
+            let list = sourcesByPlayer.get(source.ownerId);
+            if (!list) {
+                list = [];
+                sourcesByPlayer.set(source.ownerId, list);
+            }
+            list.push(source);
+        };
+
+        for (const unit of units.getAllUnits()) {
+            addSource({ ownerId: unit.ownerId, pos: unit.gridPos, radius: unit.sightRadius });
+        }
+        extraSources.forEach(addSource);
+
+        let viewerChanges = 0;
+        for (const [playerId, ownSources] of sourcesByPlayer) {
+            const sources = [...ownSources];
+            for (const [otherId, otherSources] of sourcesByPlayer) {
+                if (otherId !== playerId && this.alliances?.(playerId, otherId)) sources.push(...otherSources);
+            }
+
+            const previous = this.getPlayerGrid(playerId);
+            const next = this.computeGrid(previous, sources);
+
+            if (playerId === this.viewerId) {
+                viewerChanges = this.markChangedTiles(previous, next);
+            }
+            this.players.set(playerId, next);
+        }
+
+        return viewerChanges;
+    }
+
+    /**
+     * Get a player's visibility state for a tile
+     * @param playerId - Player ID
+     * @param x - X coordinate
+     * @param y - Y coordinate
+     * @returns Visibility state (out of bounds and unknown players are UNEXPLORED)
+     */
+    getState(playerId: number, x: number, y: number): TileVisibility {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
+            return TILE_VISIBILITY.UNEXPLORED;
+        }
+        const grid = this.players.get(playerId);
+        if (!grid) return TILE_VISIBILITY.UNEXPLORED;
+        return grid[y * this.width + x] as TileVisibility;
+    }
+
+    /**
+     * Check if a player can currently see a tile
+     * @param playerId - Player ID
+     * @param x - X coordinate
+     * @param y - Y coordinate
+     * @returns true if the tile is visible
+     */
+    isVisible(playerId: number, x: number, y: number): boolean {
+        return this.getState(playerId, x, y) === TILE_VISIBILITY.VISIBLE;
+    }
+
+    /**
+     * Check if a player has ever seen a tile
+     * @param playerId - Player ID
+     * @param x - X coordinate
+     * @param y - Y coordinate
+     * @returns true if the tile is explored or visible
+     */
+    isExplored(playerId: number, x: number, y: number): boolean {
+        return this.getState(playerId, x, y) !== TILE_VISIBILITY.UNEXPLORED;
+    }
+
+    /**
+     * Count the tiles a vision source would reveal to a player for the first time
+     * @param playerId - Player ID
+     * @param pos - Center tile
+     * @param radius - Sight radius in tiles
+     * @returns Number of unexplored tiles in sight
+     */
+    countUnexplored(playerId: number, pos: GridPosition, radius: number): number {
+        const grid = this.players.get(playerId);
+        let count = 0;
+        this.forEachInSight(pos, radius, index => {
+            if (!grid || grid[index] === TILE_VISIBILITY.UNEXPLORED) count++;
+        });
+        return count;
+    }
+
+    /**
+     * Count the tiles a vision source moving along a path would reveal to a player for the first time
+     * @param playerId - Player ID
+     * @param path - Tiles the source passes through
+     * @param radius - Sight radius in tiles
+     * @returns Number of unexplored tiles in sight of any step (each counted once)
+     */
+    countUnexploredAlong(playerId: number, path: readonly GridPosition[], radius: number): number {
+        const grid = this.players.get(playerId);
+        const revealed = new Set<number>();
+        for (const pos of path) {
+            this.forEachInSight(pos, radius, index => {
+                if (!grid || grid[index] === TILE_VISIBILITY.UNEXPLORED) revealed.add(index);
+            });
+        }
+        return revealed.size;
+    }
+
+    /**
+     * Forget all exploration (e.g. when a new map is loaded)
+     */
+    reset(): void {
+        this.width = this.world.getWidth();
+        this.height = this.world.getHeight();
+        this.players.clear();
+        if (this.viewerId !== null) {
+            this.world.markAllDirty();
+        }
+    }
+
+    /**
+     * Get a player's grid, creating a fully unexplored one if needed
+     */
+    private getPlayerGrid(playerId: number): Uint8Array {
+        let grid = this.players.get(playerId);
+        if (!grid) {
+            grid = new Uint8Array(this.width * this.height).fill(TILE_VISIBILITY.UNEXPLORED);
+            this.players.set(playerId, grid);
+        }
+        return grid;
+    }
+
+    /**
+     * Build the next visibility grid: previous sight fades to explored, current sight is visible
+     */
+    private computeGrid(previous: Uint8Array, sources: VisionSource[]): Uint8Array {
+        const next = new Uint8Array(previous.length);
+        for (let i = 0; i < previous.length; i++) {
+            next[i] = previous[i] === TILE_VISIBILITY.VISIBLE ? TILE_VISIBILITY.EXPLORED : previous[i];
+        }
+
+        for (const { pos, radius } of sources) {
+            this.forEachInSight(pos, radius, index => {
+                next[index] = TILE_VISIBILITY.VISIBLE;
+            });
+        }
+
+        return next;
+    }
+
+    /**
+     * Call a function with the grid index of every in-bounds tile within a sight radius
+     */
+    private forEachInSight(pos: GridPosition, radius: number, callback: (index: number) => void): void {
+        const r = Math.max(0, Math.floor(radius));
+        // r * r + r gives a rounder disc than r * r on a tile grid
+        const limit = r * r + r;
+        const minY = Math.max(0, pos.y - r);
+        const maxY = Math.min(this.height - 1, pos.y + r);
+        const minX = Math.max(0, pos.x - r);
+        const maxX = Math.min(this.width - 1, pos.x + r);
+
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                const dx = x - pos.x;
+                const dy = y - pos.y;
+                if (dx * dx + dy * dy <= limit) {
+                    callback(y * this.width + x);
+                }
+            }
+        }
+    }
+
+    /**
+     * Mark tiles whose state differs between two grids as dirty in the world
+     */
+    private markChangedTiles(previous: Uint8Array, next: Uint8Array): number {
+        let changes = 0;
+        for (let i = 0; i < next.length; i++) {
+            if (previous[i] !== next[i]) {
+                const x = i % this.width;
+                this.world.markTileDirty(x, (i - x) / this.width);
+                changes++;
+            }
+        }
+        return changes;
+    }
+}
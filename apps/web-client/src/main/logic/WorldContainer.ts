@@ -4,19 +4,40 @@
  * This class holds "Rich Metadata" for the game world (terrain types, building stats, ownership data)
  * and provides a translation layer to convert this metadata into render-ready tile IDs.
  * 
- * The renderer only sees raw tile IDs (Uint32Array), keeping the logic and rendering decoupled.
+ * The renderer only sees bit-packed tiles (Uint32Array, see shared/tileEncoding.ts),
+ * keeping the logic and rendering decoupled.
  * 
  * Usage example:
  * ```typescript
- * const world = new WorldContainer(64);
+ * const world = new WorldContainer(96, 64, { seed: 'warlords' }); // 96x64 map, same seed = same map
  * world.placeBuilding(10, 10, BuildingType.FARM, 2, 1); // Place level 2 farm at (10, 10)
  * world.setBuildingLevel(10, 10, 3); // Upgrade to level 3
  * const renderBuffer = world.getRenderBuffer(); // Get Uint32Array for renderer
  * worker.postMessage({ type: 'UPDATE_TILEMAP', tileData: renderBuffer }, [renderBuffer.buffer]);
+ * 
+ * // Later changes only need the affected tiles
+ * for (const region of world.getDirtyRegions()) {
+ *     bridge.updateMapRegion(region, world.getRegionRenderData(region));
+ * }
+ * world.clearDirty();
+ * 
+ * // Fog of war: encode what a specific player can see
+ * world.setVisibilitySource((x, y) => visibility.getState(playerId, x, y));
+ *
+ * // React to edits (GameStateCoordinator resyncs the worker this way)
+ * world.on('tileChanged', ({ x, y, tile }) => console.log(x, y, tile.terrain));
  * ```
  */
 
-const MAP_SIZE = 64; // 64x64 tile map
+import { encodeTile, TILE_VISIBILITY } from '../../shared/tileEncoding';
+import type { TileVisibility } from '../../shared/tileEncoding';
+import { WorldGenerator } from './WorldGenerator';
+import type { WorldGenOptions } from './WorldGenerator';
+import { EventEmitter } from './EventEmitter';
+import type { EventListener } from './EventEmitter';
+
+const DEFAULT_MAP_WIDTH = 64; // Default map width in tiles
+const DEFAULT_MAP_HEIGHT = 64; // Default map height in tiles
 
 /**
  * Terrain types for tiles
@@ -36,6 +57,7 @@ export enum BuildingType {
     FARM = 1,
     MINE = 2,
     FORTRESS = 3,
+    CITY = 4,       // Part of a city footprint (managed by CityRegistry)
 }
 
 /**
@@ -58,46 +80,90 @@ export interface TileMetadata {
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * Rectangular block of tiles (tile coordinates, inclusive origin)
+ */
+export interface TileRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Events emitted by WorldContainer (event name -> payload)
+ */
+export interface WorldContainerEvents {
+    /** A tile's terrain, building, level or owner changed */
+    tileChanged: { x: number; y: number; tile: TileMetadata; previous: TileMetadata };
+
+    /** The whole map was regenerated */
+    mapChanged: { width: number; height: number };
+
+    /** Render data must be resent without a metadata change (e.g. fog of war); full = whole map */
+    tilesDirty: { full: boolean };
+}
+
+/**
+ * Returns the viewing player's visibility state for a tile
+ */
+export type VisibilitySource = (x: number, y: number) => TileVisibility;
+
 /**
  * WorldContainer - Manages game world metadata and provides render buffer translation
  */
 export class WorldContainer {
     private mapGrid: TileMetadata[][];
-    private mapSize: number;
+    private width: number;
+    private height: number;
+    private generationOptions: WorldGenOptions;
+    private dirtyTiles: Set<number>; // Tile indices (y * width + x) changed since last sync
+    private fullSyncPending: boolean; // Whole map changed (e.g. regenerated)
+    private visibilitySource: VisibilitySource | null = null; // null = no fog of war (all visible)
+    private events: EventEmitter<WorldContainerEvents> = new EventEmitter();
 
     /**
      * Create a new WorldContainer
-     * @param mapSize - Size of the map (default: 64x64)
+     * @param width - Map width in tiles (default: 64)
+     * @param height - Map height in tiles (default: 64)
+     * @param generation - World generation options (seed, water ratio, etc.)
      */
-    constructor(mapSize: number = MAP_SIZE) {
-        this.mapSize = mapSize;
+    constructor(width: number = DEFAULT_MAP_WIDTH, height: number = DEFAULT_MAP_HEIGHT, generation: Partial<WorldGenOptions> = {}) {
+        this.width = width;
+        this.height = height;
         this.mapGrid = [];
+        this.dirtyTiles = new Set();
+        this.fullSyncPending = true;
+        this.generationOptions = this.generateTerrain(generation);
+    }
 
-        // Initialize map with random terrain (0-3) for testing
-        // This generates a random 64x64 grid of tile IDs
-        for (let y = 0; y < mapSize; y++) {
-            this.mapGrid[y] = [];
-            for (let x = 0; x < mapSize; x++) {
-                // Generate random terrain type (0-3)
-                const randomTerrain = Math.floor(Math.random() * 4) as TerrainType;
-                this.mapGrid[y][x] = {
-                    terrain: randomTerrain,
-                    building: BuildingType.NONE,
-                    buildingLevel: 0,
-                    ownerId: 0,
-                };
-            }
-        }
+    /**
+     * Subscribe to world changes
+     * @param type - Event name
+     * @param listener - Called after the change with the event payload
+     * @returns Function that removes the subscription
+     */
+    on<K extends keyof WorldContainerEvents>(type: K, listener: EventListener<WorldContainerEvents[K]>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Unsubscribe from world changes
+     * @param type - Event name
+     * @param listener - Listener passed to on()
+     */
+    off<K extends keyof WorldContainerEvents>(type: K, listener: EventListener<WorldContainerEvents[K]>): void {
+        this.events.off(type, listener);
     }
 
     /**
      * Get tile metadata at a specific coordinate
-     * @param x - X coordinate (0 to mapSize-1)
-     * @param y - Y coordinate (0 to mapSize-1)
+     * @param x - X coordinate (0 to width-1)
+     * @param y - Y coordinate (0 to height-1)
      * @returns TileMetadata or undefined if out of bounds
      */
     getTile(x: number, y: number): TileMetadata | undefined {
-        if (x < 0 || x >= this.mapSize || y < 0 || y >= this.mapSize) {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
             return undefined;
         }
         return this.mapGrid[y][x];
@@ -105,13 +171,13 @@ export class WorldContainer {
 
     /**
      * Set tile metadata at a specific coordinate
-     * @param x - X coordinate (0 to mapSize-1)
-     * @param y - Y coordinate (0 to mapSize-1)
+     * @param x - X coordinate (0 to width-1)
+     * @param y - Y coordinate (0 to height-1)
      * @param metadata - Tile metadata to set
      * @returns true if successful, false if out of bounds
      */
     setTile(x: number, y: number, metadata: Partial<TileMetadata>): boolean {
-        if (x < 0 || x >= this.mapSize || y < 0 || y >= this.mapSize) {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
             return false;
         }
 
@@ -121,13 +187,24 @@ export class WorldContainer {
             ...metadata,
         };
 
+        // Only mark as dirty if the rendered tile actually changed
+        const next = this.mapGrid[y][x];
+        if (this.calculateTileId(current, x, y) !== this.calculateTileId(next, x, y)) {
+            this.dirtyTiles.add(y * this.width + x);
+        }
+
+        if (current.terrain !== next.terrain || current.building !== next.building ||
+            current.buildingLevel !== next.buildingLevel || current.ownerId !== next.ownerId) {
+            this.events.emit('tileChanged', { x, y, tile: next, previous: current });
+        }
+
         return true;
     }
 
     /**
      * Update a building's level at a specific coordinate
-     * @param x - X coordinate (0 to mapSize-1)
-     * @param y - Y coordinate (0 to mapSize-1)
+     * @param x - X coordinate (0 to width-1)
+     * @param y - Y coordinate (0 to height-1)
      * @param level - New building level (0 = remove building, 1+ = building level)
      * @returns true if successful, false if out of bounds
      */
@@ -153,8 +230,8 @@ export class WorldContainer {
 
     /**
      * Place a building at a specific coordinate
-     * @param x - X coordinate (0 to mapSize-1)
-     * @param y - Y coordinate (0 to mapSize-1)
+     * @param x - X coordinate (0 to width-1)
+     * @param y - Y coordinate (0 to height-1)
      * @param buildingType - Type of building to place
      * @param level - Building level (default: 1)
      * @param ownerId - Owner ID (default: 0 = neutral)
@@ -169,93 +246,268 @@ export class WorldContainer {
     }
 
     /**
-     * Calculate render tile ID from tile metadata
-     * 
-     * Tile ID encoding strategy:
-     * - Current tileset has 4 tiles (0-3) representing different terrain/building types
-     * - If building exists: Use building type as tile ID (mapped to tileset)
-     * - Otherwise: Use terrain type as tile ID
+     * Calculate the encoded render tile from tile metadata
      * 
-     * Future expansion: When tileset grows, we can encode:
-     * - Bits 0-1: Terrain type (0-3)
-     * - Bits 2-3: Building type (0-3)
-     * - Bits 4-7: Building level (0-15)
-     * - Bits 8-15: Owner ID (0-255)
+     * Terrain, building, level and owner are packed into a single u32 using the shared
+     * tile encoding (see shared/tileEncoding.ts). The shaders decode the same bits, so
+     * terrain stays visible underneath buildings and ownership is preserved.
+     * The visibility bits come from the visibility source, if one is set.
      * 
      * @param metadata - Tile metadata
-     * @returns Render tile ID (0-3 for current tileset)
+     * @param x - X coordinate of the tile
+     * @param y - Y coordinate of the tile
+     * @returns Encoded tile (u32)
      */
-    private calculateTileId(metadata: TileMetadata): number {
-        // If there's a building, use building type as the tile ID
-        // This ensures that updating building level or type changes the rendered tile
-        if (metadata.building !== BuildingType.NONE && metadata.buildingLevel > 0) {
-            // Map building type to tile ID (0-3)
-            // BuildingType enum: NONE=0, FARM=1, MINE=2, FORTRESS=3
-            // We use building type directly, but clamp to valid range
-            const buildingTileId = Math.min(3, metadata.building);
-            
-            // For now, we'll use a simple mapping:
-            // - FARM (1) -> Tile 1 (Red)
-            // - MINE (2) -> Tile 2 (Blue)
-            // - FORTRESS (3) -> Tile 3 (Yellow)
-            return buildingTileId;
-        }
+    private calculateTileId(metadata: TileMetadata, x: number, y: number): number {
+        // A building with level 0 is treated as no building
+        const hasBuilding = metadata.building !== BuildingType.NONE && metadata.buildingLevel > 0;
 
-        // Otherwise, use terrain type
-        // TerrainType enum: GRASS=0, FOREST=1, WATER=2, MOUNTAIN=3
-        return metadata.terrain;
+        return encodeTile({
+            terrain: metadata.terrain,
+            building: hasBuilding ? metadata.building : BuildingType.NONE,
+            buildingLevel: hasBuilding ? metadata.buildingLevel : 0,
+            ownerId: metadata.ownerId,
+            visibility: this.visibilitySource ? this.visibilitySource(x, y) : TILE_VISIBILITY.VISIBLE,
+        });
     }
 
     /**
-     * Get render data - converts metadata to Uint32Array of tile IDs
+     * Set the source of per-tile visibility (fog of war) for the viewing player
+     * The whole map is marked dirty so the next sync carries the new visibility.
+     * @param source - Visibility lookup, or null to disable fog of war
+     */
+    setVisibilitySource(source: VisibilitySource | null): void {
+        this.visibilitySource = source;
+        this.markAllDirty();
+    }
+
+    /**
+     * Get render data - converts metadata to Uint32Array of encoded tiles
      * 
      * This is the "Translation Layer" that converts rich metadata into
-     * raw tile IDs that the renderer can use directly.
+     * bit-packed tiles that the renderer can decode directly.
      * 
      * The returned buffer can be transferred to the worker via postMessage
      * using transferable objects for zero-copy performance.
      * 
-     * @returns Uint32Array of tile IDs (mapSize * mapSize elements)
+     * @returns Uint32Array of encoded tiles (width * height elements, row-major)
      */
     getRenderData(): Uint32Array {
-        const buffer = new Uint32Array(this.mapSize * this.mapSize);
+        const buffer = new Uint32Array(this.width * this.height);
 
-        for (let y = 0; y < this.mapSize; y++) {
-            for (let x = 0; x < this.mapSize; x++) {
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
                 const metadata = this.mapGrid[y][x];
-                const index = y * this.mapSize + x;
-                buffer[index] = this.calculateTileId(metadata);
+                const index = y * this.width + x;
+                buffer[index] = this.calculateTileId(metadata, x, y);
+            }
+        }
+
+        return buffer;
+    }
+
+    /**
+     * Get render data for a rectangular region
+     * @param region - Region to encode (must lie within the map)
+     * @returns Uint32Array of encoded tiles (region.width * region.height elements, row-major)
+     */
+    getRegionRenderData(region: TileRegion): Uint32Array {
+        const buffer = new Uint32Array(region.width * region.height);
+
+        for (let row = 0; row < region.height; row++) {
+            for (let col = 0; col < region.width; col++) {
+                const metadata = this.mapGrid[region.y + row][region.x + col];
+                buffer[row * region.width + col] = this.calculateTileId(metadata, region.x + col, region.y + row);
             }
         }
 
         return buffer;
     }
 
+    /**
+     * Mark a single tile as dirty (force it into the next incremental sync)
+     * @param x - X coordinate (0 to width-1)
+     * @param y - Y coordinate (0 to height-1)
+     */
+    markTileDirty(x: number, y: number): void {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return;
+        this.dirtyTiles.add(y * this.width + x);
+        this.events.emit('tilesDirty', { full: false });
+    }
+
+    /**
+     * Mark the whole map as dirty (next sync must transfer the full map)
+     */
+    markAllDirty(): void {
+        this.fullSyncPending = true;
+        this.dirtyTiles.clear();
+        this.events.emit('tilesDirty', { full: true });
+    }
+
+    /**
+     * Check if the whole map needs to be transferred
+     * @returns true if the map was regenerated or marked all dirty since the last sync
+     */
+    isFullSyncPending(): boolean {
+        return this.fullSyncPending;
+    }
+
+    /**
+     * Check if any tiles changed since the last sync
+     * @returns true if there are dirty tiles or a full sync is pending
+     */
+    hasDirtyTiles(): boolean {
+        return this.fullSyncPending || this.dirtyTiles.size > 0;
+    }
+
+    /**
+     * Get the number of individually dirty tiles
+     * @returns Number of dirty tiles (0 if only a full sync is pending)
+     */
+    getDirtyTileCount(): number {
+        return this.dirtyTiles.size;
+    }
+
+    /**
+     * Get dirty tiles grouped into rectangles
+     * 
+     * Dirty tiles in a row are merged into horizontal runs, and identical runs on
+     * consecutive rows are merged into rectangles. Every region is fully dirty, so
+     * no clean tiles are re-sent.
+     * 
+     * @returns Array of dirty regions (empty if nothing changed)
+     */
+    getDirtyRegions(): TileRegion[] {
+        if (this.fullSyncPending) {
+            return [{ x: 0, y: 0, width: this.width, height: this.height }];
+        }
+
+        const indices = Array.from(this.dirtyTiles).sort((a, b) => a - b);
+        const regions: TileRegion[] = [];
+
+        // Regions that ended on the previous row, keyed by "x:width" so they can be extended
+        let openRegions = new Map<string, TileRegion>();
+        let currentRow = -1;
+        let nextOpenRegions = new Map<string, TileRegion>();
+
+        let i = 0;
+        while (i < indices.length) {
+            const y = Math.floor(indices[i] / this.width);
+            const x = indices[i] - y * this.width;
+
+            // Extend the run while tiles are consecutive on the same row
+            let runWidth = 1;
+            while (
+                i + runWidth < indices.length &&
+                indices[i + runWidth] === indices[i] + runWidth &&
+                x + runWidth < this.width
+            ) {
+                runWidth++;
+            }
+            i += runWidth;
+
+            if (y !== currentRow) {
+                // Only regions touching the immediately previous row can be extended
+                openRegions = y === currentRow + 1 ? nextOpenRegions : new Map();
+                nextOpenRegions = new Map();
+                currentRow = y;
+            }
+
+            // Extend a matching region from the previous row, or start a new one
+            const key = `${x}:${runWidth}`;
+            let region = openRegions.get(key);
+            if (region) {
+                region.height++;
+                openRegions.delete(key);
+            } else {
+                region = { x, y, width: runWidth, height: 1 };
+                regions.push(region);
+            }
+            nextOpenRegions.set(key, region);
+        }
+
+        return regions;
+    }
+
+    /**
+     * Clear dirty tracking (after a successful sync)
+     */
+    clearDirty(): void {
+        this.dirtyTiles.clear();
+        this.fullSyncPending = false;
+    }
+
     /**
      * Get render buffer - alias for getRenderData() for backward compatibility
-     * @returns Uint32Array of tile IDs (mapSize * mapSize elements)
+     * @returns Uint32Array of encoded tiles (width * height elements, row-major)
      */
     getRenderBuffer(): Uint32Array {
         return this.getRenderData();
     }
 
     /**
-     * Get the map size
-     * @returns Map size (width/height in tiles)
+     * Get the map width
+     * @returns Map width in tiles
+     */
+    getWidth(): number {
+        return this.width;
+    }
+
+    /**
+     * Get the map height
+     * @returns Map height in tiles
+     */
+    getHeight(): number {
+        return this.height;
+    }
+
+    /**
+     * Get the options used to generate the current map
+     * Passing these back to generateTerrain() (or the constructor) reproduces the map.
+     * @returns World generation options
      */
-    getMapSize(): number {
-        return this.mapSize;
+    getGenerationOptions(): WorldGenOptions {
+        return { ...this.generationOptions };
     }
 
     /**
-     * Initialize map with random terrain for testing
+     * Regenerate the whole map from a seed
+     * Resets every tile (buildings and ownership are cleared).
+     * @param options - World generation options (missing fields use defaults)
+     * @returns The resolved options, including the seed
      */
-    initializeRandomTerrain(): void {
-        for (let y = 0; y < this.mapSize; y++) {
-            for (let x = 0; x < this.mapSize; x++) {
-                const terrain = Math.floor(Math.random() * 4) as TerrainType;
-                this.setTile(x, y, { terrain });
+    generateTerrain(options: Partial<WorldGenOptions> = {}): WorldGenOptions {
+        const generator = new WorldGenerator(options);
+        const terrain = generator.generate(this.width, this.height);
+
+        this.mapGrid = [];
+        for (let y = 0; y < this.height; y++) {
+            this.mapGrid[y] = [];
+            for (let x = 0; x < this.width; x++) {
+                this.mapGrid[y][x] = {
+                    terrain: terrain[y * this.width + x],
+                    building: BuildingType.NONE,
+                    buildingLevel: 0,
+                    ownerId: 0,
+                };
             }
         }
+
+        this.generationOptions = generator.getOptions();
+        this.markAllDirty();
+        this.events.emit('mapChanged', { width: this.width, height: this.height });
+        return this.getGenerationOptions();
+    }
+
+    /**
+     * Initialize map with a freshly seeded random terrain
+     * The chosen seed is returned (and available via getGenerationOptions())
+     * so the map can be reproduced later.
+     * @returns The seed used
+     */
+    initializeRandomTerrain(): number {
+        const seed = Math.floor(Math.random() * 0xFFFFFFFF);
+        this.generateTerrain({ ...this.generationOptions, seed });
+        return seed;
     }
 }
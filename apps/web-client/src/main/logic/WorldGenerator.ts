@@ -0,0 +1,254 @@
+/**
+ * WorldGenerator - Seeded, deterministic procedural terrain generator
+ *
+ * Produces a terrain grid from a seed and a set of tunables. The same seed and
+ * options always produce the same map, on every client, which is what makes
+ * maps shareable for multiplayer, bug reports and balance testing.
+ *
+ * Pipeline:
+ * 1. Heightmap - fractal value noise, pulled down towards the map edges to form coastlines
+ * 2. Sea level - chosen as a quantile of the heightmap so `waterRatio` is exact
+ * 3. Mountains - ridged noise (long, thin ranges) weighted by elevation
+ * 4. Forests - a separate moisture field; the wettest remaining land becomes forest
+ *
+ * Only integer hashing and basic arithmetic are used, so the output does not
+ * depend on the JS engine's Math.sin/Math.pow implementations.
+ *
+ * Usage example:
+ * ```typescript
+ * const generator = new WorldGenerator({ seed: 'warlords', waterRatio: 0.3 });
+ * const terrain = generator.generate(64, 64); // TerrainType[] in row-major order
+ * ```
+ */
+
+import { hashSeed } from './SeededRandom';
+import { TerrainType } from './WorldContainer';
+
+/**
+ * Tunable parameters for world generation
+ */
+export interface WorldGenOptions {
+    /** Seed value - same seed and options always yield the same map */
+    seed: number | string;
+
+    /** Fraction of all tiles that become water (0-1) */
+    waterRatio: number;
+
+    /** Fraction of land tiles that become mountains (0-1) */
+    mountainDensity: number;
+
+    /** Fraction of the remaining land tiles that become forest (0-1) */
+    forestDensity: number;
+
+    /** Approximate size of landmasses in tiles (noise wavelength) */
+    featureScale: number;
+
+    /** Number of noise octaves (more = rougher coastlines) */
+    octaves: number;
+
+    /** How strongly map edges are pushed below sea level (0 = none, 1 = island-like) */
+    coastFalloff: number;
+}
+
+/**
+ * Default generation parameters
+ */
+export const DEFAULT_WORLD_GEN_OPTIONS: WorldGenOptions = {
+    seed: 0,
+    waterRatio: 0.35,
+    mountainDensity: 0.12,
+    forestDensity: 0.3,
+    featureScale: 24,
+    octaves: 4,
+    coastFalloff: 0.6,
+};
+
+// Salts used to derive independent noise fields from one seed
+const ELEVATION_SALT = 0x1f123bb5;
+const RIDGE_SALT = 0x5b7e1d3a;
+const MOISTURE_SALT = 0x2c9277b5;
+
+/**
+ * Clamp a value to the [0, 1] range
+ */
+function clamp01(value: number): number {
+    return value < 0 ? 0 : value > 1 ? 1 : value;
+}
+
+/**
+ * WorldGenerator - Generates terrain grids from a seed
+ */
+export class WorldGenerator {
+    private options: WorldGenOptions;
+    private seed: number;
+
+    /**
+     * Create a new WorldGenerator
+     * @param options - Generation options (missing fields use DEFAULT_WORLD_GEN_OPTIONS)
+     */
+    constructor(options: Partial<WorldGenOptions> = {}) {
+        this.options = { ...DEFAULT_WORLD_GEN_OPTIONS, ...options };
+        this.options.waterRatio = clamp01(this.options.waterRatio);
+        this.options.mountainDensity = clamp01(this.options.mountainDensity);
+        this.options.forestDensity = clamp01(this.options.forestDensity);
+        this.options.coastFalloff = clamp01(this.options.coastFalloff);
+        this.options.featureScale = Math.max(1, this.options.featureScale);
+        this.options.octaves = Math.max(1, Math.floor(this.options.octaves));
+        this.seed = hashSeed(this.options.seed);
+    }
+
+    /**
+     * Get the resolved generation options
+     * @returns Copy of the options used by this generator
+     */
+    getOptions(): WorldGenOptions {
+        return { ...this.options };
+    }
+
+    /**
+     * Generate a terrain grid
+     * @param width - Map width in tiles
+     * @param height - Map height in tiles
+     * @returns Terrain types in row-major order (index = y * width + x)
+     */
+    generate(width: number, height: number): TerrainType[] {
+        const tileCount = width * height;
+        const terrain: TerrainType[] = new Array(tileCount).fill(TerrainType.GRASS);
+        if (tileCount === 0) return terrain;
+
+        const elevation = this.buildHeightmap(width, height);
+
+        // Sea level: the waterRatio quantile of the heightmap
+        const waterCount = Math.round(tileCount * this.options.waterRatio);
+        const byElevation = this.sortIndices(elevation, Array.from({ length: tileCount }, (_, i) => i));
+        for (let i = 0; i < waterCount; i++) {
+            terrain[byElevation[i]] = TerrainType.WATER;
+        }
+        const land = byElevation.slice(waterCount);
+        if (land.length === 0) return terrain;
+
+        const seaLevel = elevation[land[0]];
+        const landRange = Math.max(1e-6, elevation[land[land.length - 1]] - seaLevel);
+
+        // Mountain ranges: ridged noise, biased towards high ground
+        const mountainScore = new Float32Array(tileCount);
+        const ridgeScale = this.options.featureScale * 0.75;
+        for (const index of land) {
+            const x = index % width;
+            const y = (index - x) / width;
+            const n = this.fbm(x / ridgeScale, y / ridgeScale, RIDGE_SALT);
+            const ridge = 1 - Math.abs(2 * n - 1);
+            const height01 = (elevation[index] - seaLevel) / landRange;
+            mountainScore[index] = ridge * ridge * 0.65 + height01 * 0.35;
+        }
+        const mountainCount = Math.round(land.length * this.options.mountainDensity);
+        const byMountainScore = this.sortIndices(mountainScore, land).reverse();
+        for (let i = 0; i < mountainCount; i++) {
+            terrain[byMountainScore[i]] = TerrainType.MOUNTAIN;
+        }
+
+        // Forests: wettest remaining lowland
+        const lowland = byMountainScore.slice(mountainCount);
+        const moisture = new Float32Array(tileCount);
+        const moistureScale = this.options.featureScale * 0.5;
+        for (const index of lowland) {
+            const x = index % width;
+            const y = (index - x) / width;
+            moisture[index] = this.fbm(x / moistureScale, y / moistureScale, MOISTURE_SALT);
+        }
+        const forestCount = Math.round(lowland.length * this.options.forestDensity);
+        const byMoisture = this.sortIndices(moisture, lowland).reverse();
+        for (let i = 0; i < forestCount; i++) {
+            terrain[byMoisture[i]] = TerrainType.FOREST;
+        }
+
+        return terrain;
+    }
+
+    /**
+     * Build the elevation field, including the coastal edge falloff
+     */
+    private buildHeightmap(width: number, height: number): Float32Array {
+        const elevation = new Float32Array(width * height);
+        const scale = this.options.featureScale;
+        const falloff = this.options.coastFalloff;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let e = this.fbm(x / scale, y / scale, ELEVATION_SALT);
+
+                // Distance to the nearest edge, normalized to 0 (center) .. 1 (edge)
+                const nx = width > 1 ? Math.abs((2 * x) / (width - 1) - 1) : 0;
+                const ny = height > 1 ? Math.abs((2 * y) / (height - 1) - 1) : 0;
+                const d = nx > ny ? nx : ny;
+                e -= falloff * d * d * d;
+
+                elevation[y * width + x] = e;
+            }
+        }
+
+        return elevation;
+    }
+
+    /**
+     * Sort tile indices by ascending value (ties broken by index for determinism)
+     */
+    private sortIndices(values: Float32Array, indices: number[]): number[] {
+        return [...indices].sort((a, b) => (values[a] - values[b]) || (a - b));
+    }
+
+    /**
+     * Fractal value noise (sum of octaves), normalized to [0, 1]
+     */
+    private fbm(x: number, y: number, salt: number): number {
+        let total = 0;
+        let amplitude = 1;
+        let frequency = 1;
+        let norm = 0;
+
+        for (let octave = 0; octave < this.options.octaves; octave++) {
+            total += this.valueNoise(x * frequency, y * frequency, salt + octave * 0x9e3779b1) * amplitude;
+            norm += amplitude;
+            amplitude *= 0.5;
+            frequency *= 2;
+        }
+
+        return total / norm;
+    }
+
+    /**
+     * Smoothly interpolated lattice noise in [0, 1]
+     */
+    private valueNoise(x: number, y: number, salt: number): number {
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const fx = x - x0;
+        const fy = y - y0;
+
+        // Smoothstep fade curve
+        const u = fx * fx * (3 - 2 * fx);
+        const v = fy * fy * (3 - 2 * fy);
+
+        const a = this.latticeValue(x0, y0, salt);
+        const b = this.latticeValue(x0 + 1, y0, salt);
+        const c = this.latticeValue(x0, y0 + 1, salt);
+        const d = this.latticeValue(x0 + 1, y0 + 1, salt);
+
+        const top = a + (b - a) * u;
+        const bottom = c + (d - c) * u;
+        return top + (bottom - top) * v;
+    }
+
+    /**
+     * Hash a lattice point to a value in [0, 1)
+     */
+    private latticeValue(ix: number, iy: number, salt: number): number {
+        let h = (this.seed ^ Math.imul(salt | 0, 0x27d4eb2d)) >>> 0;
+        h = Math.imul(h ^ Math.imul(ix | 0, 0x85ebca6b), 0xc2b2ae35);
+        h = Math.imul(h ^ Math.imul(iy | 0, 0x27d4eb2f), 0x165667b1);
+        h ^= h >>> 15;
+        h = Math.imul(h, 0x2c1b3c6d);
+        h ^= h >>> 12;
+        return (h >>> 0) / 4294967296;
+    }
+}
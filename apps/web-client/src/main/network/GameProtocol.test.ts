@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { create } from '@bufbuild/protobuf';
+import * as pb from '../../shared/proto/game';
+import { HeadlessGame } from '../logic/HeadlessGame';
+import { DiplomacySystem, DiplomaticState } from '../logic/DiplomacySystem';
+import { UnitRegistry } from '../logic/UnitRegistry';
+import { TerrainType, WorldContainer } from '../logic/WorldContainer';
+import {
+    ProtocolCommandHandler,
+    StateDeltaRecorder,
+    applyDiplomacySnapshot,
+    applyGameState,
+    applyStateDelta,
+    createEndTurnMessage,
+    createGameState,
+    createMoveMessage,
+} from './GameProtocol';
+
+/**
+ * A small started game and empty systems for a client to copy it into
+ */
+function setup() {
+    const game = new HeadlessGame({ width: 24, height: 16, seed: 5, neutralCities: 1 });
+    game.turns.start();
+    return {
+        game,
+        client: {
+            world: new WorldContainer(game.world.getWidth(), game.world.getHeight()),
+            units: new UnitRegistry(game.units.getCatalog()),
+            diplomacy: new DiplomacySystem(),
+        },
+    };
+}
+
+/**
+ * Send a server message through the codec, as over the network
+ */
+function transmit(message: pb.ServerMessageInit): pb.ServerMessage {
+    return pb.decodeServerMessage(pb.encodeServerMessage(message));
+}
+
+describe('GameProtocol state sync', () => {
+    it('copies the whole game state to a client', () => {
+        const { game, client } = setup();
+        game.diplomacy.propose(1, 2, DiplomaticState.PEACE);
+
+        const state = transmit({ payload: { case: 'state', value: createGameState(game.world, game.units, game.turns, game.diplomacy) } });
+        expect(state.payload.case).toBe('state');
+        applyGameState(client.world, client.units, client.diplomacy, state.payload.value as pb.GameState);
+
+        expect(createGameState(client.world, client.units, game.turns, client.diplomacy))
+            .toEqual(createGameState(game.world, game.units, game.turns, game.diplomacy));
+        expect(client.diplomacy.getProposals()).toEqual(game.diplomacy.getProposals());
+    });
+
+    it('keeps a client in step with deltas', () => {
+        const { game, client } = setup();
+        applyGameState(client.world, client.units, client.diplomacy, createGameState(game.world, game.units, game.turns, game.diplomacy));
+        const recorder = new StateDeltaRecorder(game.world, game.units, game.turns, game.diplomacy);
+        expect(recorder.hasChanges()).toBe(false);
+
+        const [first, second] = game.units.getUnitsByOwner(1);
+        game.units.setUnitHp(first.id, 1);
+        game.units.removeUnit(second.id);
+        game.world.setTile(0, 0, { terrain: TerrainType.MOUNTAIN });
+        const proposal = game.diplomacy.propose(1, 2, DiplomaticState.PEACE);
+        expect(proposal.success).toBe(true);
+        expect(recorder.hasChanges()).toBe(true);
+
+        const delta = transmit({ payload: { case: 'delta', value: recorder.takeDelta() } });
+        applyStateDelta(client.world, client.units, client.diplomacy, delta.payload.value as pb.StateDelta);
+
+        expect(createGameState(client.world, client.units, game.turns, client.diplomacy))
+            .toEqual(createGameState(game.world, game.units, game.turns, game.diplomacy));
+        expect(recorder.hasChanges()).toBe(false);
+        const empty = recorder.takeDelta();
+        expect(empty).toMatchObject({ tiles: [], units: [], removedUnitIds: [] });
+        expect(empty.diplomacy).toBeUndefined();
+        recorder.dispose();
+    });
+
+    it('refuses states that do not fit the client', () => {
+        const { game, client } = setup();
+        const state = createGameState(game.world, game.units, game.turns, game.diplomacy);
+
+        expect(() => applyGameState(new WorldContainer(8, 8), client.units, client.diplomacy, state)).toThrow('World snapshot is 24x16');
+        expect(() => applyGameState(client.world, client.units, client.diplomacy, { ...state, world: undefined })).toThrow('no world');
+        expect(() => applyGameState(client.world, client.units, client.diplomacy, { ...state, diplomacy: undefined })).toThrow('no diplomacy');
+        expect(() => applyDiplomacySnapshot(client.diplomacy, create(pb.DiplomacySchema, {
+            relations: [{ playerA: 1, playerB: 2, state: 7 as pb.DiplomaticState }], // From a newer sender
+            proposals: [],
+            nextProposalId: 1,
+        }))).toThrow('unknown state 7');
+    });
+});
+
+describe('ProtocolCommandHandler', () => {
+    it('answers bytes that cannot be decoded with INVALID_MESSAGE', () => {
+        const { game } = setup();
+        const handler = new ProtocolCommandHandler({ orders: game.orders, units: game.units, turns: game.turns });
+
+        const reply = handler.handle(1, new Uint8Array([0x0A, 0x05, 0x01]));
+        expect(reply.payload).toMatchObject({ case: 'error', value: { requestId: 0, code: pb.ErrorCode.INVALID_MESSAGE } });
+        expect(handler.handle(1, new Uint8Array()).payload).toMatchObject({ case: 'error', value: { code: pb.ErrorCode.INVALID_MESSAGE } });
+    });
+
+    it('refuses orders out of turn and for other players\' units', () => {
+        const { game } = setup();
+        const handler = new ProtocolCommandHandler({ orders: game.orders, units: game.units, turns: game.turns });
+        const enemy = game.units.getUnitsByOwner(2)[0];
+
+        const outOfTurn = handler.handle(2, pb.encodeClientMessage(createEndTurnMessage(3)));
+        expect(outOfTurn.payload).toMatchObject({ case: 'error', value: { requestId: 3, code: pb.ErrorCode.NOT_YOUR_TURN } });
+
+        const foreign = handler.handle(1, pb.encodeClientMessage(createMoveMessage(4, [enemy.id], { x: 0, y: 0 })));
+        expect(foreign.payload).toMatchObject({ case: 'error', value: { requestId: 4, code: pb.ErrorCode.UNIT_NOT_FOUND } });
+    });
+
+    it('ends the turn of the player whose turn it is', () => {
+        const { game } = setup();
+        const handler = new ProtocolCommandHandler({ orders: game.orders, units: game.units, turns: game.turns });
+
+        const reply = handler.handle(1, pb.encodeClientMessage(createEndTurnMessage(5)));
+        expect(reply.payload).toMatchObject({
+            case: 'result',
+            value: { requestId: 5, result: { case: 'turnEnded', value: { turnNumber: 1, activePlayerId: 2 } } },
+        });
+    });
+});
@@ -0,0 +1,573 @@
+/**
+ * GameProtocol - Translates between the game systems and the protobuf game protocol
+ *
+ * The server side builds a GameState for a joining client from the WorldContainer,
+ * UnitRegistry, TurnManager and DiplomacySystem, collects StateDeltas from their change events
+ * (StateDeltaRecorder) and carries out ClientMessages through the GameController
+ * (ProtocolCommandHandler), answering each with a CommandResult or an Error.
+ * The client side applies GameStates and StateDeltas to its own WorldContainer,
+ * UnitRegistry and DiplomacySystem, whose events then resync the renderer as for local
+ * changes. Diplomacy is sent whole (relations and open proposals) whenever it changed;
+ * each side keeps its own treaty history.
+ *
+ * Not carried yet: cities (their tiles are, as BuildingType.CITY), treasuries,
+ * hero state and fog of war (every unit is sent to every client).
+ *
+ * Usage example:
+ * ```typescript
+ * // Server
+ * const bytes = pb.encodeServerMessage({ payload: { case: 'state', value: createGameState(world, units, turns, diplomacy) } });
+ * const recorder = new StateDeltaRecorder(world, units, turns, diplomacy);
+ * const handler = new ProtocolCommandHandler({ orders, units, turns });
+ * const reply = handler.handle(playerId, clientBytes); // CommandResult or Error
+ * if (recorder.hasChanges()) send({ payload: { case: 'delta', value: recorder.takeDelta() } });
+ *
+ * // Client
+ * applyGameState(world, units, diplomacy, state);
+ * applyStateDelta(world, units, diplomacy, delta);
+ * send(pb.encodeClientMessage(createMoveMessage(requestId, [3, 4], { x: 10, y: 12 })));
+ * ```
+ */
+
+import { create } from '@bufbuild/protobuf';
+import type { MessageInitShape } from '@bufbuild/protobuf';
+import * as pb from '../../shared/proto/game';
+import type { WorldContainer, TileMetadata } from '../logic/WorldContainer';
+import { UnitState } from '../logic/UnitRegistry';
+import type { GridPosition, Unit, UnitRegistry } from '../logic/UnitRegistry';
+import type { TurnManager } from '../logic/TurnManager';
+import { DiplomaticState, DIPLOMACY_SAVE_VERSION } from '../logic/DiplomacySystem';
+import type { DiplomacySystem } from '../logic/DiplomacySystem';
+import type { GameController, OrderOutcome, CityCapture } from '../logic/GameController';
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the protocol form of a tile
+ * @param tile - Tile metadata
+ * @returns Tile message
+ */
+export function createTileSnapshot(tile: TileMetadata): pb.Tile {
+    return create(pb.TileSchema, {
+        terrain: tile.terrain as number,
+        building: tile.building as number,
+        level: tile.buildingLevel,
+        ownerId: tile.ownerId,
+    });
+}
+
+/**
+ * Create a snapshot of the whole map
+ * @param world - World to snapshot
+ * @returns WorldSnapshot message (tiles row-major)
+ */
+export function createWorldSnapshot(world: WorldContainer): pb.WorldSnapshot {
+    const width = world.getWidth();
+    const height = world.getHeight();
+    const tiles: pb.Tile[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            tiles.push(createTileSnapshot(world.getTile(x, y)!));
+        }
+    }
+    return create(pb.WorldSnapshotSchema, { width, height, tiles });
+}
+
+/**
+ * Copy a map snapshot into a world (only tiles that differ change and emit tileChanged)
+ * @param world - World of the snapshot's size
+ * @param snapshot - WorldSnapshot message
+ * @throws Error if the snapshot's size differs from the world's or it has the wrong number of tiles
+ */
+export function applyWorldSnapshot(world: WorldContainer, snapshot: pb.WorldSnapshot): void {
+    const width = world.getWidth();
+    const height = world.getHeight();
+    if (snapshot.width !== width || snapshot.height !== height) {
+        throw new Error(`World snapshot is ${snapshot.width}x${snapshot.height}, the world is ${width}x${height}`);
+    }
+    if (snapshot.tiles.length !== width * height) {
+        throw new Error(`World snapshot has ${snapshot.tiles.length} tiles, expected ${width * height}`);
+    }
+
+    snapshot.tiles.forEach((tile, index) => {
+        world.setTile(index % width, Math.floor(index / width), toTileMetadata(tile));
+    });
+}
+
+/**
+ * Create the protocol form of a unit
+ * Selection is local to each client, so the SELECTED flag is left out.
+ * @param unit - Unit
+ * @returns Unit message
+ */
+export function createUnitSnapshot(unit: Unit): pb.Unit {
+    return create(pb.UnitSchema, {
+        id: unit.id,
+        pos: { x: unit.gridPos.x, y: unit.gridPos.y },
+        type: unit.unitType,
+        ownerId: unit.ownerId,
+        hp: unit.hp,
+        maxHp: unit.maxHp,
+        movementPoints: unit.movementPoints,
+        maxMovementPoints: unit.maxMovementPoints,
+        sightRadius: unit.sightRadius,
+        strength: unit.strength,
+        state: unit.state & ~UnitState.SELECTED,
+    });
+}
+
+/**
+ * Add or replace a unit from its snapshot
+ * A unit that is already in the registry keeps its local selection and hero state.
+ * @param units - Unit registry
+ * @param snapshot - Unit message
+ * @throws Error if the snapshot has no position or an unknown unit type
+ */
+export function applyUnitSnapshot(units: UnitRegistry, snapshot: pb.Unit): void {
+    if (!snapshot.pos) {
+        throw new Error(`Unit snapshot ${snapshot.id} has no position`);
+    }
+
+    const existing = units.getUnit(snapshot.id);
+    units.addUnit({
+        id: snapshot.id,
+        gridPos: { x: snapshot.pos.x, y: snapshot.pos.y },
+        unitType: snapshot.type,
+        ownerId: snapshot.ownerId,
+        hp: snapshot.hp,
+        maxHp: snapshot.maxHp,
+        movementPoints: snapshot.movementPoints,
+        maxMovementPoints: snapshot.maxMovementPoints,
+        sightRadius: snapshot.sightRadius,
+        strength: snapshot.strength,
+        state: (snapshot.state & ~UnitState.SELECTED) | ((existing?.state ?? 0) & UnitState.SELECTED),
+        hero: existing?.hero,
+        metadata: existing?.metadata,
+    });
+}
+
+/**
+ * Create a snapshot of the relations and open proposals
+ * @param diplomacy - Diplomacy system
+ * @returns Diplomacy message
+ */
+export function createDiplomacySnapshot(diplomacy: DiplomacySystem): pb.Diplomacy {
+    const data = diplomacy.serialize();
+    return create(pb.DiplomacySchema, {
+        relations: data.relations.map(({ playerA, playerB, state }) => ({ playerA, playerB, state: STATE_TO_MESSAGE[state] })),
+        proposals: data.proposals.map(proposal => ({ ...proposal, state: STATE_TO_MESSAGE[proposal.state] })),
+        nextProposalId: data.nextProposalId,
+    });
+}
+
+/**
+ * Replace the relations and open proposals with a snapshot
+ * The local treaty history is kept. Like DiplomacySystem.load, no events are emitted.
+ * @param diplomacy - Diplomacy system
+ * @param snapshot - Diplomacy message
+ * @throws Error if the snapshot has an unknown state or invalid players or proposal IDs
+ */
+export function applyDiplomacySnapshot(diplomacy: DiplomacySystem, snapshot: pb.Diplomacy): void {
+    const toState = (state: pb.DiplomaticState): DiplomaticState => {
+        const value = MESSAGE_TO_STATE[state];
+        if (value === undefined) throw new Error(`Diplomacy snapshot has unknown state ${state}`);
+        return value;
+    };
+
+    diplomacy.load({
+        version: DIPLOMACY_SAVE_VERSION,
+        relations: snapshot.relations.map(({ playerA, playerB, state }) => ({ playerA, playerB, state: toState(state) })),
+        proposals: snapshot.proposals.map(({ id, from, to, state, turnNumber }) => ({ id, from, to, state: toState(state), turnNumber })),
+        history: diplomacy.getHistory(),
+        nextProposalId: snapshot.nextProposalId,
+    });
+}
+
+// ---------------------------------------------------------------------------
+// State sync
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the full state a joining client starts from
+ * @param world - World
+ * @param units - Unit registry
+ * @param turns - Turn manager
+ * @param diplomacy - Diplomacy system
+ * @returns GameState message
+ */
+export function createGameState(world: WorldContainer, units: UnitRegistry, turns: TurnManager, diplomacy: DiplomacySystem): pb.GameState {
+    return create(pb.GameStateSchema, {
+        turnNumber: turns.getTurnNumber(),
+        units: units.getAllUnits().map(createUnitSnapshot),
+        world: createWorldSnapshot(world),
+        activePlayerId: turns.getActivePlayerId(),
+        diplomacy: createDiplomacySnapshot(diplomacy),
+    });
+}
+
+/**
+ * Replace the local map, units and diplomacy with a full state
+ * Units that are not in the state are removed. The turn number and active player are
+ * not applied (the client's TurnManager follows the server's TurnEnded results).
+ * @param world - World of the state's map size
+ * @param units - Unit registry
+ * @param diplomacy - Diplomacy system
+ * @param state - GameState message
+ * @throws Error if the state has no world or no diplomacy, or its map, units or diplomacy are invalid
+ */
+export function applyGameState(world: WorldContainer, units: UnitRegistry, diplomacy: DiplomacySystem, state: pb.GameState): void {
+    if (!state.world) {
+        throw new Error('Game state has no world');
+    }
+    if (!state.diplomacy) {
+        throw new Error('Game state has no diplomacy');
+    }
+    applyWorldSnapshot(world, state.world);
+    applyDiplomacySnapshot(diplomacy, state.diplomacy);
+
+    const ids = new Set(state.units.map(unit => unit.id));
+    for (const unit of units.getAllUnits()) {
+        if (!ids.has(unit.id)) units.removeUnit(unit.id);
+    }
+    state.units.forEach(unit => applyUnitSnapshot(units, unit));
+}
+
+/**
+ * Apply the changes in a delta
+ * @param world - World
+ * @param units - Unit registry
+ * @param diplomacy - Diplomacy system
+ * @param delta - StateDelta message
+ * @throws Error if a tile update has no position or tile, or lies off the map, or a unit or the diplomacy is invalid
+ */
+export function applyStateDelta(world: WorldContainer, units: UnitRegistry, diplomacy: DiplomacySystem, delta: pb.StateDelta): void {
+    for (const update of delta.tiles) {
+        if (!update.pos || !update.tile) {
+            throw new Error('Tile update has no position or tile');
+        }
+        if (!world.setTile(update.pos.x, update.pos.y, toTileMetadata(update.tile))) {
+            throw new Error(`Tile update at ${update.pos.x},${update.pos.y} is off the map`);
+        }
+    }
+
+    delta.removedUnitIds.forEach(id => units.removeUnit(id));
+    delta.units.forEach(unit => applyUnitSnapshot(units, unit));
+    if (delta.diplomacy) applyDiplomacySnapshot(diplomacy, delta.diplomacy);
+}
+
+/**
+ * StateDeltaRecorder - Collects world, unit and diplomacy changes into StateDeltas
+ *
+ * Listens to the WorldContainer, UnitRegistry and DiplomacySystem events and remembers
+ * which tiles and units changed and whether diplomacy did. takeDelta() snapshots their
+ * current state (so a unit that moved twice is sent once) and starts over.
+ */
+export class StateDeltaRecorder {
+    private world: WorldContainer;
+    private units: UnitRegistry;
+    private turns: TurnManager;
+    private diplomacy: DiplomacySystem;
+    private changedTiles = new Set<number>(); // y * width + x
+    private changedUnits = new Set<number>();
+    private removedUnits = new Set<number>();
+    private diplomacyChanged = false;
+    private unsubscribers: (() => void)[];
+
+    /**
+     * Create a new StateDeltaRecorder (recording starts right away)
+     * @param world - World to watch
+     * @param units - Unit registry to watch
+     * @param turns - Turn manager (turn number and active player of each delta)
+     * @param diplomacy - Diplomacy system to watch
+     */
+    constructor(world: WorldContainer, units: UnitRegistry, turns: TurnManager, diplomacy: DiplomacySystem) {
+        this.world = world;
+        this.units = units;
+        this.turns = turns;
+        this.diplomacy = diplomacy;
+
+        const unitChanged = ({ unit }: { unit: Unit }) => {
+            this.changedUnits.add(unit.id);
+            this.removedUnits.delete(unit.id);
+        };
+
+        this.unsubscribers = [
+            world.on('tileChanged', ({ x, y }) => this.changedTiles.add(y * world.getWidth() + x)),
+            world.on('mapChanged', () => {
+                for (let i = 0; i < world.getWidth() * world.getHeight(); i++) this.changedTiles.add(i);
+            }),
+            units.on('unitAdded', unitChanged),
+            units.on('unitMoved', unitChanged),
+            units.on('unitChanged', unitChanged),
+            units.on('unitRemoved', ({ unit }) => {
+                this.changedUnits.delete(unit.id);
+                this.removedUnits.add(unit.id);
+            }),
+            diplomacy.on('stateChanged', () => { this.diplomacyChanged = true; }),
+            diplomacy.on('proposalMade', () => { this.diplomacyChanged = true; }),
+            diplomacy.on('proposalResolved', () => { this.diplomacyChanged = true; }),
+        ];
+    }
+
+    /**
+     * Check if anything changed since the last delta
+     * @returns true if takeDelta() would carry changes
+     */
+    hasChanges(): boolean {
+        return this.changedTiles.size > 0 || this.changedUnits.size > 0 || this.removedUnits.size > 0
+            || this.diplomacyChanged;
+    }
+
+    /**
+     * Create a delta of everything that changed since the last one, and start over
+     * @returns StateDelta message
+     */
+    takeDelta(): pb.StateDelta {
+        const width = this.world.getWidth();
+        const delta = create(pb.StateDeltaSchema, {
+            turnNumber: this.turns.getTurnNumber(),
+            activePlayerId: this.turns.getActivePlayerId(),
+            tiles: Array.from(this.changedTiles).sort((a, b) => a - b).map(index => {
+                const x = index % width;
+                const y = Math.floor(index / width);
+                return { pos: { x, y }, tile: createTileSnapshot(this.world.getTile(x, y)!) };
+            }),
+            units: Array.from(this.changedUnits).sort((a, b) => a - b)
+                .map(id => createUnitSnapshot(this.units.getUnit(id)!)),
+            removedUnitIds: Array.from(this.removedUnits).sort((a, b) => a - b),
+            diplomacy: this.diplomacyChanged ? createDiplomacySnapshot(this.diplomacy) : undefined,
+        });
+
+        this.changedTiles.clear();
+        this.changedUnits.clear();
+        this.removedUnits.clear();
+        this.diplomacyChanged = false;
+        return delta;
+    }
+
+    /**
+     * Stop recording
+     */
+    dispose(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a move order
+ * @param requestId - ID echoed in the answer
+ * @param unitIds - Units of one stack
+ * @param target - Destination tile
+ * @returns ClientMessage
+ */
+export function createMoveMessage(requestId: number, unitIds: number[], target: GridPosition): pb.ClientMessage {
+    return create(pb.ClientMessageSchema, { requestId, command: { case: 'move', value: { unitIds: [...unitIds], target: { ...target } } } });
+}
+
+/**
+ * Create an attack order
+ * @param requestId - ID echoed in the answer
+ * @param unitIds - Attacking units (one stack)
+ * @param target - Enemy-held tile
+ * @returns ClientMessage
+ */
+export function createAttackMessage(requestId: number, unitIds: number[], target: GridPosition): pb.ClientMessage {
+    return create(pb.ClientMessageSchema, { requestId, command: { case: 'attack', value: { unitIds: [...unitIds], target: { ...target } } } });
+}
+
+/**
+ * Create an end-of-turn order
+ * @param requestId - ID echoed in the answer
+ * @returns ClientMessage
+ */
+export function createEndTurnMessage(requestId: number): pb.ClientMessage {
+    return create(pb.ClientMessageSchema, { requestId, command: { case: 'endTurn', value: {} } });
+}
+
+/**
+ * Game systems the command handler orders through
+ */
+export interface ProtocolCommandHandlerDeps {
+    orders: GameController;
+    units: UnitRegistry;
+    turns: TurnManager;
+}
+
+/**
+ * ProtocolCommandHandler - Carries out client orders on the authoritative game
+ *
+ * Every order goes through the GameController, so remote players follow the same rules
+ * as local ones. The handler also checks that the ordering connection's player owns the
+ * units and that it is their turn; orders for other players' units are answered as if the
+ * units did not exist.
+ */
+export class ProtocolCommandHandler {
+    private orders: GameController;
+    private units: UnitRegistry;
+    private turns: TurnManager;
+
+    /**
+     * Create a new ProtocolCommandHandler
+     * @param deps - Game systems
+     */
+    constructor(deps: ProtocolCommandHandlerDeps) {
+        this.orders = deps.orders;
+        this.units = deps.units;
+        this.turns = deps.turns;
+    }
+
+    /**
+     * Decode and carry out a client message
+     * @param playerId - Player the sending client plays
+     * @param bytes - Encoded ClientMessage
+     * @returns The answer (an INVALID_MESSAGE error if the bytes cannot be decoded)
+     */
+    handle(playerId: number, bytes: Uint8Array): pb.ServerMessage {
+        let message: pb.ClientMessage;
+        try {
+            message = pb.decodeClientMessage(bytes);
+        } catch (error) {
+            return createError(0, pb.ErrorCode.INVALID_MESSAGE, '', (error as Error).message);
+        }
+        return this.execute(playerId, message);
+    }
+
+    /**
+     * Carry out a decoded client message
+     * @param playerId - Player the sending client plays
+     * @param message - ClientMessage
+     * @returns CommandResult, or an Error if the order was refused
+     */
+    execute(playerId: number, message: pb.ClientMessage): pb.ServerMessage {
+        const { requestId, command } = message;
+        if (command.case === undefined) {
+            return createError(requestId, pb.ErrorCode.INVALID_MESSAGE, '', 'Message has no command');
+        }
+        if (!this.turns.canCommand(playerId)) {
+            return createError(requestId, pb.ErrorCode.NOT_YOUR_TURN, '', `It is not player ${playerId}'s turn`);
+        }
+
+        if (command.case === 'endTurn') {
+            if (!this.orders.endTurn()) {
+                return createError(requestId, pb.ErrorCode.TURN_NOT_ENDED, '', 'The turn cannot end now');
+            }
+            return createResult(requestId, {
+                case: 'turnEnded',
+                value: { turnNumber: this.turns.getTurnNumber(), activePlayerId: this.turns.getActivePlayerId() },
+            });
+        }
+
+        const { unitIds, target } = command.value;
+        if (!target || unitIds.length === 0) {
+            return createError(requestId, pb.ErrorCode.INVALID_MESSAGE, '', 'Order has no units or no target');
+        }
+        if (unitIds.some(id => this.units.getUnit(id)?.ownerId !== playerId)) {
+            return createError(requestId, pb.ErrorCode.UNIT_NOT_FOUND, 'UNIT_NOT_FOUND', 'Ordered units do not exist');
+        }
+
+        const outcome = command.case === 'move'
+            ? this.orders.move(unitIds, target)
+            : this.orders.attack(unitIds, target);
+        return createOutcomeMessage(requestId, outcome, command.case === 'move'
+            ? pb.ErrorCode.MOVE_REJECTED
+            : pb.ErrorCode.ATTACK_REJECTED);
+    }
+}
+
+/**
+ * Diplomatic states in their protocol form
+ */
+const STATE_TO_MESSAGE: Record<DiplomaticState, pb.DiplomaticState> = {
+    [DiplomaticState.WAR]: pb.DiplomaticState.WAR,
+    [DiplomaticState.PEACE]: pb.DiplomaticState.PEACE,
+    [DiplomaticState.ALLIANCE]: pb.DiplomaticState.ALLIANCE,
+};
+
+/**
+ * Diplomatic states from their protocol form
+ */
+const MESSAGE_TO_STATE: Partial<Record<number, DiplomaticState>> = {
+    [pb.DiplomaticState.WAR]: DiplomaticState.WAR,
+    [pb.DiplomaticState.PEACE]: DiplomaticState.PEACE,
+    [pb.DiplomaticState.ALLIANCE]: DiplomaticState.ALLIANCE,
+};
+
+/**
+ * Convert tile metadata from its protocol form
+ */
+function toTileMetadata(tile: pb.Tile): Partial<TileMetadata> {
+    return {
+        terrain: tile.terrain as number,
+        building: tile.building as number,
+        buildingLevel: tile.level,
+        ownerId: tile.ownerId,
+    };
+}
+
+/**
+ * Convert a city capture to its protocol form
+ */
+function toCaptureMessage(capture: CityCapture | null): pb.CityCapture | undefined {
+    return capture ? create(pb.CityCaptureSchema, capture) : undefined;
+}
+
+/**
+ * Answer a move or attack order with its outcome
+ */
+function createOutcomeMessage(requestId: number, outcome: OrderOutcome, rejectCode: pb.ErrorCode): pb.ServerMessage {
+    switch (outcome.type) {
+        case 'moved':
+            return createResult(requestId, {
+                case: 'moved',
+                value: {
+                    path: outcome.result.path.map(pos => ({ x: pos.x, y: pos.y })),
+                    cost: outcome.result.cost,
+                    remaining: outcome.result.remaining,
+                    capture: toCaptureMessage(outcome.capture),
+                },
+            });
+        case 'attacked': {
+            const { battle } = outcome;
+            const winners = { attacker: pb.BattleWinner.ATTACKER, defender: pb.BattleWinner.DEFENDER, draw: pb.BattleWinner.DRAW };
+            return createResult(requestId, {
+                case: 'attacked',
+                value: {
+                    seed: battle.seed >>> 0,
+                    winner: winners[battle.winner],
+                    hpChanges: battle.hpChanges.map(change => ({ unitId: change.unitId, before: change.before, after: change.after })),
+                    killed: [...battle.killed],
+                    defenseBonus: battle.defenseBonus,
+                    capture: toCaptureMessage(outcome.capture),
+                },
+            });
+        }
+        case 'rejected': {
+            // Refusals that are not about the rules themselves have codes of their own
+            const code = outcome.reason === 'NOT_YOUR_TURN' ? pb.ErrorCode.NOT_YOUR_TURN
+                : outcome.reason === 'UNIT_NOT_FOUND' ? pb.ErrorCode.UNIT_NOT_FOUND
+                : rejectCode;
+            return createError(requestId, code, outcome.reason, outcome.message);
+        }
+    }
+}
+
+/**
+ * Wrap a command result in a server message
+ */
+function createResult(requestId: number, result: MessageInitShape<typeof pb.CommandResultSchema>['result']): pb.ServerMessage {
+    return create(pb.ServerMessageSchema, { payload: { case: 'result', value: { requestId, result } } });
+}
+
+/**
+ * Wrap an error in a server message
+ */
+function createError(requestId: number, code: pb.ErrorCode, reason: string, message: string): pb.ServerMessage {
+    return create(pb.ServerMessageSchema, { payload: { case: 'error', value: { requestId, code, reason, message } } });
+}
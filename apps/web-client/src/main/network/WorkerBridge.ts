@@ -7,11 +7,17 @@
  * Usage example:
  * ```typescript
  * const bridge = new WorkerBridge(worker);
- * bridge.updateMap(tileBuffer); // Zero-copy transfer
+ * bridge.updateMap(tileBuffer, width, height); // Zero-copy transfer
+ * bridge.updateMapRegion({ x: 4, y: 2, width: 3, height: 1 }, regionBuffer); // Only changed tiles
  * bridge.updateUnits(unitBuffer); // Zero-copy transfer
+ * bridge.updateUnitTypes(unitCatalog.getAppearanceData()); // Per-type colors and sprites
  * ```
  */
 
+import { TILE_ENCODING_VERSION } from '../../shared/tileEncoding';
+import { UNIT_APPEARANCE_STRIDE } from '../../shared/unitAppearance';
+import type { TileRegion } from '../logic/WorldContainer';
+
 /**
  * Standard message types for worker communication
  */
@@ -25,9 +31,15 @@ export enum WorkerMessageType {
     /** Update the tilemap data */
     UPDATE_MAP = 'UPDATE_MAP',
     
+    /** Update a rectangular region of the tilemap */
+    UPDATE_MAP_REGION = 'UPDATE_MAP_REGION',
+    
     /** Update unit data */
     UPDATE_UNITS = 'UPDATE_UNITS',
     
+    /** Update the per-unit-type appearance table */
+    UPDATE_UNIT_TYPES = 'UPDATE_UNIT_TYPES',
+    
     /** Set view state (layer visibility, etc.) */
     SET_VIEW_STATE = 'SET_VIEW_STATE',
 }
@@ -63,7 +75,25 @@ export interface ResizeMessage extends BaseWorkerMessage {
 export interface UpdateMapMessage extends BaseWorkerMessage {
     type: WorkerMessageType.UPDATE_MAP;
     tileData: Uint32Array;
-    mapSize: number;
+    width: number;
+    height: number;
+    /** Tile encoding version of tileData (see shared/tileEncoding.ts) */
+    encodingVersion: number;
+}
+
+/**
+ * UPDATE_MAP_REGION message - Update a rectangular block of tiles
+ * tileData holds width * height encoded tiles in row-major order.
+ */
+export interface UpdateMapRegionMessage extends BaseWorkerMessage {
+    type: WorkerMessageType.UPDATE_MAP_REGION;
+    tileData: Uint32Array;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Tile encoding version of tileData (see shared/tileEncoding.ts) */
+    encodingVersion: number;
 }
 
 /**
@@ -75,6 +105,16 @@ export interface UpdateUnitsMessage extends BaseWorkerMessage {
     unitCount: number;
 }
 
+/**
+ * UPDATE_UNIT_TYPES message - Update the unit type appearance lookup
+ * appearanceData holds [r, g, b, spriteId] per unit type ID (see shared/unitAppearance.ts).
+ */
+export interface UpdateUnitTypesMessage extends BaseWorkerMessage {
+    type: WorkerMessageType.UPDATE_UNIT_TYPES;
+    appearanceData: Float32Array;
+    typeCount: number;
+}
+
 /**
  * View state configuration
  */
@@ -101,7 +141,9 @@ export type WorkerMessage =
     | InitMessage 
     | ResizeMessage 
     | UpdateMapMessage 
+    | UpdateMapRegionMessage 
     | UpdateUnitsMessage 
+    | UpdateUnitTypesMessage 
     | SetViewStateMessage;
 
 /**
@@ -158,16 +200,40 @@ export class WorkerBridge {
 
     /**
      * Update the tilemap data (zero-copy transfer)
-     * @param tileData - Uint32Array of tile IDs
-     * @param mapSize - Size of the map (width/height in tiles)
+     * @param tileData - Uint32Array of encoded tiles (row-major, width * height elements)
+     * @param width - Map width in tiles
+     * @param height - Map height in tiles
      */
-    updateMap(tileData: Uint32Array, mapSize: number): void {
+    updateMap(tileData: Uint32Array, width: number, height: number): void {
         // Transfer the underlying ArrayBuffer for zero-copy
         this.sendMessage(
             {
                 type: WorkerMessageType.UPDATE_MAP,
                 tileData,
-                mapSize,
+                width,
+                height,
+                encodingVersion: TILE_ENCODING_VERSION,
+            },
+            [tileData.buffer] // Transfer ArrayBuffer for zero-copy
+        );
+    }
+
+    /**
+     * Update a rectangular region of the tilemap (zero-copy transfer)
+     * @param region - Region of the map being replaced
+     * @param tileData - Uint32Array of encoded tiles (row-major, region.width * region.height elements)
+     */
+    updateMapRegion(region: TileRegion, tileData: Uint32Array): void {
+        // Transfer the underlying ArrayBuffer for zero-copy
+        this.sendMessage(
+            {
+                type: WorkerMessageType.UPDATE_MAP_REGION,
+                tileData,
+                x: region.x,
+                y: region.y,
+                width: region.width,
+                height: region.height,
+                encodingVersion: TILE_ENCODING_VERSION,
             },
             [tileData.buffer] // Transfer ArrayBuffer for zero-copy
         );
@@ -190,6 +256,21 @@ export class WorkerBridge {
         );
     }
 
+    /**
+     * Update the unit type appearance lookup (zero-copy transfer)
+     * @param appearanceData - Float32Array of [r, g, b, spriteId] per unit type ID
+     */
+    updateUnitTypes(appearanceData: Float32Array): void {
+        this.sendMessage(
+            {
+                type: WorkerMessageType.UPDATE_UNIT_TYPES,
+                appearanceData,
+                typeCount: appearanceData.length / UNIT_APPEARANCE_STRIDE,
+            },
+            [appearanceData.buffer] // Transfer ArrayBuffer for zero-copy
+        );
+    }
+
     /**
      * Set view state (layer visibility, etc.)
      * @param state - View state configuration
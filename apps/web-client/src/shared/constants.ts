@@ -14,6 +14,30 @@ export const SAB_OFFSETS = {
     CAPTURED_LAYER_ID: 8, // Layer index that captured input, or -1 if none
     HOVERED_TILE_X: 9, // Tile X coordinate under mouse (as float, cast to int)
     HOVERED_TILE_Y: 10, // Tile Y coordinate under mouse (as float, cast to int)
+    MAP_WIDTH: 11, // Current map width in tiles (written by main thread)
+    MAP_HEIGHT: 12, // Current map height in tiles (written by main thread)
+    SELECTION_BOX_ACTIVE: 13, // 1 while a selection box is being dragged, 0 otherwise (written by main thread)
+    SELECTION_BOX_START_X: 14, // Selection box corner where the drag started (world units)
+    SELECTION_BOX_START_Y: 15,
+    SELECTION_BOX_END_X: 16, // Selection box corner under the mouse (world units)
+    SELECTION_BOX_END_Y: 17,
+    EDITOR_ACTIVE: 18, // 1 while the map editor is open, 0 otherwise (written by main thread)
+    EDITOR_BRUSH_SIZE: 19, // Brush size in tiles around the hovered tile (see shared/editorBrush.ts)
+    EDITOR_BRUSH_SHAPE: 20, // BrushShape value
+    EDITOR_RECT_ACTIVE: 21, // 1 while a rectangle fill is being dragged, 0 otherwise
+    EDITOR_RECT_START_X: 22, // Tile where the rectangle drag started (the other corner is the hovered tile)
+    EDITOR_RECT_START_Y: 23,
 };
 
-export const SAB_SIZE = 1024; // Bytes
\ No newline at end of file
+export const SAB_SIZE = 1024; // Bytes
+
+/**
+ * Army stack bits packed into the state float of the unit GPU data
+ * Bits 0-7 hold UnitState flags; the stack fields sit above them. Index 0 is the
+ * unit drawn as the stack's marker, the others are hidden behind it.
+ */
+export const STACK_GPU_ENCODING = {
+    INDEX_SHIFT: 8, // Bits 8-11: position of the unit within its stack
+    SIZE_SHIFT: 12, // Bits 12-15: number of units in the stack
+    FIELD_MASK: 0xF,
+} as const;
\ No newline at end of file
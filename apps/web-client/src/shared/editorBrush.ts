@@ -0,0 +1,76 @@
+/**
+ * Editor Brush - Map editor brush footprint shared by the main thread and the editor overlay shader
+ *
+ * MapEditor paints the tiles isInBrush() accepts, and the worker's EditorOverlayLayer
+ * highlights the tiles the WGSL copy in BRUSH_WGSL accepts. Both are written from the
+ * same formula below, so the overlay always shows exactly the tiles an edit will touch.
+ *
+ * A brush of size N covers N tiles across. Offsets run from getBrushStart(N) to
+ * getBrushStart(N) + N - 1 around the hovered tile (even sizes extend right/down).
+ * Circles keep the tiles whose center lies within ((N - 1) / 2)^2 + 0.5 of the
+ * brush center, which gives a plus at size 3 and rounded shapes above that.
+ */
+
+/**
+ * Brush shapes (written to the SharedArrayBuffer as numbers)
+ */
+export enum BrushShape {
+    SQUARE = 0,
+    CIRCLE = 1,
+}
+
+/**
+ * Largest brush size in tiles
+ */
+export const MAX_BRUSH_SIZE = 15;
+
+/**
+ * Get the offset of the first brush tile from the hovered tile
+ * @param size - Brush size in tiles
+ * @returns Offset (0 or negative)
+ */
+export function getBrushStart(size: number): number {
+    return -Math.floor((size - 1) / 2);
+}
+
+/**
+ * Check if a tile offset from the hovered tile lies in the brush
+ * @param dx - X offset from the hovered tile
+ * @param dy - Y offset from the hovered tile
+ * @param size - Brush size in tiles
+ * @param shape - Brush shape
+ * @returns true if the tile is painted
+ */
+export function isInBrush(dx: number, dy: number, size: number, shape: BrushShape): boolean {
+    const start = getBrushStart(size);
+    if (dx < start || dy < start || dx > start + size - 1 || dy > start + size - 1) return false;
+    if (shape === BrushShape.SQUARE) return true;
+
+    const center = start + (size - 1) / 2;
+    const radius = (size - 1) / 2;
+    return (dx - center) ** 2 + (dy - center) ** 2 <= radius * radius + 0.5;
+}
+
+/**
+ * WGSL copy of isInBrush()
+ * Paste into a shader module's code to use brushContains(offset, size, shape).
+ */
+export const BRUSH_WGSL = `
+const BRUSH_SQUARE: u32 = ${BrushShape.SQUARE}u;
+const BRUSH_CIRCLE: u32 = ${BrushShape.CIRCLE}u;
+
+fn brushContains(offset: vec2<i32>, size: i32, shape: u32) -> bool {
+    let start = -((size - 1) / 2);
+    let end = start + size - 1;
+    if (any(offset < vec2<i32>(start)) || any(offset > vec2<i32>(end))) {
+        return false;
+    }
+    if (shape == BRUSH_SQUARE) {
+        return true;
+    }
+
+    let radius = f32(size - 1) * 0.5;
+    let toCenter = vec2<f32>(offset) - vec2<f32>(f32(start) + radius);
+    return dot(toCenter, toCenter) <= radius * radius + 0.5;
+}
+`;
@@ -0,0 +1,36 @@
+/**
+ * Player Colors - Owner color palette shared by the main thread and shaders
+ *
+ * Index 0 is neutral/unowned. Owner IDs beyond the palette wrap around (skipping neutral).
+ */
+
+/**
+ * RGB colors (0-1) per owner ID
+ */
+export const PLAYER_COLORS: readonly [number, number, number][] = [
+    [0.6, 0.6, 0.6],    // 0: Neutral - Gray
+    [0.85, 0.15, 0.15], // 1: Red
+    [0.15, 0.35, 0.9],  // 2: Blue
+    [0.95, 0.8, 0.1],   // 3: Yellow
+    [0.6, 0.2, 0.8],    // 4: Purple
+    [0.95, 0.5, 0.1],   // 5: Orange
+    [0.1, 0.75, 0.75],  // 6: Cyan
+    [0.95, 0.95, 0.95], // 7: White
+    [0.1, 0.1, 0.1],    // 8: Black
+];
+
+/**
+ * WGSL helper returning the palette color for an owner ID
+ * Paste into a shader module's code to use playerColor().
+ */
+export const PLAYER_COLORS_WGSL = `
+fn playerColor(owner: u32) -> vec3<f32> {
+    var palette = array<vec3<f32>, ${PLAYER_COLORS.length}>(
+        ${PLAYER_COLORS.map(([r, g, b]) => `vec3<f32>(${r.toFixed(3)}, ${g.toFixed(3)}, ${b.toFixed(3)})`).join(',\n        ')}
+    );
+    if (owner == 0u) {
+        return palette[0];
+    }
+    return palette[1u + (owner - 1u) % ${PLAYER_COLORS.length - 1}u];
+}
+`;
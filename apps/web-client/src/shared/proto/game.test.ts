@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { create } from '@bufbuild/protobuf';
+import * as pb from './game';
+
+const position = (x: number, y: number) => ({ x, y });
+
+const unit = {
+    id: 7,
+    pos: position(3, 4),
+    type: 2,
+    ownerId: 1,
+    hp: 12.5,
+    maxHp: 20,
+    movementPoints: 1.5,
+    maxMovementPoints: 4,
+    sightRadius: 3,
+    strength: 6.25,
+    state: 2,
+};
+
+const tile = { terrain: pb.TerrainType.FOREST, building: pb.BuildingType.MINE, level: 2, ownerId: 1 };
+
+const diplomacy = {
+    relations: [{ playerA: 1, playerB: 2, state: pb.DiplomaticState.ALLIANCE }],
+    proposals: [{ id: 3, from: 1, to: 3, state: pb.DiplomaticState.PEACE, turnNumber: 5 }],
+    nextProposalId: 4,
+};
+
+const capture = { cityId: 2, previousOwnerId: 2, newOwnerId: 1 };
+
+/** Client messages that together set every field */
+const clientMessages: pb.ClientMessageInit[] = [
+    { requestId: 1, command: { case: 'move', value: { unitIds: [7, 8], target: position(5, 4) } } },
+    { requestId: 2, command: { case: 'attack', value: { unitIds: [7], target: position(4, 4) } } },
+    { requestId: 3, command: { case: 'endTurn', value: {} } },
+];
+
+/** Server messages that together set every field */
+const serverMessages: pb.ServerMessageInit[] = [
+    {
+        payload: {
+            case: 'state',
+            value: {
+                turnNumber: 4,
+                units: [unit],
+                world: { width: 2, height: 1, tiles: [tile, { ...tile, terrain: pb.TerrainType.MOUNTAIN }] },
+                activePlayerId: 2,
+                diplomacy,
+            },
+        },
+    },
+    {
+        payload: {
+            case: 'delta',
+            value: {
+                turnNumber: 4,
+                activePlayerId: 1,
+                tiles: [{ pos: position(1, 0), tile }],
+                units: [unit],
+                removedUnitIds: [9, 300],
+                diplomacy,
+            },
+        },
+    },
+    {
+        payload: {
+            case: 'result',
+            value: { requestId: 1, result: { case: 'moved', value: { path: [position(4, 4), position(5, 4)], cost: 2, remaining: 0.5, capture } } },
+        },
+    },
+    {
+        payload: {
+            case: 'result',
+            value: {
+                requestId: 2,
+                result: {
+                    case: 'attacked',
+                    value: {
+                        seed: 0xDEADBEEF,
+                        winner: pb.BattleWinner.DEFENDER,
+                        hpChanges: [{ unitId: 7, before: 12.5, after: 3 }],
+                        killed: [8],
+                        defenseBonus: 0.25,
+                        capture,
+                    },
+                },
+            },
+        },
+    },
+    { payload: { case: 'result', value: { requestId: 3, result: { case: 'turnEnded', value: { turnNumber: 5, activePlayerId: 2 } } } } },
+    {
+        payload: {
+            case: 'error',
+            value: { requestId: 4, code: pb.ErrorCode.MOVE_REJECTED, reason: 'INSUFFICIENT_MOVEMENT', message: 'Move costs 3 but only 1 movement points remain' },
+        },
+    },
+];
+
+describe('game.ts codec', () => {
+    it('decodes every client message to what was encoded', () => {
+        clientMessages.forEach(message => {
+            expect(pb.decodeClientMessage(pb.encodeClientMessage(message))).toEqual(create(pb.ClientMessageSchema, message));
+        });
+    });
+
+    it('decodes every server message to what was encoded', () => {
+        serverMessages.forEach(message => {
+            expect(pb.decodeServerMessage(pb.encodeServerMessage(message))).toEqual(create(pb.ServerMessageSchema, message));
+        });
+    });
+
+    it('fills in proto3 defaults for fields that were not sent', () => {
+        expect(pb.decodeClientMessage(new Uint8Array())).toMatchObject({ requestId: 0, command: { case: undefined } });
+        expect(pb.decodeServerMessage(pb.encodeServerMessage({ payload: { case: 'delta', value: {} } })).payload).toMatchObject({
+            case: 'delta',
+            value: { turnNumber: 0, activePlayerId: 0, tiles: [], units: [], removedUnitIds: [] },
+        });
+    });
+
+    it('skips fields it does not know', () => {
+        // Field 15 (varint 1) and field 16 (string "x") before request_id 9
+        const bytes = new Uint8Array([0x78, 0x01, 0x82, 0x01, 0x01, 0x78, 0x08, 0x09]);
+        expect(pb.decodeClientMessage(bytes)).toMatchObject({ requestId: 9, command: { case: undefined } });
+    });
+
+    it('keeps the low 32 bits of 64-bit varints', () => {
+        // 2^32 + 5, as a 64-bit value would be sent
+        expect(pb.decodeClientMessage(new Uint8Array([0x08, 0x85, 0x80, 0x80, 0x80, 0x10])).requestId).toBe(5);
+    });
+
+    it('rejects a known field sent with another wire type than the schema\'s', () => {
+        // request_id (uint32) sent length-delimited
+        expect(() => pb.decodeClientMessage(new Uint8Array([0x0a, 0x01, 0x01])))
+            .toThrow('Invalid protobuf data: field 1 has wire type 2, expected 0');
+        // move (a message) sent as a varint
+        expect(() => pb.decodeClientMessage(new Uint8Array([0x10, 0x01]))).toThrow('field 2 has wire type 0, expected 2');
+        // hp (a float) inside a unit inside a delta, sent as a varint
+        expect(() => pb.decodeServerMessage(new Uint8Array([0x12, 0x04, 0x22, 0x02, 0x28, 0x01])))
+            .toThrow('field 5 has wire type 0, expected 5');
+    });
+
+    it('reads repeated numbers packed or unpacked', () => {
+        // removed_unit_ids 1 and 300 in a delta, one element per field
+        const delta = pb.decodeServerMessage(new Uint8Array([0x12, 0x05, 0x28, 0x01, 0x28, 0xAC, 0x02]));
+        expect(delta.payload).toMatchObject({ case: 'delta', value: { removedUnitIds: [1, 300] } });
+    });
+
+    it('rejects messages cut off anywhere inside a field', () => {
+        serverMessages.forEach(message => {
+            const bytes = pb.encodeServerMessage(message);
+            expect(() => pb.decodeServerMessage(bytes.subarray(0, bytes.length - 1))).toThrow('Invalid protobuf data');
+        });
+        const move = pb.encodeClientMessage(clientMessages[0]);
+        expect(() => pb.decodeClientMessage(move.subarray(0, move.length - 1))).toThrow('Invalid protobuf data');
+    });
+
+    it('rejects malformed bytes', () => {
+        expect(() => pb.decodeClientMessage(new Uint8Array([0x08, 0xFF]))).toThrow('Invalid protobuf data');
+        expect(() => pb.decodeClientMessage(new Uint8Array([0x00, 0x01]))).toThrow('Invalid protobuf data');
+        expect(() => pb.decodeClientMessage(new Uint8Array([0x7B]))).toThrow('Invalid protobuf data');
+        expect(() => pb.decodeServerMessage(new Uint8Array([0x22, 0x03, 0x1A, 0x01, 0xFF]))).toThrow('Invalid protobuf data');
+    });
+});
@@ -0,0 +1,146 @@
+/**
+ * Game Protocol - Message types and codec for proto/game.proto
+ *
+ * The message types, enums and schemas live in gen/game_pb.ts, which protoc-gen-es
+ * generates from proto/game.proto (`task proto:gen`, i.e. `pnpm exec buf generate`
+ * at the repository root); change the schema and regenerate rather than editing it.
+ * This module re-exports them and adds the encoders and decoders for the two
+ * top-level messages. Encoders take plain objects (as create() from
+ * @bufbuild/protobuf does); decoders reject anything that is not a valid message,
+ * including known fields sent with another wire type than the schema's.
+ *
+ * Usage example:
+ * ```typescript
+ * const bytes = encodeClientMessage({
+ *     requestId: 7,
+ *     command: { case: 'move', value: { unitIds: [3, 4], target: { x: 10, y: 12 } } },
+ * });
+ *
+ * const message = decodeClientMessage(bytes);
+ * if (message.command.case === 'move') {
+ *     console.log(message.command.value.target);
+ * }
+ * ```
+ */
+
+import { ScalarType, create, fromBinary, toBinary } from '@bufbuild/protobuf';
+import type { DescField, DescMessage, MessageInitShape } from '@bufbuild/protobuf';
+import { BinaryReader, WireType } from '@bufbuild/protobuf/wire';
+import { ClientMessageSchema, ServerMessageSchema } from './gen/game_pb';
+import type { ClientMessage, ServerMessage } from './gen/game_pb';
+
+export * from './gen/game_pb';
+
+/**
+ * A client message as a plain object
+ */
+export type ClientMessageInit = MessageInitShape<typeof ClientMessageSchema>;
+
+/**
+ * A server message as a plain object
+ */
+export type ServerMessageInit = MessageInitShape<typeof ServerMessageSchema>;
+
+/**
+ * Encode a client message
+ * @param message - Message to encode
+ * @returns Wire bytes
+ */
+export function encodeClientMessage(message: ClientMessageInit): Uint8Array {
+    return toBinary(ClientMessageSchema, create(ClientMessageSchema, message));
+}
+
+/**
+ * Decode a client message
+ * @param bytes - Wire bytes
+ * @returns Decoded message
+ * @throws Error if the bytes are not a valid protobuf message
+ */
+export function decodeClientMessage(bytes: Uint8Array): ClientMessage {
+    return decode(ClientMessageSchema, bytes);
+}
+
+/**
+ * Encode a server message
+ * @param message - Message to encode
+ * @returns Wire bytes
+ */
+export function encodeServerMessage(message: ServerMessageInit): Uint8Array {
+    return toBinary(ServerMessageSchema, create(ServerMessageSchema, message));
+}
+
+/**
+ * Decode a server message
+ * @param bytes - Wire bytes
+ * @returns Decoded message
+ * @throws Error if the bytes are not a valid protobuf message
+ */
+export function decodeServerMessage(bytes: Uint8Array): ServerMessage {
+    return decode(ServerMessageSchema, bytes);
+}
+
+/**
+ * Check the wire types of a message, then decode it
+ */
+function decode<Desc extends typeof ClientMessageSchema | typeof ServerMessageSchema>(schema: Desc, bytes: Uint8Array) {
+    try {
+        checkWireTypes(schema, bytes);
+        return fromBinary(schema, bytes);
+    } catch (error) {
+        throw new Error(`Invalid protobuf data: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Walk encoded bytes along a message schema and throw at the first known field whose
+ * wire type does not fit its type (the generated decoder would misread it)
+ */
+function checkWireTypes(schema: DescMessage, bytes: Uint8Array): void {
+    const reader = new BinaryReader(bytes);
+    while (reader.pos < reader.len) {
+        const [fieldNo, wireType] = reader.tag();
+        const field = schema.fields.find(candidate => candidate.number === fieldNo);
+        if (!field) {
+            reader.skip(wireType, fieldNo);
+            continue;
+        }
+
+        const expected = getWireType(field);
+        const packed = field.fieldKind === 'list' && field.listKind !== 'message' && wireType === WireType.LengthDelimited;
+        if (wireType !== expected && !packed) {
+            throw new Error(`field ${fieldNo} has wire type ${wireType}, expected ${expected}`);
+        }
+
+        const nested = field.fieldKind === 'message' || (field.fieldKind === 'list' && field.listKind === 'message') ? field.message : null;
+        if (nested) checkWireTypes(nested, reader.bytes());
+        else reader.skip(wireType, fieldNo);
+    }
+}
+
+/**
+ * Get the wire type a field is written with (one element, for repeated fields)
+ */
+function getWireType(field: DescField): WireType {
+    if (field.fieldKind === 'message' || field.fieldKind === 'map') return WireType.LengthDelimited;
+    if (field.fieldKind === 'enum') return WireType.Varint;
+    if (field.fieldKind === 'list') {
+        if (field.listKind === 'message') return WireType.LengthDelimited;
+        if (field.listKind === 'enum') return WireType.Varint;
+    }
+
+    switch (field.scalar) {
+        case ScalarType.STRING:
+        case ScalarType.BYTES:
+            return WireType.LengthDelimited;
+        case ScalarType.FLOAT:
+        case ScalarType.FIXED32:
+        case ScalarType.SFIXED32:
+            return WireType.Bit32;
+        case ScalarType.DOUBLE:
+        case ScalarType.FIXED64:
+        case ScalarType.SFIXED64:
+            return WireType.Bit64;
+        default:
+            return WireType.Varint;
+    }
+}
@@ -0,0 +1,935 @@
+// @generated by protoc-gen-es v2.16.0 with parameter "target=ts"
+// @generated from file game.proto (package victoriae.v1, syntax proto3)
+/* eslint-disable */
+
+import type { GenEnum, GenFile, GenMessage } from "@bufbuild/protobuf/codegenv2";
+import { enumDesc, fileDesc, messageDesc } from "@bufbuild/protobuf/codegenv2";
+import type { Message } from "@bufbuild/protobuf";
+
+/**
+ * Describes the file game.proto.
+ */
+export const file_game: GenFile = /*@__PURE__*/
+  fileDesc("CgpnYW1lLnByb3RvEgx2aWN0b3JpYWUudjEiIAoIUG9zaXRpb24SCQoBeBgBIAEoDRIJCgF5GAIgASgNIoEBCgRUaWxlEioKB3RlcnJhaW4YASABKA4yGS52aWN0b3JpYWUudjEuVGVycmFpblR5cGUSLAoIYnVpbGRpbmcYAiABKA4yGi52aWN0b3JpYWUudjEuQnVpbGRpbmdUeXBlEg0KBWxldmVsGAMgASgNEhAKCG93bmVyX2lkGAQgASgNIlEKDVdvcmxkU25hcHNob3QSDQoFd2lkdGgYASABKA0SDgoGaGVpZ2h0GAIgASgNEiEKBXRpbGVzGAMgAygLMhIudmljdG9yaWFlLnYxLlRpbGUiUwoKVGlsZVVwZGF0ZRIjCgNwb3MYASABKAsyFi52aWN0b3JpYWUudjEuUG9zaXRpb24SIAoEdGlsZRgCIAEoCzISLnZpY3RvcmlhZS52MS5UaWxlIuABCgRVbml0EgoKAmlkGAEgASgNEiMKA3BvcxgCIAEoCzIWLnZpY3RvcmlhZS52MS5Qb3NpdGlvbhIMCgR0eXBlGAMgASgNEhAKCG93bmVyX2lkGAQgASgNEgoKAmhwGAUgASgCEg4KBm1heF9ocBgGIAEoAhIXCg9tb3ZlbWVudF9wb2ludHMYByABKAISGwoTbWF4X21vdmVtZW50X3BvaW50cxgIIAEoAhIUCgxzaWdodF9yYWRpdXMYCSABKA0SEAoIc3RyZW5ndGgYCiABKAISDQoFc3RhdGUYCyABKA0iXAoIUmVsYXRpb24SEAoIcGxheWVyX2EYASABKA0SEAoIcGxheWVyX2IYAiABKA0SLAoFc3RhdGUYAyABKA4yHS52aWN0b3JpYWUudjEuRGlwbG9tYXRpY1N0YXRlInkKDlRyZWF0eVByb3Bvc2FsEgoKAmlkGAEgASgNEgwKBGZyb20YAiABKA0SCgoCdG8YAyABKA0SLAoFc3RhdGUYBCABKA4yHS52aWN0b3JpYWUudjEuRGlwbG9tYXRpY1N0YXRlEhMKC3R1cm5fbnVtYmVyGAUgASgNIoEBCglEaXBsb21hY3kSKQoJcmVsYXRpb25zGAEgAygLMhYudmljdG9yaWFlLnYxLlJlbGF0aW9uEi8KCXByb3Bvc2FscxgCIAMoCzIcLnZpY3RvcmlhZS52MS5UcmVhdHlQcm9wb3NhbBIYChBuZXh0X3Byb3Bvc2FsX2lkGAMgASgNIrUBCglHYW1lU3RhdGUSEwoLdHVybl9udW1iZXIYASABKA0SIQoFdW5pdHMYAiADKAsyEi52aWN0b3JpYWUudjEuVW5pdBIqCgV3b3JsZBgDIAEoCzIbLnZpY3RvcmlhZS52MS5Xb3JsZFNuYXBzaG90EhgKEGFjdGl2ZV9wbGF5ZXJfaWQYBCABKA0SKgoJZGlwbG9tYWN5GAUgASgLMhcudmljdG9yaWFlLnYxLkRpcGxvbWFjeSLNAQoKU3RhdGVEZWx0YRITCgt0dXJuX251bWJlchgBIAEoDRIYChBhY3RpdmVfcGxheWVyX2lkGAIgASgNEicKBXRpbGVzGAMgAygLMhgudmljdG9yaWFlLnYxLlRpbGVVcGRhdGUSIQoFdW5pdHMYBCADKAsyEi52aWN0b3JpYWUudjEuVW5pdBIYChByZW1vdmVkX3VuaXRfaWRzGAUgAygNEioKCWRpcGxvbWFjeRgGIAEoCzIXLnZpY3RvcmlhZS52MS5EaXBsb21hY3kiRwoLTW92ZUNvbW1hbmQSEAoIdW5pdF9pZHMYASADKA0SJgoGdGFyZ2V0GAIgASgLMhYudmljdG9yaWFlLnYxLlBvc2l0aW9uIkkKDUF0dGFja0NvbW1hbmQSEAoIdW5pdF9pZHMYASADKA0SJgoGdGFyZ2V0GAIgASgLMhYudmljdG9yaWFlLnYxLlBvc2l0aW9uIhAKDkVuZFR1cm5Db21tYW5kIroBCg1DbGllbnRNZXNzYWdlEhIKCnJlcXVlc3RfaWQYASABKA0SKQoEbW92ZRgCIAEoCzIZLnZpY3RvcmlhZS52MS5Nb3ZlQ29tbWFuZEgAEi0KBmF0dGFjaxgDIAEoCzIbLnZpY3RvcmlhZS52MS5BdHRhY2tDb21tYW5kSAASMAoIZW5kX3R1cm4YBCABKAsyHC52aWN0b3JpYWUudjEuRW5kVHVybkNvbW1hbmRIAEIJCgdjb21tYW5kIk8KC0NpdHlDYXB0dXJlEg8KB2NpdHlfaWQYASABKA0SGQoRcHJldmlvdXNfb3duZXJfaWQYAiABKA0SFAoMbmV3X293bmVyX2lkGAMgASgNIn8KCk1vdmVSZXN1bHQSJAoEcGF0aBgBIAMoCzIWLnZpY3RvcmlhZS52MS5Qb3NpdGlvbhIMCgRjb3N0GAIgASgCEhEKCXJlbWFpbmluZxgDIAEoAhIqCgdjYXB0dXJlGAQgASgLMhkudmljdG9yaWFlLnYxLkNpdHlDYXB0dXJlIjoKCEhwQ2hhbmdlEg8KB3VuaXRfaWQYASABKA0SDgoGYmVmb3JlGAIgASgCEg0KBWFmdGVyGAMgASgCIscBCgxCYXR0bGVSZXBvcnQSDAoEc2VlZBgBIAEoDRIqCgZ3aW5uZXIYAiABKA4yGi52aWN0b3JpYWUudjEuQmF0dGxlV2lubmVyEioKCmhwX2NoYW5nZXMYAyADKAsyFi52aWN0b3JpYWUudjEuSHBDaGFuZ2USDgoGa2lsbGVkGAQgAygNEhUKDWRlZmVuc2VfYm9udXMYBSABKAISKgoHY2FwdHVyZRgGIAEoCzIZLnZpY3RvcmlhZS52MS5DaXR5Q2FwdHVyZSI6CglUdXJuRW5kZWQSEwoLdHVybl9udW1iZXIYASABKA0SGAoQYWN0aXZlX3BsYXllcl9pZBgCIAEoDSK3AQoNQ29tbWFuZFJlc3VsdBISCgpyZXF1ZXN0X2lkGAEgASgNEikKBW1vdmVkGAIgASgLMhgudmljdG9yaWFlLnYxLk1vdmVSZXN1bHRIABIuCghhdHRhY2tlZBgDIAEoCzIaLnZpY3RvcmlhZS52MS5CYXR0bGVSZXBvcnRIABItCgp0dXJuX2VuZGVkGAQgASgLMhcudmljdG9yaWFlLnYxLlR1cm5FbmRlZEgAQggKBnJlc3VsdCJjCgVFcnJvchISCgpyZXF1ZXN0X2lkGAEgASgNEiUKBGNvZGUYAiABKA4yFy52aWN0b3JpYWUudjEuRXJyb3JDb2RlEg4KBnJlYXNvbhgDIAEoCRIPCgdtZXNzYWdlGAQgASgJIsQBCg1TZXJ2ZXJNZXNzYWdlEigKBXN0YXRlGAEgASgLMhcudmljdG9yaWFlLnYxLkdhbWVTdGF0ZUgAEikKBWRlbHRhGAIgASgLMhgudmljdG9yaWFlLnYxLlN0YXRlRGVsdGFIABItCgZyZXN1bHQYAyABKAsyGy52aWN0b3JpYWUudjEuQ29tbWFuZFJlc3VsdEgAEiQKBWVycm9yGAQgASgLMhMudmljdG9yaWFlLnYxLkVycm9ySABCCQoHcGF5bG9hZCpxCgtUZXJyYWluVHlwZRIWChJURVJSQUlOX1RZUEVfR1JBU1MQABIXChNURVJSQUlOX1RZUEVfRk9SRVNUEAESFgoSVEVSUkFJTl9UWVBFX1dBVEVSEAISGQoVVEVSUkFJTl9UWVBFX01PVU5UQUlOEAMqigEKDEJ1aWxkaW5nVHlwZRIWChJCVUlMRElOR19UWVBFX05PTkUQABIWChJCVUlMRElOR19UWVBFX0ZBUk0QARIWChJCVUlMRElOR19UWVBFX01JTkUQAhIaChZCVUlMRElOR19UWVBFX0ZPUlRSRVNTEAMSFgoSQlVJTERJTkdfVFlQRV9DSVRZEAQqZgoPRGlwbG9tYXRpY1N0YXRlEhgKFERJUExPTUFUSUNfU1RBVEVfV0FSEAASGgoWRElQTE9NQVRJQ19TVEFURV9QRUFDRRABEh0KGURJUExPTUFUSUNfU1RBVEVfQUxMSUFOQ0UQAipeCgxCYXR0bGVXaW5uZXISGgoWQkFUVExFX1dJTk5FUl9BVFRBQ0tFUhAAEhoKFkJBVFRMRV9XSU5ORVJfREVGRU5ERVIQARIWChJCQVRUTEVfV0lOTkVSX0RSQVcQAirhAQoJRXJyb3JDb2RlEhoKFkVSUk9SX0NPREVfVU5TUEVDSUZJRUQQABIeChpFUlJPUl9DT0RFX0lOVkFMSURfTUVTU0FHRRABEhwKGEVSUk9SX0NPREVfTk9UX1lPVVJfVFVSThACEh0KGUVSUk9SX0NPREVfVU5JVF9OT1RfRk9VTkQQAxIcChhFUlJPUl9DT0RFX01PVkVfUkVKRUNURUQQBBIeChpFUlJPUl9DT0RFX0FUVEFDS19SRUpFQ1RFRBAFEh0KGUVSUk9SX0NPREVfVFVSTl9OT1RfRU5ERUQQBmIGcHJvdG8z");
+
+/**
+ * @generated from message victoriae.v1.Position
+ */
+export type Position = Message<"victoriae.v1.Position"> & {
+  /**
+   * @generated from field: uint32 x = 1;
+   */
+  x: number;
+
+  /**
+   * @generated from field: uint32 y = 2;
+   */
+  y: number;
+};
+
+/**
+ * Describes the message victoriae.v1.Position.
+ * Use `create(PositionSchema)` to create a new message.
+ */
+export const PositionSchema: GenMessage<Position> = /*@__PURE__*/
+  messageDesc(file_game, 0);
+
+/**
+ * @generated from message victoriae.v1.Tile
+ */
+export type Tile = Message<"victoriae.v1.Tile"> & {
+  /**
+   * @generated from field: victoriae.v1.TerrainType terrain = 1;
+   */
+  terrain: TerrainType;
+
+  /**
+   * @generated from field: victoriae.v1.BuildingType building = 2;
+   */
+  building: BuildingType;
+
+  /**
+   * Building level (0 = no building)
+   *
+   * @generated from field: uint32 level = 3;
+   */
+  level: number;
+
+  /**
+   * 0 = neutral
+   *
+   * @generated from field: uint32 owner_id = 4;
+   */
+  ownerId: number;
+};
+
+/**
+ * Describes the message victoriae.v1.Tile.
+ * Use `create(TileSchema)` to create a new message.
+ */
+export const TileSchema: GenMessage<Tile> = /*@__PURE__*/
+  messageDesc(file_game, 1);
+
+/**
+ * The whole map
+ *
+ * @generated from message victoriae.v1.WorldSnapshot
+ */
+export type WorldSnapshot = Message<"victoriae.v1.WorldSnapshot"> & {
+  /**
+   * @generated from field: uint32 width = 1;
+   */
+  width: number;
+
+  /**
+   * @generated from field: uint32 height = 2;
+   */
+  height: number;
+
+  /**
+   * Row-major, width * height entries
+   *
+   * @generated from field: repeated victoriae.v1.Tile tiles = 3;
+   */
+  tiles: Tile[];
+};
+
+/**
+ * Describes the message victoriae.v1.WorldSnapshot.
+ * Use `create(WorldSnapshotSchema)` to create a new message.
+ */
+export const WorldSnapshotSchema: GenMessage<WorldSnapshot> = /*@__PURE__*/
+  messageDesc(file_game, 2);
+
+/**
+ * One changed tile
+ *
+ * @generated from message victoriae.v1.TileUpdate
+ */
+export type TileUpdate = Message<"victoriae.v1.TileUpdate"> & {
+  /**
+   * @generated from field: victoriae.v1.Position pos = 1;
+   */
+  pos?: Position | undefined;
+
+  /**
+   * @generated from field: victoriae.v1.Tile tile = 2;
+   */
+  tile?: Tile | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.TileUpdate.
+ * Use `create(TileUpdateSchema)` to create a new message.
+ */
+export const TileUpdateSchema: GenMessage<TileUpdate> = /*@__PURE__*/
+  messageDesc(file_game, 3);
+
+/**
+ * @generated from message victoriae.v1.Unit
+ */
+export type Unit = Message<"victoriae.v1.Unit"> & {
+  /**
+   * @generated from field: uint32 id = 1;
+   */
+  id: number;
+
+  /**
+   * @generated from field: victoriae.v1.Position pos = 2;
+   */
+  pos?: Position | undefined;
+
+  /**
+   * Unit type ID from the unit catalog
+   *
+   * @generated from field: uint32 type = 3;
+   */
+  type: number;
+
+  /**
+   * 0 = neutral
+   *
+   * @generated from field: uint32 owner_id = 4;
+   */
+  ownerId: number;
+
+  /**
+   * @generated from field: float hp = 5;
+   */
+  hp: number;
+
+  /**
+   * @generated from field: float max_hp = 6;
+   */
+  maxHp: number;
+
+  /**
+   * @generated from field: float movement_points = 7;
+   */
+  movementPoints: number;
+
+  /**
+   * @generated from field: float max_movement_points = 8;
+   */
+  maxMovementPoints: number;
+
+  /**
+   * @generated from field: uint32 sight_radius = 9;
+   */
+  sightRadius: number;
+
+  /**
+   * @generated from field: float strength = 10;
+   */
+  strength: number;
+
+  /**
+   * UnitState flags
+   *
+   * @generated from field: uint32 state = 11;
+   */
+  state: number;
+};
+
+/**
+ * Describes the message victoriae.v1.Unit.
+ * Use `create(UnitSchema)` to create a new message.
+ */
+export const UnitSchema: GenMessage<Unit> = /*@__PURE__*/
+  messageDesc(file_game, 4);
+
+/**
+ * @generated from message victoriae.v1.Relation
+ */
+export type Relation = Message<"victoriae.v1.Relation"> & {
+  /**
+   * @generated from field: uint32 player_a = 1;
+   */
+  playerA: number;
+
+  /**
+   * @generated from field: uint32 player_b = 2;
+   */
+  playerB: number;
+
+  /**
+   * @generated from field: victoriae.v1.DiplomaticState state = 3;
+   */
+  state: DiplomaticState;
+};
+
+/**
+ * Describes the message victoriae.v1.Relation.
+ * Use `create(RelationSchema)` to create a new message.
+ */
+export const RelationSchema: GenMessage<Relation> = /*@__PURE__*/
+  messageDesc(file_game, 5);
+
+/**
+ * @generated from message victoriae.v1.TreatyProposal
+ */
+export type TreatyProposal = Message<"victoriae.v1.TreatyProposal"> & {
+  /**
+   * @generated from field: uint32 id = 1;
+   */
+  id: number;
+
+  /**
+   * @generated from field: uint32 from = 2;
+   */
+  from: number;
+
+  /**
+   * @generated from field: uint32 to = 3;
+   */
+  to: number;
+
+  /**
+   * Proposed state
+   *
+   * @generated from field: victoriae.v1.DiplomaticState state = 4;
+   */
+  state: DiplomaticState;
+
+  /**
+   * Turn the offer was made on
+   *
+   * @generated from field: uint32 turn_number = 5;
+   */
+  turnNumber: number;
+};
+
+/**
+ * Describes the message victoriae.v1.TreatyProposal.
+ * Use `create(TreatyProposalSchema)` to create a new message.
+ */
+export const TreatyProposalSchema: GenMessage<TreatyProposal> = /*@__PURE__*/
+  messageDesc(file_game, 6);
+
+/**
+ * Relations and open offers (the treaty history stays with each side)
+ *
+ * @generated from message victoriae.v1.Diplomacy
+ */
+export type Diplomacy = Message<"victoriae.v1.Diplomacy"> & {
+  /**
+   * Pairs not at war
+   *
+   * @generated from field: repeated victoriae.v1.Relation relations = 1;
+   */
+  relations: Relation[];
+
+  /**
+   * @generated from field: repeated victoriae.v1.TreatyProposal proposals = 2;
+   */
+  proposals: TreatyProposal[];
+
+  /**
+   * @generated from field: uint32 next_proposal_id = 3;
+   */
+  nextProposalId: number;
+};
+
+/**
+ * Describes the message victoriae.v1.Diplomacy.
+ * Use `create(DiplomacySchema)` to create a new message.
+ */
+export const DiplomacySchema: GenMessage<Diplomacy> = /*@__PURE__*/
+  messageDesc(file_game, 7);
+
+/**
+ * Everything a client needs to start rendering and playing
+ *
+ * @generated from message victoriae.v1.GameState
+ */
+export type GameState = Message<"victoriae.v1.GameState"> & {
+  /**
+   * @generated from field: uint32 turn_number = 1;
+   */
+  turnNumber: number;
+
+  /**
+   * @generated from field: repeated victoriae.v1.Unit units = 2;
+   */
+  units: Unit[];
+
+  /**
+   * @generated from field: victoriae.v1.WorldSnapshot world = 3;
+   */
+  world?: WorldSnapshot | undefined;
+
+  /**
+   * @generated from field: uint32 active_player_id = 4;
+   */
+  activePlayerId: number;
+
+  /**
+   * @generated from field: victoriae.v1.Diplomacy diplomacy = 5;
+   */
+  diplomacy?: Diplomacy | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.GameState.
+ * Use `create(GameStateSchema)` to create a new message.
+ */
+export const GameStateSchema: GenMessage<GameState> = /*@__PURE__*/
+  messageDesc(file_game, 8);
+
+/**
+ * Changes since the previous GameState or StateDelta
+ *
+ * @generated from message victoriae.v1.StateDelta
+ */
+export type StateDelta = Message<"victoriae.v1.StateDelta"> & {
+  /**
+   * @generated from field: uint32 turn_number = 1;
+   */
+  turnNumber: number;
+
+  /**
+   * @generated from field: uint32 active_player_id = 2;
+   */
+  activePlayerId: number;
+
+  /**
+   * @generated from field: repeated victoriae.v1.TileUpdate tiles = 3;
+   */
+  tiles: TileUpdate[];
+
+  /**
+   * Added or changed units (full snapshot each)
+   *
+   * @generated from field: repeated victoriae.v1.Unit units = 4;
+   */
+  units: Unit[];
+
+  /**
+   * @generated from field: repeated uint32 removed_unit_ids = 5;
+   */
+  removedUnitIds: number[];
+
+  /**
+   * Unset if diplomacy did not change
+   *
+   * @generated from field: victoriae.v1.Diplomacy diplomacy = 6;
+   */
+  diplomacy?: Diplomacy | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.StateDelta.
+ * Use `create(StateDeltaSchema)` to create a new message.
+ */
+export const StateDeltaSchema: GenMessage<StateDelta> = /*@__PURE__*/
+  messageDesc(file_game, 9);
+
+/**
+ * @generated from message victoriae.v1.MoveCommand
+ */
+export type MoveCommand = Message<"victoriae.v1.MoveCommand"> & {
+  /**
+   * One stack
+   *
+   * @generated from field: repeated uint32 unit_ids = 1;
+   */
+  unitIds: number[];
+
+  /**
+   * @generated from field: victoriae.v1.Position target = 2;
+   */
+  target?: Position | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.MoveCommand.
+ * Use `create(MoveCommandSchema)` to create a new message.
+ */
+export const MoveCommandSchema: GenMessage<MoveCommand> = /*@__PURE__*/
+  messageDesc(file_game, 10);
+
+/**
+ * @generated from message victoriae.v1.AttackCommand
+ */
+export type AttackCommand = Message<"victoriae.v1.AttackCommand"> & {
+  /**
+   * One stack, next to the target
+   *
+   * @generated from field: repeated uint32 unit_ids = 1;
+   */
+  unitIds: number[];
+
+  /**
+   * @generated from field: victoriae.v1.Position target = 2;
+   */
+  target?: Position | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.AttackCommand.
+ * Use `create(AttackCommandSchema)` to create a new message.
+ */
+export const AttackCommandSchema: GenMessage<AttackCommand> = /*@__PURE__*/
+  messageDesc(file_game, 11);
+
+/**
+ * @generated from message victoriae.v1.EndTurnCommand
+ */
+export type EndTurnCommand = Message<"victoriae.v1.EndTurnCommand"> & {
+};
+
+/**
+ * Describes the message victoriae.v1.EndTurnCommand.
+ * Use `create(EndTurnCommandSchema)` to create a new message.
+ */
+export const EndTurnCommandSchema: GenMessage<EndTurnCommand> = /*@__PURE__*/
+  messageDesc(file_game, 12);
+
+/**
+ * @generated from message victoriae.v1.ClientMessage
+ */
+export type ClientMessage = Message<"victoriae.v1.ClientMessage"> & {
+  /**
+   * Echoed in the CommandResult or Error
+   *
+   * @generated from field: uint32 request_id = 1;
+   */
+  requestId: number;
+
+  /**
+   * @generated from oneof victoriae.v1.ClientMessage.command
+   */
+  command: {
+    /**
+     * @generated from field: victoriae.v1.MoveCommand move = 2;
+     */
+    value: MoveCommand;
+    case: "move";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.AttackCommand attack = 3;
+     */
+    value: AttackCommand;
+    case: "attack";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.EndTurnCommand end_turn = 4;
+     */
+    value: EndTurnCommand;
+    case: "endTurn";
+  } | { case: undefined; value?: undefined };
+};
+
+/**
+ * Describes the message victoriae.v1.ClientMessage.
+ * Use `create(ClientMessageSchema)` to create a new message.
+ */
+export const ClientMessageSchema: GenMessage<ClientMessage> = /*@__PURE__*/
+  messageDesc(file_game, 13);
+
+/**
+ * @generated from message victoriae.v1.CityCapture
+ */
+export type CityCapture = Message<"victoriae.v1.CityCapture"> & {
+  /**
+   * @generated from field: uint32 city_id = 1;
+   */
+  cityId: number;
+
+  /**
+   * @generated from field: uint32 previous_owner_id = 2;
+   */
+  previousOwnerId: number;
+
+  /**
+   * @generated from field: uint32 new_owner_id = 3;
+   */
+  newOwnerId: number;
+};
+
+/**
+ * Describes the message victoriae.v1.CityCapture.
+ * Use `create(CityCaptureSchema)` to create a new message.
+ */
+export const CityCaptureSchema: GenMessage<CityCapture> = /*@__PURE__*/
+  messageDesc(file_game, 14);
+
+/**
+ * @generated from message victoriae.v1.MoveResult
+ */
+export type MoveResult = Message<"victoriae.v1.MoveResult"> & {
+  /**
+   * Tiles stepped through (excluding the start)
+   *
+   * @generated from field: repeated victoriae.v1.Position path = 1;
+   */
+  path: Position[];
+
+  /**
+   * @generated from field: float cost = 2;
+   */
+  cost: number;
+
+  /**
+   * @generated from field: float remaining = 3;
+   */
+  remaining: number;
+
+  /**
+   * Unset if no city was taken
+   *
+   * @generated from field: victoriae.v1.CityCapture capture = 4;
+   */
+  capture?: CityCapture | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.MoveResult.
+ * Use `create(MoveResultSchema)` to create a new message.
+ */
+export const MoveResultSchema: GenMessage<MoveResult> = /*@__PURE__*/
+  messageDesc(file_game, 15);
+
+/**
+ * @generated from message victoriae.v1.HpChange
+ */
+export type HpChange = Message<"victoriae.v1.HpChange"> & {
+  /**
+   * @generated from field: uint32 unit_id = 1;
+   */
+  unitId: number;
+
+  /**
+   * @generated from field: float before = 2;
+   */
+  before: number;
+
+  /**
+   * @generated from field: float after = 3;
+   */
+  after: number;
+};
+
+/**
+ * Describes the message victoriae.v1.HpChange.
+ * Use `create(HpChangeSchema)` to create a new message.
+ */
+export const HpChangeSchema: GenMessage<HpChange> = /*@__PURE__*/
+  messageDesc(file_game, 16);
+
+/**
+ * @generated from message victoriae.v1.BattleReport
+ */
+export type BattleReport = Message<"victoriae.v1.BattleReport"> & {
+  /**
+   * Replays the battle
+   *
+   * @generated from field: uint32 seed = 1;
+   */
+  seed: number;
+
+  /**
+   * @generated from field: victoriae.v1.BattleWinner winner = 2;
+   */
+  winner: BattleWinner;
+
+  /**
+   * @generated from field: repeated victoriae.v1.HpChange hp_changes = 3;
+   */
+  hpChanges: HpChange[];
+
+  /**
+   * @generated from field: repeated uint32 killed = 4;
+   */
+  killed: number[];
+
+  /**
+   * @generated from field: float defense_bonus = 5;
+   */
+  defenseBonus: number;
+
+  /**
+   * @generated from field: victoriae.v1.CityCapture capture = 6;
+   */
+  capture?: CityCapture | undefined;
+};
+
+/**
+ * Describes the message victoriae.v1.BattleReport.
+ * Use `create(BattleReportSchema)` to create a new message.
+ */
+export const BattleReportSchema: GenMessage<BattleReport> = /*@__PURE__*/
+  messageDesc(file_game, 17);
+
+/**
+ * @generated from message victoriae.v1.TurnEnded
+ */
+export type TurnEnded = Message<"victoriae.v1.TurnEnded"> & {
+  /**
+   * @generated from field: uint32 turn_number = 1;
+   */
+  turnNumber: number;
+
+  /**
+   * @generated from field: uint32 active_player_id = 2;
+   */
+  activePlayerId: number;
+};
+
+/**
+ * Describes the message victoriae.v1.TurnEnded.
+ * Use `create(TurnEndedSchema)` to create a new message.
+ */
+export const TurnEndedSchema: GenMessage<TurnEnded> = /*@__PURE__*/
+  messageDesc(file_game, 18);
+
+/**
+ * @generated from message victoriae.v1.CommandResult
+ */
+export type CommandResult = Message<"victoriae.v1.CommandResult"> & {
+  /**
+   * @generated from field: uint32 request_id = 1;
+   */
+  requestId: number;
+
+  /**
+   * @generated from oneof victoriae.v1.CommandResult.result
+   */
+  result: {
+    /**
+     * @generated from field: victoriae.v1.MoveResult moved = 2;
+     */
+    value: MoveResult;
+    case: "moved";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.BattleReport attacked = 3;
+     */
+    value: BattleReport;
+    case: "attacked";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.TurnEnded turn_ended = 4;
+     */
+    value: TurnEnded;
+    case: "turnEnded";
+  } | { case: undefined; value?: undefined };
+};
+
+/**
+ * Describes the message victoriae.v1.CommandResult.
+ * Use `create(CommandResultSchema)` to create a new message.
+ */
+export const CommandResultSchema: GenMessage<CommandResult> = /*@__PURE__*/
+  messageDesc(file_game, 19);
+
+/**
+ * @generated from message victoriae.v1.Error
+ */
+export type Error = Message<"victoriae.v1.Error"> & {
+  /**
+   * 0 if the request could not be decoded
+   *
+   * @generated from field: uint32 request_id = 1;
+   */
+  requestId: number;
+
+  /**
+   * @generated from field: victoriae.v1.ErrorCode code = 2;
+   */
+  code: ErrorCode;
+
+  /**
+   * Rule that refused the order, e.g. "INSUFFICIENT_MOVEMENT"
+   *
+   * @generated from field: string reason = 3;
+   */
+  reason: string;
+
+  /**
+   * Human-readable explanation
+   *
+   * @generated from field: string message = 4;
+   */
+  message: string;
+};
+
+/**
+ * Describes the message victoriae.v1.Error.
+ * Use `create(ErrorSchema)` to create a new message.
+ */
+export const ErrorSchema: GenMessage<Error> = /*@__PURE__*/
+  messageDesc(file_game, 20);
+
+/**
+ * @generated from message victoriae.v1.ServerMessage
+ */
+export type ServerMessage = Message<"victoriae.v1.ServerMessage"> & {
+  /**
+   * @generated from oneof victoriae.v1.ServerMessage.payload
+   */
+  payload: {
+    /**
+     * @generated from field: victoriae.v1.GameState state = 1;
+     */
+    value: GameState;
+    case: "state";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.StateDelta delta = 2;
+     */
+    value: StateDelta;
+    case: "delta";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.CommandResult result = 3;
+     */
+    value: CommandResult;
+    case: "result";
+  } | {
+    /**
+     * @generated from field: victoriae.v1.Error error = 4;
+     */
+    value: Error;
+    case: "error";
+  } | { case: undefined; value?: undefined };
+};
+
+/**
+ * Describes the message victoriae.v1.ServerMessage.
+ * Use `create(ServerMessageSchema)` to create a new message.
+ */
+export const ServerMessageSchema: GenMessage<ServerMessage> = /*@__PURE__*/
+  messageDesc(file_game, 21);
+
+/**
+ * @generated from enum victoriae.v1.TerrainType
+ */
+export enum TerrainType {
+  /**
+   * @generated from enum value: TERRAIN_TYPE_GRASS = 0;
+   */
+  GRASS = 0,
+
+  /**
+   * @generated from enum value: TERRAIN_TYPE_FOREST = 1;
+   */
+  FOREST = 1,
+
+  /**
+   * @generated from enum value: TERRAIN_TYPE_WATER = 2;
+   */
+  WATER = 2,
+
+  /**
+   * @generated from enum value: TERRAIN_TYPE_MOUNTAIN = 3;
+   */
+  MOUNTAIN = 3,
+}
+
+/**
+ * Describes the enum victoriae.v1.TerrainType.
+ */
+export const TerrainTypeSchema: GenEnum<TerrainType> = /*@__PURE__*/
+  enumDesc(file_game, 0);
+
+/**
+ * @generated from enum victoriae.v1.BuildingType
+ */
+export enum BuildingType {
+  /**
+   * @generated from enum value: BUILDING_TYPE_NONE = 0;
+   */
+  NONE = 0,
+
+  /**
+   * @generated from enum value: BUILDING_TYPE_FARM = 1;
+   */
+  FARM = 1,
+
+  /**
+   * @generated from enum value: BUILDING_TYPE_MINE = 2;
+   */
+  MINE = 2,
+
+  /**
+   * @generated from enum value: BUILDING_TYPE_FORTRESS = 3;
+   */
+  FORTRESS = 3,
+
+  /**
+   * Part of a city footprint
+   *
+   * @generated from enum value: BUILDING_TYPE_CITY = 4;
+   */
+  CITY = 4,
+}
+
+/**
+ * Describes the enum victoriae.v1.BuildingType.
+ */
+export const BuildingTypeSchema: GenEnum<BuildingType> = /*@__PURE__*/
+  enumDesc(file_game, 1);
+
+/**
+ * @generated from enum victoriae.v1.DiplomaticState
+ */
+export enum DiplomaticState {
+  /**
+   * @generated from enum value: DIPLOMATIC_STATE_WAR = 0;
+   */
+  WAR = 0,
+
+  /**
+   * @generated from enum value: DIPLOMATIC_STATE_PEACE = 1;
+   */
+  PEACE = 1,
+
+  /**
+   * @generated from enum value: DIPLOMATIC_STATE_ALLIANCE = 2;
+   */
+  ALLIANCE = 2,
+}
+
+/**
+ * Describes the enum victoriae.v1.DiplomaticState.
+ */
+export const DiplomaticStateSchema: GenEnum<DiplomaticState> = /*@__PURE__*/
+  enumDesc(file_game, 2);
+
+/**
+ * @generated from enum victoriae.v1.BattleWinner
+ */
+export enum BattleWinner {
+  /**
+   * @generated from enum value: BATTLE_WINNER_ATTACKER = 0;
+   */
+  ATTACKER = 0,
+
+  /**
+   * @generated from enum value: BATTLE_WINNER_DEFENDER = 1;
+   */
+  DEFENDER = 1,
+
+  /**
+   * @generated from enum value: BATTLE_WINNER_DRAW = 2;
+   */
+  DRAW = 2,
+}
+
+/**
+ * Describes the enum victoriae.v1.BattleWinner.
+ */
+export const BattleWinnerSchema: GenEnum<BattleWinner> = /*@__PURE__*/
+  enumDesc(file_game, 3);
+
+/**
+ * @generated from enum victoriae.v1.ErrorCode
+ */
+export enum ErrorCode {
+  /**
+   * @generated from enum value: ERROR_CODE_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * Could not be decoded or has no command
+   *
+   * @generated from enum value: ERROR_CODE_INVALID_MESSAGE = 1;
+   */
+  INVALID_MESSAGE = 1,
+
+  /**
+   * @generated from enum value: ERROR_CODE_NOT_YOUR_TURN = 2;
+   */
+  NOT_YOUR_TURN = 2,
+
+  /**
+   * @generated from enum value: ERROR_CODE_UNIT_NOT_FOUND = 3;
+   */
+  UNIT_NOT_FOUND = 3,
+
+  /**
+   * @generated from enum value: ERROR_CODE_MOVE_REJECTED = 4;
+   */
+  MOVE_REJECTED = 4,
+
+  /**
+   * @generated from enum value: ERROR_CODE_ATTACK_REJECTED = 5;
+   */
+  ATTACK_REJECTED = 5,
+
+  /**
+   * Not in the orders phase, or the game is over
+   *
+   * @generated from enum value: ERROR_CODE_TURN_NOT_ENDED = 6;
+   */
+  TURN_NOT_ENDED = 6,
+}
+
+/**
+ * Describes the enum victoriae.v1.ErrorCode.
+ */
+export const ErrorCodeSchema: GenEnum<ErrorCode> = /*@__PURE__*/
+  enumDesc(file_game, 4);
+
@@ -0,0 +1,146 @@
+/**
+ * Tile Encoding - Bit-packed u32 tile format shared by the main thread and the tilemap shaders
+ *
+ * WorldContainer packs each tile's metadata into a single u32 with encodeTile(), and the
+ * WGSL helpers in TILE_DECODE_WGSL unpack the same bits on the GPU. Both sides are generated
+ * from the constants below, so the layout is defined in exactly one place.
+ *
+ * Layout (version 2):
+ * - Bits 0-3:   Terrain type (0-15)
+ * - Bits 4-7:   Building type (0-15)
+ * - Bits 8-11:  Building level (0-15)
+ * - Bits 12-19: Owner ID (0-255)
+ * - Bits 20-21: Visibility for the viewing player (see TILE_VISIBILITY)
+ * - Bits 22-31: Reserved (roads, ...)
+ *
+ * When the layout changes, bump TILE_ENCODING_VERSION. The version travels with every
+ * UPDATE_MAP message so the worker can reject data it does not understand.
+ */
+
+/**
+ * Current tile encoding version
+ */
+export const TILE_ENCODING_VERSION = 2;
+
+/**
+ * Bit field definition (shift and width in bits)
+ */
+interface TileBitField {
+    shift: number;
+    bits: number;
+}
+
+/**
+ * Bit fields of the encoded tile
+ */
+export const TILE_FIELDS = {
+    TERRAIN: { shift: 0, bits: 4 },
+    BUILDING: { shift: 4, bits: 4 },
+    LEVEL: { shift: 8, bits: 4 },
+    OWNER: { shift: 12, bits: 8 },
+    VISIBILITY: { shift: 20, bits: 2 },
+} as const satisfies Record<string, TileBitField>;
+
+/**
+ * Visibility states stored in the VISIBILITY field
+ * VISIBLE is 0 so tiles encoded without fog of war render normally.
+ */
+export const TILE_VISIBILITY = {
+    VISIBLE: 0,     // Currently seen by one of the player's units
+    EXPLORED: 1,    // Seen before, but not right now (rendered dimmed)
+    UNEXPLORED: 2,  // Never seen (rendered black)
+} as const;
+
+/**
+ * Visibility state value
+ */
+export type TileVisibility = typeof TILE_VISIBILITY[keyof typeof TILE_VISIBILITY];
+
+/**
+ * Decoded tile fields
+ * Structurally compatible with WorldContainer's TileMetadata.
+ */
+export interface TileFields {
+    terrain: number;
+    building: number;
+    buildingLevel: number;
+    ownerId: number;
+    visibility?: number; // Defaults to TILE_VISIBILITY.VISIBLE
+}
+
+/**
+ * Get the (unshifted) mask of a bit field
+ */
+function fieldMask(field: TileBitField): number {
+    return (1 << field.bits) - 1;
+}
+
+/**
+ * Clamp a value into a bit field and shift it into place
+ */
+function packField(value: number, field: TileBitField): number {
+    const clamped = Math.max(0, Math.min(fieldMask(field), Math.floor(value)));
+    return (clamped << field.shift) >>> 0;
+}
+
+/**
+ * Extract a bit field from an encoded tile
+ */
+function unpackField(encoded: number, field: TileBitField): number {
+    return (encoded >>> field.shift) & fieldMask(field);
+}
+
+/**
+ * Encode tile fields into a u32
+ * Values outside a field's range are clamped (e.g. level 20 is stored as 15).
+ * @param tile - Tile fields
+ * @returns Encoded tile (unsigned 32-bit)
+ */
+export function encodeTile(tile: TileFields): number {
+    return (
+        packField(tile.terrain, TILE_FIELDS.TERRAIN) |
+        packField(tile.building, TILE_FIELDS.BUILDING) |
+        packField(tile.buildingLevel, TILE_FIELDS.LEVEL) |
+        packField(tile.ownerId, TILE_FIELDS.OWNER) |
+        packField(tile.visibility ?? TILE_VISIBILITY.VISIBLE, TILE_FIELDS.VISIBILITY)
+    ) >>> 0;
+}
+
+/**
+ * Decode a u32 into tile fields
+ * @param encoded - Encoded tile
+ * @returns Decoded tile fields
+ */
+export function decodeTile(encoded: number): TileFields {
+    return {
+        terrain: unpackField(encoded, TILE_FIELDS.TERRAIN),
+        building: unpackField(encoded, TILE_FIELDS.BUILDING),
+        buildingLevel: unpackField(encoded, TILE_FIELDS.LEVEL),
+        ownerId: unpackField(encoded, TILE_FIELDS.OWNER),
+        visibility: unpackField(encoded, TILE_FIELDS.VISIBILITY),
+    };
+}
+
+/**
+ * Generate a WGSL accessor for a bit field
+ */
+function wgslAccessor(name: string, field: TileBitField): string {
+    const mask = `0x${fieldMask(field).toString(16).toUpperCase()}u`;
+    return `fn ${name}(tile: u32) -> u32 { return (tile >> ${field.shift}u) & ${mask}; }`;
+}
+
+/**
+ * WGSL decode helpers matching encodeTile()
+ * Paste into a shader module's code to use tileTerrain(), tileBuilding(), tileLevel(), tileOwner()
+ * and tileVisibility(), compared against the VIS_VISIBLE / VIS_EXPLORED / VIS_UNEXPLORED constants.
+ */
+export const TILE_DECODE_WGSL = [
+    wgslAccessor('tileTerrain', TILE_FIELDS.TERRAIN),
+    wgslAccessor('tileBuilding', TILE_FIELDS.BUILDING),
+    wgslAccessor('tileLevel', TILE_FIELDS.LEVEL),
+    wgslAccessor('tileOwner', TILE_FIELDS.OWNER),
+    wgslAccessor('tileVisibility', TILE_FIELDS.VISIBILITY),
+    `const VIS_VISIBLE: u32 = ${TILE_VISIBILITY.VISIBLE}u;`,
+    `const VIS_EXPLORED: u32 = ${TILE_VISIBILITY.EXPLORED}u;`,
+    `const VIS_UNEXPLORED: u32 = ${TILE_VISIBILITY.UNEXPLORED}u;`,
+].join('\n');
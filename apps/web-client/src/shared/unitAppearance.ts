@@ -0,0 +1,47 @@
+/**
+ * Unit Appearance - Per-unit-type look shared by the main thread and shaders
+ *
+ * The main thread packs the unit catalog's appearance entries into a flat
+ * Float32Array (indexed by unit type ID) and sends it to the worker, which
+ * uploads it as a GPU lookup buffer. Shaders never hardcode unit types.
+ */
+
+/**
+ * Built-in unit marker shapes, by sprite ID (the index in this list)
+ */
+export const UNIT_SPRITES = ['square', 'circle', 'diamond', 'triangle', 'star'] as const;
+
+/**
+ * Name of a built-in unit marker shape
+ */
+export type UnitSprite = typeof UNIT_SPRITES[number];
+
+/**
+ * Floats per unit type in the appearance buffer: [r, g, b, spriteId]
+ * Slots for unknown type IDs hold spriteId -1 (drawn as a plain white square).
+ */
+export const UNIT_APPEARANCE_STRIDE = 4;
+
+/**
+ * WGSL helper returning whether a quad UV (0-1) lies inside a sprite shape
+ * Paste into a shader module's code to use unitSpriteMask().
+ */
+export const UNIT_SPRITE_WGSL = `
+fn unitSpriteMask(sprite: i32, uv: vec2<f32>) -> bool {
+    let p = uv - vec2<f32>(0.5, 0.5);
+    if (sprite == ${UNIT_SPRITES.indexOf('circle')}) {
+        return length(p) <= 0.5;
+    }
+    if (sprite == ${UNIT_SPRITES.indexOf('diamond')}) {
+        return abs(p.x) + abs(p.y) <= 0.5;
+    }
+    if (sprite == ${UNIT_SPRITES.indexOf('triangle')}) {
+        return uv.y <= 1.0 - 2.0 * abs(p.x);
+    }
+    if (sprite == ${UNIT_SPRITES.indexOf('star')}) {
+        // Four-pointed star (astroid)
+        return sqrt(abs(p.x)) + sqrt(abs(p.y)) <= 0.7071;
+    }
+    return true; // square and unknown sprites fill the quad
+}
+`;
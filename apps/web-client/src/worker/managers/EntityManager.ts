@@ -5,7 +5,8 @@
  * and manages the TypeGPU Storage Buffer used for GPU instancing.
  * 
  * The worker no longer generates its own unit data - it only receives and renders
- * what the main thread sends.
+ * what the main thread sends. That includes the unit type appearance table
+ * ([r, g, b, spriteId] per type ID), kept in a second storage buffer.
  */
 
 /**
@@ -25,6 +26,7 @@ export class EntityManager {
     private currentUnitCount: number = 0;
     private currentUnitData: Float32Array | null = null;
     private bufferVersion: number = 0; // Increments when buffer is recreated
+    private unitTypeBuffer: GPUBuffer | null = null;
     
     // Interpolation state for smooth movement
     private interpolationStates: Map<number, UnitInterpolationState> = new Map();
@@ -103,7 +105,7 @@ export class EntityManager {
         this.currentUnitData = unitData;
         this.currentUnitCount = unitCount;
 
-        if (needsNewBuffer) {
+        if (needsNewBuffer || !this.unitStorageBuffer) {
             // Don't destroy old buffer immediately - it might still be in use by the GPU
             // The old buffer will be garbage collected when no longer referenced
             // Instead, just create a new buffer and increment the version
@@ -129,13 +131,14 @@ export class EntityManager {
         // If there are active interpolations, don't write immediately
         // The update() method will handle writing interpolated data every frame
         // If no interpolations, write immediately
+        const storageBuffer = this.unitStorageBuffer;
         if (this.interpolationStates.size === 0) {
-            this.device.queue.writeBuffer(this.unitStorageBuffer, 0, unitData);
+            this.device.queue.writeBuffer(storageBuffer, 0, unitData as Float32Array<ArrayBuffer>);
         } else {
             // Start interpolation from current positions
             this.updateInterpolation();
             if (this.interpolatedData) {
-                this.device.queue.writeBuffer(this.unitStorageBuffer, 0, this.interpolatedData);
+                this.device.queue.writeBuffer(storageBuffer, 0, this.interpolatedData as Float32Array<ArrayBuffer>);
             }
         }
 
@@ -198,7 +201,35 @@ export class EntityManager {
 
         // Write interpolated or original data to buffer
         const dataToWrite = this.interpolatedData || this.currentUnitData;
-        this.device.queue.writeBuffer(this.unitStorageBuffer, 0, dataToWrite);
+        this.device.queue.writeBuffer(this.unitStorageBuffer, 0, dataToWrite as Float32Array<ArrayBuffer>);
+    }
+
+    /**
+     * Update the unit type appearance table from main thread
+     * The buffer is recreated (and the buffer version bumped) when the table grows
+     * or shrinks, e.g. when a scenario brings its own unit catalog.
+     * @param appearanceData - Float32Array of [r, g, b, spriteId] per unit type ID
+     */
+    updateUnitTypes(appearanceData: Float32Array): void {
+        if (!this.device) {
+            console.error('Victoriae [Worker Thread]: EntityManager not initialized');
+            return;
+        }
+
+        // Storage buffers cannot be empty, so an empty catalog still gets one slot
+        const size = Math.max(appearanceData.byteLength, 16);
+        if (!this.unitTypeBuffer || this.unitTypeBuffer.size !== size) {
+            this.unitTypeBuffer = this.device.createBuffer({
+                label: 'unit-type-buffer',
+                size,
+                usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+            });
+            this.bufferVersion++;
+        }
+
+        if (appearanceData.byteLength > 0) {
+            this.device.queue.writeBuffer(this.unitTypeBuffer, 0, appearanceData as Float32Array<ArrayBuffer>);
+        }
     }
 
     /**
@@ -209,6 +240,14 @@ export class EntityManager {
         return this.unitStorageBuffer;
     }
 
+    /**
+     * Get the unit type appearance buffer
+     * @returns GPUBuffer or null if no unit types have been received
+     */
+    getUnitTypeBuffer(): GPUBuffer | null {
+        return this.unitTypeBuffer;
+    }
+
     /**
      * Get the current unit count
      * @returns Number of units
@@ -236,7 +275,7 @@ export class EntityManager {
     /**
      * Get the current buffer version
      * Layers can use this to detect when the buffer has changed and recreate bind groups
-     * @returns Current buffer version (increments when buffer is recreated)
+     * @returns Current buffer version (increments when the unit or unit type buffer is recreated)
      */
     getBufferVersion(): number {
         return this.bufferVersion;
@@ -14,8 +14,10 @@
 export class MapManager {
     private device: GPUDevice | null = null;
     private tilemapStorageBuffer: GPUBuffer | null = null;
-    private currentMapSize: number = 0;
+    private currentMapWidth: number = 0;
+    private currentMapHeight: number = 0;
     private currentTileData: Uint32Array | null = null;
+    private bufferVersion: number = 0; // Increments when buffer is recreated
 
     /**
      * Initialize the MapManager with a GPU device
@@ -28,35 +30,40 @@ export class MapManager {
 
     /**
      * Update the tilemap data from main thread
-     * @param tileData - Uint32Array of tile IDs from main thread
-     * @param mapSize - Size of the map (width/height in tiles)
+     * @param tileData - Uint32Array of tile IDs from main thread (row-major)
+     * @param width - Map width in tiles
+     * @param height - Map height in tiles
      */
-    updateMapData(tileData: Uint32Array, mapSize: number): void {
+    updateMapData(tileData: Uint32Array, width: number, height: number): void {
         if (!this.device) {
             console.error('Victoriae [Worker Thread]: MapManager not initialized');
             return;
         }
 
-        const tileCount = mapSize * mapSize;
+        const tileCount = width * height;
 
         // Validate data size
         if (tileData.length !== tileCount) {
             console.error('Victoriae [Worker Thread]: Map data size mismatch', {
                 received: tileData.length,
                 expected: tileCount,
-                mapSize
+                width,
+                height
             });
             return;
         }
 
+        // Check if we need to recreate the buffer (dimensions changed or doesn't exist)
+        // IMPORTANT: Check BEFORE updating the current dimensions
+        const bufferSize = tileData.byteLength;
+        const needsNewBuffer = !this.tilemapStorageBuffer ||
+                              this.currentMapWidth !== width ||
+                              this.currentMapHeight !== height;
+
         // Store the current data
         this.currentTileData = tileData;
-        this.currentMapSize = mapSize;
-
-        // Check if we need to recreate the buffer (size changed or doesn't exist)
-        const bufferSize = tileData.byteLength;
-        const needsNewBuffer = !this.tilemapStorageBuffer || 
-                              this.currentMapSize !== mapSize;
+        this.currentMapWidth = width;
+        this.currentMapHeight = height;
 
         if (needsNewBuffer) {
             // Destroy old buffer if it exists
@@ -71,23 +78,85 @@ export class MapManager {
                 usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
             });
 
+            // Increment version to signal buffer change
+            this.bufferVersion++;
+
             console.log('Victoriae [Worker Thread]: MapManager created new storage buffer', {
-                mapSize,
+                width,
+                height,
                 tileCount,
-                bufferSize
+                bufferSize,
+                bufferVersion: this.bufferVersion
             });
         }
 
         // Update buffer with new data
-        this.device.queue.writeBuffer(this.tilemapStorageBuffer, 0, tileData);
+        // (tile data is transferred from the main thread, so it is never backed by a SharedArrayBuffer)
+        this.device.queue.writeBuffer(this.tilemapStorageBuffer!, 0, tileData as Uint32Array<ArrayBuffer>);
 
         console.log('Victoriae [Worker Thread]: MapManager updated tilemap data', {
-            mapSize,
+            width,
+            height,
             tileCount,
             bufferSize
         });
     }
 
+    /**
+     * Update a rectangular region of the tilemap
+     * Only the affected byte ranges of the storage buffer are written (one write per row,
+     * or a single write when the region spans full rows).
+     * @param x - Region X origin in tiles
+     * @param y - Region Y origin in tiles
+     * @param width - Region width in tiles
+     * @param height - Region height in tiles
+     * @param tileData - Uint32Array of encoded tiles (row-major, width * height elements)
+     */
+    updateMapRegion(x: number, y: number, width: number, height: number, tileData: Uint32Array): void {
+        if (!this.device || !this.tilemapStorageBuffer || !this.currentTileData) {
+            console.error('Victoriae [Worker Thread]: MapManager has no map data to update');
+            return;
+        }
+
+        // Validate region bounds and data size
+        const mapWidth = this.currentMapWidth;
+        const mapHeight = this.currentMapHeight;
+        if (x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > mapWidth || y + height > mapHeight) {
+            console.error('Victoriae [Worker Thread]: Map region out of bounds', {
+                x, y, width, height, mapWidth, mapHeight
+            });
+            return;
+        }
+        if (tileData.length !== width * height) {
+            console.error('Victoriae [Worker Thread]: Map region data size mismatch', {
+                received: tileData.length,
+                expected: width * height
+            });
+            return;
+        }
+
+        // Keep the CPU-side copy in sync
+        for (let row = 0; row < height; row++) {
+            const source = tileData.subarray(row * width, (row + 1) * width);
+            this.currentTileData.set(source, (y + row) * mapWidth + x);
+        }
+
+        // (tile data is transferred from the main thread, so it is never backed by a SharedArrayBuffer)
+        const data = tileData as Uint32Array<ArrayBuffer>;
+        const bytesPerTile = Uint32Array.BYTES_PER_ELEMENT;
+
+        if (width === mapWidth) {
+            // Full rows are contiguous in the buffer - one write covers the whole region
+            this.device.queue.writeBuffer(this.tilemapStorageBuffer, y * mapWidth * bytesPerTile, data);
+        } else {
+            // One write per row (dataOffset/size are in elements for typed arrays)
+            for (let row = 0; row < height; row++) {
+                const byteOffset = ((y + row) * mapWidth + x) * bytesPerTile;
+                this.device.queue.writeBuffer(this.tilemapStorageBuffer, byteOffset, data, row * width, width);
+            }
+        }
+    }
+
     /**
      * Get the tilemap storage buffer
      * @returns GPUBuffer or null if not initialized
@@ -97,11 +166,19 @@ export class MapManager {
     }
 
     /**
-     * Get the current map size
-     * @returns Map size (width/height in tiles)
+     * Get the current map width
+     * @returns Map width in tiles (0 if no map data yet)
      */
-    getMapSize(): number {
-        return this.currentMapSize;
+    getMapWidth(): number {
+        return this.currentMapWidth;
+    }
+
+    /**
+     * Get the current map height
+     * @returns Map height in tiles (0 if no map data yet)
+     */
+    getMapHeight(): number {
+        return this.currentMapHeight;
     }
 
     /**
@@ -119,4 +196,13 @@ export class MapManager {
     hasMapData(): boolean {
         return this.tilemapStorageBuffer !== null && this.currentTileData !== null;
     }
-}
+
+    /**
+     * Get the current buffer version
+     * Layers can use this to detect when the buffer has changed and recreate bind groups
+     * @returns Current buffer version (increments when buffer is recreated)
+     */
+    getBufferVersion(): number {
+        return this.bufferVersion;
+    }
+}
\ No newline at end of file
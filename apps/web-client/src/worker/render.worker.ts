@@ -4,10 +4,14 @@ import { WorldLayer } from './views/worldLayer';
 import { TestOverlayLayer } from './views/testOverlayLayer';
 import { MinimapView } from './views/MinimapView';
 import { UnitLayer } from './views/UnitLayer';
+import { SelectionBoxLayer } from './views/SelectionBoxLayer';
+import { EditorOverlayLayer } from './views/EditorOverlayLayer';
 import { MapManager } from './managers/MapManager';
 import { EntityManager } from './managers/EntityManager';
 import type { TgpuContext } from './types';
 import { SAB_OFFSETS } from '../shared/constants';
+import { TILE_ENCODING_VERSION } from '../shared/tileEncoding';
+import { UNIT_APPEARANCE_STRIDE } from '../shared/unitAppearance';
 
 let canvas: OffscreenCanvas;
 let sabView: Float32Array;
@@ -18,10 +22,11 @@ let format: GPUTextureFormat;
 let viewManager: ViewManager;
 let mapManager: MapManager;
 let entityManager: EntityManager;
+let pendingUnitTypes: Float32Array | null = null; // Unit type table received before EntityManager existed
 let gpuContext: TgpuContext | null = null;
 
 self.onmessage = async (e: MessageEvent) => {
-    const { type, canvas: receivedCanvas, sab, width, height, data } = e.data;
+    const { type, canvas: receivedCanvas, sab, width, height } = e.data;
 
     if (type === 'INIT') {
         console.log('Victoriae [Worker Thread]: Received INIT message', {
@@ -63,36 +68,75 @@ self.onmessage = async (e: MessageEvent) => {
         }
     } else if (type === 'UPDATE_MAP') {
         // Receive map data from main thread (zero-copy transfer)
+        // For this message, width/height are the map dimensions in tiles
+        const { tileData, encodingVersion } = e.data;
+
         console.log('Victoriae [Worker Thread]: Received UPDATE_MAP message', {
-            data: data ? `Uint32Array (${data.length} elements)` : 'MISSING'
+            tileData: tileData ? `Uint32Array (${tileData.length} elements)` : 'MISSING',
+            width,
+            height
         });
 
-        if (!data || !(data instanceof Uint32Array)) {
+        if (!tileData || !(tileData instanceof Uint32Array)) {
             console.error('Victoriae [Worker Thread]: ERROR - Invalid map data received');
             return;
         }
 
-        // Calculate map size from data length (assuming square map)
-        const mapSize = Math.sqrt(data.length);
-        if (!Number.isInteger(mapSize)) {
-            console.error('Victoriae [Worker Thread]: ERROR - Invalid map size (not a perfect square)', {
-                tileCount: data.length
+        // Reject tile data packed with a different encoding than the shaders decode
+        if (encodingVersion !== TILE_ENCODING_VERSION) {
+            console.error('Victoriae [Worker Thread]: ERROR - Unsupported tile encoding version', {
+                received: encodingVersion,
+                expected: TILE_ENCODING_VERSION
+            });
+            return;
+        }
+
+        // Validate map dimensions against the data length
+        if (!Number.isInteger(width) || !Number.isInteger(height) || width * height !== tileData.length) {
+            console.error('Victoriae [Worker Thread]: ERROR - Invalid map dimensions', {
+                width,
+                height,
+                tileCount: tileData.length
             });
             return;
         }
 
         // Update MapManager with new data
         if (mapManager) {
-            mapManager.updateMapData(data, mapSize);
+            mapManager.updateMapData(tileData, width, height);
             console.log('Victoriae [Worker Thread]: MapManager updated with new map data', {
-                mapSize,
-                tileCount: data.length
+                width,
+                height,
+                tileCount: tileData.length
             });
         } else {
             console.warn('Victoriae [Worker Thread]: MapManager not initialized yet, storing data for later');
             // Store data temporarily if MapManager isn't ready
             // This shouldn't happen in normal flow, but handle gracefully
         }
+    } else if (type === 'UPDATE_MAP_REGION') {
+        // Receive a changed block of tiles from main thread (zero-copy transfer)
+        // For this message, width/height are the region dimensions in tiles
+        const { tileData, x, y, encodingVersion } = e.data;
+
+        if (!tileData || !(tileData instanceof Uint32Array)) {
+            console.error('Victoriae [Worker Thread]: ERROR - Invalid map region data received');
+            return;
+        }
+
+        if (encodingVersion !== TILE_ENCODING_VERSION) {
+            console.error('Victoriae [Worker Thread]: ERROR - Unsupported tile encoding version', {
+                received: encodingVersion,
+                expected: TILE_ENCODING_VERSION
+            });
+            return;
+        }
+
+        if (mapManager) {
+            mapManager.updateMapRegion(x, y, width, height, tileData);
+        } else {
+            console.warn('Victoriae [Worker Thread]: MapManager not initialized yet, dropping map region update');
+        }
     } else if (type === 'UPDATE_UNITS') {
         // Receive unit data from main thread (zero-copy transfer)
         const { unitData, unitCount } = e.data;
@@ -129,6 +173,27 @@ self.onmessage = async (e: MessageEvent) => {
         } else {
             console.warn('Victoriae [Worker Thread]: EntityManager not initialized yet, storing data for later');
         }
+    } else if (type === 'UPDATE_UNIT_TYPES') {
+        // Receive the unit type appearance table from main thread (zero-copy transfer)
+        const { appearanceData, typeCount } = e.data;
+
+        if (!appearanceData || !(appearanceData instanceof Float32Array) ||
+            appearanceData.length !== typeCount * UNIT_APPEARANCE_STRIDE) {
+            console.error('Victoriae [Worker Thread]: ERROR - Invalid unit type data received', {
+                received: appearanceData?.length,
+                typeCount
+            });
+            return;
+        }
+
+        if (entityManager) {
+            entityManager.updateUnitTypes(appearanceData);
+            console.log('Victoriae [Worker Thread]: EntityManager updated unit types', { typeCount });
+        } else {
+            // The table is only sent once, so keep it until EntityManager exists
+            pendingUnitTypes = appearanceData;
+            console.log('Victoriae [Worker Thread]: EntityManager not initialized yet, storing unit types for later', { typeCount });
+        }
     }
 };
 
@@ -167,6 +232,10 @@ async function startRendering() {
     // Initialize EntityManager (passive listener for unit data)
     entityManager = new EntityManager();
     entityManager.init(device);
+    if (pendingUnitTypes) {
+        entityManager.updateUnitTypes(pendingUnitTypes);
+        pendingUnitTypes = null;
+    }
 
     // Create GPU context for layers
     gpuContext = {
@@ -188,6 +257,14 @@ async function startRendering() {
     // Added after WorldLayer so units render on top of the map
     viewManager.add(new UnitLayer(entityManager, mapManager));
 
+    // Add the SelectionBoxLayer (rubber-band box while the player drags to select units)
+    // Added after UnitLayer so the box is drawn over the units it covers
+    viewManager.add(new SelectionBoxLayer());
+
+    // Add the EditorOverlayLayer (map editor brush footprint and rectangle fill preview)
+    // Drawn only while the editor is open, over the tiles and units it edits
+    viewManager.add(new EditorOverlayLayer());
+
     // Add the MinimapView (renders simplified overview in top-right corner) - uses MapManager
     // Added at highest index so it renders as an overlay above everything
     viewManager.add(new MinimapView(mapManager));
@@ -237,10 +314,16 @@ async function startRendering() {
         const tileX = Math.floor(worldX);
         const tileY = Math.floor(worldY);
 
-        // Clamp to map bounds (0 to 63 for 64x64 map)
-        const MAP_SIZE = 64;
-        const clampedX = Math.max(0, Math.min(MAP_SIZE - 1, tileX));
-        const clampedY = Math.max(0, Math.min(MAP_SIZE - 1, tileY));
+        // Clamp to map bounds (0 to width-1, 0 to height-1)
+        const mapWidth = mapManager.getMapWidth();
+        const mapHeight = mapManager.getMapHeight();
+        if (mapWidth <= 0 || mapHeight <= 0) {
+            sabView[SAB_OFFSETS.HOVERED_TILE_X] = -1;
+            sabView[SAB_OFFSETS.HOVERED_TILE_Y] = -1;
+            return;
+        }
+        const clampedX = Math.max(0, Math.min(mapWidth - 1, tileX));
+        const clampedY = Math.max(0, Math.min(mapHeight - 1, tileY));
 
         // Write back to SAB (store as float, will be cast to int in shader)
         sabView[SAB_OFFSETS.HOVERED_TILE_X] = clampedX;
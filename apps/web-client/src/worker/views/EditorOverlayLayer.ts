@@ -0,0 +1,221 @@
+import type { VictoriaeLayer, TgpuContext, TgpuRenderPass, Viewport } from '../types';
+import { SAB_OFFSETS } from '../../shared/constants';
+import { BRUSH_WGSL, getBrushStart } from '../../shared/editorBrush';
+
+/**
+ * EditorOverlayLayer - Highlights the tiles the map editor's next edit will touch
+ *
+ * While the editor is open (EDITOR_ACTIVE) this layer reads the hovered tile and the
+ * brush size and shape from the SharedArrayBuffer and tints the brush footprint. While
+ * a rectangle fill is dragged (EDITOR_RECT_ACTIVE) it tints the rectangle from the drag
+ * start to the hovered tile instead. The footprint test is the shared BRUSH_WGSL, so the
+ * highlight matches the tiles MapEditor paints.
+ */
+export class EditorOverlayLayer implements VictoriaeLayer {
+    layerId: number = -1; // Will be assigned by ViewManager
+    visible: boolean = true;
+    viewport: Viewport | null = null; // Full screen - no viewport restriction
+
+    private device: GPUDevice | null = null;
+    private canvas: OffscreenCanvas | null = null;
+    private pipeline: GPURenderPipeline | null = null;
+    private bindGroup: GPUBindGroup | null = null;
+    private uniformBuffer: GPUBuffer | null = null;
+    private active: boolean = false;
+
+    init(context: TgpuContext): void {
+        this.device = context.device;
+        this.canvas = context.canvas;
+
+        // Camera (same layout as SelectionBoxLayer), brush and the tinted box
+        this.uniformBuffer = this.device.createBuffer({
+            label: 'editor-overlay-uniform-buffer',
+            size: 64, // 13 floats, aligned to 16 bytes
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        const shaderModule = this.device.createShaderModule({
+            label: 'editor-overlay-shader',
+            code: `
+                ${BRUSH_WGSL}
+
+                struct EditorOverlayUniform {
+                    pos: vec2<f32>,
+                    zoom: f32,
+                    brushSize: f32, // 0 while a rectangle is dragged (every tile in the box is tinted)
+                    screenSize: vec2<f32>,
+                    hoveredTile: vec2<f32>,
+                    boxMin: vec2<f32>, // World units
+                    boxMax: vec2<f32>,
+                    brushShape: f32,
+                };
+
+                @group(0) @binding(0) var<uniform> overlay: EditorOverlayUniform;
+
+                struct VertexOutput {
+                    @builtin(position) position: vec4<f32>,
+                    @location(0) worldPos: vec2<f32>,
+                };
+
+                @vertex
+                fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> VertexOutput {
+                    // Triangle strip over the box corners
+                    let corner = vec2<f32>(f32(vertexIndex & 1u), f32(vertexIndex >> 1u));
+                    let worldPos = mix(overlay.boxMin, overlay.boxMax, corner);
+
+                    // World to NDC (matches WorldLayer and UnitLayer)
+                    let zoom = max(overlay.zoom, 0.001);
+                    let worldSizeY = 2.0 / zoom;
+                    let worldSizeX = worldSizeY * (overlay.screenSize.x / overlay.screenSize.y);
+                    let ndc = (worldPos - overlay.pos) / vec2<f32>(worldSizeX * 0.5, worldSizeY * 0.5);
+
+                    var output: VertexOutput;
+                    output.position = vec4<f32>(ndc, 0.0, 1.0);
+                    output.worldPos = worldPos;
+                    return output;
+                }
+
+                @fragment
+                fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
+                    let tile = floor(input.worldPos);
+                    if (overlay.brushSize > 0.0) {
+                        let offset = vec2<i32>(tile - overlay.hoveredTile);
+                        if (!brushContains(offset, i32(overlay.brushSize), u32(overlay.brushShape))) {
+                            discard;
+                        }
+                    }
+
+                    // Thin outline around every tile, in screen pixels
+                    let pixelsPerWorldUnit = overlay.screenSize.y * max(overlay.zoom, 0.001) * 0.5;
+                    let inTile = input.worldPos - tile;
+                    let toEdge = min(inTile, vec2<f32>(1.0) - inTile) * pixelsPerWorldUnit;
+
+                    if (min(toEdge.x, toEdge.y) < 1.0) {
+                        return vec4<f32>(1.0, 0.85, 0.3, 0.8); // Tile outline
+                    }
+                    return vec4<f32>(1.0, 0.85, 0.3, 0.3); // Fill
+                }
+            `,
+        });
+
+        this.pipeline = this.device.createRenderPipeline({
+            label: 'editor-overlay-pipeline',
+            layout: 'auto',
+            vertex: {
+                module: shaderModule,
+                entryPoint: 'vs_main',
+            },
+            fragment: {
+                module: shaderModule,
+                entryPoint: 'fs_main',
+                targets: [{
+                    format: context.format,
+                    blend: {
+                        color: {
+                            srcFactor: 'src-alpha',
+                            dstFactor: 'one-minus-src-alpha',
+                        },
+                        alpha: {
+                            srcFactor: 'one',
+                            dstFactor: 'one-minus-src-alpha',
+                        },
+                    },
+                }],
+            },
+            primitive: {
+                topology: 'triangle-strip',
+            },
+        });
+
+        this.bindGroup = this.device.createBindGroup({
+            label: 'editor-overlay-bind-group',
+            layout: this.pipeline.getBindGroupLayout(0),
+            entries: [
+                {
+                    binding: 0,
+                    resource: {
+                        buffer: this.uniformBuffer,
+                    },
+                },
+            ],
+        });
+    }
+
+    update(sabView: Float32Array, deltaTime: number): void {
+        if (!this.device || !this.uniformBuffer || !this.canvas) return;
+
+        const hoveredX = sabView[SAB_OFFSETS.HOVERED_TILE_X];
+        const hoveredY = sabView[SAB_OFFSETS.HOVERED_TILE_Y];
+        this.active = sabView[SAB_OFFSETS.EDITOR_ACTIVE] > 0 && hoveredX >= 0 && hoveredY >= 0;
+        if (!this.active) return;
+
+        // Tinted box in tiles: the dragged rectangle, or the brush's bounding square
+        const isRect = sabView[SAB_OFFSETS.EDITOR_RECT_ACTIVE] > 0;
+        const brushSize = isRect ? 0 : Math.max(1, sabView[SAB_OFFSETS.EDITOR_BRUSH_SIZE]);
+        let minX: number, minY: number, maxX: number, maxY: number;
+        if (isRect) {
+            const startX = sabView[SAB_OFFSETS.EDITOR_RECT_START_X];
+            const startY = sabView[SAB_OFFSETS.EDITOR_RECT_START_Y];
+            minX = Math.min(startX, hoveredX);
+            minY = Math.min(startY, hoveredY);
+            maxX = Math.max(startX, hoveredX) + 1;
+            maxY = Math.max(startY, hoveredY) + 1;
+        } else {
+            const start = getBrushStart(brushSize);
+            minX = hoveredX + start;
+            minY = hoveredY + start;
+            maxX = minX + brushSize;
+            maxY = minY + brushSize;
+        }
+
+        // Tiles off the map are never edited
+        const mapWidth = sabView[SAB_OFFSETS.MAP_WIDTH];
+        const mapHeight = sabView[SAB_OFFSETS.MAP_HEIGHT];
+
+        const uniformData = new Float32Array(16);
+        uniformData[0] = sabView[SAB_OFFSETS.CAMERA_X] || 0.0;
+        uniformData[1] = sabView[SAB_OFFSETS.CAMERA_Y] || 0.0;
+        uniformData[2] = sabView[SAB_OFFSETS.CAMERA_ZOOM] || 1.0;
+        uniformData[3] = brushSize;
+        uniformData[4] = this.canvas.width || 800;
+        uniformData[5] = this.canvas.height || 600;
+        uniformData[6] = hoveredX;
+        uniformData[7] = hoveredY;
+        uniformData[8] = Math.max(0, minX);
+        uniformData[9] = Math.max(0, minY);
+        uniformData[10] = Math.min(mapWidth, maxX);
+        uniformData[11] = Math.min(mapHeight, maxY);
+        uniformData[12] = sabView[SAB_OFFSETS.EDITOR_BRUSH_SHAPE];
+
+        this.device.queue.writeBuffer(this.uniformBuffer, 0, uniformData);
+    }
+
+    render(
+        pass: TgpuRenderPass | null,
+        needsNewPass: boolean,
+        textureView: GPUTextureView,
+        commandEncoder: GPUCommandEncoder,
+        screenWidth: number,
+        screenHeight: number
+    ): GPURenderPassEncoder | null {
+        if (!this.pipeline || !this.bindGroup || !this.active) return pass?.encoder || null;
+
+        // The editor overlay always uses the existing pass (never creates a new one)
+        if (!pass) {
+            throw new Error('EditorOverlayLayer requires existing render pass');
+        }
+
+        const renderPass = pass.encoder;
+
+        // Full screen viewport (the brush can be anywhere on the map)
+        renderPass.setViewport(0, 0, screenWidth, screenHeight, 0.0, 1.0);
+        renderPass.setScissorRect(0, 0, screenWidth, screenHeight);
+
+        renderPass.setPipeline(this.pipeline);
+        renderPass.setBindGroup(0, this.bindGroup);
+        renderPass.draw(4, 1, 0, 0); // One quad over the tinted box
+
+        // Return existing pass for potential subsequent layers
+        return renderPass;
+    }
+}
@@ -1,7 +1,9 @@
 import type { VictoriaeLayer, TgpuContext, TgpuRenderPass, Viewport } from '../types';
 import { MapManager } from '../managers/MapManager';
+import { TILE_DECODE_WGSL } from '../../shared/tileEncoding';
+import { PLAYER_COLORS_WGSL } from '../../shared/playerColors';
 
-const MINIMAP_SIZE = 200; // Size of minimap in pixels (square)
+const MINIMAP_SIZE = 200; // Size of the minimap's longest side in pixels
 const MINIMAP_MARGIN = 10; // Margin from screen edge
 
 /**
@@ -9,6 +11,8 @@ const MINIMAP_MARGIN = 10; // Margin from screen edge
  * 
  * Reuses the MapManager storage buffer and renders with simplified hardcoded colors
  * for a clean pixel-art look. Shows the entire map at all times with a fixed camera.
+ * The viewport keeps the map's aspect ratio, so non-square maps are not stretched.
+ * Fog of war matches the WorldLayer: unexplored tiles are black, explored ones dimmed.
  */
 export class MinimapView implements VictoriaeLayer {
     layerId: number = -1; // Will be assigned by ViewManager
@@ -22,6 +26,7 @@ export class MinimapView implements VictoriaeLayer {
     private pipeline: GPURenderPipeline | null = null;
     private canvas: OffscreenCanvas | null = null;
     private format: GPUTextureFormat | null = null;
+    private lastBufferVersion: number = -1; // Track buffer version to detect changes
 
     constructor(mapManager: MapManager) {
         this.mapManager = mapManager;
@@ -32,9 +37,8 @@ export class MinimapView implements VictoriaeLayer {
         this.canvas = context.canvas;
         this.format = context.format;
 
-        // Set fixed viewport to top-right corner
+        // Set fixed viewport to top-right corner (resized to the map's aspect ratio in update())
         const screenWidth = this.canvas.width || 800;
-        const screenHeight = this.canvas.height || 600;
         this.viewport = {
             x: screenWidth - MINIMAP_SIZE - MINIMAP_MARGIN,
             y: MINIMAP_MARGIN,
@@ -55,7 +59,7 @@ export class MinimapView implements VictoriaeLayer {
                     },
                 },
                 {
-                    binding: 1, // Minimap uniform (map size, viewport position and size)
+                    binding: 1, // Minimap uniform (map width/height, viewport position and size)
                     visibility: GPUShaderStage.FRAGMENT,
                     buffer: {
                         type: 'uniform',
@@ -65,10 +69,10 @@ export class MinimapView implements VictoriaeLayer {
         });
 
         // Create uniform buffer for minimap settings
-        // Layout: mapSize (u32), viewportX (f32), viewportY (f32), viewportWidth (f32), viewportHeight (f32)
+        // Layout: mapWidth, mapHeight, viewportX, viewportY, viewportWidth, viewportHeight (all f32)
         const minimapUniformBuffer = this.device.createBuffer({
             label: 'minimap-uniform',
-            size: 32, // 5 values = 20 bytes, padded to 32
+            size: 32, // 6 values = 24 bytes, padded to 32
             usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
         });
 
@@ -77,19 +81,22 @@ export class MinimapView implements VictoriaeLayer {
             label: 'minimap-shader',
             code: `
                 struct MinimapUniform {
-                    mapSize: f32,  // Stored as f32, will be cast to u32
+                    mapWidth: f32,  // Stored as f32, will be cast to u32
+                    mapHeight: f32, // Stored as f32, will be cast to u32
                     viewportX: f32,
                     viewportY: f32,
                     viewportWidth: f32,
                     viewportHeight: f32,
                     padding1: f32,
                     padding2: f32,
-                    padding3: f32,
                 };
                 
                 @group(0) @binding(0) var<storage, read> tilemap: array<u32>;
                 @group(0) @binding(1) var<uniform> minimap: MinimapUniform;
                 
+                ${TILE_DECODE_WGSL}
+                ${PLAYER_COLORS_WGSL}
+                
                 @vertex
                 fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> @builtin(position) vec4<f32> {
                     var pos = vec2<f32>(-1.0, -1.0);
@@ -121,37 +128,55 @@ export class MinimapView implements VictoriaeLayer {
                     let viewportY = (screenPos.y - minimap.viewportY) / minimap.viewportHeight;
                     
                     // Calculate world position (entire map visible)
-                    // Minimap shows entire map, so world coordinates go from 0 to mapSize
-                    let mapSizeF = minimap.mapSize;
-                    let mapSizeU = u32(mapSizeF);
+                    // Minimap shows entire map, so world coordinates go from 0 to mapWidth/mapHeight
+                    // The viewport already has the map's aspect ratio, so tiles stay square
+                    let mapWidthU = u32(minimap.mapWidth);
+                    let mapHeightU = u32(minimap.mapHeight);
                     
                     // Convert viewport coordinates to world coordinates
-                    // Viewport goes from 0 to 1, world goes from 0 to mapSize
-                    let worldX = viewportX * mapSizeF;
-                    let worldY = viewportY * mapSizeF;
+                    // Viewport goes from 0 to 1, world goes from 0 to mapWidth/mapHeight
+                    let worldX = viewportX * minimap.mapWidth;
+                    let worldY = viewportY * minimap.mapHeight;
                     
                     // Clamp to map bounds
-                    let tileX = clamp(i32(floor(worldX)), 0, i32(mapSizeU) - 1);
-                    let tileY = clamp(i32(floor(worldY)), 0, i32(mapSizeU) - 1);
+                    let tileX = clamp(i32(floor(worldX)), 0, i32(mapWidthU) - 1);
+                    let tileY = clamp(i32(floor(worldY)), 0, i32(mapHeightU) - 1);
+                    
+                    // Get encoded tile from storage buffer
+                    let tileIndex = u32(tileY) * mapWidthU + u32(tileX);
+                    let tile = tilemap[tileIndex];
+                    let terrain = tileTerrain(tile);
+                    let visibility = tileVisibility(tile);
+                    
+                    // Never-seen tiles reveal nothing
+                    if (visibility == VIS_UNEXPLORED) {
+                        return vec4<f32>(0.0, 0.0, 0.0, 1.0);
+                    }
                     
-                    // Get tile ID from storage buffer
-                    let tileIndex = u32(tileY) * mapSizeU + u32(tileX);
-                    let tileId = tilemap[tileIndex];
+
+                    // Buildings show up as solid dots in their owner's color
+                    if (tileBuilding(tile) != 0u) {
+                        var buildingDot = playerColor(tileOwner(tile));
+                        if (visibility == VIS_EXPLORED) {
+                            buildingDot = buildingDot * 0.45;
+                        }
+                        return vec4<f32>(buildingDot, 1.0);
+                    }
                     
-                    // Return hardcoded color based on tile ID (simplified pixel-art look)
-                    // Tile ID 0-3 map to different terrain colors
+                    // Return hardcoded color based on terrain (simplified pixel-art look)
+                    // TerrainType 0-3 map to different terrain colors
                     var color: vec4<f32>;
                     
-                    if (tileId == 0u) {
+                    if (terrain == 0u) {
                         // Grass - Green
                         color = vec4<f32>(0.2, 0.8, 0.2, 1.0);
-                    } else if (tileId == 1u) {
+                    } else if (terrain == 1u) {
                         // Forest - Dark Green
                         color = vec4<f32>(0.1, 0.5, 0.1, 1.0);
-                    } else if (tileId == 2u) {
+                    } else if (terrain == 2u) {
                         // Water - Blue
                         color = vec4<f32>(0.2, 0.4, 0.9, 1.0);
-                    } else if (tileId == 3u) {
+                    } else if (terrain == 3u) {
                         // Mountain - Brown/Gray
                         color = vec4<f32>(0.5, 0.4, 0.3, 1.0);
                     } else {
@@ -159,6 +184,17 @@ export class MinimapView implements VictoriaeLayer {
                         color = vec4<f32>(0.1, 0.1, 0.1, 1.0);
                     }
                     
+                    // Owned territory is tinted with the owner's color
+                    let owner = tileOwner(tile);
+                    if (owner != 0u) {
+                        color = vec4<f32>(mix(color.rgb, playerColor(owner), 0.35), color.a);
+                    }
+                    
+                    // Explored but not currently visible
+                    if (visibility == VIS_EXPLORED) {
+                        color = vec4<f32>(color.rgb * 0.45, color.a);
+                    }
+                    
                     return color;
                 }
             `,
@@ -200,27 +236,38 @@ export class MinimapView implements VictoriaeLayer {
     update(sabView: Float32Array, deltaTime: number): void {
         if (!this.device || !this.minimapUniformBuffer) return;
 
+        const mapWidth = this.mapManager.getMapWidth();
+        const mapHeight = this.mapManager.getMapHeight();
+
         // Update viewport position based on current screen size
+        // The longest map side gets MINIMAP_SIZE pixels, the other side is scaled to keep tiles square
         if (this.canvas && this.viewport) {
             const screenWidth = this.canvas.width || 800;
-            const screenHeight = this.canvas.height || 600;
-            this.viewport.x = screenWidth - MINIMAP_SIZE - MINIMAP_MARGIN;
+            let minimapWidth = MINIMAP_SIZE;
+            let minimapHeight = MINIMAP_SIZE;
+            if (mapWidth > 0 && mapHeight > 0) {
+                if (mapWidth >= mapHeight) {
+                    minimapHeight = Math.max(1, Math.round(MINIMAP_SIZE * mapHeight / mapWidth));
+                } else {
+                    minimapWidth = Math.max(1, Math.round(MINIMAP_SIZE * mapWidth / mapHeight));
+                }
+            }
+            this.viewport.x = screenWidth - minimapWidth - MINIMAP_MARGIN;
             this.viewport.y = MINIMAP_MARGIN;
-            this.viewport.width = MINIMAP_SIZE;
-            this.viewport.height = MINIMAP_SIZE;
+            this.viewport.width = minimapWidth;
+            this.viewport.height = minimapHeight;
         }
 
-        // Get map size from MapManager and update uniform with map size and viewport info
-        const mapSize = this.mapManager.getMapSize();
-        if (mapSize > 0 && this.viewport) {
-            // Layout: mapSize (u32), viewportX (f32), viewportY (f32), viewportWidth (f32), viewportHeight (f32)
+        // Update uniform with map dimensions and viewport info
+        if (mapWidth > 0 && mapHeight > 0 && this.viewport) {
+            // Layout: mapWidth, mapHeight, viewportX, viewportY, viewportWidth, viewportHeight (all f32)
             const uniformData = new Float32Array(8); // 8 floats = 32 bytes
-            uniformData[0] = mapSize; // u32 as f32 (will be cast in shader)
-            uniformData[1] = this.viewport.x;
-            uniformData[2] = this.viewport.y;
-            uniformData[3] = this.viewport.width;
-            uniformData[4] = this.viewport.height;
-            uniformData[5] = 0.0; // padding
+            uniformData[0] = mapWidth; // u32 as f32 (will be cast in shader)
+            uniformData[1] = mapHeight; // u32 as f32 (will be cast in shader)
+            uniformData[2] = this.viewport.x;
+            uniformData[3] = this.viewport.y;
+            uniformData[4] = this.viewport.width;
+            uniformData[5] = this.viewport.height;
             uniformData[6] = 0.0; // padding
             uniformData[7] = 0.0; // padding
 
@@ -235,8 +282,20 @@ export class MinimapView implements VictoriaeLayer {
      * Ensure bind group is created when map data is available
      */
     private ensureBindGroup(): void {
-        if (!this.device || !this.minimapBindGroupLayout || this.minimapBindGroup) {
-            return; // Already created or not ready
+        if (!this.device || !this.minimapBindGroupLayout) {
+            return; // Not ready
+        }
+
+        // Check if buffer version changed - if so, invalidate bind group
+        const currentBufferVersion = this.mapManager.getBufferVersion();
+        if (currentBufferVersion !== this.lastBufferVersion) {
+            // Buffer changed (e.g. map resized) - invalidate old bind group
+            this.minimapBindGroup = null;
+            this.lastBufferVersion = currentBufferVersion;
+        }
+
+        if (this.minimapBindGroup) {
+            return; // Already created
         }
 
         const storageBuffer = this.mapManager.getStorageBuffer();
@@ -0,0 +1,182 @@
+import type { VictoriaeLayer, TgpuContext, TgpuRenderPass, Viewport } from '../types';
+import { SAB_OFFSETS } from '../../shared/constants';
+
+/**
+ * SelectionBoxLayer - Draws the rubber-band box while the player drags to select units
+ *
+ * The main thread writes the box corners in world units to the SharedArrayBuffer
+ * (SELECTION_BOX_* offsets) and sets SELECTION_BOX_ACTIVE while dragging; this layer
+ * reads them every frame and draws a translucent rectangle with a solid border.
+ * The box is anchored in world space, so it stays on the same tiles while the camera moves.
+ */
+export class SelectionBoxLayer implements VictoriaeLayer {
+    layerId: number = -1; // Will be assigned by ViewManager
+    visible: boolean = true;
+    viewport: Viewport | null = null; // Full screen - no viewport restriction
+
+    private device: GPUDevice | null = null;
+    private canvas: OffscreenCanvas | null = null;
+    private pipeline: GPURenderPipeline | null = null;
+    private bindGroup: GPUBindGroup | null = null;
+    private uniformBuffer: GPUBuffer | null = null;
+    private active: boolean = false;
+
+    init(context: TgpuContext): void {
+        this.device = context.device;
+        this.canvas = context.canvas;
+
+        // Camera (same layout as UnitLayer) followed by the box corners
+        this.uniformBuffer = this.device.createBuffer({
+            label: 'selection-box-uniform-buffer',
+            size: 48, // 10 floats, aligned to 16 bytes
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        const shaderModule = this.device.createShaderModule({
+            label: 'selection-box-shader',
+            code: `
+                struct SelectionBoxUniform {
+                    pos: vec2<f32>,
+                    zoom: f32,
+                    screenSize: vec2<f32>,
+                    boxMin: vec2<f32>, // World units
+                    boxMax: vec2<f32>,
+                };
+
+                @group(0) @binding(0) var<uniform> box: SelectionBoxUniform;
+
+                struct VertexOutput {
+                    @builtin(position) position: vec4<f32>,
+                    @location(0) worldPos: vec2<f32>,
+                };
+
+                @vertex
+                fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> VertexOutput {
+                    // Triangle strip over the box corners
+                    let corner = vec2<f32>(f32(vertexIndex & 1u), f32(vertexIndex >> 1u));
+                    let worldPos = mix(box.boxMin, box.boxMax, corner);
+
+                    // World to NDC (matches WorldLayer and UnitLayer)
+                    let zoom = max(box.zoom, 0.001);
+                    let worldSizeY = 2.0 / zoom;
+                    let worldSizeX = worldSizeY * (box.screenSize.x / box.screenSize.y);
+                    let ndc = (worldPos - box.pos) / vec2<f32>(worldSizeX * 0.5, worldSizeY * 0.5);
+
+                    var output: VertexOutput;
+                    output.position = vec4<f32>(ndc, 0.0, 1.0);
+                    output.worldPos = worldPos;
+                    return output;
+                }
+
+                @fragment
+                fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
+                    // Distance to the nearest edge in screen pixels
+                    let pixelsPerWorldUnit = box.screenSize.y * max(box.zoom, 0.001) * 0.5;
+                    let toEdge = min(input.worldPos - box.boxMin, box.boxMax - input.worldPos) * pixelsPerWorldUnit;
+
+                    if (min(toEdge.x, toEdge.y) < 2.0) {
+                        return vec4<f32>(1.0, 1.0, 1.0, 0.9); // Border
+                    }
+                    return vec4<f32>(1.0, 1.0, 1.0, 0.15); // Fill
+                }
+            `,
+        });
+
+        this.pipeline = this.device.createRenderPipeline({
+            label: 'selection-box-pipeline',
+            layout: 'auto',
+            vertex: {
+                module: shaderModule,
+                entryPoint: 'vs_main',
+            },
+            fragment: {
+                module: shaderModule,
+                entryPoint: 'fs_main',
+                targets: [{
+                    format: context.format,
+                    blend: {
+                        color: {
+                            srcFactor: 'src-alpha',
+                            dstFactor: 'one-minus-src-alpha',
+                        },
+                        alpha: {
+                            srcFactor: 'one',
+                            dstFactor: 'one-minus-src-alpha',
+                        },
+                    },
+                }],
+            },
+            primitive: {
+                topology: 'triangle-strip',
+            },
+        });
+
+        this.bindGroup = this.device.createBindGroup({
+            label: 'selection-box-bind-group',
+            layout: this.pipeline.getBindGroupLayout(0),
+            entries: [
+                {
+                    binding: 0,
+                    resource: {
+                        buffer: this.uniformBuffer,
+                    },
+                },
+            ],
+        });
+    }
+
+    update(sabView: Float32Array, deltaTime: number): void {
+        if (!this.device || !this.uniformBuffer || !this.canvas) return;
+
+        this.active = sabView[SAB_OFFSETS.SELECTION_BOX_ACTIVE] > 0;
+        if (!this.active) return;
+
+        const startX = sabView[SAB_OFFSETS.SELECTION_BOX_START_X];
+        const startY = sabView[SAB_OFFSETS.SELECTION_BOX_START_Y];
+        const endX = sabView[SAB_OFFSETS.SELECTION_BOX_END_X];
+        const endY = sabView[SAB_OFFSETS.SELECTION_BOX_END_Y];
+
+        const uniformData = new Float32Array(12);
+        uniformData[0] = sabView[SAB_OFFSETS.CAMERA_X] || 0.0;
+        uniformData[1] = sabView[SAB_OFFSETS.CAMERA_Y] || 0.0;
+        uniformData[2] = sabView[SAB_OFFSETS.CAMERA_ZOOM] || 1.0;
+        uniformData[3] = 0.0;
+        uniformData[4] = this.canvas.width || 800;
+        uniformData[5] = this.canvas.height || 600;
+        uniformData[6] = Math.min(startX, endX);
+        uniformData[7] = Math.min(startY, endY);
+        uniformData[8] = Math.max(startX, endX);
+        uniformData[9] = Math.max(startY, endY);
+
+        this.device.queue.writeBuffer(this.uniformBuffer, 0, uniformData);
+    }
+
+    render(
+        pass: TgpuRenderPass | null,
+        needsNewPass: boolean,
+        textureView: GPUTextureView,
+        commandEncoder: GPUCommandEncoder,
+        screenWidth: number,
+        screenHeight: number
+    ): GPURenderPassEncoder | null {
+        if (!this.pipeline || !this.bindGroup || !this.active) return pass?.encoder || null;
+
+        // Selection box always uses existing pass (never creates new one - it's an overlay)
+        if (!pass) {
+            throw new Error('SelectionBoxLayer requires existing render pass');
+        }
+
+        const renderPass = pass.encoder;
+
+        // Full screen viewport (the box can be dragged anywhere on the map)
+        renderPass.setViewport(0, 0, screenWidth, screenHeight, 0.0, 1.0);
+        renderPass.setScissorRect(0, 0, screenWidth, screenHeight);
+
+        renderPass.setPipeline(this.pipeline);
+        renderPass.setBindGroup(0, this.bindGroup);
+        renderPass.draw(4, 1, 0, 0); // One quad
+
+        // Return existing pass for potential subsequent layers
+        return renderPass;
+    }
+}
@@ -1,14 +1,22 @@
 import type { VictoriaeLayer, TgpuContext, TgpuRenderPass, Viewport } from '../types';
-import { SAB_OFFSETS } from '../../shared/constants';
+import { SAB_OFFSETS, STACK_GPU_ENCODING } from '../../shared/constants';
 import { EntityManager } from '../managers/EntityManager';
 import { MapManager } from '../managers/MapManager';
+import { TILE_DECODE_WGSL } from '../../shared/tileEncoding';
+import { UNIT_APPEARANCE_STRIDE, UNIT_SPRITE_WGSL } from '../../shared/unitAppearance';
 import * as d from 'typegpu/data';
 
 /**
  * UnitLayer - Renders units using GPU instancing
  * 
  * Uses a single 1x1 quad mesh and instancing to render all units in one draw call.
- * Each unit's position and type are read from the EntityManager storage buffer.
+ * Each unit's position and type are read from the EntityManager storage buffer, and
+ * the type's color and marker shape from the EntityManager unit type buffer (built
+ * from the main thread's unit catalog), so new unit types need no shader changes.
+ * Units standing on tiles the viewing player cannot currently see (fog of war bits in
+ * the MapManager tilemap) are not drawn, so enemy units outside vision stay hidden.
+ * Army stacks are drawn as a single marker (the unit with stack index 0) with one
+ * pip per unit in the stack; the other members are not drawn.
  */
 export class UnitLayer implements VictoriaeLayer {
     layerId: number = -1; // Will be assigned by ViewManager
@@ -25,6 +33,7 @@ export class UnitLayer implements VictoriaeLayer {
     private canvas: OffscreenCanvas | null = null;
     private format: GPUTextureFormat | null = null;
     private lastBufferVersion: number = -1; // Track buffer version to detect changes
+    private lastMapBufferVersion: number = -1; // Track tilemap buffer version (fog of war lookup)
 
     constructor(entityManager: EntityManager, mapManager: MapManager) {
         this.entityManager = entityManager;
@@ -41,6 +50,7 @@ export class UnitLayer implements VictoriaeLayer {
             pos: d.vec2f,
             zoom: d.f32,
             screenSize: d.vec2f,
+            mapSize: d.vec2f,
         });
 
         // Create bind group layout for units
@@ -61,6 +71,20 @@ export class UnitLayer implements VictoriaeLayer {
                         type: 'read-only-storage',
                     },
                 },
+                {
+                    binding: 2, // Tilemap storage buffer (fog of war lookup, reused from MapManager)
+                    visibility: GPUShaderStage.VERTEX,
+                    buffer: {
+                        type: 'read-only-storage',
+                    },
+                },
+                {
+                    binding: 3, // Unit type appearance buffer (color and sprite per type ID)
+                    visibility: GPUShaderStage.FRAGMENT,
+                    buffer: {
+                        type: 'read-only-storage',
+                    },
+                },
             ],
         });
 
@@ -80,10 +104,46 @@ export class UnitLayer implements VictoriaeLayer {
                     pos: vec2<f32>,
                     zoom: f32,
                     screenSize: vec2<f32>,
+                    mapSize: vec2<f32>, // Map width/height in tiles
                 };
                 
                 @group(0) @binding(0) var<uniform> camera: CameraUniform;
                 @group(0) @binding(1) var<storage, read> units: array<f32>; // Flat array: [x, y, typeId, state] per unit
+                @group(0) @binding(2) var<storage, read> tilemap: array<u32>;
+                @group(0) @binding(3) var<storage, read> unitTypes: array<f32>; // [r, g, b, spriteId] per type ID
+                
+                ${TILE_DECODE_WGSL}
+                
+                ${UNIT_SPRITE_WGSL}
+                
+                const UNIT_APPEARANCE_STRIDE: u32 = ${UNIT_APPEARANCE_STRIDE}u;
+                
+                // Army stack bits in the state float (see STACK_GPU_ENCODING)
+                const STACK_INDEX_SHIFT: u32 = ${STACK_GPU_ENCODING.INDEX_SHIFT}u;
+                const STACK_SIZE_SHIFT: u32 = ${STACK_GPU_ENCODING.SIZE_SHIFT}u;
+                const STACK_FIELD_MASK: u32 = ${STACK_GPU_ENCODING.FIELD_MASK}u;
+                
+                fn stackIndex(state: f32) -> u32 {
+                    return (u32(state) >> STACK_INDEX_SHIFT) & STACK_FIELD_MASK;
+                }
+                
+                fn stackSize(state: f32) -> u32 {
+                    return max((u32(state) >> STACK_SIZE_SHIFT) & STACK_FIELD_MASK, 1u);
+                }
+                
+                // Check if the tile under a unit is currently visible to the viewing player
+                fn isUnitVisible(unitX: f32, unitY: f32) -> bool {
+                    let mapWidth = i32(camera.mapSize.x);
+                    let mapHeight = i32(camera.mapSize.y);
+                    // Round to the nearest tile so units mid-move use the tile they are entering/leaving
+                    let tileX = i32(floor(unitX + 0.5));
+                    let tileY = i32(floor(unitY + 0.5));
+                    if (tileX < 0 || tileY < 0 || tileX >= mapWidth || tileY >= mapHeight) {
+                        return false;
+                    }
+                    let tile = tilemap[u32(tileY) * u32(mapWidth) + u32(tileX)];
+                    return tileVisibility(tile) == VIS_VISIBLE;
+                }
                 
                 // Unit quad size in world units (1 tile = 1 world unit)
                 const UNIT_SIZE: f32 = 0.8; // Slightly smaller than a tile for visibility
@@ -104,7 +164,7 @@ export class UnitLayer implements VictoriaeLayer {
                     let unitOffset = instanceIndex * 4u;
                     let unitX = units[unitOffset + 0u];
                     let unitY = units[unitOffset + 1u];
-                    // typeId and state are available but not needed in vertex shader
+                    let unitState = units[unitOffset + 3u];
                     
                     // Create a 1x1 quad centered at origin
                     // For triangle-strip: vertices form two triangles
@@ -151,7 +211,13 @@ export class UnitLayer implements VictoriaeLayer {
                     let ndcY = worldOffset.y / (worldSizeY * 0.5);
                     
                     // ndcY is already the flipped value (matches WorldLayer's ndc.y)
-                    let ndc = vec2<f32>(ndcX, ndcY);
+                    var ndc = vec2<f32>(ndcX, ndcY);
+                    
+                    // Fog of war and stacked units behind the stack marker: collapse to a
+                    // degenerate point outside the screen
+                    if (!isUnitVisible(unitX, unitY) || stackIndex(unitState) != 0u) {
+                        ndc = vec2<f32>(-2.0, -2.0);
+                    }
                     
                     var output: VertexOutput;
                     output.position = vec4<f32>(ndc, 0.0, 1.0);
@@ -175,25 +241,16 @@ export class UnitLayer implements VictoriaeLayer {
                     // UnitState.SELECTED = 1 << 0 = 1
                     let isSelected = (u32(unitState) & 1u) != 0u;
                     
-                    // Return color based on unit type (simple placeholder colors)
-                    var color: vec4<f32>;
-                    
-                    if (unitTypeId == 0.0) {
-                        // Warrior - Red
-                        color = vec4<f32>(1.0, 0.2, 0.2, 1.0);
-                    } else if (unitTypeId == 1.0) {
-                        // Archer - Green
-                        color = vec4<f32>(0.2, 1.0, 0.2, 1.0);
-                    } else if (unitTypeId == 2.0) {
-                        // Cavalry - Blue
-                        color = vec4<f32>(0.2, 0.2, 1.0, 1.0);
-                    } else if (unitTypeId == 3.0) {
-                        // Settler - Yellow
-                        color = vec4<f32>(1.0, 1.0, 0.2, 1.0);
-                    } else {
-                        // Unknown - White
-                        color = vec4<f32>(1.0, 1.0, 1.0, 1.0);
+                    // Look up the type's color and marker shape (unknown types: white square)
+                    var color = vec4<f32>(1.0, 1.0, 1.0, 1.0);
+                    var sprite: i32 = -1;
+                    let typeIndex = u32(max(unitTypeId, 0.0));
+                    if (typeIndex < arrayLength(&unitTypes) / UNIT_APPEARANCE_STRIDE) {
+                        let typeOffset = typeIndex * UNIT_APPEARANCE_STRIDE;
+                        color = vec4<f32>(unitTypes[typeOffset + 0u], unitTypes[typeOffset + 1u], unitTypes[typeOffset + 2u], 1.0);
+                        sprite = i32(unitTypes[typeOffset + 3u]);
                     }
+                    let insideSprite = unitSpriteMask(sprite, quadUV);
                     
                     // Apply visual indication for selected units
                     if (isSelected) {
@@ -206,13 +263,29 @@ export class UnitLayer implements VictoriaeLayer {
                                       quadUV.y < borderWidth || quadUV.y > (1.0 - borderWidth);
                         if (isBorder) {
                             // Bright yellow/white border for selected units
-                            color = vec4<f32>(1.0, 1.0, 0.5, 1.0);
+                            return vec4<f32>(1.0, 1.0, 0.5, 1.0);
                         }
                     } else {
                         // Slightly dim unselected units for contrast
                         color = color * 0.9;
                     }
                     
+                    // Stack size: one white pip per unit in a row along the top edge
+                    let size = stackSize(unitState);
+                    if (size > 1u && quadUV.y > 0.72 && quadUV.y < 0.86) {
+                        let pipWidth = 0.7 / f32(size);
+                        let local = (quadUV.x - 0.15) / pipWidth;
+                        let pip = floor(local);
+                        if (pip >= 0.0 && pip < f32(size) && fract(local) < 0.7) {
+                            return vec4<f32>(1.0, 1.0, 1.0, 1.0);
+                        }
+                    }
+                    
+                    // Outside the marker shape the map shows through
+                    if (!insideSprite) {
+                        discard;
+                    }
+                    
                     return color;
                 }
             `,
@@ -264,8 +337,8 @@ export class UnitLayer implements VictoriaeLayer {
         uniformData[3] = 0.0;
         uniformData[4] = screenWidth;
         uniformData[5] = screenHeight;
-        uniformData[6] = 0.0;
-        uniformData[7] = 0.0;
+        uniformData[6] = this.mapManager.getMapWidth();
+        uniformData[7] = this.mapManager.getMapHeight();
 
         this.device.queue.writeBuffer(this.cameraUniformBuffer, 0, uniformData);
 
@@ -277,7 +350,7 @@ export class UnitLayer implements VictoriaeLayer {
     }
 
     /**
-     * Ensure bind group is created when unit data is available
+     * Ensure bind group is created when unit and map data are available
      */
     private ensureBindGroup(): void {
         if (!this.device || !this.unitBindGroupLayout) {
@@ -285,16 +358,21 @@ export class UnitLayer implements VictoriaeLayer {
         }
 
         const storageBuffer = this.entityManager.getStorageBuffer();
-        if (!storageBuffer || !this.cameraUniformBuffer) {
-            return; // Unit data not available yet
+        const unitTypeBuffer = this.entityManager.getUnitTypeBuffer();
+        const tilemapBuffer = this.mapManager.getStorageBuffer();
+        if (!storageBuffer || !unitTypeBuffer || !tilemapBuffer || !this.cameraUniformBuffer) {
+            return; // Unit, unit type or map data not available yet
         }
 
-        // Check if buffer version changed - if so, invalidate bind group
+        // Check if either buffer version changed - if so, invalidate bind group
         const currentBufferVersion = this.entityManager.getBufferVersion();
-        if (currentBufferVersion !== this.lastBufferVersion) {
+        const currentMapBufferVersion = this.mapManager.getBufferVersion();
+        if (currentBufferVersion !== this.lastBufferVersion ||
+            currentMapBufferVersion !== this.lastMapBufferVersion) {
             // Buffer changed - invalidate old bind group
             this.unitBindGroup = null;
             this.lastBufferVersion = currentBufferVersion;
+            this.lastMapBufferVersion = currentMapBufferVersion;
         }
 
         // Create bind group if it doesn't exist
@@ -315,6 +393,18 @@ export class UnitLayer implements VictoriaeLayer {
                             buffer: storageBuffer,
                         },
                     },
+                    {
+                        binding: 2,
+                        resource: {
+                            buffer: tilemapBuffer,
+                        },
+                    },
+                    {
+                        binding: 3,
+                        resource: {
+                            buffer: unitTypeBuffer,
+                        },
+                    },
                 ],
             });
             console.log('Victoriae [Worker Thread]: UnitLayer bind group created with unit data');
@@ -1,6 +1,7 @@
 import type { VictoriaeLayer, TgpuContext, TgpuRenderPass, Viewport } from '../types';
 import { SAB_OFFSETS } from '../../shared/constants';
 import { MapManager } from '../managers/MapManager';
+import { TILE_DECODE_WGSL } from '../../shared/tileEncoding';
 import * as d from 'typegpu/data';
 
 const MINIMAP_SIZE = 200; // Size of minimap in pixels (square)
@@ -52,6 +53,7 @@ export class MinimapLayer implements VictoriaeLayer {
             pos: d.vec2f,
             zoom: d.f32,
             screenSize: d.vec2f,
+            mapSize: d.vec2f,
         });
 
         // Create bind group layout for tilemap (same as WorldLayer)
@@ -172,6 +174,7 @@ export class MinimapLayer implements VictoriaeLayer {
                     pos: vec2<f32>,
                     zoom: f32,
                     screenSize: vec2<f32>,
+                    mapSize: vec2<f32>, // Map width/height in tiles
                 };
                 
                 @group(0) @binding(0) var<uniform> camera: CameraUniform;
@@ -179,9 +182,10 @@ export class MinimapLayer implements VictoriaeLayer {
                 @group(0) @binding(2) var tileset: texture_2d<f32>;
                 @group(0) @binding(3) var tilesetSampler: sampler;
                 
-                const MAP_SIZE: u32 = 64u;
                 const TILESET_COLS: u32 = 4u;
                 
+                ${TILE_DECODE_WGSL}
+                
                 @vertex
                 fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> @builtin(position) vec4<f32> {
                     var pos = vec2<f32>(-1.0, -1.0);
@@ -214,18 +218,21 @@ export class MinimapLayer implements VictoriaeLayer {
                         ndc.y * (worldSizeY * 0.5) + camera.pos.y
                     );
                     
+                    let mapWidth = u32(camera.mapSize.x);
+                    let mapHeight = u32(camera.mapSize.y);
+                    
                     let tileCoord = vec2<i32>(floor(worldPos));
-                    let clampedX = clamp(tileCoord.x, 0, i32(MAP_SIZE) - 1);
-                    let clampedY = clamp(tileCoord.y, 0, i32(MAP_SIZE) - 1);
+                    let clampedX = clamp(tileCoord.x, 0, i32(mapWidth) - 1);
+                    let clampedY = clamp(tileCoord.y, 0, i32(mapHeight) - 1);
                     
-                    let isOutOfBounds = tileCoord.x < 0 || tileCoord.x >= i32(MAP_SIZE) || 
-                                        tileCoord.y < 0 || tileCoord.y >= i32(MAP_SIZE);
+                    let isOutOfBounds = tileCoord.x < 0 || tileCoord.x >= i32(mapWidth) || 
+                                        tileCoord.y < 0 || tileCoord.y >= i32(mapHeight);
                     
-                    let tileIndex = u32(clampedY) * MAP_SIZE + u32(clampedX);
-                    let tileId = tilemap[tileIndex];
+                    let tileIndex = u32(clampedY) * mapWidth + u32(clampedX);
+                    let terrain = min(tileTerrain(tilemap[tileIndex]), TILESET_COLS - 1u);
                     
                     let tileUV = fract(worldPos);
-                    let tilesetU = (f32(tileId) + tileUV.x) / f32(TILESET_COLS);
+                    let tilesetU = (f32(terrain) + tileUV.x) / f32(TILESET_COLS);
                     let tilesetV = tileUV.y;
                     
                     let color = textureSample(tileset, tilesetSampler, vec2<f32>(tilesetU, tilesetV));
@@ -276,22 +283,23 @@ export class MinimapLayer implements VictoriaeLayer {
         this.viewport.width = MINIMAP_SIZE;
         this.viewport.height = MINIMAP_SIZE;
 
-        // Get map size from MapManager (dynamic, not hardcoded)
-        const mapSize = this.mapManager.getMapSize();
-        if (mapSize === 0) {
+        // Get map dimensions from MapManager (dynamic, not hardcoded)
+        const mapWidth = this.mapManager.getMapWidth();
+        const mapHeight = this.mapManager.getMapHeight();
+        if (mapWidth === 0 || mapHeight === 0) {
             return; // Map data not available yet
         }
 
         // Minimap camera: centered on map, zoomed out to show entire map
         // Camera position: center of map
-        const minimapCamX = mapSize * 0.5; // Center of map
-        const minimapCamY = mapSize * 0.5; // Center of map
+        const minimapCamX = mapWidth * 0.5; // Center of map
+        const minimapCamY = mapHeight * 0.5; // Center of map
         
         // Calculate zoom to fit entire map in minimap
-        // We want the entire map to fit in the minimap viewport
-        // worldSizeY = 2.0 / zoom, and we want worldSizeY >= mapSize
-        // So: 2.0 / zoom >= mapSize => zoom <= 2.0 / mapSize
-        const minimapZoom = 2.0 / mapSize; // Zoom to show entire map
+        // We want the entire map to fit in the (square) minimap viewport
+        // worldSizeY = 2.0 / zoom, and we want worldSizeY >= max(mapWidth, mapHeight)
+        // So: zoom <= 2.0 / max(mapWidth, mapHeight)
+        const minimapZoom = 2.0 / Math.max(mapWidth, mapHeight); // Zoom to show entire map
 
         // Update camera uniform buffer with minimap camera settings
         const uniformData = new Float32Array(8);
@@ -301,8 +309,8 @@ export class MinimapLayer implements VictoriaeLayer {
         uniformData[3] = 0.0;
         uniformData[4] = MINIMAP_SIZE; // Use minimap size as screen size for coordinate calculation
         uniformData[5] = MINIMAP_SIZE;
-        uniformData[6] = 0.0;
-        uniformData[7] = 0.0;
+        uniformData[6] = mapWidth;
+        uniformData[7] = mapHeight;
 
         this.device.queue.writeBuffer(this.cameraUniformBuffer, 0, uniformData.buffer);
 
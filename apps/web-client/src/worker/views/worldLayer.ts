@@ -1,11 +1,19 @@
 import type { VictoriaeLayer, TgpuContext, TgpuRenderPass, Viewport } from '../types';
 import { SAB_OFFSETS } from '../../shared/constants';
+import { TILE_DECODE_WGSL } from '../../shared/tileEncoding';
+import { PLAYER_COLORS_WGSL } from '../../shared/playerColors';
 import { MapManager } from '../managers/MapManager';
 import * as d from 'typegpu/data';
 
 /**
  * World layer - renders the base tilemap
  * Uses MapManager to get tilemap data (passive listener - no local generation)
+ * 
+ * Tiles are bit-packed (see shared/tileEncoding.ts): terrain is sampled from the tileset,
+ * buildings are drawn as an overlay on top of it, and owned tiles get their owner's tint.
+ * City tiles (BuildingType.CITY) are drawn as a walled block, with walls only on the outer
+ * edge of the city footprint so multi-tile cities read as one object.
+ * Fog of war: unexplored tiles are black, explored-but-hidden tiles are dimmed.
  */
 export class WorldLayer implements VictoriaeLayer {
     layerId: number = -1; // Will be assigned by ViewManager
@@ -24,6 +32,7 @@ export class WorldLayer implements VictoriaeLayer {
     private pipeline: GPURenderPipeline | null = null;
     private canvas: OffscreenCanvas | null = null;
     private format: GPUTextureFormat | null = null;
+    private lastBufferVersion: number = -1; // Track buffer version to detect changes
 
     constructor(mapManager: MapManager) {
         this.mapManager = mapManager;
@@ -39,6 +48,7 @@ export class WorldLayer implements VictoriaeLayer {
             pos: d.vec2f,
             zoom: d.f32,
             screenSize: d.vec2f,
+            mapSize: d.vec2f,
         });
 
         // Create bind group layout for tilemap
@@ -111,7 +121,7 @@ export class WorldLayer implements VictoriaeLayer {
         // We don't generate any data here - we're a passive listener
         // The buffer will be created/updated when UPDATE_MAP message arrives
 
-        // Create placeholder tileset texture
+        // Create placeholder tileset texture (one column per TerrainType)
         const TILE_SIZE = 32;
         const TILESET_COLS = 4;
         const TILESET_ROWS = 1;
@@ -120,10 +130,10 @@ export class WorldLayer implements VictoriaeLayer {
         const tilesetData = new Uint8Array(tilesetWidth * tilesetHeight * 4);
 
         const tileColors = [
-            [100, 250, 100, 255],  // Tile 0: Green
-            [250, 100, 100, 255],  // Tile 1: Red
-            [100, 100, 250, 255],  // Tile 2: Blue
-            [250, 250, 100, 255],  // Tile 3: Yellow
+            [100, 200, 90, 255],   // Tile 0: Grass - Green
+            [40, 120, 50, 255],    // Tile 1: Forest - Dark Green
+            [60, 110, 220, 255],   // Tile 2: Water - Blue
+            [140, 120, 100, 255],  // Tile 3: Mountain - Brown/Gray
         ];
 
         for (let tileId = 0; tileId < TILESET_COLS; tileId++) {
@@ -182,6 +192,7 @@ export class WorldLayer implements VictoriaeLayer {
                     pos: vec2<f32>,
                     zoom: f32,
                     screenSize: vec2<f32>,
+                    mapSize: vec2<f32>, // Map width/height in tiles
                 };
                 
                 struct HoveredTileUniform {
@@ -195,8 +206,31 @@ export class WorldLayer implements VictoriaeLayer {
                 @group(0) @binding(3) var tilesetSampler: sampler;
                 @group(0) @binding(4) var<uniform> hoveredTile: HoveredTileUniform;
                 
-                const MAP_SIZE: u32 = 64u;
                 const TILESET_COLS: u32 = 4u;
+                const BUILDING_CITY: u32 = 4u;
+                
+                ${TILE_DECODE_WGSL}
+                ${PLAYER_COLORS_WGSL}
+                
+                // Building overlay colors (BuildingType: FARM=1, MINE=2, FORTRESS=3)
+                fn buildingColor(building: u32) -> vec3<f32> {
+                    if (building == 1u) {
+                        return vec3<f32>(0.9, 0.8, 0.35); // Farm - Wheat
+                    } else if (building == 2u) {
+                        return vec3<f32>(0.35, 0.3, 0.3); // Mine - Dark stone
+                    } else if (building == 3u) {
+                        return vec3<f32>(0.7, 0.7, 0.75); // Fortress - Light stone
+                    }
+                    return vec3<f32>(1.0, 0.0, 1.0); // Unknown - Magenta
+                }
+                
+                // Check if a tile is part of a city (out-of-bounds tiles are not)
+                fn isCityTile(x: i32, y: i32, mapWidth: u32, mapHeight: u32) -> bool {
+                    if (x < 0 || y < 0 || x >= i32(mapWidth) || y >= i32(mapHeight)) {
+                        return false;
+                    }
+                    return tileBuilding(tilemap[u32(y) * mapWidth + u32(x)]) == BUILDING_CITY;
+                }
                 
                 @vertex
                 fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> @builtin(position) vec4<f32> {
@@ -230,22 +264,77 @@ export class WorldLayer implements VictoriaeLayer {
                         ndc.y * (worldSizeY * 0.5) + camera.pos.y
                     );
                     
+                    let mapWidth = u32(camera.mapSize.x);
+                    let mapHeight = u32(camera.mapSize.y);
+                    if (mapWidth == 0u || mapHeight == 0u) {
+                        return vec4<f32>(0.1, 0.1, 0.1, 1.0);
+                    }
+                    
                     let tileCoord = vec2<i32>(floor(worldPos));
-                    let clampedX = clamp(tileCoord.x, 0, i32(MAP_SIZE) - 1);
-                    let clampedY = clamp(tileCoord.y, 0, i32(MAP_SIZE) - 1);
+                    let clampedX = clamp(tileCoord.x, 0, i32(mapWidth) - 1);
+                    let clampedY = clamp(tileCoord.y, 0, i32(mapHeight) - 1);
                     
-                    let isOutOfBounds = tileCoord.x < 0 || tileCoord.x >= i32(MAP_SIZE) || 
-                                        tileCoord.y < 0 || tileCoord.y >= i32(MAP_SIZE);
+                    let isOutOfBounds = tileCoord.x < 0 || tileCoord.x >= i32(mapWidth) || 
+                                        tileCoord.y < 0 || tileCoord.y >= i32(mapHeight);
                     
-                    let tileIndex = u32(clampedY) * MAP_SIZE + u32(clampedX);
-                    let tileId = tilemap[tileIndex];
+                    let tileIndex = u32(clampedY) * mapWidth + u32(clampedX);
+                    let tile = tilemap[tileIndex];
+                    let terrain = min(tileTerrain(tile), TILESET_COLS - 1u);
+                    let building = tileBuilding(tile);
+                    let owner = tileOwner(tile);
                     
                     let tileUV = fract(worldPos);
-                    let tilesetU = (f32(tileId) + tileUV.x) / f32(TILESET_COLS);
+                    let tilesetU = (f32(terrain) + tileUV.x) / f32(TILESET_COLS);
                     let tilesetV = tileUV.y;
                     
                     var color = textureSample(tileset, tilesetSampler, vec2<f32>(tilesetU, tilesetV));
                     
+                    // Owned tiles get a subtle owner tint
+                    if (owner != 0u) {
+                        color = vec4<f32>(mix(color.rgb, playerColor(owner), 0.2), color.a);
+                    }
+                    
+                    if (building == BUILDING_CITY) {
+                        // City block: stone floor tinted by owner, with a 3x3 grid of houses
+                        color = vec4<f32>(mix(vec3<f32>(0.62, 0.58, 0.52), playerColor(owner), 0.25), 1.0);
+                        let cell = fract(tileUV * 3.0);
+                        if (cell.x > 0.2 && cell.x < 0.8 && cell.y > 0.2 && cell.y < 0.8) {
+                            color = vec4<f32>(0.55, 0.3, 0.22, 1.0); // Roofs
+                        }
+                        
+                        // Walls in the owner's color on the outer edge of the footprint
+                        let wall = 0.12;
+                        let onWall =
+                            (tileUV.x < wall && !isCityTile(clampedX - 1, clampedY, mapWidth, mapHeight)) ||
+                            (tileUV.x > 1.0 - wall && !isCityTile(clampedX + 1, clampedY, mapWidth, mapHeight)) ||
+                            (tileUV.y < wall && !isCityTile(clampedX, clampedY - 1, mapWidth, mapHeight)) ||
+                            (tileUV.y > 1.0 - wall && !isCityTile(clampedX, clampedY + 1, mapWidth, mapHeight));
+                        if (onWall) {
+                            color = vec4<f32>(playerColor(owner), 1.0);
+                        }
+                    } else if (building != 0u) {
+                        // Building overlay: a centered square that grows with level, outlined in the owner's color
+                        let level = tileLevel(tile);
+                        let halfSize = 0.2 + 0.04 * f32(min(level, 5u));
+                        let offset = abs(tileUV - vec2<f32>(0.5, 0.5));
+                        let distance = max(offset.x, offset.y);
+                        if (distance < halfSize) {
+                            if (distance > halfSize - 0.06) {
+                                color = vec4<f32>(playerColor(owner), 1.0);
+                            } else {
+                                color = vec4<f32>(buildingColor(building), 1.0);
+                            }
+                        }
+                    }
+                    
+                    // Fog of war for the viewing player
+                    let visibility = tileVisibility(tile);
+                    if (visibility == VIS_UNEXPLORED) {
+                        color = vec4<f32>(0.0, 0.0, 0.0, 1.0);
+                    } else if (visibility == VIS_EXPLORED) {
+                        color = vec4<f32>(color.rgb * 0.45, color.a);
+                    }
+                    
                     if (isOutOfBounds) {
                         return color * 0.3;
                     }
@@ -322,8 +411,8 @@ export class WorldLayer implements VictoriaeLayer {
         uniformData[3] = 0.0;
         uniformData[4] = screenWidth;
         uniformData[5] = screenHeight;
-        uniformData[6] = 0.0;
-        uniformData[7] = 0.0;
+        uniformData[6] = this.mapManager.getMapWidth();
+        uniformData[7] = this.mapManager.getMapHeight();
 
         this.device.queue.writeBuffer(this.cameraUniformBuffer, 0, uniformData);
 
@@ -351,8 +440,20 @@ export class WorldLayer implements VictoriaeLayer {
      * Ensure bind group is created when map data is available
      */
     private ensureBindGroup(): void {
-        if (!this.device || !this.tilemapBindGroupLayout || this.tilemapBindGroup) {
-            return; // Already created or not ready
+        if (!this.device || !this.tilemapBindGroupLayout) {
+            return; // Not ready
+        }
+
+        // Check if buffer version changed - if so, invalidate bind group
+        const currentBufferVersion = this.mapManager.getBufferVersion();
+        if (currentBufferVersion !== this.lastBufferVersion) {
+            // Buffer changed (e.g. map resized) - invalidate old bind group
+            this.tilemapBindGroup = null;
+            this.lastBufferVersion = currentBufferVersion;
+        }
+
+        if (this.tilemapBindGroup) {
+            return; // Already created
         }
 
         const storageBuffer = this.mapManager.getStorageBuffer();